@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getSqliteStorage,
+  isServerStorageEnabled,
+  isStorageRequestAuthorized,
+  isStorageTokenConfigured,
+} from "@/lib/data/storage/sqlite-storage";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Shared checks; returns an error response, or the blob key to work on.
+ */
+function readBlobRequest(request: NextRequest): NextResponse | string {
+  if (!isServerStorageEnabled()) {
+    return NextResponse.json(
+      { error: "Server storage is not enabled" },
+      { status: 404 },
+    );
+  }
+  if (!isStorageTokenConfigured()) {
+    return NextResponse.json(
+      { error: "Server storage requires NARRATIUM_STORAGE_TOKEN to be set" },
+      { status: 503 },
+    );
+  }
+  if (!isStorageRequestAuthorized(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const key = request.nextUrl.searchParams.get("key");
+  if (!key) {
+    return NextResponse.json({ error: "Missing blob key" }, { status: 400 });
+  }
+  return key;
+}
+
+export async function GET(request: NextRequest) {
+  const key = readBlobRequest(request);
+  if (typeof key !== "string") {
+    return key;
+  }
+
+  const blob = getSqliteStorage().getBlob(key);
+  if (!blob) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+  return new NextResponse(new Uint8Array(blob.data), {
+    headers: { "Content-Type": blob.type },
+  });
+}
+
+export async function PUT(request: NextRequest) {
+  const key = readBlobRequest(request);
+  if (typeof key !== "string") {
+    return key;
+  }
+
+  try {
+    const data = Buffer.from(await request.arrayBuffer());
+    getSqliteStorage().putBlob(
+      key,
+      request.headers.get("content-type") || "application/octet-stream",
+      data,
+    );
+    return NextResponse.json({ result: null });
+  } catch (error) {
+    console.error("Server blob storage error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 500 },
+    );
+  }
+}
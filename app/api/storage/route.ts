@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getSqliteStorage,
+  isServerStorageEnabled,
+  isStorageRequestAuthorized,
+  isStorageTokenConfigured,
+} from "@/lib/data/storage/sqlite-storage";
+import { StorageBackendError } from "@/lib/data/storage/storage-backend";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  return NextResponse.json({
+    enabled: isServerStorageEnabled() && isStorageTokenConfigured(),
+    authRequired: true,
+  });
+}
+
+export async function POST(request: NextRequest) {
+  if (!isServerStorageEnabled()) {
+    return NextResponse.json(
+      { error: "Server storage is not enabled" },
+      { status: 404 },
+    );
+  }
+  if (!isStorageTokenConfigured()) {
+    return NextResponse.json(
+      { error: "Server storage requires NARRATIUM_STORAGE_TOKEN to be set" },
+      { status: 503 },
+    );
+  }
+  if (!isStorageRequestAuthorized(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { action, storeName, key, indexName, value, operations } =
+      await request.json();
+    const storage = getSqliteStorage();
+
+    switch (action) {
+    case "get":
+      return NextResponse.json({ result: storage.getRecord(storeName, key) });
+    case "getAll":
+      return NextResponse.json({ result: storage.getAllRecords(storeName) });
+    case "getAllKeys":
+      return NextResponse.json({ result: storage.getAllKeys(storeName) });
+    case "getByIndex":
+      return NextResponse.json({
+        result: storage.getRecordsByIndex(storeName, indexName, value),
+      });
+    case "batch":
+      storage.applyBatch(Array.isArray(operations) ? operations : []);
+      return NextResponse.json({ result: null });
+    default:
+      return NextResponse.json(
+        { error: `Unknown action "${action}"` },
+        { status: 400 },
+      );
+    }
+  } catch (error) {
+    console.error("Server storage error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: error instanceof StorageBackendError ? error.status || 500 : 500 },
+    );
+  }
+}
@@ -8,6 +8,7 @@
  * - Character editing capabilities
  * - Character download options
  * - Character deletion
+ * - Library search, filters, sort orders and collections
  * - Responsive design with fantasy-themed UI
  *
  * The page integrates with various modals for character management and
@@ -17,23 +18,48 @@
  * - ImportCharacterModal: For importing new characters
  * - EditCharacterModal: For editing existing character
  * - DownloadCharacterModal: For downloading character data
+ * - GroupChatsModal: For managing group chats between characters
+ * - CharacterLibraryBar: For searching, filtering and organising the library
  * - CharacterCardGrid: For displaying characters in grid view
  * - Framer Motion: For animations
  */
 
 "use client";
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import { useLanguage } from "@/app/i18n";
 import { motion } from "framer-motion";
 import ImportCharacterModal from "@/components/ImportCharacterModal";
 import EditCharacterModal from "@/components/EditCharacterModal";
 import DownloadCharacterModal from "@/components/DownloadCharacterModal";
+import GroupChatsModal from "@/components/GroupChatsModal";
+import CharacterLibraryBar from "@/components/CharacterLibraryBar";
 import CharacterCardGrid from "@/components/CharacterCardGrid";
 import CharacterCardCarousel from "@/components/CharacterCardCarousel";
 import { getAllCharacters } from "@/function/character/list";
+import {
+  getCharacterLibrary,
+  getLibraryFilters,
+  getLibrarySort,
+  listCollections,
+  setLibraryFilters,
+  setLibrarySort,
+} from "@/function/character/library";
+import {
+  CharacterLibraryIndex,
+  DEFAULT_LIBRARY_FILTERS,
+  LibraryEntry,
+  LibraryFilters,
+  LibrarySort,
+} from "@/lib/core/character-library";
+import { CharacterCollection } from "@/lib/models/collection-model";
+import { useDataChanges } from "@/hooks/useDataChanges";
 import { deleteCharacter } from "@/function/character/delete";
+import { showUndoDeleteToast } from "@/components/UndoDeleteToast";
 import { handleCharacterUpload } from "@/function/character/import";
+import { exportCharacterCard } from "@/function/character/export";
+import { downloadFile } from "@/function/data/export-import";
+import { toast } from "react-hot-toast";
 import { trackButtonClick } from "@/utils/google-analytics";
 import { GITHUB_CONFIG } from "@/lib/config/github-config";
 import { PRESET_CHARACTERS } from "@/lib/config/preset-characters";
@@ -70,6 +96,7 @@ export default function CharacterCards() {
   const [isImportModalOpen, setIsImportModalOpen] = useState(false);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [isDownloadModalOpen, setIsDownloadModalOpen] = useState(false);
+  const [isGroupModalOpen, setIsGroupModalOpen] = useState(false);
   const [currentCharacter, setCurrentCharacter] = useState<Character | null>(
     null,
   );
@@ -78,14 +105,62 @@ export default function CharacterCards() {
   const [imagesLoaded, setImagesLoaded] = useState(false);
   const [isMobile, setIsMobile] = useState(false);
   const [isDownloadingPresets, setIsDownloadingPresets] = useState(false);
+  const [libraryEntries, setLibraryEntries] = useState<LibraryEntry[]>([]);
+  const [collections, setCollections] = useState<CharacterCollection[]>([]);
+  const [filters, setFilters] = useState<LibraryFilters>(
+    DEFAULT_LIBRARY_FILTERS,
+  );
+  const [sort, setSort] = useState<LibrarySort>("newest");
 
   useEffect(() => {
     const savedViewMode = localStorage.getItem("characterCardsViewMode");
     if (savedViewMode === "grid" || savedViewMode === "carousel") {
       setViewMode(savedViewMode);
     }
+    setFilters(getLibraryFilters());
+    setSort(getLibrarySort());
   }, []);
 
+  const libraryIndex = useMemo(
+    () => new CharacterLibraryIndex(libraryEntries),
+    [libraryEntries],
+  );
+
+  const visibleCharacters = useMemo(() => {
+    const byId = new Map(
+      characters.map((character) => [character.id, character]),
+    );
+    return libraryIndex
+      .query(filters, sort)
+      .map((id) => byId.get(id))
+      .filter((character): character is Character => !!character);
+  }, [characters, libraryIndex, filters, sort]);
+
+  const loadLibrary = async () => {
+    try {
+      const [entries, savedCollections] = await Promise.all([
+        getCharacterLibrary(),
+        listCollections(),
+      ]);
+      setLibraryEntries(entries);
+      setCollections(savedCollections);
+    } catch (err) {
+      console.error("Error loading character library:", err);
+    }
+  };
+
+  useDataChanges(["collections", "worldBooks", "regexScripts"], loadLibrary);
+
+  const handleFiltersChange = (next: LibraryFilters) => {
+    setFilters(next);
+    setLibraryFilters(next);
+  };
+
+  const handleSortChange = (next: LibrarySort) => {
+    setSort(next);
+    setLibrarySort(next);
+  };
+
   useEffect(() => {
     setMounted(true);
 
@@ -128,6 +203,7 @@ export default function CharacterCards() {
       }
 
       setCharacters(response);
+      await loadLibrary();
     } catch (err) {
       console.error("Error fetching characters:", err);
 
@@ -204,6 +280,7 @@ export default function CharacterCards() {
       }
 
       console.log(`角色删除成功: ${characterId}`);
+      showUndoDeleteToast(response.trashItemId, t, fetchCharacters);
 
       // 延迟一下再刷新列表，确保删除操作完全完成
       setTimeout(() => {
@@ -222,6 +299,16 @@ export default function CharacterCards() {
     }
   };
 
+  const handleExportCharacter = async (characterId: string) => {
+    try {
+      const { blob, fileName } = await exportCharacterCard(characterId);
+      downloadFile(blob, fileName);
+    } catch (err) {
+      console.error("Error exporting character:", err);
+      toast.error(t("characterCardsPage.exportFailed"));
+    }
+  };
+
   const handleEditClick = (character: Character, e: React.MouseEvent) => {
     e.stopPropagation();
     setCurrentCharacter(character);
@@ -419,6 +506,31 @@ export default function CharacterCards() {
                 </motion.button>
               </div>
               <div className="flex gap-2 sm:gap-3">
+                <motion.div
+                  className={`portal-button relative overflow-hidden px-2 py-1.5 sm:px-4 sm:py-2 rounded-lg cursor-pointer ${fontClass}
+                    bg-gradient-to-b from-[#2a231c] to-[#1a1510]
+                    border border-[#534741]
+                    shadow-[0_0_15px_rgba(192,164,128,0.1)]
+                    hover:shadow-[0_0_20px_rgba(192,164,128,0.2)]
+                    before:absolute before:inset-0 before:bg-gradient-to-r before:from-transparent before:via-[rgba(192,164,128,0.1)] before:to-transparent
+                    before:translate-x-[-100%] hover:before:translate-x-[100%] before:transition-transform before:duration-700
+                    group`}
+                  whileHover={{
+                    scale: 1.01,
+                    boxShadow: "0 0 25px rgba(192,164,128,0.3)",
+                  }}
+                  whileTap={{ scale: 0.98 }}
+                  transition={{
+                    type: "spring",
+                    stiffness: 400,
+                    damping: 10,
+                  }}
+                  onClick={() => setIsGroupModalOpen(true)}
+                >
+                  <span className="relative z-10 text-[#c0a480] group-hover:text-[#ffd475] transition-colors duration-300 text-xs sm:text-base">
+                    {t("characterCardsPage.groupChats")}
+                  </span>
+                </motion.div>
                 <motion.div
                   className={`portal-button relative overflow-hidden px-2 py-1.5 sm:px-4 sm:py-2 rounded-lg cursor-pointer ${fontClass}
                     bg-gradient-to-b from-[#2a231c] to-[#1a1510]
@@ -472,6 +584,23 @@ export default function CharacterCards() {
               </div>
             </motion.div>
 
+            {!isLoading && characters.length > 0 && (
+              <CharacterLibraryBar
+                filters={filters}
+                onFiltersChange={handleFiltersChange}
+                sort={sort}
+                onSortChange={handleSortChange}
+                tags={libraryIndex.tags}
+                creators={libraryIndex.creators}
+                collections={collections}
+                characters={libraryEntries
+                  .map((entry) => ({ id: entry.id, name: entry.name }))
+                  .sort((a, b) => a.name.localeCompare(b.name))}
+                onCollectionsChanged={loadLibrary}
+                resultCount={visibleCharacters.length}
+              />
+            )}
+
             {isLoading ? (
               <motion.div
                 initial={{ opacity: 0 }}
@@ -525,17 +654,27 @@ export default function CharacterCards() {
                   {t("characterCardsPage.importFirstCharacter")}
                 </motion.div>
               </motion.div>
+            ) : visibleCharacters.length === 0 ? (
+              <div
+                className={`session-card p-8 text-center text-[#a18d6f] ${fontClass}`}
+              >
+                {t("characterLibrary.noMatches")}
+              </div>
             ) : viewMode === "grid" || isMobile ? (
               <CharacterCardGrid
-                characters={characters}
+                characters={visibleCharacters}
                 onEditClick={handleEditClick}
                 onDeleteClick={handleDeleteCharacter}
+                onExportClick={handleExportCharacter}
+                onCharactersChanged={fetchCharacters}
               />
             ) : (
               <CharacterCardCarousel
-                characters={characters}
+                characters={visibleCharacters}
                 onEditClick={handleEditClick}
                 onDeleteClick={handleDeleteCharacter}
+                onExportClick={handleExportCharacter}
+                onCharactersChanged={fetchCharacters}
               />
             )}
           </div>
@@ -550,6 +689,11 @@ export default function CharacterCards() {
             onClose={() => setIsDownloadModalOpen(false)}
             onImport={fetchCharacters}
           />
+          <GroupChatsModal
+            isOpen={isGroupModalOpen}
+            onClose={() => setIsGroupModalOpen(false)}
+            characters={characters}
+          />
           {currentCharacter && (
             <EditCharacterModal
               isOpen={isEditModalOpen}
@@ -7,7 +7,7 @@
  * - Regex script management
  * - Preset management
  * - Message history and regeneration
- * - Branch switching in conversations
+ * - Branch switching in conversations, including between greetings
  * - User tour functionality
  *
  * The page handles all character interactions and provides a rich
@@ -33,7 +33,11 @@ import { initCharacterDialogue } from "@/function/dialogue/init";
 import { getCharacterDialogue } from "@/function/dialogue/info";
 import { handleCharacterChatRequest } from "@/function/dialogue/chat";
 import { switchDialogueBranch } from "@/function/dialogue/truncate";
+import { selectDialogueGreeting } from "@/function/dialogue/greeting";
 import { deleteDialogueNode } from "@/function/dialogue/delete";
+import { setActiveDialogueId } from "@/function/dialogue/chats";
+import { Persona } from "@/lib/models/persona-model";
+import { useDataChanges } from "@/hooks/useDataChanges";
 import CharacterChatPanel from "@/components/CharacterChatPanel";
 import WorldBookEditor from "@/components/WorldBookEditor";
 import RegexScriptEditor from "@/components/RegexScriptEditor";
@@ -94,6 +98,12 @@ export default function CharacterPage() {
   const [userInput, setUserInput] = useState("");
   const [sidebarCollapsed, setSidebarCollapsed] = useState(true);
   const [suggestedInputs, setSuggestedInputs] = useState<string[]>([]);
+  const [greeting, setGreeting] = useState({ index: 0, count: 0 });
+  const [dialogueId, setDialogueId] = useState("");
+  const [persona, setPersona] = useState<Persona | null>(null);
+  // Chat picked in the sidebar; the page otherwise opens the remembered one.
+  // A new object on every pick reloads even when the id is unchanged.
+  const [requestedChat, setRequestedChat] = useState<{ id?: string }>({});
   const initializationRef = useRef(false);
   const [activeView, setActiveView] = useState<
     "chat" | "worldbook" | "regex" | "preset"
@@ -156,6 +166,7 @@ export default function CharacterPage() {
 
       const response = await switchDialogueBranch({
         characterId,
+        dialogueId,
         nodeId,
       });
 
@@ -176,6 +187,10 @@ export default function CharacterPage() {
           }));
 
           setMessages(formattedMessages);
+          setGreeting({
+            index: dialogue.greetingIndex,
+            count: dialogue.greetingCount,
+          });
 
           const lastMessage = dialogue.messages[dialogue.messages.length - 1];
           if (lastMessage && lastMessage.parsedContent?.nextPrompts) {
@@ -191,6 +206,41 @@ export default function CharacterPage() {
     }
   };
 
+  const handleSelectGreeting = async (greetingIndex: number) => {
+    if (!characterId || isSending) return;
+
+    try {
+      const response = await selectDialogueGreeting({
+        characterId,
+        dialogueId,
+        greetingIndex,
+      });
+      if (!response.success || !response.dialogue) {
+        console.error("Failed to switch greeting", response);
+        return;
+      }
+
+      const dialogue = response.dialogue;
+      setMessages(
+        dialogue.messages.map((msg: any) => ({
+          id: msg.id,
+          role: msg.role == "system" ? "assistant" : msg.role,
+          thinkingContent: msg.thinkingContent ?? "",
+          content: msg.parsedContent?.regexResult || msg.content,
+        })),
+      );
+      setGreeting({
+        index: dialogue.greetingIndex,
+        count: dialogue.greetingCount,
+      });
+
+      const lastMessage = dialogue.messages[dialogue.messages.length - 1];
+      setSuggestedInputs(lastMessage?.parsedContent?.nextPrompts || []);
+    } catch (error) {
+      console.error("Error switching greeting:", error);
+    }
+  };
+
   const handleRegenerate = async (nodeId: string) => {
     if (!characterId) return;
 
@@ -223,7 +273,9 @@ export default function CharacterPage() {
 
       const response = await deleteDialogueNode({
         characterId,
+        dialogueId,
         nodeId,
+        moveToTrash: false,
       });
       if (!response.success) {
         console.error("Failed to delete message", response);
@@ -270,12 +322,21 @@ export default function CharacterPage() {
         characterId,
         currentLanguage,
         username,
+        dialogueId,
       );
       if (!response.success) {
         throw new Error(`Failed to load dialogue: ${response}`);
       }
 
       const dialogue = response.dialogue;
+      const character = response.character;
+      setPersona(response.persona);
+      setCharacter({
+        id: character.id,
+        name: character.data.name,
+        personality: character.data.personality,
+        avatar_path: character.imagePath,
+      });
 
       if (dialogue && dialogue.messages) {
         const formattedMessages = dialogue.messages.map((msg: any) => ({
@@ -285,6 +346,10 @@ export default function CharacterPage() {
           content: msg.content,
         }));
         setMessages(formattedMessages);
+        setGreeting({
+          index: dialogue.greetingIndex,
+          count: dialogue.greetingCount,
+        });
         setSuggestedInputs(
           dialogue.messages[dialogue.messages.length - 1].parsedContent
             ?.nextPrompts || [],
@@ -296,6 +361,11 @@ export default function CharacterPage() {
     }
   };
 
+  // A persona edited in another tab may be the one this chat uses
+  useDataChanges(["personas"], () => fetchLatestDialogue(), {
+    enabled: !!characterId && !isSending,
+  });
+
   useEffect(() => {
     const loadCharacterAndDialogue = async () => {
       if (!characterId) {
@@ -326,10 +396,14 @@ export default function CharacterPage() {
           characterId,
           currentLanguage,
           username,
+          requestedChat.id,
         );
         if (!response.success) {
           throw new Error(`Failed to load character: ${response}`);
         }
+        setDialogueId(response.dialogueId);
+        setActiveDialogueId(characterId, response.dialogueId);
+        setPersona(response.persona);
 
         const dialogue = response.dialogue;
         const character = response.character;
@@ -344,7 +418,7 @@ export default function CharacterPage() {
         // Set character data but keep loading if we need to initialize dialogue
         setCharacter(characterInfo);
 
-        if (dialogue && dialogue.messages) {
+        if (dialogue && dialogue.messages.length > 0) {
           setLoadingPhase(t("characterChat.loadingDialogue"));
           const formattedMessages = dialogue.messages.map((msg: any) => ({
             id: msg.id,
@@ -353,6 +427,10 @@ export default function CharacterPage() {
             content: msg.content,
           }));
           setMessages(formattedMessages);
+          setGreeting({
+            index: dialogue.greetingIndex,
+            count: dialogue.greetingCount,
+          });
           setSuggestedInputs(
             dialogue.messages[dialogue.messages.length - 1].parsedContent
               ?.nextPrompts || [],
@@ -373,7 +451,7 @@ export default function CharacterPage() {
           setLoadingPhase(t("characterChat.initializing"));
           setIsInitializing(true);
           initializationRef.current = true;
-          await initializeNewDialogue(characterId);
+          await initializeNewDialogue(characterId, response.dialogueId);
 
           // Initialization complete
           setIsInitializing(false);
@@ -409,9 +487,17 @@ export default function CharacterPage() {
     };
 
     loadCharacterAndDialogue();
-  }, [characterId, t]);
+  }, [characterId, requestedChat, t]);
+
+  const handleSelectChat = (id: string) => {
+    if (!characterId || isSending) return;
+    setActiveDialogueId(characterId, id);
+    setMessages([]);
+    setSuggestedInputs([]);
+    setRequestedChat({ id });
+  };
 
-  const initializeNewDialogue = async (charId: string) => {
+  const initializeNewDialogue = async (charId: string, chatId: string) => {
     try {
       setLoadingPhase(t("characterChat.extractingTemplate"));
       const username = localStorage.getItem("username") || "";
@@ -431,6 +517,7 @@ export default function CharacterPage() {
       const initData = await initCharacterDialogue({
         username,
         characterId: charId,
+        dialogueId: chatId,
         modelName,
         baseUrl,
         apiKey,
@@ -449,6 +536,10 @@ export default function CharacterPage() {
             content: initData.firstMessage,
           },
         ]);
+        setGreeting({
+          index: initData.greetingIndex,
+          count: initData.greetingCount,
+        });
       }
     } catch (error) {
       console.error("Error initializing dialogue:", error);
@@ -492,6 +583,7 @@ export default function CharacterPage() {
       const response = await handleCharacterChatRequest({
         username,
         characterId: character.id,
+        dialogueId,
         message,
         modelName,
         baseUrl,
@@ -677,6 +769,10 @@ export default function CharacterPage() {
     >
       <CharacterSidebar
         character={character}
+        dialogueId={dialogueId}
+        onSelectChat={handleSelectChat}
+        personaName={persona?.name}
+        onPersonaChange={() => fetchLatestDialogue()}
         isCollapsed={sidebarCollapsed}
         toggleSidebar={toggleSidebar}
         onDialogueEdit={() => fetchLatestDialogue()}
@@ -705,6 +801,8 @@ export default function CharacterPage() {
         {activeView === "chat" ? (
           <CharacterChatPanel
             character={character}
+            dialogueId={dialogueId}
+            persona={persona}
             messages={messages}
             userInput={userInput}
             setUserInput={setUserInput}
@@ -714,11 +812,15 @@ export default function CharacterPage() {
             onSuggestedInput={handleSuggestedInput}
             onTruncate={truncateMessagesAfter}
             onRegenerate={handleRegenerate}
+            greetingIndex={greeting.index}
+            greetingCount={greeting.count}
+            onSelectGreeting={handleSelectGreeting}
             fontClass={fontClass}
             serifFontClass={serifFontClass}
             t={t}
             activeModes={activeModes}
             setActiveModes={setActiveModes}
+            onExternalChange={fetchLatestDialogue}
           />
         ) : activeView === "worldbook" ? (
           <WorldBookEditor
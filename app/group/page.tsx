@@ -0,0 +1,451 @@
+/**
+ * Group Chat Page Component
+ *
+ * A chat where several characters share one scene:
+ * - Members answer in turn, by mention, or when the user picks them
+ * - Each reply shows the member who gave it
+ * - A member can carry the scene on without new user input
+ * - Regenerating, truncating and swiping between every member's greetings
+ *
+ * Dependencies:
+ * - CharacterChatPanel: For the chat interface
+ * - function/group: For loading, opening and continuing group chats
+ */
+
+"use client";
+
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import Link from "next/link";
+import { v4 as uuidv4 } from "uuid";
+import { useLanguage } from "@/app/i18n";
+import CharacterChatPanel from "@/components/CharacterChatPanel";
+import { CharacterAvatarBackground } from "@/components/CharacterAvatarBackground";
+import ErrorToast from "@/components/ErrorToast";
+import { GroupMemberSummary, getGroupChat } from "@/function/group/info";
+import { initGroupDialogue } from "@/function/group/init";
+import { handleGroupChatRequest, pickGroupSpeaker } from "@/function/group/chat";
+import { updateGroupChat } from "@/function/group/edit";
+import { switchDialogueBranch } from "@/function/dialogue/truncate";
+import { selectDialogueGreeting } from "@/function/dialogue/greeting";
+import { deleteDialogueNode } from "@/function/dialogue/delete";
+import { Group, GroupTurnMode } from "@/lib/models/group-model";
+import { Persona } from "@/lib/models/persona-model";
+import { useDataChanges } from "@/hooks/useDataChanges";
+
+interface Message {
+  id: string;
+  role: string;
+  thinkingContent?: string;
+  content: string;
+  speakerId?: string;
+}
+
+interface Speaker {
+  id: string;
+  name: string;
+  avatar_path?: string;
+}
+
+const TURN_MODES: GroupTurnMode[] = ["manual", "roundRobin", "mention"];
+
+const toSpeaker = (member: GroupMemberSummary): Speaker => ({
+  id: member.id,
+  name: member.name,
+  avatar_path: member.avatarPath,
+});
+
+export default function GroupPage() {
+  const searchParams = useSearchParams();
+  const groupId = searchParams.get("id");
+  const { t, fontClass, serifFontClass } = useLanguage();
+
+  const [group, setGroup] = useState<Group | null>(null);
+  const [members, setMembers] = useState<Speaker[]>([]);
+  const [persona, setPersona] = useState<Persona | null>(null);
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [greeting, setGreeting] = useState({ index: 0, count: 0 });
+  const [suggestedInputs, setSuggestedInputs] = useState<string[]>([]);
+  const [userInput, setUserInput] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState("");
+  // Member the user picked to answer next
+  const [nextSpeakerId, setNextSpeakerId] = useState<string | null>(null);
+  // Member currently answering, shown as typing
+  const [speaker, setSpeaker] = useState<Speaker | null>(null);
+  const [errorToast, setErrorToast] = useState({
+    isVisible: false,
+    message: "",
+  });
+  const initializationRef = useRef(false);
+  const [activeModes, setActiveModes] = useState<Record<string, any>>({
+    "story-progress": false,
+    perspective: {
+      active: false,
+      mode: "novel",
+    },
+    "scene-setting": false,
+  });
+
+  const showErrorToast = useCallback((message: string) => {
+    setErrorToast({ isVisible: true, message });
+  }, []);
+
+  const loadGroupChat = useCallback(async () => {
+    if (!groupId) return;
+
+    const username = localStorage.getItem("username") || undefined;
+    const language = (localStorage.getItem("language") || "zh") as "zh" | "en";
+    let response = await getGroupChat(groupId, language, username);
+
+    if (
+      (!response.dialogue || response.dialogue.messages.length === 0) &&
+      !initializationRef.current
+    ) {
+      initializationRef.current = true;
+      await initGroupDialogue({ groupId, username, language });
+      response = await getGroupChat(groupId, language, username);
+    }
+
+    setGroup(response.group);
+    setMembers(response.members.map(toSpeaker));
+    setPersona(response.persona);
+
+    const dialogue = response.dialogue;
+    if (dialogue) {
+      setMessages(
+        dialogue.messages.map((msg: any) => ({
+          id: msg.id,
+          role: msg.role,
+          thinkingContent: msg.thinkingContent ?? "",
+          content: msg.content,
+          speakerId: msg.speakerId,
+        })),
+      );
+      setGreeting({
+        index: dialogue.greetingIndex,
+        count: dialogue.greetingCount,
+      });
+      const lastMessage = dialogue.messages[dialogue.messages.length - 1];
+      setSuggestedInputs(lastMessage?.parsedContent?.nextPrompts || []);
+    }
+  }, [groupId]);
+
+  useEffect(() => {
+    if (!groupId) {
+      setError(t("group.notFound"));
+      setIsLoading(false);
+      return;
+    }
+
+    initializationRef.current = false;
+    setIsLoading(true);
+    loadGroupChat()
+      .catch((err) => {
+        console.error("Error loading group chat:", err);
+        setError(t("group.notFound"));
+      })
+      .finally(() => setIsLoading(false));
+  }, [groupId, loadGroupChat, t]);
+
+  // Another tab edited the group, one of its members or its chat
+  useDataChanges(["groups", "dialogues"], () => loadGroupChat(), {
+    id: groupId || undefined,
+    enabled: !!groupId && !isSending,
+  });
+  useDataChanges(["characters", "personas"], () => loadGroupChat(), {
+    enabled: !!groupId && !isSending,
+  });
+
+  const sendMessage = async (message: string, requestedSpeakerId?: string) => {
+    if (!groupId || isSending) return;
+
+    try {
+      setIsSending(true);
+      setSuggestedInputs([]);
+
+      const picked = await pickGroupSpeaker(
+        groupId,
+        message,
+        requestedSpeakerId || nextSpeakerId || undefined,
+      );
+      if (!picked) {
+        showErrorToast(t("group.noMembers"));
+        return;
+      }
+      setSpeaker(members.find((member) => member.id === picked.id) || null);
+      setNextSpeakerId(null);
+
+      if (message) {
+        setMessages((prev) => [
+          ...prev,
+          {
+            id: new Date().toISOString() + "-user",
+            role: "user",
+            thinkingContent: "",
+            content: message,
+          },
+        ]);
+      }
+
+      const language = localStorage.getItem("language") || "zh";
+      const llmType = localStorage.getItem("llmType") || "openai";
+      const modelName =
+        localStorage.getItem(
+          llmType === "openai" ? "openaiModel" : "ollamaModel",
+        ) || "";
+      const baseUrl =
+        localStorage.getItem(
+          llmType === "openai" ? "openaiBaseUrl" : "ollamaBaseUrl",
+        ) || "";
+      const apiKey =
+        llmType === "openai" ? localStorage.getItem("openaiApiKey") || "" : "";
+      const storedNumber = localStorage.getItem("responseLength");
+      const nodeId = uuidv4();
+      const response = await handleGroupChatRequest({
+        groupId,
+        speaker: picked,
+        message,
+        username: localStorage.getItem("username") || "",
+        modelName,
+        baseUrl,
+        apiKey,
+        llmType,
+        language: language as "zh" | "en",
+        streaming: true,
+        number: storedNumber ? parseInt(storedNumber) : 200,
+        nodeId,
+        fastModel: localStorage.getItem("fastModelEnabled") === "true",
+      });
+
+      if (!response.ok) {
+        showErrorToast(t("characterChat.checkNetworkOrAPI"));
+        return;
+      }
+
+      const result = await response.json();
+      if (result.success) {
+        // Reload so the new user message carries its node id, which
+        // regenerating relies on
+        await loadGroupChat();
+      } else {
+        showErrorToast(result.message || t("characterChat.checkNetworkOrAPI"));
+      }
+    } catch (err) {
+      console.error("Error sending group message:", err);
+      showErrorToast(t("characterChat.checkNetworkOrAPI"));
+    } finally {
+      setIsSending(false);
+      setSpeaker(null);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!userInput.trim() || isSending) return;
+
+    const message = `
+      <input_message>
+      ${t("characterChat.playerInput")}：${userInput}
+      </input_message>
+          `.trim();
+    setUserInput("");
+    await sendMessage(message);
+  };
+
+  const handleTruncate = async (nodeId: string) => {
+    if (!groupId || isSending) return;
+    try {
+      await switchDialogueBranch({
+        characterId: groupId,
+        dialogueId: groupId,
+        nodeId,
+      });
+      await loadGroupChat();
+    } catch (err) {
+      console.error("Error truncating group chat:", err);
+    }
+  };
+
+  const handleRegenerate = async (nodeId: string) => {
+    if (!groupId || isSending) return;
+
+    const reply = messages.find(
+      (msg) => msg.id === nodeId && msg.role === "assistant",
+    );
+    if (!reply) return;
+    // The user message stored on the same node, if the reply answered one
+    const prompt = messages.find(
+      (msg) => msg.id === nodeId && msg.role === "user",
+    );
+
+    try {
+      await deleteDialogueNode({
+        characterId: groupId,
+        dialogueId: groupId,
+        nodeId,
+        moveToTrash: false,
+      });
+      await loadGroupChat();
+      await sendMessage(prompt?.content || "", reply.speakerId);
+    } catch (err) {
+      console.error("Error regenerating group reply:", err);
+    }
+  };
+
+  const handleSelectGreeting = async (greetingIndex: number) => {
+    if (!groupId || isSending) return;
+    try {
+      await selectDialogueGreeting({
+        characterId: groupId,
+        dialogueId: groupId,
+        greetingIndex,
+      });
+      await loadGroupChat();
+    } catch (err) {
+      console.error("Error switching greeting:", err);
+    }
+  };
+
+  const handleTurnModeChange = async (turnMode: GroupTurnMode) => {
+    if (!groupId) return;
+    try {
+      setGroup(await updateGroupChat(groupId, { turnMode }));
+    } catch (err) {
+      console.error("Error updating turn mode:", err);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex flex-col justify-center items-center h-full fantasy-bg">
+        <div className="relative w-12 h-12 flex items-center justify-center mb-4">
+          <div className="absolute inset-0 rounded-full border-2 border-t-[#f9c86d] border-r-[#c0a480] border-b-[#a18d6f] border-l-transparent animate-spin"></div>
+          <div className="absolute inset-2 rounded-full border-2 border-t-[#a18d6f] border-r-[#f9c86d] border-b-[#c0a480] border-l-transparent animate-spin-slow"></div>
+        </div>
+        <p className={`text-[#f4e8c1] ${serifFontClass} text-center mb-2`}>
+          {t("characterChat.loading")}
+        </p>
+      </div>
+    );
+  }
+
+  if (error || !group) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full fantasy-bg">
+        <h1 className="text-2xl text-[#f4e8c1] mb-4">
+          {t("characterChat.error")}
+        </h1>
+        <p className="text-[#c0a480] mb-6">{error || t("group.notFound")}</p>
+        <Link
+          href="/character-cards"
+          className="bg-[#252220] hover:bg-[#342f25] text-[#f4e8c1] font-medium py-2 px-4 rounded border border-[#534741]"
+        >
+          {t("characterChat.backToCharacters")}
+        </Link>
+      </div>
+    );
+  }
+
+  const speakers = Object.fromEntries(
+    members.map((member) => [member.id, member]),
+  );
+
+  return (
+    <div
+      className="flex h-full relative fantasy-bg overflow-hidden"
+      style={{
+        left: "var(--app-sidebar-width, 0)",
+      }}
+    >
+      <div className="w-full fantasy-bg h-full flex flex-col">
+        <div
+          className={`flex flex-wrap items-center gap-3 p-3 border-b border-[#534741]/40 ${fontClass}`}
+        >
+          <h1 className={`text-lg text-[#f4e8c1] ${serifFontClass}`}>
+            {group.name}
+          </h1>
+          <div className="flex items-center gap-1">
+            {members.map((member) => (
+              <button
+                key={member.id}
+                title={t("group.speakNext")}
+                onClick={() =>
+                  setNextSpeakerId((current) =>
+                    current === member.id ? null : member.id,
+                  )
+                }
+                className={`flex items-center gap-1 px-2 py-1 rounded-full border text-xs transition-all duration-300 ${
+                  nextSpeakerId === member.id
+                    ? "border-amber-500/60 text-amber-300 bg-amber-500/10"
+                    : "border-[#534741]/60 text-[#a18d6f] hover:text-amber-300"
+                }`}
+              >
+                <span className="w-5 h-5 rounded-full overflow-hidden bg-[#1a1816]">
+                  {member.avatar_path && (
+                    <CharacterAvatarBackground avatarPath={member.avatar_path} />
+                  )}
+                </span>
+                {member.name}
+              </button>
+            ))}
+          </div>
+          <select
+            value={group.turnMode}
+            onChange={(e) =>
+              handleTurnModeChange(e.target.value as GroupTurnMode)
+            }
+            className="bg-[#1a1816] border border-[#534741]/60 rounded text-xs text-[#eae6db] px-2 py-1"
+          >
+            {TURN_MODES.map((mode) => (
+              <option key={mode} value={mode}>
+                {t(`group.turnMode_${mode}`)}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => sendMessage("")}
+            disabled={isSending}
+            className="px-3 py-1 rounded-lg border text-xs transition-all duration-300 border-[#534741]/60 text-[#a18d6f] hover:text-amber-300 hover:border-amber-500/40 disabled:opacity-50"
+          >
+            {t("group.continue")}
+          </button>
+        </div>
+
+        <CharacterChatPanel
+          character={
+            speaker ||
+            members.find((member) => member.id === nextSpeakerId) ||
+            members[0] || { id: group.id, name: group.name }
+          }
+          dialogueId={group.id}
+          persona={persona}
+          speakers={speakers}
+          messages={messages}
+          userInput={userInput}
+          setUserInput={setUserInput}
+          isSending={isSending}
+          suggestedInputs={suggestedInputs}
+          onSubmit={handleSubmit}
+          onSuggestedInput={setUserInput}
+          onTruncate={handleTruncate}
+          onRegenerate={handleRegenerate}
+          greetingIndex={greeting.index}
+          greetingCount={greeting.count}
+          onSelectGreeting={handleSelectGreeting}
+          fontClass={fontClass}
+          serifFontClass={serifFontClass}
+          t={t}
+          activeModes={activeModes}
+          setActiveModes={setActiveModes}
+        />
+      </div>
+      <ErrorToast
+        message={errorToast.message}
+        isVisible={errorToast.isVisible}
+        onClose={() => setErrorToast({ isVisible: false, message: "" })}
+      />
+    </div>
+  );
+}
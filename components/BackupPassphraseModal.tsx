@@ -0,0 +1,137 @@
+/**
+ * Backup Passphrase Modal Component
+ *
+ * Collects the options of an encrypted backup without echoing the passphrase:
+ * - On export: whether API keys are included, and an optional passphrase
+ *   typed twice
+ * - On import: the passphrase of an encrypted backup
+ *
+ * Dependencies:
+ * - useLanguage: For internationalization
+ */
+
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useLanguage } from "@/app/i18n";
+import { ExportOptions } from "@/function/data/export-import";
+
+export type BackupPassphraseMode = "export" | "import";
+
+interface BackupPassphraseModalProps {
+  /** Closed when null */
+  mode: BackupPassphraseMode | null;
+  onSubmit: (options: ExportOptions) => void;
+  onCancel: () => void;
+}
+
+export default function BackupPassphraseModal({
+  mode,
+  onSubmit,
+  onCancel,
+}: BackupPassphraseModalProps) {
+  const { t, fontClass, serifFontClass } = useLanguage();
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [includeApiKeys, setIncludeApiKeys] = useState(false);
+
+  useEffect(() => {
+    setPassphrase("");
+    setConfirmation("");
+    setIncludeApiKeys(false);
+  }, [mode]);
+
+  if (!mode) return null;
+
+  const isExport = mode === "export";
+  const mismatch = isExport && passphrase !== confirmation;
+  const canSubmit = isExport ? !mismatch : passphrase.length > 0;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+    onSubmit(isExport ? { includeApiKeys, passphrase } : { passphrase });
+  };
+
+  const inputClass =
+    "w-full px-3 py-1.5 bg-[#1a1816]/80 border border-[#534741]/60 rounded-lg text-sm text-[#eae6db] placeholder-[#534741]/80 focus:outline-none focus:ring-1 focus:ring-amber-500/40";
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-[10000] p-3">
+      <form
+        onSubmit={handleSubmit}
+        className="relative bg-gradient-to-br from-[#1a1816]/95 via-[#252220]/95 to-[#1a1816]/95 backdrop-blur-xl border border-[#534741]/60 rounded-xl shadow-2xl max-w-md w-full overflow-hidden"
+      >
+        <div className="relative p-3 border-b border-[#534741]/40 bg-gradient-to-r from-[#252220]/80 via-[#1a1816]/60 to-[#252220]/80 backdrop-blur-sm">
+          <h2
+            className={`text-base font-semibold text-[#eae6db] ${serifFontClass} bg-gradient-to-r from-amber-300 via-amber-200 to-amber-300 bg-clip-text text-transparent`}
+          >
+            {isExport
+              ? t("backupPassphrase.exportTitle")
+              : t("backupPassphrase.importTitle")}
+          </h2>
+        </div>
+
+        <div className={`relative p-4 space-y-3 ${fontClass}`}>
+          <p className="text-xs text-[#a18d6f]">
+            {isExport
+              ? t("backupPassphrase.exportHint")
+              : t("backupPassphrase.importHint")}
+          </p>
+          <input
+            className={inputClass}
+            type="password"
+            autoComplete="new-password"
+            autoFocus
+            placeholder={t("backupPassphrase.passphrase")}
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+          />
+          {isExport && (
+            <>
+              <input
+                className={inputClass}
+                type="password"
+                autoComplete="new-password"
+                placeholder={t("backupPassphrase.confirmPassphrase")}
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+              />
+              {mismatch && confirmation && (
+                <p className="text-xs text-red-400">
+                  {t("backupPassphrase.mismatch")}
+                </p>
+              )}
+              <label className="flex items-start gap-2 text-xs text-[#a18d6f]">
+                <input
+                  type="checkbox"
+                  className="mt-0.5"
+                  checked={includeApiKeys}
+                  onChange={(e) => setIncludeApiKeys(e.target.checked)}
+                />
+                {t("backupPassphrase.includeApiKeys")}
+              </label>
+            </>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="px-4 py-1.5 text-sm text-[#a18d6f] hover:text-[#eae6db] rounded-lg border border-[#534741]/60 transition-all duration-300"
+            >
+              {t("backupPassphrase.cancel")}
+            </button>
+            <button
+              type="submit"
+              disabled={!canSubmit}
+              className="px-4 py-1.5 bg-gradient-to-r from-amber-600/80 to-amber-500/80 hover:from-amber-500/90 hover:to-amber-400/90 text-white font-medium rounded-lg transition-all duration-300 shadow-lg hover:shadow-amber-500/25 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {t("backupPassphrase.continue")}
+            </button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+/**
+ * Card Lint Panel Component
+ *
+ * Quality report for a character inside the edit modal:
+ * - Problems in the card, world book and regex scripts, most serious first
+ * - Where each problem is and, for context hogs, how many tokens it costs
+ * - Token estimates for the permanent card text and constant world book entries
+ * - One-click fixes for problems that can be fixed safely
+ *
+ * Dependencies:
+ * - useLanguage: For internationalization
+ * - function/character/lint: For linting and fixing
+ */
+
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { useLanguage } from "@/app/i18n";
+import { LintIssue, LintReport, LintSeverity } from "@/lib/core/card-lint";
+import { RawCharacterData } from "@/lib/models/rawdata-model";
+import {
+  fixCharacterLintIssues,
+  lintCharacter,
+} from "@/function/character/lint";
+
+interface CardLintPanelProps {
+  characterId: string;
+  /** Called with the fixed card after fixes were saved */
+  onFixed: (data: RawCharacterData) => void;
+}
+
+const SEVERITY_CLASSES: Record<LintSeverity, string> = {
+  error: "border-red-800/60 bg-red-900/20 text-red-200",
+  warning: "border-amber-700/60 bg-amber-900/10 text-amber-200",
+  info: "border-[#534741]/60 bg-[#252220] text-[#a18d6f]",
+};
+
+export default function CardLintPanel({
+  characterId,
+  onFixed,
+}: CardLintPanelProps) {
+  const { t, fontClass } = useLanguage();
+  const [report, setReport] = useState<LintReport | null>(null);
+  const [isFixing, setIsFixing] = useState(false);
+
+  const runLint = useCallback(async () => {
+    try {
+      setReport(await lintCharacter(characterId));
+    } catch (error) {
+      console.error("Failed to lint character:", error);
+    }
+  }, [characterId]);
+
+  useEffect(() => {
+    runLint();
+  }, [runLint]);
+
+  const applyFixes = async (issues: LintIssue[]) => {
+    setIsFixing(true);
+    try {
+      const result = await fixCharacterLintIssues(
+        characterId,
+        issues,
+        t("cardLint.fixNote"),
+      );
+      setReport(result.report);
+      onFixed(result.data);
+    } catch (error) {
+      console.error("Failed to fix character:", error);
+    } finally {
+      setIsFixing(false);
+    }
+  };
+
+  if (!report) return null;
+
+  const fixable = report.issues.filter((issue) => issue.fix);
+
+  return (
+    <div className={`space-y-2 ${fontClass}`}>
+      <div className="flex flex-wrap items-center gap-3 text-xs text-[#a18d6f]">
+        <span>
+          {t("cardLint.permanentTokens")}: ~{report.tokens.permanent}
+        </span>
+        <span>
+          {t("cardLint.constantTokens")}: ~{report.tokens.constantEntries}
+        </span>
+        <span>
+          {t("cardLint.firstMessageTokens")}: ~{report.tokens.firstMessage}
+        </span>
+        <button
+          type="button"
+          onClick={runLint}
+          className="ml-auto text-[#a18d6f] hover:text-amber-300 transition-colors duration-300"
+        >
+          {t("cardLint.recheck")}
+        </button>
+        {fixable.length > 0 && (
+          <button
+            type="button"
+            disabled={isFixing}
+            onClick={() => applyFixes(fixable)}
+            className="text-amber-400 hover:text-amber-300 transition-colors duration-300 disabled:opacity-50"
+          >
+            {t("cardLint.fixAll")} ({fixable.length})
+          </button>
+        )}
+      </div>
+
+      {report.issues.length === 0 && (
+        <p className="text-xs text-green-300/80">{t("cardLint.clean")}</p>
+      )}
+
+      {report.issues.map((issue) => (
+        <div
+          key={issue.id}
+          className={`flex items-start gap-2 p-2 rounded border text-xs ${SEVERITY_CLASSES[issue.severity]}`}
+        >
+          <div className="flex-1 min-w-0">
+            <p>
+              {t(`cardLint.rule_${issue.rule}`)}
+              {issue.tokens !== undefined && ` (~${issue.tokens} tokens)`}
+            </p>
+            <p className="text-[10px] opacity-80 truncate">
+              {t(`cardLint.section_${issue.location.section}`)} ·{" "}
+              {issue.location.label}
+              {issue.detail && ` · ${issue.detail}`}
+            </p>
+          </div>
+          {issue.fix && (
+            <button
+              type="button"
+              disabled={isFixing}
+              onClick={() => applyFixes([issue])}
+              className="flex-shrink-0 text-amber-400 hover:text-amber-300 transition-colors duration-300 disabled:opacity-50"
+            >
+              {t(`cardLint.fix_${issue.fix}`)}
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
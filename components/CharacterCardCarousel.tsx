@@ -28,6 +28,7 @@ import { motion } from "framer-motion";
 import { useState } from "react";
 import { useLanguage } from "@/app/i18n";
 import { CharacterAvatarBackground } from "@/components/CharacterAvatarBackground";
+import { useDataChanges } from "@/hooks/useDataChanges";
 import { trackButtonClick } from "@/utils/google-analytics";
 
 /**
@@ -48,6 +49,9 @@ interface CharacterCardCarouselProps {
   characters: Character[];
   onEditClick: (character: Character, e: React.MouseEvent) => void;
   onDeleteClick: (characterId: string) => void;
+  onExportClick?: (characterId: string) => void;
+  /** Called when another tab adds, edits or deletes characters */
+  onCharactersChanged?: () => void;
 }
 
 /**
@@ -60,8 +64,13 @@ const CharacterCardCarousel: React.FC<CharacterCardCarouselProps> = ({
   characters,
   onEditClick,
   onDeleteClick,
+  onExportClick,
+  onCharactersChanged,
 }) => {
   const { t, fontClass, serifFontClass } = useLanguage();
+  useDataChanges(["characters"], () => onCharactersChanged?.(), {
+    enabled: !!onCharactersChanged,
+  });
   const [currentCenterIndex, setCurrentCenterIndex] = useState(0);
   const [isAnimating, setIsAnimating] = useState(false);
 
@@ -208,6 +217,34 @@ const CharacterCardCarousel: React.FC<CharacterCardCarouselProps> = ({
                       <path d="M18.5 2.5a2.121 2.121 0 0 1 3 3L12 15l-4 1 1-4 9.5-9.5z"></path>
                     </svg>
                   </button>
+                  {onExportClick && (
+                    <button
+                      onClick={(e) => {
+                        trackButtonClick("export_character_btn", "导出角色");
+                        e.stopPropagation();
+                        onExportClick(character.id);
+                      }}
+                      className="p-1.5 bg-[#252220] hover:bg-[#3a2a2a] rounded-full text-[#c0a480] hover:text-[#ffd475] transition-colors"
+                      title={t("characterCardsPage.export")}
+                      aria-label={t("characterCardsPage.export")}
+                    >
+                      <svg
+                        xmlns="http://www.w3.org/2000/svg"
+                        width="14"
+                        height="14"
+                        viewBox="0 0 24 24"
+                        fill="none"
+                        stroke="currentColor"
+                        strokeWidth="2"
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                      >
+                        <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path>
+                        <polyline points="7 10 12 15 17 10"></polyline>
+                        <line x1="12" y1="15" x2="12" y2="3"></line>
+                      </svg>
+                    </button>
+                  )}
                   <button
                     onClick={(e) => {
                       trackButtonClick("delete_character_btn", "删除角色");
@@ -29,6 +29,7 @@ import Tilt from "react-parallax-tilt";
 import { useLanguage } from "@/app/i18n";
 import { CharacterAvatarBackground } from "@/components/CharacterAvatarBackground";
 import { trackButtonClick } from "@/utils/google-analytics";
+import { useDataChanges } from "@/hooks/useDataChanges";
 
 /**
  * Interface definitions for the component's data structures
@@ -48,6 +49,9 @@ interface CharacterCardGridProps {
   characters: Character[];
   onEditClick: (character: Character, e: React.MouseEvent) => void;
   onDeleteClick: (characterId: string) => void;
+  onExportClick?: (characterId: string) => void;
+  /** Called when another tab adds, edits or deletes characters */
+  onCharactersChanged?: () => void;
 }
 
 /**
@@ -60,8 +64,13 @@ const CharacterCardGrid: React.FC<CharacterCardGridProps> = ({
   characters,
   onEditClick,
   onDeleteClick,
+  onExportClick,
+  onCharactersChanged,
 }) => {
   const { t, fontClass, serifFontClass } = useLanguage();
+  useDataChanges(["characters"], () => onCharactersChanged?.(), {
+    enabled: !!onCharactersChanged,
+  });
 
   return (
     <motion.div
@@ -140,6 +149,35 @@ const CharacterCardGrid: React.FC<CharacterCardGridProps> = ({
                     <path d="M18.5 2.5a2.121 2.121 0 0 1 3 3L12 15l-4 1 1-4 9.5-9.5z"></path>
                   </svg>
                 </button>
+                {onExportClick && (
+                  <button
+                    onClick={(e) => {
+                      trackButtonClick("export_character_btn", "导出角色");
+                      e.stopPropagation();
+                      onExportClick(character.id);
+                    }}
+                    className="p-1 sm:p-1.5 bg-[#252220] hover:bg-[#3a2a2a] rounded-full text-[#c0a480] hover:text-[#ffd475] transition-colors"
+                    title={t("characterCardsPage.export")}
+                    aria-label={t("characterCardsPage.export")}
+                  >
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      width="12"
+                      height="12"
+                      viewBox="0 0 24 24"
+                      fill="none"
+                      stroke="currentColor"
+                      strokeWidth="2"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      className="sm:w-3.5 sm:h-3.5"
+                    >
+                      <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path>
+                      <polyline points="7 10 12 15 17 10"></polyline>
+                      <line x1="12" y1="15" x2="12" y2="3"></line>
+                    </svg>
+                  </button>
+                )}
                 <button
                   onClick={(e) => {
                     trackButtonClick("delete_character_btn", "删除角色");
@@ -4,7 +4,10 @@
  * This component implements the main chat interface for character interactions, featuring:
  * - Real-time message display with HTML formatting
  * - Character avatar and name display
+ * - The user's persona avatar and name next to their messages
+ * - Per-message speaker name and avatar in group chats
  * - Message regeneration and truncation capabilities
+ * - Swiping between the character's greetings on the opening message
  * - Suggested input system
  * - Auto-scrolling chat history
  * - Fantasy-themed UI elements
@@ -25,6 +28,7 @@ import ChatHtmlBubble from "@/components/ChatHtmlBubble";
 import ThinkBubble from "@/components/ThinkBubble";
 import { CharacterAvatarBackground } from "@/components/CharacterAvatarBackground";
 import { trackButtonClick, trackFormSubmit } from "@/utils/google-analytics";
+import { useDataChanges } from "@/hooks/useDataChanges";
 
 /**
  * API Configuration types
@@ -58,10 +62,23 @@ interface Message {
   content: string;
   timestamp?: string;
   isUser?: boolean;
+  /** Group member who gave this reply */
+  speakerId?: string;
+}
+
+interface Persona {
+  name: string;
+  avatarPath?: string;
 }
 
 interface Props {
   character: Character;
+  /** The chat being shown */
+  dialogueId?: string;
+  /** Who the user plays as in this chat */
+  persona?: Persona | null;
+  /** Group members by id; replies tagged with a speaker show that member */
+  speakers?: Record<string, Character>;
   messages: Message[];
   userInput: string;
   setUserInput: (val: string) => void;
@@ -71,11 +88,17 @@ interface Props {
   onSuggestedInput: (input: string) => void;
   onTruncate: (id: string) => void;
   onRegenerate: (id: string) => void;
+  /** Which of the character's greetings opens this chat, and how many there are */
+  greetingIndex?: number;
+  greetingCount?: number;
+  onSelectGreeting?: (index: number) => void;
   fontClass: string;
   serifFontClass: string;
   t: (key: string) => string;
   activeModes: Record<string, any>;
   setActiveModes: React.Dispatch<React.SetStateAction<Record<string, any>>>;
+  /** Reloads the character and dialogue after another tab changed them */
+  onExternalChange?: () => void;
 }
 
 /**
@@ -86,6 +109,9 @@ interface Props {
  */
 export default function CharacterChatPanel({
   character,
+  dialogueId,
+  persona,
+  speakers,
   messages,
   userInput,
   setUserInput,
@@ -95,15 +121,29 @@ export default function CharacterChatPanel({
   onSuggestedInput,
   onTruncate,
   onRegenerate,
+  greetingIndex = 0,
+  greetingCount = 0,
+  onSelectGreeting,
   fontClass,
   serifFontClass,
   t,
   activeModes,
   setActiveModes,
+  onExternalChange,
 }: Props) {
   const [streamingTarget, setStreamingTarget] = useState<number>(-1);
   const scrollRef = useRef<HTMLDivElement>(null);
 
+  // Another tab edited this character or its chat; skip while a reply is in flight
+  useDataChanges(["characters"], () => onExternalChange?.(), {
+    id: character.id,
+    enabled: !!onExternalChange && !isSending,
+  });
+  useDataChanges(["dialogues"], () => onExternalChange?.(), {
+    id: dialogueId,
+    enabled: !!onExternalChange && !isSending && !!dialogueId,
+  });
+
   // API Configuration states
   const [configs, setConfigs] = useState<APIConfig[]>([]);
   const [activeConfigId, setActiveConfigId] = useState<string>("");
@@ -667,9 +707,28 @@ export default function CharacterChatPanel({
             <div className="space-y-8">
               {messages.map((message, index) => {
                 if (message.role === "sample") return null;
+                const speaker =
+                  (message.speakerId && speakers?.[message.speakerId]) ||
+                  character;
 
                 return message.role === "user" ? (
-                  <div key={index} className="flex justify-end mb-4">
+                  <div key={index} className="flex flex-col items-end mb-4">
+                    {persona && (
+                      <div className="flex items-center mb-2">
+                        <span
+                          className={`text-sm font-medium text-[#f4e8c1] ${serifFontClass}`}
+                        >
+                          {persona.name}
+                        </span>
+                        {persona.avatarPath && (
+                          <div className="w-8 h-8 rounded-full overflow-hidden ml-2">
+                            <CharacterAvatarBackground
+                              avatarPath={persona.avatarPath}
+                            />
+                          </div>
+                        )}
+                      </div>
+                    )}
                     <div className="whitespace-pre-line text-[#f4e8c1] story-text leading-relaxed magical-text">
                       <p
                         className={`${serifFontClass}`}
@@ -690,9 +749,9 @@ export default function CharacterChatPanel({
                   <div key={index} className="mb-6">
                     <div className="flex items-center mb-2">
                       <div className="w-8 h-8 rounded-full overflow-hidden mr-2">
-                        {character.avatar_path ? (
+                        {speaker.avatar_path ? (
                           <CharacterAvatarBackground
-                            avatarPath={character.avatar_path}
+                            avatarPath={speaker.avatar_path}
                           />
                         ) : (
                           <div className="w-full h-full flex items-center justify-center bg-[#1a1816]">
@@ -717,7 +776,7 @@ export default function CharacterChatPanel({
                         <span
                           className={`text-sm font-medium text-[#f4e8c1] ${serifFontClass}`}
                         >
-                          {character.name}
+                          {speaker.name}
                         </span>
                         {message.role === "assistant" &&
                           shouldShowRegenerateButton(message, index) && (
@@ -1123,7 +1182,7 @@ export default function CharacterChatPanel({
                     {/* Think Bubble - Show thinking content if available */}
                     <ThinkBubble
                       thinkingContent={message.thinkingContent || ""}
-                      characterName={character.name}
+                      characterName={speaker.name}
                       fontClass={fontClass}
                       serifFontClass={serifFontClass}
                       t={t}
@@ -1147,7 +1206,65 @@ export default function CharacterChatPanel({
                           ? () => maybeScrollToBottom()
                           : undefined
                       }
+                      dialogueId={index > 0 ? dialogueId : undefined}
+                      nodeId={message.id}
                     />
+
+                    {index === 0 && greetingCount > 1 && onSelectGreeting && (
+                      <div className="flex items-center justify-center gap-3 mt-2 text-xs text-[#a18d6f]">
+                        <button
+                          onClick={() =>
+                            onSelectGreeting(
+                              (greetingIndex - 1 + greetingCount) %
+                                greetingCount,
+                            )
+                          }
+                          disabled={isSending}
+                          className="w-6 h-6 flex items-center justify-center bg-[#1c1c1c] rounded-lg border border-[#333333] hover:text-[#f9c86d] hover:border-[#444444] transition-all duration-300 disabled:opacity-50"
+                          title={t("characterChat.previousGreeting")}
+                        >
+                          <svg
+                            xmlns="http://www.w3.org/2000/svg"
+                            width="12"
+                            height="12"
+                            fill="none"
+                            viewBox="0 0 24 24"
+                            stroke="currentColor"
+                            strokeWidth="2"
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                          >
+                            <polyline points="15 18 9 12 15 6"></polyline>
+                          </svg>
+                        </button>
+                        <span className={serifFontClass}>
+                          {t("characterChat.greeting")} {greetingIndex + 1}/
+                          {greetingCount}
+                        </span>
+                        <button
+                          onClick={() =>
+                            onSelectGreeting((greetingIndex + 1) % greetingCount)
+                          }
+                          disabled={isSending}
+                          className="w-6 h-6 flex items-center justify-center bg-[#1c1c1c] rounded-lg border border-[#333333] hover:text-[#f9c86d] hover:border-[#444444] transition-all duration-300 disabled:opacity-50"
+                          title={t("characterChat.nextGreeting")}
+                        >
+                          <svg
+                            xmlns="http://www.w3.org/2000/svg"
+                            width="12"
+                            height="12"
+                            fill="none"
+                            viewBox="0 0 24 24"
+                            stroke="currentColor"
+                            strokeWidth="2"
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                          >
+                            <polyline points="9 18 15 12 9 6"></polyline>
+                          </svg>
+                        </button>
+                      </div>
+                    )}
                   </div>
                 );
               })}
@@ -0,0 +1,364 @@
+/**
+ * Character Library Bar Component
+ *
+ * Search and organisation controls above the character cards:
+ * - Searching names, descriptions, creators and tags as you type
+ * - Filtering by tags, creator, attached world book or regex, last chat and message count
+ * - Choosing the sort order
+ * - Browsing, creating, renaming and deleting collections, and picking their characters
+ *
+ * Dependencies:
+ * - useLanguage: For internationalization
+ * - function/character/library: For collection management
+ * - showUndoDeleteToast: For undoing a delete
+ */
+
+"use client";
+
+import React, { useState } from "react";
+import { useLanguage } from "@/app/i18n";
+import {
+  DEFAULT_LIBRARY_FILTERS,
+  LIBRARY_SORTS,
+  LastChattedFilter,
+  LibraryFilters,
+  LibrarySort,
+} from "@/lib/core/character-library";
+import { CharacterCollection } from "@/lib/models/collection-model";
+import {
+  createCollection,
+  deleteCollection,
+  renameCollection,
+  setCollectionMembership,
+} from "@/function/character/library";
+import { showUndoDeleteToast } from "@/components/UndoDeleteToast";
+
+interface CharacterLibraryBarProps {
+  filters: LibraryFilters;
+  onFiltersChange: (filters: LibraryFilters) => void;
+  sort: LibrarySort;
+  onSortChange: (sort: LibrarySort) => void;
+  tags: { tag: string; count: number }[];
+  creators: string[];
+  collections: CharacterCollection[];
+  /** Characters that can be put into a collection */
+  characters: { id: string; name: string }[];
+  onCollectionsChanged: () => void;
+  resultCount: number;
+}
+
+const LAST_CHATTED: LastChattedFilter[] = ["any", "never", "week", "month"];
+const VISIBLE_TAGS = 20;
+
+export default function CharacterLibraryBar({
+  filters,
+  onFiltersChange,
+  sort,
+  onSortChange,
+  tags,
+  creators,
+  collections,
+  characters,
+  onCollectionsChanged,
+  resultCount,
+}: CharacterLibraryBarProps) {
+  const { t, fontClass } = useLanguage();
+  const [showFilters, setShowFilters] = useState(false);
+  const [showAllTags, setShowAllTags] = useState(false);
+  const [isEditingMembers, setIsEditingMembers] = useState(false);
+
+  const selectedCollection =
+    collections.find((collection) => collection.id === filters.collectionId) ||
+    null;
+  const activeFilterCount =
+    filters.tags.length +
+    (filters.creator ? 1 : 0) +
+    (filters.hasWorldBook ? 1 : 0) +
+    (filters.hasRegex ? 1 : 0) +
+    (filters.lastChatted !== "any" ? 1 : 0) +
+    (filters.minMessages > 0 ? 1 : 0);
+
+  const update = (changes: Partial<LibraryFilters>) =>
+    onFiltersChange({ ...filters, ...changes });
+
+  const toggleTag = (tag: string) =>
+    update({
+      tags: filters.tags.includes(tag)
+        ? filters.tags.filter((selected) => selected !== tag)
+        : [...filters.tags, tag],
+    });
+
+  const handleCreateCollection = async () => {
+    const name = prompt(t("characterLibrary.collectionName"));
+    if (!name?.trim()) return;
+    try {
+      const collection = await createCollection(name);
+      onCollectionsChanged();
+      update({ collectionId: collection.id });
+      setIsEditingMembers(true);
+    } catch (error) {
+      console.error("Failed to create collection:", error);
+    }
+  };
+
+  const handleRenameCollection = async () => {
+    if (!selectedCollection) return;
+    const name = prompt(
+      t("characterLibrary.collectionName"),
+      selectedCollection.name,
+    );
+    if (!name?.trim()) return;
+    try {
+      await renameCollection(selectedCollection.id, name);
+      onCollectionsChanged();
+    } catch (error) {
+      console.error("Failed to rename collection:", error);
+    }
+  };
+
+  const handleDeleteCollection = async () => {
+    if (
+      !selectedCollection ||
+      !confirm(t("characterLibrary.deleteCollectionConfirm"))
+    ) {
+      return;
+    }
+    try {
+      const result = await deleteCollection(selectedCollection.id);
+      update({ collectionId: "" });
+      setIsEditingMembers(false);
+      onCollectionsChanged();
+      showUndoDeleteToast(result.trashItemId, t, onCollectionsChanged);
+    } catch (error) {
+      console.error("Failed to delete collection:", error);
+    }
+  };
+
+  const toggleMember = async (characterId: string) => {
+    if (!selectedCollection) return;
+    try {
+      await setCollectionMembership(
+        selectedCollection.id,
+        characterId,
+        !selectedCollection.characterIds.includes(characterId),
+      );
+      onCollectionsChanged();
+    } catch (error) {
+      console.error("Failed to update collection:", error);
+    }
+  };
+
+  const inputClass =
+    "px-2 py-1.5 bg-[#1a1816]/80 border border-[#534741]/60 rounded text-xs text-[#eae6db] placeholder-[#534741]/80 focus:outline-none focus:ring-1 focus:ring-amber-500/40";
+  const chipClass = (active: boolean) =>
+    `px-2 py-0.5 rounded-full border text-[11px] transition-all duration-300 ${
+      active
+        ? "border-amber-500/60 text-amber-300 bg-amber-500/10"
+        : "border-[#534741]/60 text-[#a18d6f] hover:text-amber-300 hover:border-amber-500/40"
+    }`;
+
+  return (
+    <div className={`mb-6 space-y-2 ${fontClass}`}>
+      <div className="flex flex-wrap gap-2 items-center">
+        <input
+          className={`${inputClass} flex-1 min-w-[10rem]`}
+          value={filters.query}
+          placeholder={t("characterLibrary.searchPlaceholder")}
+          onChange={(e) => update({ query: e.target.value })}
+        />
+        <select
+          className={inputClass}
+          value={sort}
+          onChange={(e) => onSortChange(e.target.value as LibrarySort)}
+        >
+          {LIBRARY_SORTS.map((option) => (
+            <option key={option} value={option}>
+              {t(`characterLibrary.sort_${option}`)}
+            </option>
+          ))}
+        </select>
+        <button
+          className={chipClass(showFilters || activeFilterCount > 0)}
+          onClick={() => setShowFilters(!showFilters)}
+        >
+          {t("characterLibrary.filters")}
+          {activeFilterCount > 0 && ` (${activeFilterCount})`}
+        </button>
+        {(activeFilterCount > 0 || filters.query) && (
+          <button
+            className="text-[11px] text-[#a18d6f] hover:text-amber-300 transition-colors duration-300"
+            onClick={() =>
+              onFiltersChange({
+                ...DEFAULT_LIBRARY_FILTERS,
+                collectionId: filters.collectionId,
+              })
+            }
+          >
+            {t("characterLibrary.clearFilters")}
+          </button>
+        )}
+        <span className="text-[11px] text-[#8a8a8a]">
+          {resultCount} {t("characterLibrary.results")}
+        </span>
+      </div>
+
+      {showFilters && (
+        <div className="p-3 rounded-lg border border-[#534741]/60 bg-[#1a1816]/80 space-y-3">
+          {tags.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-xs text-[#a18d6f]">{t("characterLibrary.tags")}</p>
+              <div className="flex flex-wrap gap-1">
+                {(showAllTags ? tags : tags.slice(0, VISIBLE_TAGS)).map(
+                  ({ tag, count }) => (
+                    <button
+                      key={tag}
+                      className={chipClass(filters.tags.includes(tag))}
+                      onClick={() => toggleTag(tag)}
+                    >
+                      {tag} <span className="opacity-60">{count}</span>
+                    </button>
+                  ),
+                )}
+                {tags.length > VISIBLE_TAGS && (
+                  <button
+                    className="text-[11px] text-[#a18d6f] hover:text-amber-300"
+                    onClick={() => setShowAllTags(!showAllTags)}
+                  >
+                    {showAllTags
+                      ? t("characterLibrary.fewerTags")
+                      : t("characterLibrary.moreTags")}
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-3 items-center">
+            <select
+              className={inputClass}
+              value={filters.creator}
+              onChange={(e) => update({ creator: e.target.value })}
+            >
+              <option value="">{t("characterLibrary.anyCreator")}</option>
+              {creators.map((creator) => (
+                <option key={creator} value={creator}>
+                  {creator}
+                </option>
+              ))}
+            </select>
+            <select
+              className={inputClass}
+              value={filters.lastChatted}
+              onChange={(e) =>
+                update({ lastChatted: e.target.value as LastChattedFilter })
+              }
+            >
+              {LAST_CHATTED.map((option) => (
+                <option key={option} value={option}>
+                  {t(`characterLibrary.lastChatted_${option}`)}
+                </option>
+              ))}
+            </select>
+            <label className="flex items-center gap-1 text-xs text-[#a18d6f]">
+              {t("characterLibrary.minMessages")}
+              <input
+                type="number"
+                min={0}
+                className={`${inputClass} w-16`}
+                value={filters.minMessages}
+                onChange={(e) =>
+                  update({ minMessages: Math.max(0, Number(e.target.value) || 0) })
+                }
+              />
+            </label>
+            <label className="flex items-center gap-1 text-xs text-[#a18d6f] cursor-pointer">
+              <input
+                type="checkbox"
+                checked={filters.hasWorldBook}
+                onChange={(e) => update({ hasWorldBook: e.target.checked })}
+              />
+              {t("characterLibrary.hasWorldBook")}
+            </label>
+            <label className="flex items-center gap-1 text-xs text-[#a18d6f] cursor-pointer">
+              <input
+                type="checkbox"
+                checked={filters.hasRegex}
+                onChange={(e) => update({ hasRegex: e.target.checked })}
+              />
+              {t("characterLibrary.hasRegex")}
+            </label>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-1 items-center">
+        <button
+          className={chipClass(!filters.collectionId)}
+          onClick={() => {
+            update({ collectionId: "" });
+            setIsEditingMembers(false);
+          }}
+        >
+          {t("characterLibrary.allCharacters")}
+        </button>
+        {collections.map((collection) => (
+          <button
+            key={collection.id}
+            className={chipClass(collection.id === filters.collectionId)}
+            onClick={() => {
+              update({ collectionId: collection.id });
+              setIsEditingMembers(false);
+            }}
+          >
+            {collection.name}{" "}
+            <span className="opacity-60">{collection.characterIds.length}</span>
+          </button>
+        ))}
+        <button
+          className="px-2 py-0.5 rounded-full border border-dashed border-[#534741]/60 text-[11px] text-[#a18d6f] hover:text-amber-300 hover:border-amber-500/40 transition-all duration-300"
+          onClick={handleCreateCollection}
+        >
+          + {t("characterLibrary.newCollection")}
+        </button>
+        {selectedCollection && (
+          <>
+            <button
+              className="text-[11px] text-[#a18d6f] hover:text-amber-300 ml-2"
+              onClick={() => setIsEditingMembers(!isEditingMembers)}
+            >
+              {t("characterLibrary.editMembers")}
+            </button>
+            <button
+              className="text-[11px] text-[#a18d6f] hover:text-amber-300 ml-2"
+              onClick={handleRenameCollection}
+            >
+              {t("characterLibrary.renameCollection")}
+            </button>
+            <button
+              className="text-[11px] text-[#a18d6f] hover:text-red-400 ml-2"
+              onClick={handleDeleteCollection}
+            >
+              {t("characterLibrary.deleteCollection")}
+            </button>
+          </>
+        )}
+      </div>
+
+      {selectedCollection && isEditingMembers && (
+        <div className="p-2 rounded-lg border border-[#534741]/60 bg-[#1a1816]/80 max-h-48 overflow-y-auto fantasy-scrollbar flex flex-wrap gap-1">
+          {characters.map((character) => (
+            <button
+              key={character.id}
+              className={chipClass(
+                selectedCollection.characterIds.includes(character.id),
+              )}
+              onClick={() => toggleMember(character.id)}
+            >
+              {character.name}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,276 @@
+/**
+ * Character Revisions Modal Component
+ *
+ * Shows a character's edit history:
+ * - Every saved revision with its author note
+ * - A side-by-side diff of the card fields, world book entries and regex scripts
+ *   a revision changed, or of how it differs from the character now
+ * - Reverting the character to any revision
+ * - How many revisions each character keeps
+ *
+ * Dependencies:
+ * - useLanguage: For internationalization
+ * - function/character/revisions: For reading and reverting revisions
+ */
+
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { toast } from "react-hot-toast";
+import { useLanguage } from "@/app/i18n";
+import { CharacterRevision } from "@/lib/models/character-revision-model";
+import { RevisionFieldChange } from "@/lib/core/character-revision-diff";
+import {
+  getRevisionDiff,
+  getRevisionRetention,
+  listCharacterRevisions,
+  revertCharacterToRevision,
+  updateRevisionRetention,
+} from "@/function/character/revisions";
+
+interface CharacterRevisionsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  characterId: string;
+  /** Called after the character was reverted */
+  onReverted: () => void;
+}
+
+type CompareTarget = "previous" | "current";
+
+export default function CharacterRevisionsModal({
+  isOpen,
+  onClose,
+  characterId,
+  onReverted,
+}: CharacterRevisionsModalProps) {
+  const { t, language, fontClass, serifFontClass } = useLanguage();
+  const [revisions, setRevisions] = useState<CharacterRevision[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [against, setAgainst] = useState<CompareTarget>("previous");
+  const [changes, setChanges] = useState<RevisionFieldChange[]>([]);
+  const [retention, setRetention] = useState(20);
+  const [isReverting, setIsReverting] = useState(false);
+
+  const loadRevisions = useCallback(async () => {
+    try {
+      const list = await listCharacterRevisions(characterId);
+      setRevisions(list);
+      setSelectedId((current) =>
+        list.some((revision) => revision.id === current)
+          ? current
+          : list[0]?.id || null,
+      );
+    } catch (error) {
+      console.error("Failed to load revisions:", error);
+    }
+  }, [characterId]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setRetention(getRevisionRetention());
+      loadRevisions();
+    }
+  }, [isOpen, loadRevisions]);
+
+  useEffect(() => {
+    if (!isOpen || !selectedId) {
+      setChanges([]);
+      return;
+    }
+    getRevisionDiff(selectedId, against)
+      .then(setChanges)
+      .catch((error) => {
+        console.error("Failed to compare revisions:", error);
+        setChanges([]);
+      });
+  }, [isOpen, selectedId, against]);
+
+  if (!isOpen) return null;
+
+  const formatDate = (date: string) =>
+    new Date(date).toLocaleString(language === "zh" ? "zh-CN" : "en-US");
+
+  const describe = (revision: CharacterRevision) => {
+    if (revision.note) return revision.note;
+    if (revision.kind === "revert" && revision.revertedFrom) {
+      return `${t("characterRevisions.kind_revert")} ${formatDate(revision.revertedFrom)}`;
+    }
+    return t(`characterRevisions.kind_${revision.kind}`);
+  };
+
+  const handleRevert = async () => {
+    if (!selectedId || !confirm(t("characterRevisions.revertConfirm"))) return;
+    setIsReverting(true);
+    try {
+      await revertCharacterToRevision(selectedId);
+      toast.success(t("characterRevisions.reverted"));
+      await loadRevisions();
+      onReverted();
+    } catch (error) {
+      console.error("Failed to revert character:", error);
+      toast.error(t("characterRevisions.revertFailed"));
+    } finally {
+      setIsReverting(false);
+    }
+  };
+
+  const handleRetentionChange = async (value: number) => {
+    if (!Number.isFinite(value) || value < 1) return;
+    setRetention(value);
+    try {
+      if ((await updateRevisionRetention(characterId, value)) > 0) {
+        await loadRevisions();
+      }
+    } catch (error) {
+      console.error("Failed to prune revisions:", error);
+    }
+  };
+
+  const toggleClass = (active: boolean) =>
+    `px-3 py-1 rounded-lg border text-xs transition-all duration-300 ${
+      active
+        ? "border-amber-500/60 text-amber-300 bg-amber-500/10"
+        : "border-[#534741]/60 text-[#a18d6f] hover:text-amber-300 hover:border-amber-500/40"
+    }`;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-[60] p-3">
+      <div className="relative bg-gradient-to-br from-[#1a1816]/95 via-[#252220]/95 to-[#1a1816]/95 backdrop-blur-xl border border-[#534741]/60 rounded-xl shadow-2xl max-w-5xl w-full max-h-[85vh] overflow-hidden">
+        <div className="relative p-3 border-b border-[#534741]/40 bg-gradient-to-r from-[#252220]/80 via-[#1a1816]/60 to-[#252220]/80 backdrop-blur-sm">
+          <div className="flex justify-between items-center">
+            <h2
+              className={`text-base font-semibold text-[#eae6db] ${serifFontClass} bg-gradient-to-r from-amber-300 via-amber-200 to-amber-300 bg-clip-text text-transparent`}
+            >
+              {t("characterRevisions.title")}
+            </h2>
+            <button
+              onClick={onClose}
+              className="w-7 h-7 flex items-center justify-center text-[#a18d6f] hover:text-[#eae6db] transition-all duration-300 rounded-lg hover:bg-[#333]/50"
+            >
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                width="16"
+                height="16"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              >
+                <line x1="18" y1="6" x2="6" y2="18"></line>
+                <line x1="6" y1="6" x2="18" y2="18"></line>
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <div className={`relative flex flex-col md:flex-row max-h-[75vh] ${fontClass}`}>
+          <div className="md:w-1/4 p-3 border-b md:border-b-0 md:border-r border-[#534741]/40 overflow-y-auto fantasy-scrollbar space-y-1">
+            {revisions.length === 0 && (
+              <p className="text-xs text-[#8a8a8a]">
+                {t("characterRevisions.empty")}
+              </p>
+            )}
+            {revisions.map((revision) => (
+              <div
+                key={revision.id}
+                onClick={() => setSelectedId(revision.id)}
+                className={`p-2 rounded-md cursor-pointer transition-all duration-300 ${
+                  revision.id === selectedId
+                    ? "bg-[#252525] border border-amber-500/30"
+                    : "hover:bg-[#252525] border border-transparent"
+                }`}
+              >
+                <p className="text-xs text-[#eae6db] truncate">
+                  {describe(revision)}
+                </p>
+                <p className="text-[10px] text-[#a18d6f]">
+                  {formatDate(revision.created_at)}
+                </p>
+              </div>
+            ))}
+            <label className="flex items-center gap-2 pt-2 text-[10px] text-[#a18d6f]">
+              {t("characterRevisions.retention")}
+              <input
+                type="number"
+                min={1}
+                value={retention}
+                onChange={(e) => handleRetentionChange(Number(e.target.value))}
+                className="w-14 px-1 py-0.5 bg-[#1a1816]/80 border border-[#534741]/60 rounded text-xs text-[#eae6db] focus:outline-none focus:ring-1 focus:ring-amber-500/40"
+              />
+            </label>
+          </div>
+
+          <div className="md:w-3/4 p-4 overflow-y-auto fantasy-scrollbar space-y-3">
+            {selectedId && (
+              <div className="flex flex-wrap items-center gap-2">
+                <button
+                  className={toggleClass(against === "previous")}
+                  onClick={() => setAgainst("previous")}
+                >
+                  {t("characterRevisions.comparePrevious")}
+                </button>
+                <button
+                  className={toggleClass(against === "current")}
+                  onClick={() => setAgainst("current")}
+                >
+                  {t("characterRevisions.compareCurrent")}
+                </button>
+                <button
+                  onClick={handleRevert}
+                  disabled={isReverting}
+                  className="ml-auto px-4 py-1.5 bg-gradient-to-r from-amber-600/80 to-amber-500/80 hover:from-amber-500/90 hover:to-amber-400/90 text-white text-xs font-medium rounded-lg transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {t("characterRevisions.revert")}
+                </button>
+              </div>
+            )}
+
+            {selectedId && changes.length === 0 && (
+              <p className="text-xs text-[#8a8a8a]">
+                {t("characterRevisions.noChanges")}
+              </p>
+            )}
+
+            {changes.length > 0 && (
+              <div className="grid grid-cols-2 text-[10px] text-[#a18d6f]">
+                <span>
+                  {against === "previous"
+                    ? t("characterRevisions.beforeRevision")
+                    : t("characterRevisions.thisRevision")}
+                </span>
+                <span className="pl-2">
+                  {against === "previous"
+                    ? t("characterRevisions.thisRevision")
+                    : t("characterRevisions.now")}
+                </span>
+              </div>
+            )}
+
+            {changes.map((change) => (
+              <div
+                key={change.key}
+                className="rounded-lg border border-[#534741]/60 overflow-hidden"
+              >
+                <div className="px-2 py-1 text-[11px] text-amber-300 bg-[#252220]">
+                  {t(`characterRevisions.section_${change.section}`)} ·{" "}
+                  {change.label}
+                </div>
+                <div className="grid grid-cols-2 divide-x divide-[#534741]/60">
+                  <pre className="p-2 text-[11px] whitespace-pre-wrap break-words text-red-200/80 bg-red-900/10 max-h-60 overflow-y-auto fantasy-scrollbar">
+                    {change.before || "—"}
+                  </pre>
+                  <pre className="p-2 text-[11px] whitespace-pre-wrap break-words text-green-200/80 bg-green-900/10 max-h-60 overflow-y-auto fantasy-scrollbar">
+                    {change.after || "—"}
+                  </pre>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -7,6 +7,8 @@
  * - Preset management and GitHub integration
  * - Advanced settings access
  * - Dialogue tree modal integration
+ * - Chat list for switching between and managing the character's chats
+ * - The persona used in this chat, with access to the persona manager
  * - Collapsible sidebar functionality
  *
  * The component handles:
@@ -20,6 +22,8 @@
  * Dependencies:
  * - useLanguage: For internationalization
  * - DialogueTreeModal: For conversation tree display
+ * - ChatList: For the character's chats
+ * - PersonaModal: For managing personas
  * - AdvancedSettingsEditor: For advanced configuration
  * - CharacterAvatarBackground: For avatar display
  * - Preset management functions: For GitHub preset integration
@@ -29,6 +33,8 @@ import React, { useState, useEffect } from "react";
 import { useLanguage } from "@/app/i18n";
 import Link from "next/link";
 import DialogueTreeModal from "@/components/DialogueTreeModal";
+import ChatList from "@/components/ChatList";
+import PersonaModal from "@/components/PersonaModal";
 import { trackButtonClick } from "@/utils/google-analytics";
 import { CharacterAvatarBackground } from "@/components/CharacterAvatarBackground";
 import {
@@ -49,6 +55,11 @@ interface CharacterSidebarProps {
     avatar_path?: string;
     scenario?: string;
   };
+  dialogueId: string;
+  onSelectChat: (dialogueId: string) => void;
+  /** Name of the persona used in this chat, if any */
+  personaName?: string;
+  onPersonaChange?: () => void;
   isCollapsed: boolean;
   toggleSidebar: () => void;
   responseLength?: number;
@@ -72,6 +83,10 @@ interface CharacterSidebarProps {
  */
 const CharacterSidebar: React.FC<CharacterSidebarProps> = ({
   character,
+  dialogueId,
+  onSelectChat,
+  personaName,
+  onPersonaChange,
   isCollapsed,
   toggleSidebar,
   onDialogueEdit,
@@ -96,6 +111,7 @@ const CharacterSidebar: React.FC<CharacterSidebarProps> = ({
   }, []);
 
   const [showDialogueTreeModal, setShowDialogueTreeModal] = useState(false);
+  const [showPersonaModal, setShowPersonaModal] = useState(false);
   const [isMobile, setIsMobile] = useState(false);
 
   const handleResponseLengthChange = (
@@ -551,6 +567,44 @@ const CharacterSidebar: React.FC<CharacterSidebarProps> = ({
         </div>
         <div className="mx-4 menu-divider my-2"></div>
 
+        {!isCollapsed && (
+          <>
+            <div className="px-2 py-1 flex justify-between items-center text-xs text-[#8a8a8a] uppercase tracking-wider font-medium text-[8px] md:text-[10px] transition-all duration-300 ease-in-out overflow-hidden mx-4">
+              <span>{t("chatList.title")}</span>
+            </div>
+            <div className="px-6 max-h-[300px] overflow-y-auto fantasy-scrollbar">
+              <ChatList
+                characterId={character.id}
+                activeDialogueId={dialogueId}
+                onSelectChat={onSelectChat}
+              />
+            </div>
+            <div className="mx-4 menu-divider my-2"></div>
+          </>
+        )}
+
+        {!isCollapsed && (
+          <>
+            <div className="px-2 py-1 flex justify-between items-center text-xs text-[#8a8a8a] uppercase tracking-wider font-medium text-[8px] md:text-[10px] transition-all duration-300 ease-in-out overflow-hidden mx-4">
+              <span>{t("persona.sidebarTitle")}</span>
+            </div>
+            <div
+              className="menu-item flex justify-between items-center gap-2 p-2 mx-6 my-2 rounded-md hover:bg-[#252525] cursor-pointer transition-all duration-300 group"
+              onClick={() => setShowPersonaModal(true)}
+            >
+              <span
+                className={`text-xs md:text-sm truncate text-[#f4e8c1] group-hover:text-amber-400 transition-colors duration-300 ${fontClass}`}
+              >
+                {personaName || t("persona.none")}
+              </span>
+              <span className="text-[10px] text-[#a18d6f] flex-shrink-0 group-hover:text-amber-400 transition-colors duration-300">
+                {t("persona.manage")}
+              </span>
+            </div>
+            <div className="mx-4 menu-divider my-2"></div>
+          </>
+        )}
+
         {!isCollapsed && (
           <>
             <div
@@ -827,12 +881,22 @@ const CharacterSidebar: React.FC<CharacterSidebarProps> = ({
       </div>
 
       <DialogueTreeModal
+        key={dialogueId}
         isOpen={showDialogueTreeModal}
         onClose={() => setShowDialogueTreeModal(false)}
         characterId={character.id}
+        dialogueId={dialogueId}
         onDialogueEdit={onDialogueEdit}
       />
 
+      <PersonaModal
+        isOpen={showPersonaModal}
+        onClose={() => setShowPersonaModal(false)}
+        characterId={character.id}
+        dialogueId={dialogueId}
+        onChange={onPersonaChange}
+      />
+
       <AdvancedSettingsEditor
         isOpen={isAdvancedSettingsOpen}
         onClose={() => setIsAdvancedSettingsOpen(false)}
@@ -3,6 +3,7 @@
 import { useEffect, useRef, memo, useState, useCallback, useMemo } from "react";
 import { useSymbolColorStore } from "@/contexts/SymbolColorStore";
 import { useLanguage } from "@/app/i18n";
+import WorldBookTraceInspector from "@/components/WorldBookTraceInspector";
 
 // Virtual queue for rendering optimization
 class VirtualRenderQueue {
@@ -646,6 +647,9 @@ interface Props {
   forceFullDocument?: boolean;
   enableStreaming?: boolean;
   onContentChange?: () => void;
+  /** Chat and node of a generated reply; enables the world book inspector */
+  dialogueId?: string;
+  nodeId?: string;
 }
 
 export default memo(function ChatHtmlBubble({
@@ -653,12 +657,15 @@ export default memo(function ChatHtmlBubble({
   isLoading = false,
   enableStreaming = true,
   onContentChange,
+  dialogueId,
+  nodeId,
 }: Props) {
   const [showLoader, setShowLoader] = useState(
     isLoading || rawHtml.trim() === "",
   );
   const frameRef = useRef<HTMLIFrameElement>(null);
-  const { serifFontClass } = useLanguage();
+  const { t, serifFontClass } = useLanguage();
+  const [isTraceOpen, setIsTraceOpen] = useState(false);
 
   // Virtual queue integration for rendering optimization
   const renderQueueRef = useRef<VirtualRenderQueue>(globalRenderQueue);
@@ -744,22 +751,45 @@ export default memo(function ChatHtmlBubble({
     adjustHeightOptimized();
   }, [adjustHeightOptimized]);
 
+  const traceInspector = dialogueId && nodeId && (
+    <>
+      <div className="flex justify-end">
+        <button
+          type="button"
+          onClick={() => setIsTraceOpen(true)}
+          className="text-[10px] text-[#a18d6f]/70 hover:text-amber-300 transition-colors duration-300"
+        >
+          {t("worldBookTrace.open")}
+        </button>
+      </div>
+      <WorldBookTraceInspector
+        isOpen={isTraceOpen}
+        onClose={() => setIsTraceOpen(false)}
+        dialogueId={dialogueId}
+        nodeId={nodeId}
+      />
+    </>
+  );
+
   const isFullDoc = isCompleteHtmlDocument(rawHtml);
   if (isFullDoc) {
     return (
-      <iframe
-        ref={frameRef}
-        sandbox="allow-scripts allow-same-origin"
-        srcDoc={rawHtml}
-        onLoad={adjustHeightOnce}
-        style={{
-          width: "100%",
-          border: 0,
-          overflow: "auto",
-          height: "600px",
-          background: "transparent",
-        }}
-      />
+      <>
+        <iframe
+          ref={frameRef}
+          sandbox="allow-scripts allow-same-origin"
+          srcDoc={rawHtml}
+          onLoad={adjustHeightOnce}
+          style={{
+            width: "100%",
+            border: 0,
+            overflow: "auto",
+            height: "600px",
+            background: "transparent",
+          }}
+        />
+        {traceInspector}
+      </>
     );
   }
 
@@ -1177,6 +1207,7 @@ window.addEventListener('message', function(e) {
           }}
         />
       </div>
+      {traceInspector}
     </div>
   );
 });
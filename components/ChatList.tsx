@@ -0,0 +1,200 @@
+/**
+ * Chat List Component
+ *
+ * Lists a character's chats (save slots) in the character sidebar:
+ * - Switching between chats
+ * - Creating, renaming, duplicating and deleting chats
+ * - An optional summary per chat, shown under its name
+ *
+ * Dependencies:
+ * - useLanguage: For internationalization
+ * - function/dialogue/chats: For chat management
+ * - showUndoDeleteToast: For undoing a delete
+ */
+
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { useLanguage } from "@/app/i18n";
+import {
+  ChatSummary,
+  createCharacterChat,
+  deleteCharacterChat,
+  duplicateCharacterChat,
+  listCharacterChats,
+  updateCharacterChat,
+} from "@/function/dialogue/chats";
+import { showUndoDeleteToast } from "@/components/UndoDeleteToast";
+import { useDataChanges } from "@/hooks/useDataChanges";
+
+interface ChatListProps {
+  characterId: string;
+  activeDialogueId: string;
+  onSelectChat: (dialogueId: string) => void;
+}
+
+export default function ChatList({
+  characterId,
+  activeDialogueId,
+  onSelectChat,
+}: ChatListProps) {
+  const { t, fontClass } = useLanguage();
+  const [chats, setChats] = useState<ChatSummary[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState("");
+  const [editSummary, setEditSummary] = useState("");
+
+  const loadChats = useCallback(async () => {
+    try {
+      setChats(await listCharacterChats(characterId, t("chatList.chat")));
+    } catch (error) {
+      console.error("Failed to load chats:", error);
+    }
+  }, [characterId, t]);
+
+  useEffect(() => {
+    loadChats();
+  }, [loadChats, activeDialogueId]);
+
+  useDataChanges(["dialogues"], () => loadChats());
+
+  const handleCreate = async () => {
+    const result = await createCharacterChat(
+      characterId,
+      `${t("chatList.chat")} ${chats.length + 1}`,
+    );
+    await loadChats();
+    onSelectChat(result.dialogueId);
+  };
+
+  const handleDuplicate = async (chat: ChatSummary) => {
+    const result = await duplicateCharacterChat(
+      chat.id,
+      `${chat.name} ${t("chatList.copySuffix")}`,
+    );
+    await loadChats();
+    onSelectChat(result.dialogueId);
+  };
+
+  const handleDelete = async (chat: ChatSummary) => {
+    if (!confirm(t("chatList.deleteConfirm"))) return;
+
+    try {
+      const result = await deleteCharacterChat(chat.id);
+      const remaining = chats.filter((item) => item.id !== chat.id);
+      setChats(remaining);
+      if (chat.id === activeDialogueId) {
+        // Falls back to a new first chat when this was the last one
+        onSelectChat(remaining[0]?.id || characterId);
+      }
+      showUndoDeleteToast(result.trashItemId, t, loadChats);
+    } catch (error) {
+      console.error("Failed to delete chat:", error);
+    }
+  };
+
+  const startEditing = (chat: ChatSummary) => {
+    setEditingId(chat.id);
+    setEditName(chat.name);
+    setEditSummary(chat.summary);
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editingId) return;
+    await updateCharacterChat(editingId, {
+      name: editName.trim() || undefined,
+      summary: editSummary.trim() || undefined,
+    });
+    setEditingId(null);
+    await loadChats();
+  };
+
+  const inputClass =
+    "w-full px-2 py-1 bg-[#1a1816]/80 border border-[#534741]/60 rounded text-xs text-[#eae6db] placeholder-[#534741]/80 focus:outline-none focus:ring-1 focus:ring-amber-500/40";
+  const actionClass =
+    "text-[10px] text-[#a18d6f] hover:text-amber-400 transition-colors duration-300";
+
+  return (
+    <div className={`space-y-1 my-2 ${fontClass}`}>
+      {chats.map((chat) =>
+        editingId === chat.id ? (
+          <div key={chat.id} className="p-2 rounded-md bg-[#252525] space-y-1">
+            <input
+              className={inputClass}
+              value={editName}
+              placeholder={t("chatList.name")}
+              onChange={(e) => setEditName(e.target.value)}
+            />
+            <textarea
+              className={`${inputClass} resize-none`}
+              rows={2}
+              value={editSummary}
+              placeholder={t("chatList.summaryPlaceholder")}
+              onChange={(e) => setEditSummary(e.target.value)}
+            />
+            <div className="flex justify-end gap-2">
+              <button className={actionClass} onClick={() => setEditingId(null)}>
+                {t("chatList.cancel")}
+              </button>
+              <button className={actionClass} onClick={handleSaveEdit}>
+                {t("chatList.save")}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div
+            key={chat.id}
+            className={`menu-item p-2 rounded-md cursor-pointer transition-all duration-300 group ${
+              chat.id === activeDialogueId
+                ? "bg-[#252525] border border-amber-500/30"
+                : "hover:bg-[#252525] border border-transparent"
+            }`}
+            onClick={() => chat.id !== activeDialogueId && onSelectChat(chat.id)}
+          >
+            <div className="flex justify-between items-center gap-2">
+              <span
+                className={`text-xs md:text-sm truncate ${
+                  chat.id === activeDialogueId
+                    ? "text-amber-400"
+                    : "text-[#f4e8c1] group-hover:text-amber-400"
+                }`}
+              >
+                {chat.name}
+              </span>
+              {chat.updatedAt && (
+                <span className="text-[10px] text-[#8a8a8a] flex-shrink-0">
+                  {new Date(chat.updatedAt).toLocaleDateString()}
+                </span>
+              )}
+            </div>
+            {chat.summary && (
+              <p className="text-[10px] md:text-xs text-[#a18d6f] mt-1 line-clamp-2">
+                {chat.summary}
+              </p>
+            )}
+            <div
+              className="flex gap-2 mt-1 opacity-0 group-hover:opacity-100 transition-opacity duration-300"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <button className={actionClass} onClick={() => startEditing(chat)}>
+                {t("chatList.rename")}
+              </button>
+              <button className={actionClass} onClick={() => handleDuplicate(chat)}>
+                {t("chatList.duplicate")}
+              </button>
+              <button className={actionClass} onClick={() => handleDelete(chat)}>
+                {t("chatList.delete")}
+              </button>
+            </div>
+          </div>
+        ),
+      )}
+      <button
+        className="w-full p-2 rounded-md border border-dashed border-[#534741]/60 text-xs text-[#a18d6f] hover:text-amber-400 hover:border-amber-500/40 transition-all duration-300"
+        onClick={handleCreate}
+      >
+        + {t("chatList.newChat")}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,303 @@
+/**
+ * Cloud Sync Modal Component
+ *
+ * Configures and runs incremental cloud sync:
+ * - Provider selection (Google Drive or WebDAV)
+ * - WebDAV server settings and Google Drive authorization
+ * - Conflict strategy for records changed on both sides
+ * - Sync log of past pulls and pushes
+ *
+ * Dependencies:
+ * - useLanguage: For internationalization
+ * - function/data/sync: For providers and running the sync
+ */
+
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { useLanguage } from "@/app/i18n";
+import {
+  getActiveSyncLog,
+  getActiveSyncProviderId,
+  getSyncProviders,
+  setActiveSyncProviderId,
+  syncWithActiveProvider,
+} from "@/function/data/sync";
+import { getGoogleLoginUrl } from "@/function/data/google-control";
+import {
+  WebDAVConfig,
+  getWebDAVConfig,
+  saveWebDAVConfig,
+} from "@/lib/data/sync/webdav-provider";
+import { SyncProviderId } from "@/lib/data/sync/sync-provider";
+import { ConflictStrategy, SyncLogEntry } from "@/lib/data/sync/sync-engine";
+
+interface CloudSyncModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const EMPTY_WEBDAV_CONFIG: WebDAVConfig = {
+  url: "",
+  username: "",
+  password: "",
+  folder: "NarratiumSync",
+};
+
+export default function CloudSyncModal({ isOpen, onClose }: CloudSyncModalProps) {
+  const { t, fontClass, serifFontClass } = useLanguage();
+  const [providerId, setProviderId] = useState<SyncProviderId | null>(null);
+  const [webdavConfig, setWebdavConfig] = useState<WebDAVConfig>(EMPTY_WEBDAV_CONFIG);
+  const [strategy, setStrategy] = useState<ConflictStrategy>("keepLocal");
+  const [log, setLog] = useState<SyncLogEntry[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [message, setMessage] = useState("");
+  const [needsReload, setNeedsReload] = useState(false);
+
+  const loadLog = useCallback(async () => {
+    try {
+      setLog(await getActiveSyncLog());
+    } catch (error) {
+      console.error("Failed to load sync log:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setProviderId(getActiveSyncProviderId());
+    setWebdavConfig(getWebDAVConfig() || EMPTY_WEBDAV_CONFIG);
+    setMessage("");
+    loadLog();
+  }, [isOpen, loadLog]);
+
+  if (!isOpen) return null;
+
+  const providers = getSyncProviders();
+  const activeProvider = providers.find((provider) => provider.id === providerId);
+
+  const selectProvider = (id: SyncProviderId) => {
+    setActiveSyncProviderId(id);
+    setProviderId(id);
+    setMessage("");
+    loadLog();
+  };
+
+  const handleSaveWebDAV = () => {
+    saveWebDAVConfig(webdavConfig);
+    setMessage(t("cloudSync.settingsSaved"));
+  };
+
+  const handleSync = async () => {
+    setIsSyncing(true);
+    setMessage("");
+    try {
+      const [pulled, pushed] = await syncWithActiveProvider(strategy);
+      setNeedsReload(pulled.puts + pulled.deletes > 0);
+      setMessage(
+        `${t("cloudSync.syncDone")}: ↓${pulled.puts + pulled.deletes} ↑${pushed.puts + pushed.deletes}` +
+          (pulled.conflicts.length > 0
+            ? `, ${pulled.conflicts.length} ${t("cloudSync.conflicts")}`
+            : ""),
+      );
+    } catch (error) {
+      console.error("Sync failed:", error);
+      setMessage(
+        `${t("cloudSync.syncFailed")}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    } finally {
+      setIsSyncing(false);
+      loadLog();
+    }
+  };
+
+  const inputClass =
+    "w-full px-3 py-1.5 bg-[#1a1816]/80 border border-[#534741]/60 rounded-lg text-sm text-[#eae6db] placeholder-[#534741]/80 focus:outline-none focus:ring-1 focus:ring-amber-500/40";
+  const optionClass = (active: boolean) =>
+    `px-3 py-1.5 rounded-lg border text-xs transition-all duration-300 ${
+      active
+        ? "border-amber-500/60 bg-amber-500/15 text-amber-200"
+        : "border-[#534741]/60 text-[#a18d6f] hover:text-[#eae6db] hover:border-amber-500/40"
+    }`;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-[10000] p-3">
+      <div className="relative bg-gradient-to-br from-[#1a1816]/95 via-[#252220]/95 to-[#1a1816]/95 backdrop-blur-xl border border-[#534741]/60 rounded-xl shadow-2xl max-w-xl w-full max-h-[85vh] overflow-hidden">
+        <div className="relative p-3 border-b border-[#534741]/40 bg-gradient-to-r from-[#252220]/80 via-[#1a1816]/60 to-[#252220]/80 backdrop-blur-sm">
+          <div className="flex justify-between items-center">
+            <h2
+              className={`text-base font-semibold text-[#eae6db] ${serifFontClass} bg-gradient-to-r from-amber-300 via-amber-200 to-amber-300 bg-clip-text text-transparent`}
+            >
+              {t("cloudSync.title")}
+            </h2>
+            <button
+              onClick={onClose}
+              className="w-7 h-7 flex items-center justify-center text-[#a18d6f] hover:text-[#eae6db] transition-all duration-300 rounded-lg hover:bg-[#333]/50"
+            >
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                width="16"
+                height="16"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              >
+                <line x1="18" y1="6" x2="6" y2="18"></line>
+                <line x1="6" y1="6" x2="18" y2="18"></line>
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <div className={`relative p-4 max-h-[70vh] overflow-y-auto fantasy-scrollbar space-y-4 ${fontClass}`}>
+          <div>
+            <h4 className={`text-sm font-medium text-[#eae6db] mb-2 ${serifFontClass}`}>
+              {t("cloudSync.provider")}
+            </h4>
+            <div className="flex flex-wrap gap-2">
+              {providers.map((provider) => (
+                <button
+                  key={provider.id}
+                  className={optionClass(provider.id === providerId)}
+                  onClick={() => selectProvider(provider.id)}
+                >
+                  {provider.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {providerId === "google-drive" && (
+            <div className="flex items-center justify-between text-xs text-[#a18d6f]">
+              <span>
+                {activeProvider?.isConfigured()
+                  ? t("cloudSync.googleConnected")
+                  : t("cloudSync.googleNotConnected")}
+              </span>
+              <button
+                className={optionClass(false)}
+                onClick={() => {
+                  window.location.href = getGoogleLoginUrl();
+                }}
+              >
+                {t("cloudSync.connectGoogle")}
+              </button>
+            </div>
+          )}
+
+          {providerId === "webdav" && (
+            <div className="space-y-2">
+              <input
+                className={inputClass}
+                placeholder={t("cloudSync.webdavUrl")}
+                value={webdavConfig.url}
+                onChange={(e) => setWebdavConfig({ ...webdavConfig, url: e.target.value })}
+              />
+              <div className="flex gap-2">
+                <input
+                  className={inputClass}
+                  placeholder={t("cloudSync.webdavUsername")}
+                  value={webdavConfig.username}
+                  onChange={(e) => setWebdavConfig({ ...webdavConfig, username: e.target.value })}
+                />
+                <input
+                  className={inputClass}
+                  type="password"
+                  placeholder={t("cloudSync.webdavPassword")}
+                  value={webdavConfig.password}
+                  onChange={(e) => setWebdavConfig({ ...webdavConfig, password: e.target.value })}
+                />
+              </div>
+              <input
+                className={inputClass}
+                placeholder={t("cloudSync.webdavFolder")}
+                value={webdavConfig.folder}
+                onChange={(e) => setWebdavConfig({ ...webdavConfig, folder: e.target.value })}
+              />
+              <p className="text-xs text-[#a18d6f]/70">{t("cloudSync.webdavCorsHint")}</p>
+              <div className="flex justify-end">
+                <button className={optionClass(false)} onClick={handleSaveWebDAV}>
+                  {t("common.save")}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {providerId && (
+            <div>
+              <h4 className={`text-sm font-medium text-[#eae6db] mb-2 ${serifFontClass}`}>
+                {t("cloudSync.conflictStrategy")}
+              </h4>
+              <div className="flex flex-wrap gap-2">
+                <button
+                  className={optionClass(strategy === "keepLocal")}
+                  onClick={() => setStrategy("keepLocal")}
+                >
+                  {t("cloudSync.keepLocal")}
+                </button>
+                <button
+                  className={optionClass(strategy === "keepRemote")}
+                  onClick={() => setStrategy("keepRemote")}
+                >
+                  {t("cloudSync.keepRemote")}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {message && (
+            <div className="flex items-center justify-between text-xs text-[#eae6db]">
+              <span>{message}</span>
+              {needsReload && (
+                <button className={optionClass(false)} onClick={() => window.location.reload()}>
+                  {t("cloudSync.reload")}
+                </button>
+              )}
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <button
+              onClick={handleSync}
+              disabled={isSyncing || !activeProvider?.isConfigured()}
+              className="px-4 py-1.5 bg-gradient-to-r from-amber-600/80 to-amber-500/80 hover:from-amber-500/90 hover:to-amber-400/90 text-white font-medium rounded-lg transition-all duration-300 shadow-lg hover:shadow-amber-500/25 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSyncing ? t("cloudSync.syncing") : t("cloudSync.syncNow")}
+            </button>
+          </div>
+
+          {providerId && (
+            <div>
+              <h4 className={`text-sm font-medium text-[#eae6db] mb-2 ${serifFontClass}`}>
+                {t("cloudSync.log")}
+              </h4>
+              {log.length === 0 ? (
+                <p className="text-xs text-[#a18d6f]">{t("cloudSync.logEmpty")}</p>
+              ) : (
+                <ul className="space-y-1 max-h-48 overflow-y-auto fantasy-scrollbar">
+                  {log.map((entry) => (
+                    <li
+                      key={entry.id}
+                      className="text-xs text-[#a18d6f] border-b border-[#534741]/30 pb-1"
+                    >
+                      <span className="text-[#eae6db]">
+                        {new Date(entry.created_at).toLocaleString()}
+                      </span>{" "}
+                      {entry.direction === "pull" ? "↓" : "↑"} {t(`cloudSync.status_${entry.status}`)}
+                      {" · "}r{entry.revision} · +{entry.puts} −{entry.deletes}
+                      {entry.conflicts.length > 0 &&
+                        ` · ${entry.conflicts.length} ${t("cloudSync.conflicts")}`}
+                      {entry.message && <div className="text-[#a18d6f]/70">{entry.message}</div>}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
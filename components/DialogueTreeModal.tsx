@@ -63,6 +63,7 @@ interface DialogueTreeModalProps {
   isOpen: boolean;
   onClose: () => void;
   characterId?: string;
+  dialogueId?: string;
   onDialogueEdit?: () => void;
 }
 
@@ -435,6 +436,7 @@ const nodeTypes: NodeTypes = {
  * @param isOpen - Controls modal visibility
  * @param onClose - Callback for closing the modal
  * @param characterId - ID of the character whose dialogue tree to display
+ * @param dialogueId - Which of the character's chats to display
  * @param onDialogueEdit - Callback triggered when dialogue content is modified
  * @returns {JSX.Element | null} The dialogue tree modal or null if not open
  */
@@ -442,6 +444,7 @@ export default function DialogueTreeModal({
   isOpen,
   onClose,
   characterId,
+  dialogueId,
   onDialogueEdit,
 }: DialogueTreeModalProps) {
   const { t, fontClass, serifFontClass } = useLanguage();
@@ -758,7 +761,12 @@ export default function DialogueTreeModal({
    */
   const updateCurrentPathColors = useCallback(async (characterId: string) => {
     try {
-      const response = await getCharacterDialogue(characterId);
+      const response = await getCharacterDialogue(
+        characterId,
+        undefined,
+        undefined,
+        dialogueId,
+      );
 
       if (!response.success || !response.dialogue?.tree?.nodes) {
         return;
@@ -840,7 +848,7 @@ export default function DialogueTreeModal({
     } catch (error) {
       console.error("Error updating current path colors:", error);
     }
-  }, []);
+  }, [dialogueId]);
 
   /**
    * Initializes ReactFlow instance and sets up viewport
@@ -902,7 +910,11 @@ export default function DialogueTreeModal({
       if (!characterId || isJumpingToNode) return;
       try {
         setIsJumpingToNode(true);
-        const response = await switchDialogueBranch({ characterId, nodeId });
+        const response = await switchDialogueBranch({
+          characterId,
+          dialogueId,
+          nodeId,
+        });
 
         if (!response.success) {
           throw new Error("Failed to jump to node");
@@ -922,7 +934,7 @@ export default function DialogueTreeModal({
         setIsJumpingToNode(false);
       }
     },
-    [characterId, onDialogueEdit, isJumpingToNode],
+    [characterId, dialogueId, onDialogueEdit, isJumpingToNode],
   );
 
   useEffect(() => {
@@ -1016,6 +1028,7 @@ export default function DialogueTreeModal({
     try {
       const incrementalResponse = await getIncrementalDialogue({
         characterId,
+        dialogueId,
         lastKnownNodeIds: Array.from(lastKnownNodeIds),
         lastUpdateTime: lastUpdateTime || undefined,
       });
@@ -1052,7 +1065,12 @@ export default function DialogueTreeModal({
     }
 
     try {
-      const response = await getCharacterDialogue(characterId);
+      const response = await getCharacterDialogue(
+        characterId,
+        undefined,
+        undefined,
+        dialogueId,
+      );
 
       if (!response.success) {
         throw new Error("Failed to fetch dialogue data");
@@ -1562,6 +1580,7 @@ export default function DialogueTreeModal({
 
         const response = await editDialaogueNodeContent({
           characterId: characterId,
+          dialogueId,
           nodeId: selectedNode.id,
           assistantResponse: editContent,
           model_name: modelName,
@@ -8,6 +8,8 @@
  * - Real-time character updates
  * - Modal-based editing workflow
  * - Responsive design with animations
+ * - An optional note for each save and access to the edit history
+ * - A quality check of the card with one-click fixes
  *
  * The component handles:
  * - Character data editing and validation
@@ -23,6 +25,8 @@
  * - trackButtonClick: For analytics tracking
  * - framer-motion: For animations
  * - CharacterAvatarBackground: For avatar display
+ * - CharacterRevisionsModal: For browsing and reverting revisions
+ * - CardLintPanel: For the quality check
  */
 
 import React, { useState, useEffect } from "react";
@@ -31,6 +35,9 @@ import { motion, AnimatePresence } from "framer-motion";
 import { trackButtonClick } from "@/utils/google-analytics";
 import { updateCharacter } from "@/function/dialogue/update";
 import { CharacterAvatarBackground } from "@/components/CharacterAvatarBackground";
+import CharacterRevisionsModal from "@/components/CharacterRevisionsModal";
+import CardLintPanel from "@/components/CardLintPanel";
+import { RawCharacterData } from "@/lib/models/rawdata-model";
 
 /**
  * Interface definitions for the component's props
@@ -76,6 +83,9 @@ const EditCharacterModal: React.FC<EditCharacterModalProps> = ({
   const [scenario, setScenario] = useState("");
   const [firstMessage, setFirstMessage] = useState("");
   const [creatorComment, setCreatorComment] = useState("");
+  const [note, setNote] = useState("");
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isLintOpen, setIsLintOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState("");
 
@@ -86,23 +96,37 @@ const EditCharacterModal: React.FC<EditCharacterModalProps> = ({
       setScenario(characterData.scenario || "");
       setFirstMessage(characterData.first_mes || "");
       setCreatorComment(characterData.creatorcomment || "");
+      setNote("");
       setError("");
+      setIsLintOpen(false);
     }
   }, [isOpen, characterData]);
 
+  // Fixes are already saved; keep the form from writing the old text back
+  const handleLintFixed = (data: RawCharacterData) => {
+    const card = data.data || data;
+    setPersonality(card.personality || "");
+    setScenario(card.scenario || "");
+    setFirstMessage(card.first_mes || "");
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
     setError("");
 
     try {
-      const response = await updateCharacter(characterId, {
-        name,
-        personality,
-        scenario,
-        first_mes: firstMessage,
-        creatorcomment: creatorComment,
-      });
+      const response = await updateCharacter(
+        characterId,
+        {
+          name,
+          personality,
+          scenario,
+          first_mes: firstMessage,
+          creatorcomment: creatorComment,
+        },
+        note,
+      );
 
       if (!response.success) {
         throw new Error("Failed to update character");
@@ -297,7 +321,46 @@ const EditCharacterModal: React.FC<EditCharacterModalProps> = ({
                     />
                   </div>
 
+                  <div>
+                    <button
+                      type="button"
+                      onClick={() => setIsLintOpen(!isLintOpen)}
+                      className={`block text-sm font-medium text-[#c0a480] hover:text-amber-300 mb-2 transition-colors duration-300 ${fontClass}`}
+                    >
+                      {isLintOpen ? "▾" : "▸"} {t("cardLint.title")}
+                    </button>
+                    {isLintOpen && (
+                      <CardLintPanel
+                        characterId={characterId}
+                        onFixed={handleLintFixed}
+                      />
+                    )}
+                  </div>
+
+                  <div>
+                    <label
+                      htmlFor="character-revision-note"
+                      className={`block text-sm font-medium text-[#c0a480] mb-2 ${fontClass}`}
+                    >
+                      {t("editCharacterModal.note")}
+                    </label>
+                    <input
+                      type="text"
+                      id="character-revision-note"
+                      value={note}
+                      onChange={(e) => setNote(e.target.value)}
+                      className={`w-full bg-[#252220] border border-[#534741] rounded p-3 text-[#eae6db] focus:outline-none focus:ring-1 focus:ring-[#c0a480] ${fontClass}`}
+                    />
+                  </div>
+
                   <div className="flex justify-end space-x-4 pt-4">
+                    <button
+                      type="button"
+                      onClick={() => setIsHistoryOpen(true)}
+                      className={`mr-auto text-[#a18d6f] hover:text-[#f4e8c1] transition-colors duration-300 ${serifFontClass}`}
+                    >
+                      {t("editCharacterModal.history")}
+                    </button>
                     <button
                       type="button"
                       onClick={(e) => {
@@ -328,6 +391,16 @@ const EditCharacterModal: React.FC<EditCharacterModalProps> = ({
               </div>
             </div>
           </motion.div>
+          <CharacterRevisionsModal
+            isOpen={isHistoryOpen}
+            onClose={() => setIsHistoryOpen(false)}
+            characterId={characterId}
+            onReverted={() => {
+              setIsHistoryOpen(false);
+              onSave();
+              onClose();
+            }}
+          />
         </div>
       )}
     </AnimatePresence>
@@ -0,0 +1,277 @@
+/**
+ * Group Chats Modal Component
+ *
+ * Manages group chats, where several characters share one scene:
+ * - Creating, editing and deleting groups
+ * - Picking members; the order they are picked in is the turn order
+ * - Choosing how the next speaker is decided (manual, round-robin, mention)
+ * - Opening a group's chat
+ *
+ * Dependencies:
+ * - useLanguage: For internationalization
+ * - function/group: For group management
+ * - CharacterAvatarBackground: For avatar display
+ * - showUndoDeleteToast: For undoing a delete
+ */
+
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { useLanguage } from "@/app/i18n";
+import { GroupTurnMode } from "@/lib/models/group-model";
+import { GroupChatSummary, listGroupChats } from "@/function/group/info";
+import { deleteGroupChat, saveGroupChat } from "@/function/group/edit";
+import { CharacterAvatarBackground } from "@/components/CharacterAvatarBackground";
+import { showUndoDeleteToast } from "@/components/UndoDeleteToast";
+import { useDataChanges } from "@/hooks/useDataChanges";
+
+interface GroupCharacter {
+  id: string;
+  name: string;
+  avatar_path?: string;
+}
+
+interface GroupChatsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Characters that can join a group */
+  characters: GroupCharacter[];
+}
+
+const TURN_MODES: GroupTurnMode[] = ["manual", "roundRobin", "mention"];
+
+export default function GroupChatsModal({
+  isOpen,
+  onClose,
+  characters,
+}: GroupChatsModalProps) {
+  const { t, language, fontClass, serifFontClass } = useLanguage();
+  const [groups, setGroups] = useState<GroupChatSummary[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [members, setMembers] = useState<string[]>([]);
+  const [turnMode, setTurnMode] = useState<GroupTurnMode>("roundRobin");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const selected = groups.find((group) => group.id === selectedId) || null;
+
+  const loadGroups = useCallback(async () => {
+    try {
+      setGroups(await listGroupChats(language as "zh" | "en"));
+    } catch (error) {
+      console.error("Failed to load groups:", error);
+    }
+  }, [language]);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadGroups();
+    }
+  }, [isOpen, loadGroups]);
+
+  useDataChanges(["groups"], loadGroups, { enabled: isOpen });
+
+  // Only reset the form when another group is picked
+  useEffect(() => {
+    setName(selected?.name || "");
+    setMembers(selected?.members.map((member) => member.id) || []);
+    setTurnMode(selected?.turnMode || "roundRobin");
+  }, [selectedId]);
+
+  if (!isOpen) return null;
+
+  const toggleMember = (characterId: string) =>
+    setMembers((current) =>
+      current.includes(characterId)
+        ? current.filter((id) => id !== characterId)
+        : [...current, characterId],
+    );
+
+  const handleSave = async () => {
+    if (!name.trim() || members.length === 0) return;
+    setIsSaving(true);
+    try {
+      const group = await saveGroupChat(
+        { name: name.trim(), members, turnMode },
+        selectedId || undefined,
+      );
+      await loadGroups();
+      setSelectedId(group.id);
+    } catch (error) {
+      console.error("Failed to save group:", error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected || !confirm(t("group.deleteConfirm"))) return;
+    try {
+      const result = await deleteGroupChat(selected.id);
+      setSelectedId(null);
+      await loadGroups();
+      showUndoDeleteToast(result.trashItemId, t, loadGroups);
+    } catch (error) {
+      console.error("Failed to delete group:", error);
+    }
+  };
+
+  const inputClass =
+    "w-full px-2 py-1.5 bg-[#1a1816]/80 border border-[#534741]/60 rounded text-xs text-[#eae6db] placeholder-[#534741]/80 focus:outline-none focus:ring-1 focus:ring-amber-500/40";
+  const toggleClass = (active: boolean) =>
+    `px-3 py-1 rounded-lg border text-xs transition-all duration-300 ${
+      active
+        ? "border-amber-500/60 text-amber-300 bg-amber-500/10"
+        : "border-[#534741]/60 text-[#a18d6f] hover:text-amber-300 hover:border-amber-500/40"
+    }`;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-[10000] p-3">
+      <div className="relative bg-gradient-to-br from-[#1a1816]/95 via-[#252220]/95 to-[#1a1816]/95 backdrop-blur-xl border border-[#534741]/60 rounded-xl shadow-2xl max-w-2xl w-full max-h-[85vh] overflow-hidden">
+        <div className="relative p-3 border-b border-[#534741]/40 bg-gradient-to-r from-[#252220]/80 via-[#1a1816]/60 to-[#252220]/80 backdrop-blur-sm">
+          <div className="flex justify-between items-center">
+            <h2
+              className={`text-base font-semibold text-[#eae6db] ${serifFontClass} bg-gradient-to-r from-amber-300 via-amber-200 to-amber-300 bg-clip-text text-transparent`}
+            >
+              {t("group.title")}
+            </h2>
+            <button
+              onClick={onClose}
+              className="w-7 h-7 flex items-center justify-center text-[#a18d6f] hover:text-[#eae6db] transition-all duration-300 rounded-lg hover:bg-[#333]/50"
+            >
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                width="16"
+                height="16"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              >
+                <line x1="18" y1="6" x2="6" y2="18"></line>
+                <line x1="6" y1="6" x2="18" y2="18"></line>
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <div className={`relative flex flex-col md:flex-row max-h-[70vh] ${fontClass}`}>
+          <div className="md:w-1/3 p-3 border-b md:border-b-0 md:border-r border-[#534741]/40 overflow-y-auto fantasy-scrollbar space-y-1">
+            {groups.map((group) => (
+              <div
+                key={group.id}
+                onClick={() => setSelectedId(group.id)}
+                className={`p-2 rounded-md cursor-pointer transition-all duration-300 ${
+                  group.id === selectedId
+                    ? "bg-[#252525] border border-amber-500/30"
+                    : "hover:bg-[#252525] border border-transparent"
+                }`}
+              >
+                <p className="text-sm text-[#eae6db] truncate">{group.name}</p>
+                <p className="text-[10px] text-[#a18d6f] truncate">
+                  {group.members.map((member) => member.name).join(", ")}
+                </p>
+              </div>
+            ))}
+            <button
+              className="w-full p-2 rounded-md border border-dashed border-[#534741]/60 text-xs text-[#a18d6f] hover:text-amber-400 hover:border-amber-500/40 transition-all duration-300"
+              onClick={() => setSelectedId(null)}
+            >
+              + {t("group.newGroup")}
+            </button>
+          </div>
+
+          <div className="md:w-2/3 p-4 overflow-y-auto fantasy-scrollbar space-y-3">
+            <input
+              className={inputClass}
+              value={name}
+              placeholder={t("group.name")}
+              onChange={(e) => setName(e.target.value)}
+            />
+
+            <div className="space-y-1">
+              <p className="text-xs text-[#a18d6f]">{t("group.members")}</p>
+              <div className="max-h-48 overflow-y-auto fantasy-scrollbar space-y-1">
+                {characters.map((character) => {
+                  const turn = members.indexOf(character.id);
+                  return (
+                    <div
+                      key={character.id}
+                      onClick={() => toggleMember(character.id)}
+                      className={`flex items-center gap-2 p-1.5 rounded-md cursor-pointer transition-all duration-300 ${
+                        turn >= 0
+                          ? "bg-[#252525] border border-amber-500/30"
+                          : "hover:bg-[#252525] border border-transparent"
+                      }`}
+                    >
+                      <div className="w-6 h-6 rounded-full overflow-hidden flex-shrink-0 bg-[#1a1816]">
+                        {character.avatar_path && (
+                          <CharacterAvatarBackground
+                            avatarPath={character.avatar_path}
+                          />
+                        )}
+                      </div>
+                      <span className="text-xs text-[#eae6db] truncate flex-1">
+                        {character.name}
+                      </span>
+                      {turn >= 0 && (
+                        <span className="text-[10px] text-amber-400">
+                          #{turn + 1}
+                        </span>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+              <p className="text-[10px] text-[#8a8a8a]">{t("group.membersHint")}</p>
+            </div>
+
+            <div className="space-y-1">
+              <p className="text-xs text-[#a18d6f]">{t("group.turnMode")}</p>
+              <div className="flex flex-wrap gap-2">
+                {TURN_MODES.map((mode) => (
+                  <button
+                    key={mode}
+                    className={toggleClass(turnMode === mode)}
+                    onClick={() => setTurnMode(mode)}
+                  >
+                    {t(`group.turnMode_${mode}`)}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              {selected && (
+                <button
+                  onClick={handleDelete}
+                  className="px-3 py-1.5 rounded-lg border text-xs transition-all duration-300 border-[#534741]/60 text-[#a18d6f] hover:text-red-400 hover:border-red-500/40"
+                >
+                  {t("group.delete")}
+                </button>
+              )}
+              {selected && (
+                <Link
+                  href={`/group?id=${selected.id}`}
+                  className="px-3 py-1.5 rounded-lg border text-xs transition-all duration-300 border-amber-500/40 text-amber-300 hover:bg-amber-500/10"
+                >
+                  {t("group.open")}
+                </Link>
+              )}
+              <button
+                onClick={handleSave}
+                disabled={isSaving || !name.trim() || members.length === 0}
+                className="px-4 py-1.5 bg-gradient-to-r from-amber-600/80 to-amber-500/80 hover:from-amber-500/90 hover:to-amber-400/90 text-white text-xs font-medium rounded-lg transition-all duration-300 shadow-lg hover:shadow-amber-500/25 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {selected ? t("group.save") : t("group.create")}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,7 +2,7 @@
  * Import Character Modal Component
  *
  * This component provides a character import interface with the following features:
- * - PNG file upload with drag-and-drop support
+ * - PNG, JSON and CharX card upload with drag-and-drop support
  * - File validation and error handling
  * - Upload progress tracking and loading states
  * - Character upload integration
@@ -10,7 +10,7 @@
  *
  * The component handles:
  * - File upload and drag-and-drop interactions
- * - PNG file validation and type checking
+ * - Card file validation by extension
  * - Upload progress and error state management
  * - Character import functionality
  * - Modal state management and animations
@@ -30,6 +30,7 @@ import { motion, AnimatePresence } from "framer-motion";
 import { useLanguage } from "@/app/i18n";
 import { trackButtonClick } from "@/utils/google-analytics";
 import { handleCharacterUpload } from "@/function/character/import";
+import { toast } from "react-hot-toast";
 
 /**
  * Interface definitions for the component's props
@@ -40,11 +41,16 @@ interface ImportCharacterModalProps {
   onImport: () => void;
 }
 
+const SUPPORTED_EXTENSIONS = [".png", ".json", ".charx"];
+
+const isSupportedCardFile = (file: File): boolean =>
+  SUPPORTED_EXTENSIONS.some((ext) => file.name.toLowerCase().endsWith(ext));
+
 /**
  * Import character modal component
  *
  * Provides a character import interface with:
- * - PNG file upload with drag-and-drop support
+ * - PNG, JSON and CharX card upload with drag-and-drop support
  * - File validation and error handling
  * - Upload progress tracking
  * - Character import integration
@@ -81,11 +87,11 @@ export default function ImportCharacterModal({
 
     if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
       const file = e.dataTransfer.files[0];
-      if (file.type === "image/png") {
+      if (isSupportedCardFile(file)) {
         setSelectedFile(file);
         setError("");
       } else {
-        setError(t("importCharacterModal.pngOnly"));
+        setError(t("importCharacterModal.unsupportedFormat"));
       }
     }
   };
@@ -93,11 +99,11 @@ export default function ImportCharacterModal({
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
       const file = e.target.files[0];
-      if (file.type === "image/png") {
+      if (isSupportedCardFile(file)) {
         setSelectedFile(file);
         setError("");
       } else {
-        setError(t("importCharacterModal.pngOnly"));
+        setError(t("importCharacterModal.unsupportedFormat"));
       }
     }
   };
@@ -121,6 +127,13 @@ export default function ImportCharacterModal({
         throw new Error(t("importCharacterModal.uploadFailed"));
       }
 
+      const problems = (response.lintReport?.issues || []).filter(
+        (issue) => issue.severity !== "info",
+      ).length;
+      if (problems > 0) {
+        toast(`${t("cardLint.importProblems")}: ${problems}`, { icon: "⚠️" });
+      }
+
       onImport();
       onClose();
     } catch (err) {
@@ -187,7 +200,7 @@ export default function ImportCharacterModal({
                   type="file"
                   ref={fileInputRef}
                   className="hidden"
-                  accept="image/png"
+                  accept=".png,.json,.charx,image/png,application/json"
                   onChange={handleFileSelect}
                 />
 
@@ -218,7 +231,7 @@ export default function ImportCharacterModal({
                     <div className={`text-[#a18d6f] ${fontClass}`}>
                       <p>{t("importCharacterModal.dragOrClick")}</p>
                       <p className="text-xs mt-1">
-                        {t("importCharacterModal.pngFormat")}
+                        {t("importCharacterModal.supportedFormats")}
                       </p>
                     </div>
                   )}
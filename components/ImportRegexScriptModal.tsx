@@ -29,6 +29,7 @@
 
 import React, { useState, useRef, useEffect } from "react";
 import { toast } from "react-hot-toast";
+import { showUndoDeleteToast } from "@/components/UndoDeleteToast";
 import { useLanguage } from "@/app/i18n";
 import { importRegexScriptFromJson } from "@/function/regex/import";
 import {
@@ -299,7 +300,7 @@ export default function ImportRegexScriptModal({
     try {
       const result = await deleteGlobalRegexScript(globalId);
       if (result.success) {
-        toast.success(t("regexScriptEditor.globalScriptDeleted"));
+        showUndoDeleteToast(result.trashItemId, t, loadGlobalRegexScripts);
         loadGlobalRegexScripts();
         if (selectedGlobalId === globalId) {
           setSelectedGlobalId("");
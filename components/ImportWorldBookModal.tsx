@@ -28,6 +28,7 @@
 
 import React, { useState, useRef, useEffect } from "react";
 import { toast } from "react-hot-toast";
+import { showUndoDeleteToast } from "@/components/UndoDeleteToast";
 import { useLanguage } from "@/app/i18n";
 import { importWorldBookFromJson } from "@/function/worldbook/import";
 import {
@@ -239,7 +240,7 @@ export default function ImportWorldBookModal({
     try {
       const result = await deleteGlobalWorldBook(globalId);
       if (result.success) {
-        toast.success(t("worldBook.globalWorldBookDeleted"));
+        showUndoDeleteToast(result.trashItemId, t, loadGlobalWorldBooks);
         loadGlobalWorldBooks();
         if (selectedGlobalId === globalId) {
           setSelectedGlobalId("");
@@ -18,6 +18,7 @@
  * - SettingsDropdown: Global settings menu
  * - LoginModal: Authentication modal
  * - MobileBottomNav: Mobile bottom navigation
+ * - Toaster: Toast notifications, including recycle bin undo
  */
 
 "use client";
@@ -28,6 +29,8 @@ import ModelSidebar from "@/components/ModelSidebar";
 import SettingsDropdown from "@/components/SettingsDropdown";
 import LoginModal from "@/components/LoginModal";
 import MobileBottomNav from "@/components/MobileBottomNav";
+import { Toaster } from "react-hot-toast";
+import { TrashOperations } from "@/lib/data/roleplay/trash-operation";
 import "@/app/styles/fantasy-ui.css";
 
 /**
@@ -57,6 +60,10 @@ export default function MainLayout({
 
     checkIfMobile();
 
+    TrashOperations.purgeExpired().catch((error) =>
+      console.error("Failed to purge expired trash:", error),
+    );
+
     window.addEventListener("resize", checkIfMobile);
 
     return () => window.removeEventListener("resize", checkIfMobile);
@@ -113,6 +120,17 @@ export default function MainLayout({
 
       {/* Mobile Bottom Navigation */}
       <MobileBottomNav openLoginModal={() => setIsLoginModalOpen(true)} />
+
+      <Toaster
+        position="bottom-center"
+        toastOptions={{
+          style: {
+            background: "#252220",
+            color: "#eae6db",
+            border: "1px solid rgba(83, 71, 65, 0.6)",
+          },
+        }}
+      />
     </div>
   );
 }
@@ -0,0 +1,404 @@
+/**
+ * Persona Modal Component
+ *
+ * Manages the personas the user can play as:
+ * - Creating, editing and deleting personas (name, avatar, description)
+ * - World book entries that only apply while the persona is in use
+ * - Choosing the default persona
+ * - Locking a persona to the current character or chat
+ *
+ * Dependencies:
+ * - useLanguage: For internationalization
+ * - function/persona: For persona management
+ * - CharacterAvatarBackground: For avatar display
+ * - showUndoDeleteToast: For undoing a delete
+ */
+
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { useLanguage } from "@/app/i18n";
+import { Persona } from "@/lib/models/persona-model";
+import { WorldBookEntry } from "@/lib/models/world-book-model";
+import { listPersonas } from "@/function/persona/info";
+import {
+  deletePersona,
+  lockPersona,
+  savePersona,
+  setDefaultPersona,
+} from "@/function/persona/edit";
+import { CharacterAvatarBackground } from "@/components/CharacterAvatarBackground";
+import { showUndoDeleteToast } from "@/components/UndoDeleteToast";
+import { useDataChanges } from "@/hooks/useDataChanges";
+
+interface PersonaModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  characterId: string;
+  dialogueId: string;
+  /** Called after anything that may change the persona of this chat */
+  onChange?: () => void;
+}
+
+interface EntryDraft {
+  keys: string;
+  content: string;
+}
+
+const toEntryDrafts = (persona: Persona | null): EntryDraft[] =>
+  Object.values(persona?.worldBook || {}).map((entry) => ({
+    keys: (entry.keys || []).join(", "),
+    content: entry.content || "",
+  }));
+
+const toWorldBook = (drafts: EntryDraft[]): Record<string, WorldBookEntry> =>
+  Object.fromEntries(
+    drafts
+      .filter((draft) => draft.content.trim())
+      .map((draft, index): [string, WorldBookEntry] => [
+        `entry_${index}`,
+        {
+          keys: draft.keys
+            .split(",")
+            .map((key) => key.trim())
+            .filter(Boolean),
+          content: draft.content,
+          selective: false,
+          constant: !draft.keys.trim(),
+          position: 4,
+          enabled: true,
+        },
+      ]),
+  );
+
+export default function PersonaModal({
+  isOpen,
+  onClose,
+  characterId,
+  dialogueId,
+  onChange,
+}: PersonaModalProps) {
+  const { t, fontClass, serifFontClass } = useLanguage();
+  const [personas, setPersonas] = useState<Persona[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [entries, setEntries] = useState<EntryDraft[]>([]);
+  const [avatarFile, setAvatarFile] = useState<File | null>(null);
+  const [avatarPreview, setAvatarPreview] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const selected = personas.find((persona) => persona.id === selectedId) || null;
+
+  const loadPersonas = useCallback(async () => {
+    try {
+      setPersonas(await listPersonas());
+    } catch (error) {
+      console.error("Failed to load personas:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadPersonas();
+    }
+  }, [isOpen, loadPersonas]);
+
+  useDataChanges(["personas"], loadPersonas, { enabled: isOpen });
+
+  // Only reset the form when another persona is picked
+  useEffect(() => {
+    setName(selected?.name || "");
+    setDescription(selected?.description || "");
+    setEntries(toEntryDrafts(selected));
+    setAvatarFile(null);
+  }, [selectedId]);
+
+  useEffect(() => {
+    if (!avatarFile) {
+      setAvatarPreview(null);
+      return;
+    }
+    const url = URL.createObjectURL(avatarFile);
+    setAvatarPreview(url);
+    return () => URL.revokeObjectURL(url);
+  }, [avatarFile]);
+
+  if (!isOpen) return null;
+
+  const refresh = async () => {
+    await loadPersonas();
+    onChange?.();
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+    setIsSaving(true);
+    try {
+      const persona = await savePersona(
+        {
+          name: name.trim(),
+          description,
+          worldBook: toWorldBook(entries),
+        },
+        avatarFile,
+        selectedId || undefined,
+      );
+      setSelectedId(persona.id);
+      setAvatarFile(null);
+      await refresh();
+    } catch (error) {
+      console.error("Failed to save persona:", error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected || !confirm(t("persona.deleteConfirm"))) return;
+    const result = await deletePersona(selected.id);
+    setSelectedId(null);
+    await refresh();
+    if (result.trashItemId) {
+      showUndoDeleteToast(result.trashItemId, t, refresh);
+    }
+  };
+
+  const handleToggleDefault = async () => {
+    if (!selected) return;
+    await setDefaultPersona(selected.is_default ? null : selected.id);
+    await refresh();
+  };
+
+  const handleToggleLock = async (scope: "character" | "dialogue") => {
+    if (!selected) return;
+    const targetId = scope === "character" ? characterId : dialogueId;
+    const locks =
+      (scope === "character"
+        ? selected.locked_characters
+        : selected.locked_dialogues) || [];
+    await lockPersona(
+      scope,
+      targetId,
+      locks.includes(targetId) ? null : selected.id,
+    );
+    await refresh();
+  };
+
+  const updateEntry = (index: number, draft: Partial<EntryDraft>) =>
+    setEntries((current) =>
+      current.map((entry, i) => (i === index ? { ...entry, ...draft } : entry)),
+    );
+
+  const inputClass =
+    "w-full px-2 py-1.5 bg-[#1a1816]/80 border border-[#534741]/60 rounded text-xs text-[#eae6db] placeholder-[#534741]/80 focus:outline-none focus:ring-1 focus:ring-amber-500/40";
+  const toggleClass = (active: boolean) =>
+    `px-3 py-1 rounded-lg border text-xs transition-all duration-300 ${
+      active
+        ? "border-amber-500/60 text-amber-300 bg-amber-500/10"
+        : "border-[#534741]/60 text-[#a18d6f] hover:text-amber-300 hover:border-amber-500/40"
+    }`;
+
+  const badges = (persona: Persona) =>
+    [
+      persona.is_default && t("persona.default"),
+      persona.locked_dialogues?.includes(dialogueId) && t("persona.thisChat"),
+      persona.locked_characters?.includes(characterId) &&
+        t("persona.thisCharacter"),
+    ].filter(Boolean);
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-[10000] p-3">
+      <div className="relative bg-gradient-to-br from-[#1a1816]/95 via-[#252220]/95 to-[#1a1816]/95 backdrop-blur-xl border border-[#534741]/60 rounded-xl shadow-2xl max-w-2xl w-full max-h-[85vh] overflow-hidden">
+        <div className="relative p-3 border-b border-[#534741]/40 bg-gradient-to-r from-[#252220]/80 via-[#1a1816]/60 to-[#252220]/80 backdrop-blur-sm">
+          <div className="flex justify-between items-center">
+            <h2
+              className={`text-base font-semibold text-[#eae6db] ${serifFontClass} bg-gradient-to-r from-amber-300 via-amber-200 to-amber-300 bg-clip-text text-transparent`}
+            >
+              {t("persona.title")}
+            </h2>
+            <button
+              onClick={onClose}
+              className="w-7 h-7 flex items-center justify-center text-[#a18d6f] hover:text-[#eae6db] transition-all duration-300 rounded-lg hover:bg-[#333]/50"
+            >
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                width="16"
+                height="16"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              >
+                <line x1="18" y1="6" x2="6" y2="18"></line>
+                <line x1="6" y1="6" x2="18" y2="18"></line>
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <div className={`relative flex flex-col md:flex-row max-h-[70vh] ${fontClass}`}>
+          <div className="md:w-1/3 p-3 border-b md:border-b-0 md:border-r border-[#534741]/40 overflow-y-auto fantasy-scrollbar space-y-1">
+            {personas.map((persona) => (
+              <div
+                key={persona.id}
+                onClick={() => setSelectedId(persona.id)}
+                className={`flex items-center gap-2 p-2 rounded-md cursor-pointer transition-all duration-300 ${
+                  persona.id === selectedId
+                    ? "bg-[#252525] border border-amber-500/30"
+                    : "hover:bg-[#252525] border border-transparent"
+                }`}
+              >
+                <div className="w-7 h-7 rounded-full overflow-hidden flex-shrink-0 bg-[#1a1816]">
+                  {persona.avatarPath && (
+                    <CharacterAvatarBackground avatarPath={persona.avatarPath} />
+                  )}
+                </div>
+                <div className="min-w-0">
+                  <p className="text-sm text-[#eae6db] truncate">{persona.name}</p>
+                  {badges(persona).length > 0 && (
+                    <p className="text-[10px] text-amber-400/80 truncate">
+                      {badges(persona).join(" · ")}
+                    </p>
+                  )}
+                </div>
+              </div>
+            ))}
+            <button
+              className="w-full p-2 rounded-md border border-dashed border-[#534741]/60 text-xs text-[#a18d6f] hover:text-amber-400 hover:border-amber-500/40 transition-all duration-300"
+              onClick={() => setSelectedId(null)}
+            >
+              + {t("persona.newPersona")}
+            </button>
+          </div>
+
+          <div className="md:w-2/3 p-4 overflow-y-auto fantasy-scrollbar space-y-3">
+            <div className="flex items-center gap-3">
+              <label className="w-14 h-14 rounded-full overflow-hidden flex-shrink-0 bg-[#1a1816] border border-[#534741]/60 cursor-pointer flex items-center justify-center text-[10px] text-[#a18d6f] hover:border-amber-500/40">
+                {avatarPreview ? (
+                  <div
+                    className="w-full h-full bg-cover bg-center"
+                    style={{ backgroundImage: `url(${avatarPreview})` }}
+                  />
+                ) : selected?.avatarPath ? (
+                  <CharacterAvatarBackground avatarPath={selected.avatarPath} />
+                ) : (
+                  t("persona.avatar")
+                )}
+                <input
+                  type="file"
+                  accept="image/*"
+                  className="hidden"
+                  onChange={(e) => setAvatarFile(e.target.files?.[0] || null)}
+                />
+              </label>
+              <input
+                className={inputClass}
+                value={name}
+                placeholder={t("persona.name")}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+
+            <textarea
+              className={`${inputClass} resize-none`}
+              rows={5}
+              value={description}
+              placeholder={t("persona.descriptionPlaceholder")}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+
+            <div className="space-y-2">
+              <p className="text-xs text-[#a18d6f]">{t("persona.worldBook")}</p>
+              {entries.map((entry, index) => (
+                <div
+                  key={index}
+                  className="p-2 rounded-lg border border-[#534741]/40 bg-[#1a1816]/60 space-y-1"
+                >
+                  <div className="flex gap-2">
+                    <input
+                      className={inputClass}
+                      value={entry.keys}
+                      placeholder={t("persona.entryKeys")}
+                      onChange={(e) => updateEntry(index, { keys: e.target.value })}
+                    />
+                    <button
+                      className="text-xs text-[#a18d6f] hover:text-red-400 transition-colors duration-300"
+                      onClick={() =>
+                        setEntries((current) => current.filter((_, i) => i !== index))
+                      }
+                    >
+                      {t("persona.removeEntry")}
+                    </button>
+                  </div>
+                  <textarea
+                    className={`${inputClass} resize-none`}
+                    rows={2}
+                    value={entry.content}
+                    placeholder={t("persona.entryContent")}
+                    onChange={(e) => updateEntry(index, { content: e.target.value })}
+                  />
+                </div>
+              ))}
+              <button
+                className="text-xs text-[#a18d6f] hover:text-amber-400 transition-colors duration-300"
+                onClick={() =>
+                  setEntries((current) => [...current, { keys: "", content: "" }])
+                }
+              >
+                + {t("persona.addEntry")}
+              </button>
+            </div>
+
+            {selected && (
+              <div className="flex flex-wrap gap-2">
+                <button
+                  className={toggleClass(!!selected.is_default)}
+                  onClick={handleToggleDefault}
+                >
+                  {t("persona.useAsDefault")}
+                </button>
+                <button
+                  className={toggleClass(
+                    !!selected.locked_characters?.includes(characterId),
+                  )}
+                  onClick={() => handleToggleLock("character")}
+                >
+                  {t("persona.lockToCharacter")}
+                </button>
+                <button
+                  className={toggleClass(
+                    !!selected.locked_dialogues?.includes(dialogueId),
+                  )}
+                  onClick={() => handleToggleLock("dialogue")}
+                >
+                  {t("persona.lockToChat")}
+                </button>
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2">
+              {selected && (
+                <button
+                  onClick={handleDelete}
+                  className="px-3 py-1.5 rounded-lg border text-xs transition-all duration-300 border-[#534741]/60 text-[#a18d6f] hover:text-red-400 hover:border-red-500/40"
+                >
+                  {t("persona.delete")}
+                </button>
+              )}
+              <button
+                onClick={handleSave}
+                disabled={isSaving || !name.trim()}
+                className="px-4 py-1.5 bg-gradient-to-r from-amber-600/80 to-amber-500/80 hover:from-amber-500/90 hover:to-amber-400/90 text-white text-xs font-medium rounded-lg transition-all duration-300 shadow-lg hover:shadow-amber-500/25 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {selected ? t("persona.save") : t("persona.create")}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from "react";
 import { toast } from "react-hot-toast";
+import { showUndoDeleteToast } from "@/components/UndoDeleteToast";
 import {
   getAllPresets,
   getPreset,
@@ -300,7 +301,7 @@ export default function PresetEditor({
       if (result.success) {
         setSelectedPreset(null);
         await loadPresetData();
-        toast.success(t("preset.deleteSuccess"));
+        showUndoDeleteToast(result.data?.trashItemId, t, loadPresetData);
       } else {
         toast.error(t("preset.deleteFailed"));
       }
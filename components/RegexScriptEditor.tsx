@@ -15,6 +15,7 @@ import { getRegexScriptSettings } from "@/function/regex/get-setting";
 import { addRegexScript } from "@/function/regex/add";
 import { updateRegexScript } from "@/function/regex/update";
 import { deleteRegexScript } from "@/function/regex/delete";
+import { showUndoDeleteToast } from "@/components/UndoDeleteToast";
 
 interface Props {
   onClose: () => void;
@@ -115,7 +116,11 @@ export default function RegexScriptEditor({
 
   const handleDeleteScript = async (scriptId: string) => {
     try {
-      await deleteRegexScript(characterId, scriptId);
+      const result = await deleteRegexScript(characterId, scriptId);
+      if (!result.success) {
+        return;
+      }
+      showUndoDeleteToast(result.trashItemId, t, loadScriptsAndSettings);
 
       setScripts((prev) => {
         const newScripts = { ...prev };
@@ -0,0 +1,313 @@
+/**
+ * Restore Backup Modal Component
+ *
+ * Lets the user choose how a backup file is applied before anything is written:
+ * - Replace everything, or merge records by id
+ * - Keep the newer copy or keep both copies when a record exists on both sides
+ * - Restore every character or only selected ones with their dependent data
+ * - Dry-run summary of additions, updates, duplicates and removals per store
+ *
+ * Dependencies:
+ * - useLanguage: For internationalization
+ * - backup-restore: For planning and applying the restore
+ */
+
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { useLanguage } from "@/app/i18n";
+import {
+  ConflictPolicy,
+  RestoreMode,
+  RestorePlan,
+  applyRestorePlan,
+  listBackupCharacters,
+  planRestore,
+} from "@/lib/data/backup-restore";
+
+interface RestoreBackupModalProps {
+  isOpen: boolean;
+  backupData: any;
+  onClose: () => void;
+  onRestored: () => void;
+}
+
+const SUMMARY_COLUMNS = [
+  "added",
+  "updated",
+  "duplicated",
+  "skipped",
+  "removed",
+] as const;
+
+export default function RestoreBackupModal({
+  isOpen,
+  backupData,
+  onClose,
+  onRestored,
+}: RestoreBackupModalProps) {
+  const { t, fontClass, serifFontClass } = useLanguage();
+  const [mode, setMode] = useState<RestoreMode>("replace");
+  const [conflictPolicy, setConflictPolicy] =
+    useState<ConflictPolicy>("keepNewer");
+  const [selectCharacters, setSelectCharacters] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [plan, setPlan] = useState<RestorePlan | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState("");
+
+  const characters = useMemo(() => {
+    if (!backupData) return [];
+    try {
+      return listBackupCharacters(backupData);
+    } catch (err) {
+      console.error("Failed to read backup characters:", err);
+      return [];
+    }
+  }, [backupData]);
+
+  // Any change to the options makes the previous dry run stale
+  useEffect(() => {
+    setPlan(null);
+    setError("");
+  }, [mode, conflictPolicy, selectCharacters, selectedIds, backupData]);
+
+  if (!isOpen || !backupData) return null;
+
+  const toggleCharacter = (id: string) => {
+    setSelectedIds((prev) =>
+      prev.includes(id) ? prev.filter((item) => item !== id) : [...prev, id],
+    );
+  };
+
+  const handlePreview = async () => {
+    setIsWorking(true);
+    setError("");
+    try {
+      const result = await planRestore(backupData, {
+        mode,
+        conflictPolicy,
+        characterIds: selectCharacters ? selectedIds : undefined,
+      });
+      setPlan(result);
+    } catch (err) {
+      console.error("Restore preview failed:", err);
+      setError(err instanceof Error ? err.message : t("restoreBackup.previewFailed"));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!plan) return;
+    setIsWorking(true);
+    try {
+      await applyRestorePlan(plan);
+      onRestored();
+    } catch (err) {
+      console.error("Restore failed:", err);
+      setError(t("common.importFailed"));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const optionClass = (active: boolean) =>
+    `px-3 py-1.5 rounded-lg border text-xs transition-all duration-300 ${
+      active
+        ? "border-amber-500/60 bg-amber-500/15 text-amber-200"
+        : "border-[#534741]/60 text-[#a18d6f] hover:text-[#eae6db] hover:border-amber-500/40"
+    }`;
+
+  const storeRows = plan ? Object.entries(plan.stores) : [];
+  const hasChanges =
+    !!plan &&
+    (plan.settingsKeys.length > 0 ||
+      storeRows.some(
+        ([, summary]) =>
+          summary.added + summary.updated + summary.duplicated + summary.removed > 0,
+      ));
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-[10000] p-3">
+      <div className="relative bg-gradient-to-br from-[#1a1816]/95 via-[#252220]/95 to-[#1a1816]/95 backdrop-blur-xl border border-[#534741]/60 rounded-xl shadow-2xl max-w-xl w-full max-h-[85vh] overflow-hidden">
+        <div className="relative p-3 border-b border-[#534741]/40 bg-gradient-to-r from-[#252220]/80 via-[#1a1816]/60 to-[#252220]/80 backdrop-blur-sm">
+          <div className="flex justify-between items-center">
+            <h2
+              className={`text-base font-semibold text-[#eae6db] ${serifFontClass} bg-gradient-to-r from-amber-300 via-amber-200 to-amber-300 bg-clip-text text-transparent`}
+            >
+              {t("restoreBackup.title")}
+            </h2>
+            <button
+              onClick={onClose}
+              className="w-7 h-7 flex items-center justify-center text-[#a18d6f] hover:text-[#eae6db] transition-all duration-300 rounded-lg hover:bg-[#333]/50"
+            >
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                width="16"
+                height="16"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              >
+                <line x1="18" y1="6" x2="6" y2="18"></line>
+                <line x1="6" y1="6" x2="18" y2="18"></line>
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <div className={`relative p-4 max-h-[70vh] overflow-y-auto fantasy-scrollbar space-y-4 ${fontClass}`}>
+          <div>
+            <h4 className={`text-sm font-medium text-[#eae6db] mb-2 ${serifFontClass}`}>
+              {t("restoreBackup.mode")}
+            </h4>
+            <div className="flex flex-wrap gap-2">
+              <button className={optionClass(mode === "replace")} onClick={() => setMode("replace")}>
+                {t("restoreBackup.modeReplace")}
+              </button>
+              <button className={optionClass(mode === "merge")} onClick={() => setMode("merge")}>
+                {t("restoreBackup.modeMerge")}
+              </button>
+            </div>
+            <p className="mt-1 text-xs text-[#a18d6f]/70">
+              {mode === "replace"
+                ? t("restoreBackup.modeReplaceDesc")
+                : t("restoreBackup.modeMergeDesc")}
+            </p>
+          </div>
+
+          {mode === "merge" && (
+            <div>
+              <h4 className={`text-sm font-medium text-[#eae6db] mb-2 ${serifFontClass}`}>
+                {t("restoreBackup.conflictPolicy")}
+              </h4>
+              <div className="flex flex-wrap gap-2">
+                <button
+                  className={optionClass(conflictPolicy === "keepNewer")}
+                  onClick={() => setConflictPolicy("keepNewer")}
+                >
+                  {t("restoreBackup.keepNewer")}
+                </button>
+                <button
+                  className={optionClass(conflictPolicy === "keepBoth")}
+                  onClick={() => setConflictPolicy("keepBoth")}
+                >
+                  {t("restoreBackup.keepBoth")}
+                </button>
+              </div>
+            </div>
+          )}
+
+          <div>
+            <h4 className={`text-sm font-medium text-[#eae6db] mb-2 ${serifFontClass}`}>
+              {t("restoreBackup.scope")}
+            </h4>
+            <div className="flex flex-wrap gap-2">
+              <button className={optionClass(!selectCharacters)} onClick={() => setSelectCharacters(false)}>
+                {t("restoreBackup.scopeAll")}
+              </button>
+              <button
+                className={optionClass(selectCharacters)}
+                onClick={() => setSelectCharacters(true)}
+                disabled={characters.length === 0}
+              >
+                {t("restoreBackup.scopeCharacters")}
+              </button>
+            </div>
+            {selectCharacters && (
+              <div className="mt-2 max-h-40 overflow-y-auto fantasy-scrollbar border border-[#534741]/40 rounded-lg p-2 space-y-1">
+                {characters.map((character) => (
+                  <label
+                    key={character.id}
+                    className="flex items-center gap-2 text-xs text-[#eae6db] cursor-pointer"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.includes(character.id)}
+                      onChange={() => toggleCharacter(character.id)}
+                      className="accent-amber-500"
+                    />
+                    <span className="truncate">{character.name}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {plan && (
+            <div className="p-3 bg-[#252220]/50 border border-[#534741]/40 rounded-lg">
+              <h4 className={`text-sm font-medium text-[#eae6db] mb-2 ${serifFontClass}`}>
+                {t("restoreBackup.summary")}
+              </h4>
+              {storeRows.length === 0 ? (
+                <p className="text-xs text-[#a18d6f]">{t("restoreBackup.noChanges")}</p>
+              ) : (
+                <table className="w-full text-xs text-[#eae6db]">
+                  <thead>
+                    <tr className="text-[#a18d6f]">
+                      <th className="text-left font-normal pb-1">{t("restoreBackup.store")}</th>
+                      {SUMMARY_COLUMNS.map((column) => (
+                        <th key={column} className="text-right font-normal pb-1">
+                          {t(`restoreBackup.${column}`)}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {storeRows.map(([storeName, summary]) => (
+                      <tr key={storeName} className="border-t border-[#534741]/30">
+                        <td className="py-1">{t(`restoreBackup.store_${storeName}`)}</td>
+                        {SUMMARY_COLUMNS.map((column) => (
+                          <td key={column} className="text-right py-1">
+                            {summary[column]}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+              {plan.settingsKeys.length > 0 && (
+                <p className="mt-2 text-xs text-[#a18d6f]">
+                  {t("restoreBackup.settingsRestored")}: {plan.settingsKeys.join(", ")}
+                </p>
+              )}
+            </div>
+          )}
+
+          {error && <p className="text-xs text-red-300">{error}</p>}
+
+          <div className="flex justify-end space-x-2 pt-2">
+            <button
+              onClick={onClose}
+              className="px-3 py-1.5 bg-[#252220]/80 hover:bg-[#252220] border border-[#534741]/60 text-[#a18d6f] hover:text-[#eae6db] rounded-lg transition-all duration-300"
+            >
+              {t("common.cancel")}
+            </button>
+            {plan ? (
+              <button
+                onClick={handleRestore}
+                disabled={isWorking || !hasChanges}
+                className="px-4 py-1.5 bg-gradient-to-r from-amber-600/80 to-amber-500/80 hover:from-amber-500/90 hover:to-amber-400/90 text-white font-medium rounded-lg transition-all duration-300 shadow-lg hover:shadow-amber-500/25 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isWorking ? t("restoreBackup.restoring") : t("restoreBackup.apply")}
+              </button>
+            ) : (
+              <button
+                onClick={handlePreview}
+                disabled={isWorking || (selectCharacters && selectedIds.length === 0)}
+                className="px-4 py-1.5 bg-gradient-to-r from-amber-600/80 to-amber-500/80 hover:from-amber-500/90 hover:to-amber-400/90 text-white font-medium rounded-lg transition-all duration-300 shadow-lg hover:shadow-amber-500/25 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {t("restoreBackup.preview")}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
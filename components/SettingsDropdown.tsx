@@ -4,19 +4,36 @@ import { useState, useRef, useEffect } from "react";
 import { useLanguage } from "@/app/i18n";
 import { useSoundContext } from "@/contexts/SoundContext";
 import { useTour } from "@/hooks/useTour";
+import RestoreBackupModal from "@/components/RestoreBackupModal";
+import CloudSyncModal from "@/components/CloudSyncModal";
+import StorageDoctorModal from "@/components/StorageDoctorModal";
+import TrashModal from "@/components/TrashModal";
+import StorageBackendModal from "@/components/StorageBackendModal";
+import BackupPassphraseModal, {
+  BackupPassphraseMode,
+} from "@/components/BackupPassphraseModal";
+import { BackupPassphraseError } from "@/lib/data/backup-crypto";
 import {
+  ExportOptions,
   exportDataToFile,
-  importDataFromFile,
+  readBackupFile,
   generateExportFilename,
   downloadFile,
 } from "@/function/data/export-import";
 import {
-  backupToGoogle,
-  getFolderList,
   getGoogleCodeByUrl,
   getGoogleLoginUrl,
-  getBackUpFile,
 } from "@/function/data/google-control";
+import {
+  downloadLatestBackupFromProvider,
+  uploadBackupToProvider,
+} from "@/function/data/sync";
+
+/** Resolved with null when the passphrase modal is cancelled */
+interface PassphraseRequest {
+  mode: BackupPassphraseMode;
+  resolve: (options: ExportOptions | null) => void;
+}
 
 interface SettingsDropdownProps {
   toggleModelSidebar: () => void;
@@ -29,6 +46,13 @@ export default function SettingsDropdown({
   const [isDragging, setIsDragging] = useState(false);
   const [position, setPosition] = useState({ x: 0, y: 0 });
   const [isMobile, setIsMobile] = useState(false);
+  const [restoreData, setRestoreData] = useState<any>(null);
+  const [isSyncOpen, setIsSyncOpen] = useState(false);
+  const [isDoctorOpen, setIsDoctorOpen] = useState(false);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const [isBackendOpen, setIsBackendOpen] = useState(false);
+  const [passphraseRequest, setPassphraseRequest] =
+    useState<PassphraseRequest | null>(null);
   const dropdownRef = useRef<HTMLDivElement>(null);
   const dragRef = useRef<HTMLDivElement>(null);
   const { language, setLanguage, t } = useLanguage();
@@ -161,9 +185,40 @@ export default function SettingsDropdown({
     setIsOpen(false);
   };
 
+  const requestBackupOptions = (mode: BackupPassphraseMode) =>
+    new Promise<ExportOptions | null>((resolve) =>
+      setPassphraseRequest({ mode, resolve }),
+    );
+
+  const closePassphraseRequest = (options: ExportOptions | null) => {
+    passphraseRequest?.resolve(options);
+    setPassphraseRequest(null);
+  };
+
+  const askExportOptions = () => requestBackupOptions("export");
+
+  const askImportPassphrase = async () =>
+    (await requestBackupOptions("import"))?.passphrase || null;
+
+  const readBackup = async (file: File) => {
+    try {
+      return await readBackupFile(file, askImportPassphrase);
+    } catch (error) {
+      console.error("Import failed:", error);
+      alert(
+        error instanceof BackupPassphraseError
+          ? t("common.backupPassphraseWrong")
+          : t("common.importFailed"),
+      );
+      return null;
+    }
+  };
+
   const handleExportData = async () => {
     try {
-      const blob = await exportDataToFile();
+      const options = await askExportOptions();
+      if (!options) return;
+      const blob = await exportDataToFile(options);
       const filename = generateExportFilename();
       downloadFile(blob, filename);
       setIsOpen(false);
@@ -181,9 +236,8 @@ export default function SettingsDropdown({
       input.onchange = async (e) => {
         const file = (e.target as HTMLInputElement).files?.[0];
         if (file) {
-          await importDataFromFile(file);
+          setRestoreData(await readBackup(file));
           setIsOpen(false);
-          window.location.reload();
         }
       };
       input.click();
@@ -196,15 +250,17 @@ export default function SettingsDropdown({
   async function handleImportDataFromGoogle() {
     const token = localStorage.getItem("google_drive_token");
     if (token) {
-      const res = await getFolderList();
-      if (res?.id) {
-        const file = await getBackUpFile(res.id);
+      try {
+        const file = await downloadLatestBackupFromProvider("google-drive");
         if (file) {
-          await importDataFromFile(file);
+          setRestoreData(await readBackup(file));
           setIsOpen(false);
-          alert("导入成功！");
-          window.location.reload();
+        } else {
+          alert(t("common.noCloudBackup"));
         }
+      } catch (error) {
+        console.error("Import failed:", error);
+        alert(t("common.importFailed"));
       }
     } else {
       const url = getGoogleLoginUrl();
@@ -215,17 +271,16 @@ export default function SettingsDropdown({
   async function handleExportDataToGoogle() {
     const token = localStorage.getItem("google_drive_token");
     if (token) {
-      const blob = await exportDataToFile();
-      const filename = generateExportFilename();
-      const res = await getFolderList();
-      if (res?.id) {
-        await backupToGoogle({
-          blob,
-          filename,
-          folderId: res.id,
-        });
-        // todo
-        alert("上传成功");
+      try {
+        const options = await askExportOptions();
+        if (!options) return;
+        const blob = await exportDataToFile(options);
+        const filename = generateExportFilename();
+        await uploadBackupToProvider("google-drive", blob, filename);
+        alert(t("common.cloudBackupUploaded"));
+      } catch (error) {
+        console.error("Export failed:", error);
+        alert(t("common.exportFailed"));
       }
     } else {
       const url = getGoogleLoginUrl();
@@ -240,491 +295,763 @@ export default function SettingsDropdown({
     getGoogleCodeByUrl(window.location);
   }, []);
 
+  const restoreModal = (
+    <RestoreBackupModal
+      isOpen={restoreData !== null}
+      backupData={restoreData}
+      onClose={() => setRestoreData(null)}
+      onRestored={() => {
+        setRestoreData(null);
+        window.location.reload();
+      }}
+    />
+  );
+
+  const syncModal = (
+    <CloudSyncModal isOpen={isSyncOpen} onClose={() => setIsSyncOpen(false)} />
+  );
+
+  const doctorModal = (
+    <StorageDoctorModal
+      isOpen={isDoctorOpen}
+      onClose={() => setIsDoctorOpen(false)}
+    />
+  );
+
+  const trashModal = (
+    <TrashModal isOpen={isTrashOpen} onClose={() => setIsTrashOpen(false)} />
+  );
+
+  const passphraseModal = (
+    <BackupPassphraseModal
+      mode={passphraseRequest?.mode || null}
+      onSubmit={closePassphraseRequest}
+      onCancel={() => closePassphraseRequest(null)}
+    />
+  );
+
+  const backendModal = (
+    <StorageBackendModal
+      isOpen={isBackendOpen}
+      onClose={() => setIsBackendOpen(false)}
+    />
+  );
+
   // 手机端悬浮按钮
   if (isMobile) {
     // 判断菜单弹出方向
     const isTopHalf = position.y < window.innerHeight / 2;
     return (
-      <div
-        ref={dragRef}
-        style={{
-          position: 'fixed',
-          left: position.x,
-          top: position.y,
-          zIndex: 9999,
-          cursor: isDragging ? 'grabbing' : 'grab',
-          touchAction: 'none'
-        }}
-        onMouseDown={handleMouseDown}
-        onTouchStart={handleTouchStart}
-        className="select-none"
-      >
-        <div className="relative" ref={dropdownRef}>
-          <button
-            onClick={() => setIsOpen(!isOpen)}
-            data-tour="settings-button"
-            className={`w-12 h-12 flex items-center justify-center text-[#f4e8c1] bg-[#1c1c1c] rounded-full border-2 border-[#333333] shadow-lg transition-all duration-300 hover:bg-[#252525] hover:border-[#444444] hover:text-amber-400 hover:shadow-[0_0_12px_rgba(251,146,60,0.4)] ${
-              isDragging ? 'scale-110' : 'scale-100'
-            }`}
-            aria-label={t("common.settings")}
-            aria-expanded={isOpen}
-            style={{ touchAction: 'none' }}
-          >
-            <svg
-              xmlns="http://www.w3.org/2000/svg"
-              width="20"
-              height="20"
-              viewBox="0 0 24 24"
-              fill="none"
-              stroke="currentColor"
-              strokeWidth="2"
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              className={`transition-transform duration-300 ${isOpen ? "rotate-90" : ""}`}
+      <>
+        <div
+          ref={dragRef}
+          style={{
+            position: 'fixed',
+            left: position.x,
+            top: position.y,
+            zIndex: 9999,
+            cursor: isDragging ? 'grabbing' : 'grab',
+            touchAction: 'none'
+          }}
+          onMouseDown={handleMouseDown}
+          onTouchStart={handleTouchStart}
+          className="select-none"
+        >
+          <div className="relative" ref={dropdownRef}>
+            <button
+              onClick={() => setIsOpen(!isOpen)}
+              data-tour="settings-button"
+              className={`w-12 h-12 flex items-center justify-center text-[#f4e8c1] bg-[#1c1c1c] rounded-full border-2 border-[#333333] shadow-lg transition-all duration-300 hover:bg-[#252525] hover:border-[#444444] hover:text-amber-400 hover:shadow-[0_0_12px_rgba(251,146,60,0.4)] ${
+                isDragging ? 'scale-110' : 'scale-100'
+              }`}
+              aria-label={t("common.settings")}
+              aria-expanded={isOpen}
+              style={{ touchAction: 'none' }}
             >
-              <circle cx="12" cy="12" r="3" />
-              <path d="M19.4 15a1.65 1.65 0 0 0 .33 1.82l.06.06a2 2 0 0 1 0 2.83 2 2 0 0 1-2.83 0l-.06-.06a1.65 1.65 0 0 0-1.82-.33 1.65 1.65 0 0 0-1 1.51V21a2 2 0 0 1-2 2 2 2 0 0 1-2-2v-.09A1.65 1.65 0 0 0 9 19.4a1.65 1.65 0 0 0-1.82.33l-.06.06a2 2 0 0 1-2.83 0 2 2 0 0 1 0-2.83l.06-.06a1.65 1.65 0 0 0 .33-1.82 1.65 1.65 0 0 0-1.51-1H3a2 2 0 0 1-2-2 2 2 0 0 1 2-2h.09A1.65 1.65 0 0 0 4.6 9a1.65 1.65 0 0 0-.33-1.82l-.06-.06a2 2 0 0 1 0-2.83 2 2 0 0 1 2.83 0l.06.06a1.65 1.65 0 0 0 1.82.33H9a1.65 1.65 0 0 0 1-1.51V3a2 2 0 0 1 2-2 2 2 0 0 1 2 2v.09a1.65 1.65 0 0 0 1 1.51 1.65 1.65 0 0 0 1.82-.33l.06-.06a2 2 0 0 1 2.83 0 2 2 0 0 1 0 2.83l-.06.06a1.65 1.65 0 0 0-.33 1.82V9a1.65 1.65 0 0 0 1.51 1H21a2 2 0 0 1 2 2 2 2 0 0 1-2 2h-.09a1.65 1.65 0 0 0-1.51 1z" />
-            </svg>
-          </button>
-
-          {isOpen && (
-            <div className={`absolute right-0 w-56 rounded-lg shadow-xl bg-[#1c1c1c] border border-[#333333] z-50 overflow-hidden ${isTopHalf ? 'top-full mt-2' : 'bottom-full mb-2'}`}>
-              <div className="py-2">
-                <button
-                  onClick={toggleLanguage}
-                  className="flex items-center w-full px-4 py-3 text-sm text-[#f4e8c1] hover:bg-[#252525] transition-colors"
-                >
-                  <svg
-                    xmlns="http://www.w3.org/2000/svg"
-                    width="16"
-                    height="16"
-                    viewBox="0 0 24 24"
-                    fill="none"
-                    stroke="currentColor"
-                    strokeWidth="2"
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    className="mr-3"
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                width="20"
+                height="20"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                className={`transition-transform duration-300 ${isOpen ? "rotate-90" : ""}`}
+              >
+                <circle cx="12" cy="12" r="3" />
+                <path d="M19.4 15a1.65 1.65 0 0 0 .33 1.82l.06.06a2 2 0 0 1 0 2.83 2 2 0 0 1-2.83 0l-.06-.06a1.65 1.65 0 0 0-1.82-.33 1.65 1.65 0 0 0-1 1.51V21a2 2 0 0 1-2 2 2 2 0 0 1-2-2v-.09A1.65 1.65 0 0 0 9 19.4a1.65 1.65 0 0 0-1.82.33l-.06.06a2 2 0 0 1-2.83 0 2 2 0 0 1 0-2.83l.06-.06a1.65 1.65 0 0 0 .33-1.82 1.65 1.65 0 0 0-1.51-1H3a2 2 0 0 1-2-2 2 2 0 0 1 2-2h.09A1.65 1.65 0 0 0 4.6 9a1.65 1.65 0 0 0-.33-1.82l-.06-.06a2 2 0 0 1 0-2.83 2 2 0 0 1 2.83 0l.06.06a1.65 1.65 0 0 0 1.82.33H9a1.65 1.65 0 0 0 1-1.51V3a2 2 0 0 1 2-2 2 2 0 0 1 2 2v.09a1.65 1.65 0 0 0 1 1.51 1.65 1.65 0 0 0 1.82-.33l.06-.06a2 2 0 0 1 2.83 0 2 2 0 0 1 0 2.83l-.06.06a1.65 1.65 0 0 0-.33 1.82V9a1.65 1.65 0 0 0 1.51 1H21a2 2 0 0 1 2 2 2 2 0 0 1-2 2h-.09a1.65 1.65 0 0 0-1.51 1z" />
+              </svg>
+            </button>
+
+            {isOpen && (
+              <div className={`absolute right-0 w-56 rounded-lg shadow-xl bg-[#1c1c1c] border border-[#333333] z-50 overflow-hidden ${isTopHalf ? 'top-full mt-2' : 'bottom-full mb-2'}`}>
+                <div className="py-2">
+                  <button
+                    onClick={toggleLanguage}
+                    className="flex items-center w-full px-4 py-3 text-sm text-[#f4e8c1] hover:bg-[#252525] transition-colors"
                   >
-                    <path d="M5 8l6 6"></path>
-                    <path d="M4 14l6-6 2-3"></path>
-                    <path d="M2 5h12"></path>
-                    <path d="M7 2h1"></path>
-                    <path d="M22 22l-5-10-5 10"></path>
-                    <path d="M14 18h6"></path>
-                  </svg>
-                  {language === "zh"
-                    ? t("common.switchToEnglish")
-                    : t("common.switchToChinese")}
-                </button>
-
-                <button
-                  onClick={openModelSettings}
-                  className="flex items-center w-full px-4 py-3 text-sm text-[#f4e8c1] hover:bg-[#252525] transition-colors"
-                >
-                  <svg
-                    xmlns="http://www.w3.org/2000/svg"
-                    width="16"
-                    height="16"
-                    viewBox="0 0 24 24"
-                    fill="none"
-                    stroke="currentColor"
-                    strokeWidth="2"
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    className="mr-3"
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      width="16"
+                      height="16"
+                      viewBox="0 0 24 24"
+                      fill="none"
+                      stroke="currentColor"
+                      strokeWidth="2"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      className="mr-3"
+                    >
+                      <path d="M5 8l6 6"></path>
+                      <path d="M4 14l6-6 2-3"></path>
+                      <path d="M2 5h12"></path>
+                      <path d="M7 2h1"></path>
+                      <path d="M22 22l-5-10-5 10"></path>
+                      <path d="M14 18h6"></path>
+                    </svg>
+                    {language === "zh"
+                      ? t("common.switchToEnglish")
+                      : t("common.switchToChinese")}
+                  </button>
+
+                  <button
+                    onClick={openModelSettings}
+                    className="flex items-center w-full px-4 py-3 text-sm text-[#f4e8c1] hover:bg-[#252525] transition-colors"
                   >
-                    <path d="M12 20h9"></path>
-                    <path d="M16.5 3.5a2.121 2.121 0 0 1 3 3L7 19l-4 1 1-4L16.5 3.5z"></path>
-                  </svg>
-                  {t("common.modelSettings")}
-                </button>
-
-                <button
-                  onClick={toggleSound}
-                  className="flex items-center w-full px-4 py-3 text-sm text-[#f4e8c1] hover:bg-[#252525] transition-colors"
-                >
-                  <svg
-                    xmlns="http://www.w3.org/2000/svg"
-                    width="16"
-                    height="16"
-                    viewBox="0 0 24 24"
-                    fill="none"
-                    stroke="currentColor"
-                    strokeWidth="2"
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    className="mr-3"
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      width="16"
+                      height="16"
+                      viewBox="0 0 24 24"
+                      fill="none"
+                      stroke="currentColor"
+                      strokeWidth="2"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      className="mr-3"
+                    >
+                      <path d="M12 20h9"></path>
+                      <path d="M16.5 3.5a2.121 2.121 0 0 1 3 3L7 19l-4 1 1-4L16.5 3.5z"></path>
+                    </svg>
+                    {t("common.modelSettings")}
+                  </button>
+
+                  <button
+                    onClick={toggleSound}
+                    className="flex items-center w-full px-4 py-3 text-sm text-[#f4e8c1] hover:bg-[#252525] transition-colors"
                   >
-                    {soundEnabled ? (
-                      <>
-                        <polygon points="11 5 6 9 2 9 2 15 6 15 11 19 11 5"></polygon>
-                        <path d="M19.07 4.93a10 10 0 0 1 0 14.14M15.54 8.46a5 5 0 0 1 0 7.07"></path>
-                      </>
-                    ) : (
-                      <>
-                        <polygon points="11 5 6 9 2 9 2 15 6 15 11 19 11 5"></polygon>
-                        <line x1="23" y1="9" x2="17" y2="15"></line>
-                        <line x1="17" y1="9" x2="23" y2="15"></line>
-                      </>
-                    )}
-                  </svg>
-                  {soundEnabled ? t("common.soundOff") : t("common.soundOn")}
-                </button>
-
-                <button
-                  onClick={resetTour}
-                  className="flex items-center w-full px-4 py-3 text-sm text-[#f4e8c1] hover:bg-[#252525] transition-colors"
-                >
-                  <svg
-                    xmlns="http://www.w3.org/2000/svg"
-                    width="16"
-                    height="16"
-                    viewBox="0 0 24 24"
-                    fill="none"
-                    stroke="currentColor"
-                    strokeWidth="2"
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    className="mr-3"
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      width="16"
+                      height="16"
+                      viewBox="0 0 24 24"
+                      fill="none"
+                      stroke="currentColor"
+                      strokeWidth="2"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      className="mr-3"
+                    >
+                      {soundEnabled ? (
+                        <>
+                          <polygon points="11 5 6 9 2 9 2 15 6 15 11 19 11 5"></polygon>
+                          <path d="M19.07 4.93a10 10 0 0 1 0 14.14M15.54 8.46a5 5 0 0 1 0 7.07"></path>
+                        </>
+                      ) : (
+                        <>
+                          <polygon points="11 5 6 9 2 9 2 15 6 15 11 19 11 5"></polygon>
+                          <line x1="23" y1="9" x2="17" y2="15"></line>
+                          <line x1="17" y1="9" x2="23" y2="15"></line>
+                        </>
+                      )}
+                    </svg>
+                    {soundEnabled ? t("common.soundOff") : t("common.soundOn")}
+                  </button>
+
+                  <button
+                    onClick={resetTour}
+                    className="flex items-center w-full px-4 py-3 text-sm text-[#f4e8c1] hover:bg-[#252525] transition-colors"
                   >
-                    <circle cx="12" cy="12" r="10"></circle>
-                    <polygon points="10,8 16,12 10,16 10,8"></polygon>
-                  </svg>
-                  {t("common.restartTour")}
-                </button>
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      width="16"
+                      height="16"
+                      viewBox="0 0 24 24"
+                      fill="none"
+                      stroke="currentColor"
+                      strokeWidth="2"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      className="mr-3"
+                    >
+                      <circle cx="12" cy="12" r="10"></circle>
+                      <polygon points="10,8 16,12 10,16 10,8"></polygon>
+                    </svg>
+                    {t("common.restartTour")}
+                  </button>
 
-                <div className="border-t border-[#333333] my-2"></div>
+                  <div className="border-t border-[#333333] my-2"></div>
 
-                <button
-                  onClick={handleExportData}
-                  className="flex items-center w-full px-4 py-3 text-sm text-[#f4e8c1] hover:bg-[#252525] transition-colors"
-                >
-                  <svg
-                    xmlns="http://www.w3.org/2000/svg"
-                    width="16"
-                    height="16"
-                    viewBox="0 0 24 24"
-                    fill="none"
-                    stroke="currentColor"
-                    strokeWidth="2"
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    className="mr-3"
+                  <button
+                    onClick={handleExportData}
+                    className="flex items-center w-full px-4 py-3 text-sm text-[#f4e8c1] hover:bg-[#252525] transition-colors"
                   >
-                    <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path>
-                    <polyline points="7,10 12,15 17,10"></polyline>
-                    <line x1="12" y1="15" x2="12" y2="3"></line>
-                  </svg>
-                  {t("common.exportData")}
-                </button>
-
-                <button
-                  onClick={handleImportData}
-                  className="flex items-center w-full px-4 py-3 text-sm text-[#f4e8c1] hover:bg-[#252525] transition-colors"
-                >
-                  <svg
-                    xmlns="http://www.w3.org/2000/svg"
-                    width="16"
-                    height="16"
-                    viewBox="0 0 24 24"
-                    fill="none"
-                    stroke="currentColor"
-                    strokeWidth="2"
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    className="mr-3"
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      width="16"
+                      height="16"
+                      viewBox="0 0 24 24"
+                      fill="none"
+                      stroke="currentColor"
+                      strokeWidth="2"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      className="mr-3"
+                    >
+                      <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path>
+                      <polyline points="7,10 12,15 17,10"></polyline>
+                      <line x1="12" y1="15" x2="12" y2="3"></line>
+                    </svg>
+                    {t("common.exportData")}
+                  </button>
+
+                  <button
+                    onClick={handleImportData}
+                    className="flex items-center w-full px-4 py-3 text-sm text-[#f4e8c1] hover:bg-[#252525] transition-colors"
                   >
-                    <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path>
-                    <polyline points="17,8 12,3 7,8"></polyline>
-                    <line x1="12" y1="3" x2="12" y2="15"></line>
-                  </svg>
-                  {t("common.importData")}
-                </button>
-
-                <button
-                  onClick={handleExportDataToGoogle}
-                  className="flex items-center w-full px-4 py-3 text-sm text-[#f4e8c1] hover:bg-[#252525] transition-colors"
-                >
-                  <svg
-                    xmlns="http://www.w3.org/2000/svg"
-                    width="16"
-                    height="16"
-                    viewBox="0 0 24 24"
-                    fill="none"
-                    stroke="currentColor"
-                    strokeWidth="2"
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    className="mr-3"
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      width="16"
+                      height="16"
+                      viewBox="0 0 24 24"
+                      fill="none"
+                      stroke="currentColor"
+                      strokeWidth="2"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      className="mr-3"
+                    >
+                      <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path>
+                      <polyline points="17,8 12,3 7,8"></polyline>
+                      <line x1="12" y1="3" x2="12" y2="15"></line>
+                    </svg>
+                    {t("common.importData")}
+                  </button>
+
+                  <button
+                    onClick={handleExportDataToGoogle}
+                    className="flex items-center w-full px-4 py-3 text-sm text-[#f4e8c1] hover:bg-[#252525] transition-colors"
                   >
-                    <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path>
-                    <polyline points="7,10 12,15 17,10"></polyline>
-                    <line x1="12" y1="15" x2="12" y2="3"></line>
-                  </svg>
-                  {t("common.exportDataToGoogle")}
-                </button>
-
-                <button
-                  onClick={handleImportDataFromGoogle}
-                  className="flex items-center w-full px-4 py-3 text-sm text-[#f4e8c1] hover:bg-[#252525] transition-colors"
-                >
-                  <svg
-                    xmlns="http://www.w3.org/2000/svg"
-                    width="16"
-                    height="16"
-                    viewBox="0 0 24 24"
-                    fill="none"
-                    stroke="currentColor"
-                    strokeWidth="2"
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    className="mr-3"
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      width="16"
+                      height="16"
+                      viewBox="0 0 24 24"
+                      fill="none"
+                      stroke="currentColor"
+                      strokeWidth="2"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      className="mr-3"
+                    >
+                      <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path>
+                      <polyline points="7,10 12,15 17,10"></polyline>
+                      <line x1="12" y1="15" x2="12" y2="3"></line>
+                    </svg>
+                    {t("common.exportDataToGoogle")}
+                  </button>
+
+                  <button
+                    onClick={handleImportDataFromGoogle}
+                    className="flex items-center w-full px-4 py-3 text-sm text-[#f4e8c1] hover:bg-[#252525] transition-colors"
+                  >
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      width="16"
+                      height="16"
+                      viewBox="0 0 24 24"
+                      fill="none"
+                      stroke="currentColor"
+                      strokeWidth="2"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      className="mr-3"
+                    >
+                      <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path>
+                      <polyline points="17,8 12,3 7,8"></polyline>
+                      <line x1="12" y1="3" x2="12" y2="15"></line>
+                    </svg>
+                    {t("common.importDataFromGoogle")}
+                  </button>
+
+                  <button
+                    onClick={() => {
+                      setIsSyncOpen(true);
+                      setIsOpen(false);
+                    }}
+                    className="flex items-center w-full px-4 py-3 text-sm text-[#f4e8c1] hover:bg-[#252525] transition-colors"
+                  >
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      width="16"
+                      height="16"
+                      viewBox="0 0 24 24"
+                      fill="none"
+                      stroke="currentColor"
+                      strokeWidth="2"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      className="mr-3"
+                    >
+                      <polyline points="23 4 23 10 17 10"></polyline>
+                      <polyline points="1 20 1 14 7 14"></polyline>
+                      <path d="M3.51 9a9 9 0 0 1 14.85-3.36L23 10M1 14l4.64 4.36A9 9 0 0 0 20.49 15"></path>
+                    </svg>
+                    {t("common.cloudSync")}
+                  </button>
+
+                  <button
+                    onClick={() => {
+                      setIsDoctorOpen(true);
+                      setIsOpen(false);
+                    }}
+                    className="flex items-center w-full px-4 py-3 text-sm text-[#f4e8c1] hover:bg-[#252525] transition-colors"
+                  >
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      width="16"
+                      height="16"
+                      viewBox="0 0 24 24"
+                      fill="none"
+                      stroke="currentColor"
+                      strokeWidth="2"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      className="mr-3"
+                    >
+                      <ellipse cx="12" cy="5" rx="9" ry="3"></ellipse>
+                      <path d="M21 12c0 1.66-4 3-9 3s-9-1.34-9-3"></path>
+                      <path d="M3 5v14c0 1.66 4 3 9 3s9-1.34 9-3V5"></path>
+                    </svg>
+                    {t("common.storageDoctor")}
+                  </button>
+
+                  <button
+                    onClick={() => {
+                      setIsTrashOpen(true);
+                      setIsOpen(false);
+                    }}
+                    className="flex items-center w-full px-4 py-3 text-sm text-[#f4e8c1] hover:bg-[#252525] transition-colors"
                   >
-                    <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path>
-                    <polyline points="17,8 12,3 7,8"></polyline>
-                    <line x1="12" y1="3" x2="12" y2="15"></line>
-                  </svg>
-                  {t("common.importDataFromGoogle")}
-                </button>
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      width="16"
+                      height="16"
+                      viewBox="0 0 24 24"
+                      fill="none"
+                      stroke="currentColor"
+                      strokeWidth="2"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      className="mr-3"
+                    >
+                      <polyline points="3 6 5 6 21 6"></polyline>
+                      <path d="M19 6l-1 14a2 2 0 0 1-2 2H8a2 2 0 0 1-2-2L5 6"></path>
+                      <path d="M10 11v6"></path>
+                      <path d="M14 11v6"></path>
+                      <path d="M9 6V4a1 1 0 0 1 1-1h4a1 1 0 0 1 1 1v2"></path>
+                    </svg>
+                    {t("common.recycleBin")}
+                  </button>
+
+                  <button
+                    onClick={() => {
+                      setIsBackendOpen(true);
+                      setIsOpen(false);
+                    }}
+                    className="flex items-center w-full px-4 py-3 text-sm text-[#f4e8c1] hover:bg-[#252525] transition-colors"
+                  >
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      width="16"
+                      height="16"
+                      viewBox="0 0 24 24"
+                      fill="none"
+                      stroke="currentColor"
+                      strokeWidth="2"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      className="mr-3"
+                    >
+                      <rect x="2" y="2" width="20" height="8" rx="2" ry="2"></rect>
+                      <rect x="2" y="14" width="20" height="8" rx="2" ry="2"></rect>
+                      <line x1="6" y1="6" x2="6.01" y2="6"></line>
+                      <line x1="6" y1="18" x2="6.01" y2="18"></line>
+                    </svg>
+                    {t("common.storageBackend")}
+                  </button>
+                </div>
               </div>
-            </div>
-          )}
+            )}
+          </div>
         </div>
-      </div>
+        {restoreModal}
+        {syncModal}
+        {doctorModal}
+        {trashModal}
+        {backendModal}
+        {passphraseModal}
+      </>
     );
   }
 
   // 桌面端原有样式
   return (
-    <div className="relative" ref={dropdownRef}>
-      <button
-        onClick={() => setIsOpen(!isOpen)}
-        data-tour="settings-button"
-        className="w-8 h-8 flex items-center justify-center text-[#f4e8c1] bg-[#1c1c1c] rounded-lg border border-[#333333] shadow-inner transition-all duration-300 hover:bg-[#252525] hover:border-[#444444] hover:text-amber-400 hover:shadow-[0_0_8px_rgba(251,146,60,0.4)]"
-        aria-label={t("common.settings")}
-        aria-expanded={isOpen}
-      >
-        <svg
-          xmlns="http://www.w3.org/2000/svg"
-          width="16"
-          height="16"
-          viewBox="0 0 24 24"
-          fill="none"
-          stroke="currentColor"
-          strokeWidth="2"
-          strokeLinecap="round"
-          strokeLinejoin="round"
-          className={`transition-transform duration-300 ${isOpen ? "rotate-90" : ""}`}
+    <>
+      <div className="relative" ref={dropdownRef}>
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          data-tour="settings-button"
+          className="w-8 h-8 flex items-center justify-center text-[#f4e8c1] bg-[#1c1c1c] rounded-lg border border-[#333333] shadow-inner transition-all duration-300 hover:bg-[#252525] hover:border-[#444444] hover:text-amber-400 hover:shadow-[0_0_8px_rgba(251,146,60,0.4)]"
+          aria-label={t("common.settings")}
+          aria-expanded={isOpen}
         >
-          <circle cx="12" cy="12" r="3" />
-          <path d="M19.4 15a1.65 1.65 0 0 0 .33 1.82l.06.06a2 2 0 0 1 0 2.83 2 2 0 0 1-2.83 0l-.06-.06a1.65 1.65 0 0 0-1.82-.33 1.65 1.65 0 0 0-1 1.51V21a2 2 0 0 1-2 2 2 2 0 0 1-2-2v-.09A1.65 1.65 0 0 0 9 19.4a1.65 1.65 0 0 0-1.82.33l-.06.06a2 2 0 0 1-2.83 0 2 2 0 0 1 0-2.83l.06-.06a1.65 1.65 0 0 0 .33-1.82 1.65 1.65 0 0 0-1.51-1H3a2 2 0 0 1-2-2 2 2 0 0 1 2-2h.09A1.65 1.65 0 0 0 4.6 9a1.65 1.65 0 0 0-.33-1.82l-.06-.06a2 2 0 0 1 0-2.83 2 2 0 0 1 2.83 0l.06.06a1.65 1.65 0 0 0 1.82.33H9a1.65 1.65 0 0 0 1-1.51V3a2 2 0 0 1 2-2 2 2 0 0 1 2 2v.09a1.65 1.65 0 0 0 1 1.51 1.65 1.65 0 0 0 1.82-.33l.06-.06a2 2 0 0 1 2.83 0 2 2 0 0 1 0 2.83l-.06.06a1.65 1.65 0 0 0-.33 1.82V9a1.65 1.65 0 0 0 1.51 1H21a2 2 0 0 1 2 2 2 2 0 0 1-2 2h-.09a1.65 1.65 0 0 0-1.51 1z" />
-        </svg>
-      </button>
-
-      {isOpen && (
-        <div className="absolute right-0 mt-2 w-48 rounded-md shadow-lg bg-[#1c1c1c] border border-[#333333] z-50 overflow-hidden">
-          <div className="py-1">
-            <button
-              onClick={toggleLanguage}
-              className="flex items-center w-full px-4 py-2 text-sm text-[#f4e8c1] hover:bg-[#252525] transition-colors"
-            >
-              <svg
-                xmlns="http://www.w3.org/2000/svg"
-                width="16"
-                height="16"
-                viewBox="0 0 24 24"
-                fill="none"
-                stroke="currentColor"
-                strokeWidth="2"
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                className="mr-2"
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            width="16"
+            height="16"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            className={`transition-transform duration-300 ${isOpen ? "rotate-90" : ""}`}
+          >
+            <circle cx="12" cy="12" r="3" />
+            <path d="M19.4 15a1.65 1.65 0 0 0 .33 1.82l.06.06a2 2 0 0 1 0 2.83 2 2 0 0 1-2.83 0l-.06-.06a1.65 1.65 0 0 0-1.82-.33 1.65 1.65 0 0 0-1 1.51V21a2 2 0 0 1-2 2 2 2 0 0 1-2-2v-.09A1.65 1.65 0 0 0 9 19.4a1.65 1.65 0 0 0-1.82.33l-.06.06a2 2 0 0 1-2.83 0 2 2 0 0 1 0-2.83l.06-.06a1.65 1.65 0 0 0 .33-1.82 1.65 1.65 0 0 0-1.51-1H3a2 2 0 0 1-2-2 2 2 0 0 1 2-2h.09A1.65 1.65 0 0 0 4.6 9a1.65 1.65 0 0 0-.33-1.82l-.06-.06a2 2 0 0 1 0-2.83 2 2 0 0 1 2.83 0l.06.06a1.65 1.65 0 0 0 1.82.33H9a1.65 1.65 0 0 0 1-1.51V3a2 2 0 0 1 2-2 2 2 0 0 1 2 2v.09a1.65 1.65 0 0 0 1 1.51 1.65 1.65 0 0 0 1.82-.33l.06-.06a2 2 0 0 1 2.83 0 2 2 0 0 1 0 2.83l-.06.06a1.65 1.65 0 0 0-.33 1.82V9a1.65 1.65 0 0 0 1.51 1H21a2 2 0 0 1 2 2 2 2 0 0 1-2 2h-.09a1.65 1.65 0 0 0-1.51 1z" />
+          </svg>
+        </button>
+
+        {isOpen && (
+          <div className="absolute right-0 mt-2 w-48 rounded-md shadow-lg bg-[#1c1c1c] border border-[#333333] z-50 overflow-hidden">
+            <div className="py-1">
+              <button
+                onClick={toggleLanguage}
+                className="flex items-center w-full px-4 py-2 text-sm text-[#f4e8c1] hover:bg-[#252525] transition-colors"
               >
-                <path d="M5 8l6 6"></path>
-                <path d="M4 14l6-6 2-3"></path>
-                <path d="M2 5h12"></path>
-                <path d="M7 2h1"></path>
-                <path d="M22 22l-5-10-5 10"></path>
-                <path d="M14 18h6"></path>
-              </svg>
-              {language === "zh"
-                ? t("common.switchToEnglish")
-                : t("common.switchToChinese")}
-            </button>
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  width="16"
+                  height="16"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  className="mr-2"
+                >
+                  <path d="M5 8l6 6"></path>
+                  <path d="M4 14l6-6 2-3"></path>
+                  <path d="M2 5h12"></path>
+                  <path d="M7 2h1"></path>
+                  <path d="M22 22l-5-10-5 10"></path>
+                  <path d="M14 18h6"></path>
+                </svg>
+                {language === "zh"
+                  ? t("common.switchToEnglish")
+                  : t("common.switchToChinese")}
+              </button>
 
-            <button
-              onClick={openModelSettings}
-              className="flex items-center w-full px-4 py-2 text-sm text-[#f4e8c1] hover:bg-[#252525] transition-colors"
-            >
-              <svg
-                xmlns="http://www.w3.org/2000/svg"
-                width="16"
-                height="16"
-                viewBox="0 0 24 24"
-                fill="none"
-                stroke="currentColor"
-                strokeWidth="2"
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                className="mr-2"
+              <button
+                onClick={openModelSettings}
+                className="flex items-center w-full px-4 py-2 text-sm text-[#f4e8c1] hover:bg-[#252525] transition-colors"
               >
-                <path d="M12 20h9"></path>
-                <path d="M16.5 3.5a2.121 2.121 0 0 1 3 3L7 19l-4 1 1-4L16.5 3.5z"></path>
-              </svg>
-              {t("common.modelSettings")}
-            </button>
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  width="16"
+                  height="16"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  className="mr-2"
+                >
+                  <path d="M12 20h9"></path>
+                  <path d="M16.5 3.5a2.121 2.121 0 0 1 3 3L7 19l-4 1 1-4L16.5 3.5z"></path>
+                </svg>
+                {t("common.modelSettings")}
+              </button>
 
-            <button
-              onClick={toggleSound}
-              className="flex items-center w-full px-4 py-2 text-sm text-[#f4e8c1] hover:bg-[#252525] transition-colors"
-            >
-              <svg
-                xmlns="http://www.w3.org/2000/svg"
-                width="16"
-                height="16"
-                viewBox="0 0 24 24"
-                fill="none"
-                stroke="currentColor"
-                strokeWidth="2"
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                className="mr-2"
+              <button
+                onClick={toggleSound}
+                className="flex items-center w-full px-4 py-2 text-sm text-[#f4e8c1] hover:bg-[#252525] transition-colors"
               >
-                {soundEnabled ? (
-                  <>
-                    <polygon points="11 5 6 9 2 9 2 15 6 15 11 19 11 5"></polygon>
-                    <path d="M19.07 4.93a10 10 0 0 1 0 14.14M15.54 8.46a5 5 0 0 1 0 7.07"></path>
-                  </>
-                ) : (
-                  <>
-                    <polygon points="11 5 6 9 2 9 2 15 6 15 11 19 11 5"></polygon>
-                    <line x1="23" y1="9" x2="17" y2="15"></line>
-                    <line x1="17" y1="9" x2="23" y2="15"></line>
-                  </>
-                )}
-              </svg>
-              {soundEnabled ? t("common.soundOff") : t("common.soundOn")}
-            </button>
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  width="16"
+                  height="16"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  className="mr-2"
+                >
+                  {soundEnabled ? (
+                    <>
+                      <polygon points="11 5 6 9 2 9 2 15 6 15 11 19 11 5"></polygon>
+                      <path d="M19.07 4.93a10 10 0 0 1 0 14.14M15.54 8.46a5 5 0 0 1 0 7.07"></path>
+                    </>
+                  ) : (
+                    <>
+                      <polygon points="11 5 6 9 2 9 2 15 6 15 11 19 11 5"></polygon>
+                      <line x1="23" y1="9" x2="17" y2="15"></line>
+                      <line x1="17" y1="9" x2="23" y2="15"></line>
+                    </>
+                  )}
+                </svg>
+                {soundEnabled ? t("common.soundOff") : t("common.soundOn")}
+              </button>
 
-            <button
-              onClick={resetTour}
-              className="flex items-center w-full px-4 py-2 text-sm text-[#f4e8c1] hover:bg-[#252525] transition-colors"
-            >
-              <svg
-                xmlns="http://www.w3.org/2000/svg"
-                width="16"
-                height="16"
-                viewBox="0 0 24 24"
-                fill="none"
-                stroke="currentColor"
-                strokeWidth="2"
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                className="mr-2"
+              <button
+                onClick={resetTour}
+                className="flex items-center w-full px-4 py-2 text-sm text-[#f4e8c1] hover:bg-[#252525] transition-colors"
               >
-                <circle cx="12" cy="12" r="10"></circle>
-                <polygon points="10,8 16,12 10,16 10,8"></polygon>
-              </svg>
-              {t("common.restartTour")}
-            </button>
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  width="16"
+                  height="16"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  className="mr-2"
+                >
+                  <circle cx="12" cy="12" r="10"></circle>
+                  <polygon points="10,8 16,12 10,16 10,8"></polygon>
+                </svg>
+                {t("common.restartTour")}
+              </button>
 
-            <div className="border-t border-[#333333] my-1"></div>
+              <div className="border-t border-[#333333] my-1"></div>
 
-            <button
-              onClick={handleExportData}
-              className="flex items-center w-full px-4 py-2 text-sm text-[#f4e8c1] hover:bg-[#252525] transition-colors"
-            >
-              <svg
-                xmlns="http://www.w3.org/2000/svg"
-                width="16"
-                height="16"
-                viewBox="0 0 24 24"
-                fill="none"
-                stroke="currentColor"
-                strokeWidth="2"
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                className="mr-2"
+              <button
+                onClick={handleExportData}
+                className="flex items-center w-full px-4 py-2 text-sm text-[#f4e8c1] hover:bg-[#252525] transition-colors"
               >
-                <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path>
-                <polyline points="7,10 12,15 17,10"></polyline>
-                <line x1="12" y1="15" x2="12" y2="3"></line>
-              </svg>
-              {t("common.exportData")}
-            </button>
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  width="16"
+                  height="16"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  className="mr-2"
+                >
+                  <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path>
+                  <polyline points="7,10 12,15 17,10"></polyline>
+                  <line x1="12" y1="15" x2="12" y2="3"></line>
+                </svg>
+                {t("common.exportData")}
+              </button>
 
-            <button
-              onClick={handleImportData}
-              className="flex items-center w-full px-4 py-2 text-sm text-[#f4e8c1] hover:bg-[#252525] transition-colors"
-            >
-              <svg
-                xmlns="http://www.w3.org/2000/svg"
-                width="16"
-                height="16"
-                viewBox="0 0 24 24"
-                fill="none"
-                stroke="currentColor"
-                strokeWidth="2"
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                className="mr-2"
+              <button
+                onClick={handleImportData}
+                className="flex items-center w-full px-4 py-2 text-sm text-[#f4e8c1] hover:bg-[#252525] transition-colors"
               >
-                <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path>
-                <polyline points="17,8 12,3 7,8"></polyline>
-                <line x1="12" y1="3" x2="12" y2="15"></line>
-              </svg>
-              {t("common.importData")}
-            </button>
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  width="16"
+                  height="16"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  className="mr-2"
+                >
+                  <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path>
+                  <polyline points="17,8 12,3 7,8"></polyline>
+                  <line x1="12" y1="3" x2="12" y2="15"></line>
+                </svg>
+                {t("common.importData")}
+              </button>
 
-            <button
-              onClick={handleExportDataToGoogle}
-              className="flex items-center w-full px-4 py-2 text-sm text-[#f4e8c1] hover:bg-[#252525] transition-colors"
-            >
-              <svg
-                xmlns="http://www.w3.org/2000/svg"
-                width="16"
-                height="16"
-                viewBox="0 0 24 24"
-                fill="none"
-                stroke="currentColor"
-                strokeWidth="2"
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                className="mr-2"
+              <button
+                onClick={handleExportDataToGoogle}
+                className="flex items-center w-full px-4 py-2 text-sm text-[#f4e8c1] hover:bg-[#252525] transition-colors"
               >
-                <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path>
-                <polyline points="7,10 12,15 17,10"></polyline>
-                <line x1="12" y1="15" x2="12" y2="3"></line>
-              </svg>
-              {t("common.exportDataToGoogle")}
-            </button>
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  width="16"
+                  height="16"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  className="mr-2"
+                >
+                  <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path>
+                  <polyline points="7,10 12,15 17,10"></polyline>
+                  <line x1="12" y1="15" x2="12" y2="3"></line>
+                </svg>
+                {t("common.exportDataToGoogle")}
+              </button>
 
-            <button
-              onClick={handleImportDataFromGoogle}
-              className="flex items-center w-full px-4 py-2 text-sm text-[#f4e8c1] hover:bg-[#252525] transition-colors"
-            >
-              <svg
-                xmlns="http://www.w3.org/2000/svg"
-                width="16"
-                height="16"
-                viewBox="0 0 24 24"
-                fill="none"
-                stroke="currentColor"
-                strokeWidth="2"
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                className="mr-2"
+              <button
+                onClick={handleImportDataFromGoogle}
+                className="flex items-center w-full px-4 py-2 text-sm text-[#f4e8c1] hover:bg-[#252525] transition-colors"
               >
-                <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path>
-                <polyline points="17,8 12,3 7,8"></polyline>
-                <line x1="12" y1="3" x2="12" y2="15"></line>
-              </svg>
-              {t("common.importDataFromGoogle")}
-            </button>
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  width="16"
+                  height="16"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  className="mr-2"
+                >
+                  <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path>
+                  <polyline points="17,8 12,3 7,8"></polyline>
+                  <line x1="12" y1="3" x2="12" y2="15"></line>
+                </svg>
+                {t("common.importDataFromGoogle")}
+              </button>
+
+              <button
+                onClick={() => {
+                  setIsSyncOpen(true);
+                  setIsOpen(false);
+                }}
+                className="flex items-center w-full px-4 py-2 text-sm text-[#f4e8c1] hover:bg-[#252525] transition-colors"
+              >
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  width="16"
+                  height="16"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  className="mr-2"
+                >
+                  <polyline points="23 4 23 10 17 10"></polyline>
+                  <polyline points="1 20 1 14 7 14"></polyline>
+                  <path d="M3.51 9a9 9 0 0 1 14.85-3.36L23 10M1 14l4.64 4.36A9 9 0 0 0 20.49 15"></path>
+                </svg>
+                {t("common.cloudSync")}
+              </button>
+
+              <button
+                onClick={() => {
+                  setIsDoctorOpen(true);
+                  setIsOpen(false);
+                }}
+                className="flex items-center w-full px-4 py-2 text-sm text-[#f4e8c1] hover:bg-[#252525] transition-colors"
+              >
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  width="16"
+                  height="16"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  className="mr-2"
+                >
+                  <ellipse cx="12" cy="5" rx="9" ry="3"></ellipse>
+                  <path d="M21 12c0 1.66-4 3-9 3s-9-1.34-9-3"></path>
+                  <path d="M3 5v14c0 1.66 4 3 9 3s9-1.34 9-3V5"></path>
+                </svg>
+                {t("common.storageDoctor")}
+              </button>
+
+              <button
+                onClick={() => {
+                  setIsTrashOpen(true);
+                  setIsOpen(false);
+                }}
+                className="flex items-center w-full px-4 py-2 text-sm text-[#f4e8c1] hover:bg-[#252525] transition-colors"
+              >
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  width="16"
+                  height="16"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  className="mr-2"
+                >
+                  <polyline points="3 6 5 6 21 6"></polyline>
+                  <path d="M19 6l-1 14a2 2 0 0 1-2 2H8a2 2 0 0 1-2-2L5 6"></path>
+                  <path d="M10 11v6"></path>
+                  <path d="M14 11v6"></path>
+                  <path d="M9 6V4a1 1 0 0 1 1-1h4a1 1 0 0 1 1 1v2"></path>
+                </svg>
+                {t("common.recycleBin")}
+              </button>
+
+              <button
+                onClick={() => {
+                  setIsBackendOpen(true);
+                  setIsOpen(false);
+                }}
+                className="flex items-center w-full px-4 py-2 text-sm text-[#f4e8c1] hover:bg-[#252525] transition-colors"
+              >
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  width="16"
+                  height="16"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  className="mr-2"
+                >
+                  <rect x="2" y="2" width="20" height="8" rx="2" ry="2"></rect>
+                  <rect x="2" y="14" width="20" height="8" rx="2" ry="2"></rect>
+                  <line x1="6" y1="6" x2="6.01" y2="6"></line>
+                  <line x1="6" y1="18" x2="6.01" y2="18"></line>
+                </svg>
+                {t("common.storageBackend")}
+              </button>
+            </div>
           </div>
-        </div>
-      )}
-    </div>
+        )}
+      </div>
+      {restoreModal}
+      {syncModal}
+      {doctorModal}
+      {trashModal}
+      {backendModal}
+      {passphraseModal}
+    </>
   );
 }
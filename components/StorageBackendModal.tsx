@@ -0,0 +1,189 @@
+/**
+ * Storage Backend Modal Component
+ *
+ * Chooses where this device keeps its data:
+ * - Browser storage (IndexedDB), the default
+ * - The self-hosted server's SQLite database, shared by every device using it
+ * - Optionally copies the current data to the new backend when switching
+ *
+ * Dependencies:
+ * - useLanguage: For internationalization
+ * - function/data/storage-backend: For switching and copying data
+ */
+
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useLanguage } from "@/app/i18n";
+import { switchStorageBackend } from "@/function/data/storage-backend";
+import { getStorageBackendType } from "@/lib/data/local-storage";
+import { StorageBackendType } from "@/lib/data/storage/storage-backend";
+import {
+  ServerStorageStatus,
+  getServerStorageStatus,
+  getServerStorageToken,
+  setServerStorageToken,
+} from "@/lib/data/storage/server-backend";
+
+interface StorageBackendModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const BACKENDS: StorageBackendType[] = ["indexeddb", "server"];
+
+export default function StorageBackendModal({ isOpen, onClose }: StorageBackendModalProps) {
+  const { t, fontClass, serifFontClass } = useLanguage();
+  const [currentType, setCurrentType] = useState<StorageBackendType>("indexeddb");
+  const [selectedType, setSelectedType] = useState<StorageBackendType>("indexeddb");
+  const [serverStatus, setServerStatus] = useState<ServerStorageStatus | null>(null);
+  const [token, setToken] = useState("");
+  const [copyData, setCopyData] = useState(true);
+  const [isSwitching, setIsSwitching] = useState(false);
+  const [message, setMessage] = useState("");
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const type = getStorageBackendType();
+    setCurrentType(type);
+    setSelectedType(type);
+    setToken(getServerStorageToken());
+    setMessage("");
+    getServerStorageStatus().then(setServerStatus);
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const handleSwitch = async () => {
+    if (selectedType === currentType) return;
+    if (copyData && !confirm(t("storageBackend.copyConfirm"))) return;
+
+    setIsSwitching(true);
+    setMessage("");
+    try {
+      setServerStorageToken(token.trim());
+      await switchStorageBackend(selectedType, copyData, ({ storeName, done, total }) =>
+        setMessage(`${t("storageBackend.copying")} ${storeName}: ${done}/${total}`),
+      );
+      window.location.reload();
+    } catch (error: any) {
+      console.error("Storage backend switch failed:", error);
+      setMessage(`${t("storageBackend.switchFailed")}: ${error.message}`);
+      setIsSwitching(false);
+    }
+  };
+
+  const inputClass =
+    "w-full px-3 py-1.5 bg-[#1a1816]/80 border border-[#534741]/60 rounded-lg text-sm text-[#eae6db] placeholder-[#534741]/80 focus:outline-none focus:ring-1 focus:ring-amber-500/40";
+  const optionClass = (active: boolean) =>
+    `px-3 py-1.5 rounded-lg border text-xs transition-all duration-300 ${
+      active
+        ? "border-amber-500/60 bg-amber-500/15 text-amber-200"
+        : "border-[#534741]/60 text-[#a18d6f] hover:text-[#eae6db] hover:border-amber-500/40"
+    }`;
+
+  const serverUnavailable = selectedType === "server" && serverStatus?.enabled === false;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-[10000] p-3">
+      <div className="relative bg-gradient-to-br from-[#1a1816]/95 via-[#252220]/95 to-[#1a1816]/95 backdrop-blur-xl border border-[#534741]/60 rounded-xl shadow-2xl max-w-md w-full max-h-[85vh] overflow-hidden">
+        <div className="relative p-3 border-b border-[#534741]/40 bg-gradient-to-r from-[#252220]/80 via-[#1a1816]/60 to-[#252220]/80 backdrop-blur-sm">
+          <div className="flex justify-between items-center">
+            <h2
+              className={`text-base font-semibold text-[#eae6db] ${serifFontClass} bg-gradient-to-r from-amber-300 via-amber-200 to-amber-300 bg-clip-text text-transparent`}
+            >
+              {t("storageBackend.title")}
+            </h2>
+            <button
+              onClick={onClose}
+              disabled={isSwitching}
+              className="w-7 h-7 flex items-center justify-center text-[#a18d6f] hover:text-[#eae6db] transition-all duration-300 rounded-lg hover:bg-[#333]/50"
+            >
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                width="16"
+                height="16"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              >
+                <line x1="18" y1="6" x2="6" y2="18"></line>
+                <line x1="6" y1="6" x2="18" y2="18"></line>
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <div className={`relative p-4 max-h-[70vh] overflow-y-auto fantasy-scrollbar space-y-4 ${fontClass}`}>
+          <div>
+            <h4 className={`text-sm font-medium text-[#eae6db] mb-2 ${serifFontClass}`}>
+              {t("storageBackend.backend")}
+            </h4>
+            <div className="flex gap-2">
+              {BACKENDS.map((type) => (
+                <button
+                  key={type}
+                  className={optionClass(type === selectedType)}
+                  onClick={() => setSelectedType(type)}
+                >
+                  {t(`storageBackend.${type}`)}
+                  {type === currentType && ` · ${t("storageBackend.current")}`}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-[#a18d6f] mt-2">
+              {t(`storageBackend.${selectedType}Description`)}
+            </p>
+          </div>
+
+          {selectedType === "server" && (
+            <div className="space-y-2">
+              <p className="text-xs text-[#a18d6f]">
+                {serverStatus === null
+                  ? t("storageBackend.checkingServer")
+                  : serverStatus.enabled
+                    ? t("storageBackend.serverAvailable")
+                    : t("storageBackend.serverUnavailable")}
+              </p>
+              {serverStatus?.authRequired && (
+                <input
+                  className={inputClass}
+                  type="password"
+                  placeholder={t("storageBackend.token")}
+                  value={token}
+                  onChange={(e) => setToken(e.target.value)}
+                />
+              )}
+            </div>
+          )}
+
+          {selectedType !== currentType && (
+            <label className="flex items-center gap-2 text-xs text-[#a18d6f]">
+              <input
+                type="checkbox"
+                checked={copyData}
+                onChange={(e) => setCopyData(e.target.checked)}
+              />
+              {t("storageBackend.copyData")}
+            </label>
+          )}
+
+          {message && <p className="text-xs text-[#eae6db]">{message}</p>}
+
+          <div className="flex justify-end">
+            <button
+              onClick={handleSwitch}
+              disabled={isSwitching || selectedType === currentType || serverUnavailable}
+              className="px-4 py-1.5 bg-gradient-to-r from-amber-600/80 to-amber-500/80 hover:from-amber-500/90 hover:to-amber-400/90 text-white font-medium rounded-lg transition-all duration-300 shadow-lg hover:shadow-amber-500/25 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSwitching ? t("storageBackend.switching") : t("storageBackend.switch")}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,258 @@
+/**
+ * Storage Doctor Modal Component
+ *
+ * Shows where local storage goes and cleans up leftovers:
+ * - Browser storage usage and quota
+ * - Per-store and per-character usage
+ * - Orphaned records whose character or dialogue no longer exists, with purge
+ *
+ * Dependencies:
+ * - useLanguage: For internationalization
+ * - lib/data/storage-doctor: For scanning and purging
+ */
+
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { useLanguage } from "@/app/i18n";
+import {
+  OrphanReason,
+  StorageReport,
+  purgeOrphans,
+  scanStorage,
+} from "@/lib/data/storage-doctor";
+
+interface StorageDoctorModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+}
+
+export default function StorageDoctorModal({ isOpen, onClose }: StorageDoctorModalProps) {
+  const { t, fontClass, serifFontClass } = useLanguage();
+  const [report, setReport] = useState<StorageReport | null>(null);
+  const [isScanning, setIsScanning] = useState(false);
+  const [isPurging, setIsPurging] = useState(false);
+  const [message, setMessage] = useState("");
+
+  const scan = useCallback(async () => {
+    setIsScanning(true);
+    try {
+      setReport(await scanStorage());
+    } catch (error) {
+      console.error("Storage scan failed:", error);
+      setMessage(t("storageDoctor.scanFailed"));
+    } finally {
+      setIsScanning(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setMessage("");
+    scan();
+  }, [isOpen, scan]);
+
+  if (!isOpen) return null;
+
+  const handlePurge = async () => {
+    if (!report || report.orphans.length === 0) return;
+    if (!confirm(t("storageDoctor.purgeConfirm"))) return;
+
+    setIsPurging(true);
+    try {
+      const count = await purgeOrphans(report.orphans);
+      setMessage(`${t("storageDoctor.purged")}: ${count}`);
+      await scan();
+    } catch (error) {
+      console.error("Orphan purge failed:", error);
+      setMessage(t("storageDoctor.purgeFailed"));
+    } finally {
+      setIsPurging(false);
+    }
+  };
+
+  const orphanGroups = new Map<string, { count: number; size: number }>();
+  report?.orphans.forEach((orphan) => {
+    const groupKey = `${orphan.storeName}|${orphan.reason}`;
+    const group = orphanGroups.get(groupKey) || { count: 0, size: 0 };
+    group.count++;
+    group.size += orphan.size;
+    orphanGroups.set(groupKey, group);
+  });
+
+  const estimatedUsage = report?.estimate?.usage || 0;
+  const percentOf = (size: number, total: number) =>
+    total > 0 ? Math.min(100, (size / total) * 100) : 0;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-[10000] p-3">
+      <div className="relative bg-gradient-to-br from-[#1a1816]/95 via-[#252220]/95 to-[#1a1816]/95 backdrop-blur-xl border border-[#534741]/60 rounded-xl shadow-2xl max-w-xl w-full max-h-[85vh] overflow-hidden">
+        <div className="relative p-3 border-b border-[#534741]/40 bg-gradient-to-r from-[#252220]/80 via-[#1a1816]/60 to-[#252220]/80 backdrop-blur-sm">
+          <div className="flex justify-between items-center">
+            <h2
+              className={`text-base font-semibold text-[#eae6db] ${serifFontClass} bg-gradient-to-r from-amber-300 via-amber-200 to-amber-300 bg-clip-text text-transparent`}
+            >
+              {t("storageDoctor.title")}
+            </h2>
+            <button
+              onClick={onClose}
+              className="w-7 h-7 flex items-center justify-center text-[#a18d6f] hover:text-[#eae6db] transition-all duration-300 rounded-lg hover:bg-[#333]/50"
+            >
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                width="16"
+                height="16"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              >
+                <line x1="18" y1="6" x2="6" y2="18"></line>
+                <line x1="6" y1="6" x2="18" y2="18"></line>
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <div className={`relative p-4 max-h-[70vh] overflow-y-auto fantasy-scrollbar space-y-4 ${fontClass}`}>
+          {!report ? (
+            <p className="text-xs text-[#a18d6f]">
+              {isScanning ? t("storageDoctor.scanning") : message}
+            </p>
+          ) : (
+            <>
+              <div>
+                <h4 className={`text-sm font-medium text-[#eae6db] mb-2 ${serifFontClass}`}>
+                  {t("storageDoctor.browserUsage")}
+                </h4>
+                {report.estimate ? (
+                  <>
+                    <div className="h-2 rounded bg-[#1a1816] border border-[#534741]/60 overflow-hidden">
+                      <div
+                        className="h-full bg-amber-500/70"
+                        style={{ width: `${percentOf(report.estimate.usage, report.estimate.quota)}%` }}
+                      />
+                    </div>
+                    <p className="text-xs text-[#a18d6f] mt-1">
+                      {formatBytes(report.estimate.usage)} / {formatBytes(report.estimate.quota)}
+                    </p>
+                  </>
+                ) : (
+                  <p className="text-xs text-[#a18d6f]">{t("storageDoctor.estimateUnavailable")}</p>
+                )}
+              </div>
+
+              <div>
+                <h4 className={`text-sm font-medium text-[#eae6db] mb-2 ${serifFontClass}`}>
+                  {t("storageDoctor.characters")}
+                </h4>
+                {report.characters.length === 0 ? (
+                  <p className="text-xs text-[#a18d6f]">{t("storageDoctor.noCharacters")}</p>
+                ) : (
+                  <ul className="space-y-1.5 max-h-48 overflow-y-auto fantasy-scrollbar">
+                    {report.characters.map((character) => (
+                      <li key={character.characterId} className="text-xs text-[#a18d6f]">
+                        <div className="flex justify-between">
+                          <span className="text-[#eae6db] truncate mr-2">{character.name}</span>
+                          <span>
+                            {formatBytes(character.size)}
+                            {estimatedUsage > 0 &&
+                              ` · ${percentOf(character.size, estimatedUsage).toFixed(1)}%`}
+                          </span>
+                        </div>
+                        <div className="h-1 rounded bg-[#1a1816] overflow-hidden mt-0.5">
+                          <div
+                            className="h-full bg-amber-500/50"
+                            style={{ width: `${percentOf(character.size, estimatedUsage || report.characters[0].size)}%` }}
+                          />
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              <div>
+                <h4 className={`text-sm font-medium text-[#eae6db] mb-2 ${serifFontClass}`}>
+                  {t("storageDoctor.stores")}
+                </h4>
+                <table className="w-full text-xs text-[#a18d6f]">
+                  <tbody>
+                    {report.stores.map((store) => (
+                      <tr key={store.storeName} className="border-b border-[#534741]/30">
+                        <td className="py-1 text-[#eae6db]">{store.storeName}</td>
+                        <td className="py-1 text-right">{store.count}</td>
+                        <td className="py-1 text-right">{formatBytes(store.size)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div>
+                <h4 className={`text-sm font-medium text-[#eae6db] mb-2 ${serifFontClass}`}>
+                  {t("storageDoctor.orphans")}
+                </h4>
+                {report.orphans.length === 0 ? (
+                  <p className="text-xs text-[#a18d6f]">{t("storageDoctor.noOrphans")}</p>
+                ) : (
+                  <>
+                    <ul className="space-y-1 mb-2">
+                      {Array.from(orphanGroups.entries()).map(([groupKey, group]) => {
+                        const [storeName, reason] = groupKey.split("|");
+                        return (
+                          <li key={groupKey} className="flex justify-between text-xs text-[#a18d6f]">
+                            <span>
+                              <span className="text-[#eae6db]">{storeName}</span>
+                              {" · "}
+                              {t(`storageDoctor.reason_${reason as OrphanReason}`)}
+                            </span>
+                            <span>
+                              {group.count} · {formatBytes(group.size)}
+                            </span>
+                          </li>
+                        );
+                      })}
+                    </ul>
+                    <p className="text-xs text-[#a18d6f]">
+                      {t("storageDoctor.orphanTotal")}: {report.orphans.length} ·{" "}
+                      {formatBytes(report.orphanSize)}
+                    </p>
+                  </>
+                )}
+              </div>
+
+              {message && <p className="text-xs text-[#eae6db]">{message}</p>}
+
+              <div className="flex justify-end gap-2">
+                <button
+                  onClick={scan}
+                  disabled={isScanning || isPurging}
+                  className="px-3 py-1.5 rounded-lg border text-xs transition-all duration-300 border-[#534741]/60 text-[#a18d6f] hover:text-[#eae6db] hover:border-amber-500/40 disabled:opacity-50"
+                >
+                  {isScanning ? t("storageDoctor.scanning") : t("storageDoctor.rescan")}
+                </button>
+                <button
+                  onClick={handlePurge}
+                  disabled={isPurging || isScanning || report.orphans.length === 0}
+                  className="px-4 py-1.5 bg-gradient-to-r from-amber-600/80 to-amber-500/80 hover:from-amber-500/90 hover:to-amber-400/90 text-white font-medium rounded-lg transition-all duration-300 shadow-lg hover:shadow-amber-500/25 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isPurging ? t("storageDoctor.purging") : t("storageDoctor.purge")}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
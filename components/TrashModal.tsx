@@ -0,0 +1,211 @@
+/**
+ * Trash Modal Component
+ *
+ * Recycle bin for deleted characters, dialogue messages, world book entries,
+ * regex scripts, presets and global world books / regex scripts:
+ * - Lists trashed items with when they were deleted and when they expire
+ * - Restores items or deletes them for good
+ * - Sets how many days items are kept before they are purged
+ *
+ * Dependencies:
+ * - useLanguage: For internationalization
+ * - lib/data/roleplay/trash-operation: For the trash store
+ */
+
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { useLanguage } from "@/app/i18n";
+import {
+  TrashItem,
+  TrashOperations,
+  getTrashRetentionDays,
+  setTrashRetentionDays,
+} from "@/lib/data/roleplay/trash-operation";
+import { useDataChanges } from "@/hooks/useDataChanges";
+
+interface TrashModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export default function TrashModal({ isOpen, onClose }: TrashModalProps) {
+  const { t, fontClass, serifFontClass } = useLanguage();
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [retentionDays, setRetentionDays] = useState(getTrashRetentionDays());
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [message, setMessage] = useState("");
+
+  const loadItems = useCallback(async () => {
+    try {
+      setItems(await TrashOperations.getTrashItems());
+    } catch (error) {
+      console.error("Failed to load trash:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setMessage("");
+    setRetentionDays(getTrashRetentionDays());
+    loadItems();
+  }, [isOpen, loadItems]);
+
+  useDataChanges(["trash"], loadItems, { enabled: isOpen });
+
+  if (!isOpen) return null;
+
+  const handleRestore = async (item: TrashItem) => {
+    setBusyId(item.id);
+    try {
+      await TrashOperations.restore(item.id);
+      setMessage(`${t("trash.restored")}: ${item.label}. ${t("trash.reloadHint")}`);
+      await loadItems();
+    } catch (error: any) {
+      console.error("Restore failed:", error);
+      setMessage(`${t("trash.restoreFailed")}: ${error.message}`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDeleteForever = async (item: TrashItem) => {
+    if (!confirm(t("trash.deleteForeverConfirm"))) return;
+    setBusyId(item.id);
+    try {
+      await TrashOperations.deleteForever(item.id);
+      await loadItems();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleEmpty = async () => {
+    if (items.length === 0 || !confirm(t("trash.emptyConfirm"))) return;
+    await TrashOperations.emptyTrash();
+    await loadItems();
+  };
+
+  const handleRetentionChange = async (value: number) => {
+    if (!Number.isFinite(value) || value < 1) return;
+    setRetentionDays(value);
+    setTrashRetentionDays(value);
+    const purged = await TrashOperations.purgeExpired(value);
+    if (purged > 0) {
+      setMessage(`${t("trash.purged")}: ${purged}`);
+      await loadItems();
+    }
+  };
+
+  const daysLeft = (item: TrashItem) =>
+    Math.max(
+      0,
+      Math.ceil(
+        (new Date(item.deleted_at).getTime() + retentionDays * DAY_MS - Date.now()) / DAY_MS,
+      ),
+    );
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-[10000] p-3">
+      <div className="relative bg-gradient-to-br from-[#1a1816]/95 via-[#252220]/95 to-[#1a1816]/95 backdrop-blur-xl border border-[#534741]/60 rounded-xl shadow-2xl max-w-xl w-full max-h-[85vh] overflow-hidden">
+        <div className="relative p-3 border-b border-[#534741]/40 bg-gradient-to-r from-[#252220]/80 via-[#1a1816]/60 to-[#252220]/80 backdrop-blur-sm">
+          <div className="flex justify-between items-center">
+            <h2
+              className={`text-base font-semibold text-[#eae6db] ${serifFontClass} bg-gradient-to-r from-amber-300 via-amber-200 to-amber-300 bg-clip-text text-transparent`}
+            >
+              {t("trash.title")}
+            </h2>
+            <button
+              onClick={onClose}
+              className="w-7 h-7 flex items-center justify-center text-[#a18d6f] hover:text-[#eae6db] transition-all duration-300 rounded-lg hover:bg-[#333]/50"
+            >
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                width="16"
+                height="16"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              >
+                <line x1="18" y1="6" x2="6" y2="18"></line>
+                <line x1="6" y1="6" x2="18" y2="18"></line>
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <div className={`relative p-4 max-h-[70vh] overflow-y-auto fantasy-scrollbar space-y-4 ${fontClass}`}>
+          <div className="flex items-center justify-between gap-2 text-xs text-[#a18d6f]">
+            <label className="flex items-center gap-2">
+              {t("trash.retentionDays")}
+              <input
+                type="number"
+                min={1}
+                value={retentionDays}
+                onChange={(e) => handleRetentionChange(Number(e.target.value))}
+                className="w-16 px-2 py-1 bg-[#1a1816] border border-[#534741]/60 rounded text-[#eae6db] focus:outline-none focus:border-amber-500/40"
+              />
+            </label>
+            <span>
+              {items.length} {t("trash.items")}
+            </span>
+          </div>
+
+          {items.length === 0 ? (
+            <p className="text-xs text-[#a18d6f]">{t("trash.empty")}</p>
+          ) : (
+            <ul className="space-y-2">
+              {items.map((item) => (
+                <li
+                  key={item.id}
+                  className="flex items-center justify-between gap-3 p-2 rounded-lg border border-[#534741]/40 bg-[#1a1816]/60"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm text-[#eae6db] truncate">{item.label}</p>
+                    <p className="text-xs text-[#a18d6f]">
+                      {t(`trash.kind_${item.kind}`)} · {new Date(item.deleted_at).toLocaleString()} ·{" "}
+                      {t("trash.expiresIn")} {daysLeft(item)} {t("trash.days")}
+                    </p>
+                  </div>
+                  <div className="flex gap-2 flex-shrink-0">
+                    <button
+                      onClick={() => handleRestore(item)}
+                      disabled={busyId !== null}
+                      className="px-3 py-1 rounded-lg border text-xs transition-all duration-300 border-amber-500/40 text-amber-300 hover:bg-amber-500/10 disabled:opacity-50"
+                    >
+                      {t("trash.restore")}
+                    </button>
+                    <button
+                      onClick={() => handleDeleteForever(item)}
+                      disabled={busyId !== null}
+                      className="px-3 py-1 rounded-lg border text-xs transition-all duration-300 border-[#534741]/60 text-[#a18d6f] hover:text-red-400 hover:border-red-500/40 disabled:opacity-50"
+                    >
+                      {t("trash.deleteForever")}
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {message && <p className="text-xs text-[#eae6db]">{message}</p>}
+
+          <div className="flex justify-end">
+            <button
+              onClick={handleEmpty}
+              disabled={items.length === 0 || busyId !== null}
+              className="px-4 py-1.5 bg-gradient-to-r from-amber-600/80 to-amber-500/80 hover:from-amber-500/90 hover:to-amber-400/90 text-white font-medium rounded-lg transition-all duration-300 shadow-lg hover:shadow-amber-500/25 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {t("trash.emptyTrash")}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+/**
+ * Undo Delete Toast
+ *
+ * Toast shown after something was moved to the recycle bin, with an Undo
+ * button that restores it straight away.
+ *
+ * Dependencies:
+ * - react-hot-toast: For the toast itself (Toaster is mounted in MainLayout)
+ * - lib/data/roleplay/trash-operation: For restoring the trashed item
+ */
+
+"use client";
+
+import { toast } from "react-hot-toast";
+import { TrashOperations } from "@/lib/data/roleplay/trash-operation";
+
+type Translate = (key: string) => string;
+
+const UNDO_DURATION_MS = 8000;
+
+/**
+ * Shows "moved to recycle bin" with Undo. `onRestored` runs after a
+ * successful undo so the caller can reload what it displays.
+ */
+export function showUndoDeleteToast(
+  trashItemId: string | undefined,
+  t: Translate,
+  onRestored?: () => void | Promise<void>,
+) {
+  if (!trashItemId) {
+    return;
+  }
+
+  const handleUndo = async (toastId: string) => {
+    toast.dismiss(toastId);
+    try {
+      await TrashOperations.restore(trashItemId);
+      await onRestored?.();
+      toast.success(t("trash.restored"));
+    } catch (error: any) {
+      console.error("Undo delete failed:", error);
+      toast.error(`${t("trash.restoreFailed")}: ${error.message}`);
+    }
+  };
+
+  toast.custom(
+    (current) => (
+      <div
+        className={`flex items-center gap-3 px-4 py-2.5 rounded-lg border border-[#534741]/60 bg-gradient-to-br from-[#1a1816]/95 via-[#252220]/95 to-[#1a1816]/95 shadow-2xl text-sm text-[#eae6db] transition-opacity duration-300 ${
+          current.visible ? "opacity-100" : "opacity-0"
+        }`}
+      >
+        <span>{t("trash.movedToTrash")}</span>
+        <button
+          onClick={() => handleUndo(current.id)}
+          className="px-3 py-1 rounded-md text-xs font-medium text-amber-300 border border-amber-500/40 hover:bg-amber-500/10 transition-all duration-300"
+        >
+          {t("trash.undo")}
+        </button>
+      </div>
+    ),
+    { duration: UNDO_DURATION_MS },
+  );
+}
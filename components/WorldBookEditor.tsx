@@ -4,10 +4,17 @@ import { useState, useEffect } from "react";
 import { toast } from "react-hot-toast";
 import { getWorldBookEntries } from "@/function/worldbook/info";
 import { deleteWorldBookEntry } from "@/function/worldbook/delete";
+import { showUndoDeleteToast } from "@/components/UndoDeleteToast";
 import { saveAdvancedWorldBookEntry } from "@/function/worldbook/edit";
 import { bulkToggleWorldBookEntries } from "@/function/worldbook/bulk-operations";
-import { getWorldBookSettings } from "@/function/worldbook/settings";
+import {
+  getWorldBookSettings,
+  updateWorldBookSettings,
+} from "@/function/worldbook/settings";
+import { WorldBookSettings } from "@/lib/data/roleplay/world-book-operation";
+import { WorldBookRole } from "@/lib/models/world-book-model";
 import { useLanguage } from "@/app/i18n";
+import { useDataChanges } from "@/hooks/useDataChanges";
 import WorldBookEntryEditor from "@/components/WorldBookEntryEditor";
 import ImportWorldBookModal from "@/components/ImportWorldBookModal";
 import "@/app/styles/fantasy-ui.css";
@@ -38,6 +45,11 @@ interface WorldBookEditorProps {
   characterId: string;
 }
 
+/** Empty inputs clear the setting so the card's lorebook value applies */
+function parseOptionalNumber(value: string): number | undefined {
+  return value.trim() === "" ? undefined : Number(value);
+}
+
 interface WorldBookEntryData {
   entry_id: string;
   id?: number;
@@ -50,7 +62,18 @@ interface WorldBookEntryData {
   insertion_order: number;
   enabled: boolean;
   use_regex: boolean;
+  selective_logic: number;
+  case_sensitive: boolean | null;
+  match_whole_words: boolean | null;
+  prevent_recursion: boolean;
+  exclude_recursion: boolean;
+  probability: number;
+  use_probability: boolean;
+  sticky: number;
+  cooldown: number;
+  delay: number;
   depth: number;
+  role: WorldBookRole;
   comment: string;
   tokens?: number;
   extensions?: any;
@@ -73,9 +96,20 @@ interface EditingEntry {
   content: string;
   position: number;
   depth: number;
+  role: WorldBookRole;
   enabled: boolean;
   use_regex: boolean;
   selective: boolean;
+  selective_logic: number;
+  case_sensitive: boolean | null;
+  match_whole_words: boolean | null;
+  prevent_recursion: boolean;
+  exclude_recursion: boolean;
+  probability: number;
+  use_probability: boolean;
+  sticky: number;
+  cooldown: number;
+  delay: number;
   constant: boolean;
   insertion_order: number;
 }
@@ -97,8 +131,9 @@ export default function WorldBookEditor({
   const [sortOrder, setSortOrder] = useState<"asc" | "desc">("asc");
   const [isImportModalOpen, setIsImportModalOpen] = useState(false);
   const [filterBy, setFilterBy] = useState<string>("all");
-  const [settings, setSettings] = useState({
+  const [settings, setSettings] = useState<WorldBookSettings>({
     enabled: true,
+    maxEntries: 5,
     contextWindow: 5,
   });
 
@@ -244,6 +279,16 @@ export default function WorldBookEditor({
     loadFilterPreferences();
   }, [characterId]);
 
+  useDataChanges(
+    ["worldBooks"],
+    () => {
+      loadWorldBookData();
+      loadSettings();
+      toast(t("worldBook.changedElsewhere"));
+    },
+    { id: characterId },
+  );
+
   const loadWorldBookData = async () => {
     try {
       setIsLoading(true);
@@ -270,6 +315,20 @@ export default function WorldBookEditor({
     }
   };
 
+  const handleScanSettingsChange = async (
+    updates: Partial<WorldBookSettings>,
+  ) => {
+    try {
+      const result = await updateWorldBookSettings(characterId, updates);
+      if (result.success) {
+        setSettings(result.settings);
+      }
+    } catch (error) {
+      console.error("Failed to update settings:", error);
+      toast.error(t("worldBook.scanSettingsInvalid"));
+    }
+  };
+
   const filterEntries = (entries: WorldBookEntryData[], filterBy: string) => {
     if (filterBy === "all") return entries;
 
@@ -362,9 +421,20 @@ export default function WorldBookEditor({
         content: entry.content || "",
         position: typeof entry.position === "number" ? entry.position : 4,
         depth: entry.depth || 1,
+        role: entry.role,
         enabled: entry.enabled !== false,
         use_regex: entry.use_regex || false,
         selective: entry.selective || false,
+        selective_logic: entry.selective_logic || 0,
+        case_sensitive: entry.case_sensitive ?? null,
+        match_whole_words: entry.match_whole_words ?? null,
+        prevent_recursion: entry.prevent_recursion || false,
+        exclude_recursion: entry.exclude_recursion || false,
+        probability: entry.probability ?? 100,
+        use_probability: entry.use_probability ?? true,
+        sticky: entry.sticky || 0,
+        cooldown: entry.cooldown || 0,
+        delay: entry.delay || 0,
         constant: entry.constant || false,
         insertion_order: entry.insertion_order || 0,
       });
@@ -378,9 +448,20 @@ export default function WorldBookEditor({
         content: "",
         position: 4,
         depth: 1,
+        role: "system",
         enabled: true,
         use_regex: false,
         selective: false,
+        selective_logic: 0,
+        case_sensitive: null,
+        match_whole_words: null,
+        prevent_recursion: false,
+        exclude_recursion: false,
+        probability: 100,
+        use_probability: true,
+        sticky: 0,
+        cooldown: 0,
+        delay: 0,
         constant: false,
         insertion_order: 0,
       });
@@ -406,9 +487,20 @@ export default function WorldBookEditor({
         comment: editingEntry.comment,
         position: editingEntry.position,
         depth: editingEntry.depth,
+        role: editingEntry.role,
         enabled: editingEntry.enabled,
         use_regex: editingEntry.use_regex,
         selective: editingEntry.selective,
+        selective_logic: editingEntry.selective_logic,
+        case_sensitive: editingEntry.case_sensitive,
+        match_whole_words: editingEntry.match_whole_words,
+        prevent_recursion: editingEntry.prevent_recursion,
+        exclude_recursion: editingEntry.exclude_recursion,
+        probability: editingEntry.probability,
+        use_probability: editingEntry.use_probability,
+        sticky: editingEntry.sticky,
+        cooldown: editingEntry.cooldown,
+        delay: editingEntry.delay,
         constant: editingEntry.constant,
         insertion_order: editingEntry.insertion_order,
       });
@@ -428,7 +520,18 @@ export default function WorldBookEditor({
           insertion_order: editingEntry.insertion_order,
           enabled: editingEntry.enabled,
           use_regex: editingEntry.use_regex,
+          selective_logic: editingEntry.selective_logic,
+          case_sensitive: editingEntry.case_sensitive,
+          match_whole_words: editingEntry.match_whole_words,
+          prevent_recursion: editingEntry.prevent_recursion,
+          exclude_recursion: editingEntry.exclude_recursion,
+          probability: editingEntry.probability,
+          use_probability: editingEntry.use_probability,
+          sticky: editingEntry.sticky,
+          cooldown: editingEntry.cooldown,
+          delay: editingEntry.delay,
           depth: editingEntry.depth,
+          role: editingEntry.role,
           comment: editingEntry.comment,
           tokens: editingEntry.content.length,
           extensions: {},
@@ -479,11 +582,13 @@ export default function WorldBookEditor({
 
   const getPositionText = (position: string | number) => {
     const positionMap: Record<string | number, string> = {
-      0: t("worldBook.positionOptions.systemPromptStart"),
-      1: t("worldBook.positionOptions.afterSystemPrompt"),
-      2: t("worldBook.positionOptions.userMessageStart"),
-      3: t("worldBook.positionOptions.afterResponseMode"),
-      4: t("worldBook.positionOptions.basedOnDepth"),
+      0: t("worldBook.positionOptions.beforeChar"),
+      1: t("worldBook.positionOptions.afterChar"),
+      2: t("worldBook.positionOptions.beforeAuthorNote"),
+      3: t("worldBook.positionOptions.afterAuthorNote"),
+      4: t("worldBook.positionOptions.atDepth"),
+      5: t("worldBook.positionOptions.beforeExamples"),
+      6: t("worldBook.positionOptions.afterExamples"),
     };
     return positionMap[position] || "Unknown";
   };
@@ -547,7 +652,7 @@ export default function WorldBookEditor({
     try {
       const result = await deleteWorldBookEntry(characterId, entryId);
       if (result.success) {
-        toast.success(t("worldBook.deleteSuccess"));
+        showUndoDeleteToast(result.trashItemId, t, loadWorldBookData);
 
         setEntries((prev) =>
           prev.filter((entry) => entry.entry_id !== entryId),
@@ -766,10 +871,66 @@ export default function WorldBookEditor({
             </button>
           </div>
 
-          <div className="flex items-center space-x-2 text-[10px] sm:text-xs text-[#a18d6f] bg-[#252220] px-1.5 sm:px-2 py-1 rounded border border-[#534741] flex-shrink-0">
-            <span className="whitespace-nowrap">
-              {t("worldBook.contextWindow")} {settings.contextWindow}
-            </span>
+          <div
+            title={t("worldBook.scanSettingsHint")}
+            className="flex flex-wrap items-center gap-2 text-[10px] sm:text-xs text-[#a18d6f] bg-[#252220] px-1.5 sm:px-2 py-1 rounded border border-[#534741] flex-shrink-0"
+          >
+            <label className="flex items-center gap-1 whitespace-nowrap">
+              {t("worldBook.scanDepth")}
+              <input
+                type="number"
+                min={1}
+                max={100}
+                value={settings.scanDepth ?? ""}
+                onChange={(e) =>
+                  handleScanSettingsChange({
+                    scanDepth: parseOptionalNumber(e.target.value),
+                  })
+                }
+                className="w-12 px-1 bg-[#1a1816] border border-[#534741]/60 rounded text-[#eae6db] focus:outline-none focus:ring-1 focus:ring-amber-500/40"
+              />
+            </label>
+            <label className="flex items-center gap-1 whitespace-nowrap">
+              {t("worldBook.tokenBudget")}
+              <input
+                type="number"
+                min={0}
+                value={settings.tokenBudget ?? ""}
+                onChange={(e) =>
+                  handleScanSettingsChange({
+                    tokenBudget: parseOptionalNumber(e.target.value),
+                  })
+                }
+                className="w-16 px-1 bg-[#1a1816] border border-[#534741]/60 rounded text-[#eae6db] focus:outline-none focus:ring-1 focus:ring-amber-500/40"
+              />
+            </label>
+            <label className="flex items-center gap-1 whitespace-nowrap">
+              {t("worldBook.recursiveScanning")}
+              <select
+                value={
+                  settings.recursiveScanning === undefined
+                    ? "default"
+                    : settings.recursiveScanning
+                      ? "on"
+                      : "off"
+                }
+                onChange={(e) =>
+                  handleScanSettingsChange({
+                    recursiveScanning:
+                      e.target.value === "default"
+                        ? undefined
+                        : e.target.value === "on",
+                  })
+                }
+                className="bg-[#1a1816] border border-[#534741]/60 rounded text-[#eae6db] focus:outline-none focus:ring-1 focus:ring-amber-500/40"
+              >
+                <option value="default">
+                  {t("worldBook.overrideOptions.default")}
+                </option>
+                <option value="on">{t("worldBook.overrideOptions.on")}</option>
+                <option value="off">{t("worldBook.overrideOptions.off")}</option>
+              </select>
+            </label>
           </div>
         </div>
       </div>
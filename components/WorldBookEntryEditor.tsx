@@ -2,6 +2,10 @@
 
 import { useLanguage } from "@/app/i18n";
 import { useState, useRef, useEffect } from "react";
+import {
+  WorldBookPosition,
+  WorldBookRole,
+} from "@/lib/models/world-book-model";
 
 interface EditingEntry {
   entry_id: string;
@@ -12,13 +16,33 @@ interface EditingEntry {
   content: string;
   position: number;
   depth: number;
+  role: WorldBookRole;
   enabled: boolean;
   use_regex: boolean;
   selective: boolean;
+  selective_logic: number;
+  case_sensitive: boolean | null;
+  match_whole_words: boolean | null;
+  prevent_recursion: boolean;
+  exclude_recursion: boolean;
+  probability: number;
+  use_probability: boolean;
+  sticky: number;
+  cooldown: number;
+  delay: number;
   constant: boolean;
   insertion_order: number;
 }
 
+/** Per-entry overrides: unset follows the scan default */
+function overrideValue(value: boolean | null): string {
+  return value === null ? "default" : value ? "on" : "off";
+}
+
+function parseOverride(value: string): boolean | null {
+  return value === "default" ? null : value === "on";
+}
+
 interface WorldBookEntryEditorProps {
   isOpen: boolean;
   editingEntry: EditingEntry | null;
@@ -323,7 +347,7 @@ export default function WorldBookEntryEditor({
               </div>
             </div>
 
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               <div className="space-y-2">
                 <label
                   className={`block text-sm font-medium text-[#c0a480] ${fontClass}`}
@@ -341,19 +365,25 @@ export default function WorldBookEntryEditor({
                   className={`w-full bg-[#252220]/80 border border-[#534741]/60 rounded-lg px-3 py-2.5 text-[#eae6db] focus:outline-none focus:ring-2 focus:ring-amber-500/50 focus:border-amber-500/50 transition-all duration-300 backdrop-blur-sm ${fontClass}`}
                 >
                   <option value={0}>
-                    {t("worldBook.positionOptions.systemPromptStart")}
+                    {t("worldBook.positionOptions.beforeChar")}
                   </option>
                   <option value={1}>
-                    {t("worldBook.positionOptions.afterSystemPrompt")}
+                    {t("worldBook.positionOptions.afterChar")}
                   </option>
                   <option value={2}>
-                    {t("worldBook.positionOptions.userMessageStart")}
+                    {t("worldBook.positionOptions.beforeAuthorNote")}
                   </option>
                   <option value={3}>
-                    {t("worldBook.positionOptions.afterResponseMode")}
+                    {t("worldBook.positionOptions.afterAuthorNote")}
                   </option>
                   <option value={4}>
-                    {t("worldBook.positionOptions.basedOnDepth")}
+                    {t("worldBook.positionOptions.atDepth")}
+                  </option>
+                  <option value={5}>
+                    {t("worldBook.positionOptions.beforeExamples")}
+                  </option>
+                  <option value={6}>
+                    {t("worldBook.positionOptions.afterExamples")}
                   </option>
                 </select>
               </div>
@@ -378,6 +408,33 @@ export default function WorldBookEntryEditor({
                   className={`w-full bg-[#252220]/80 border border-[#534741]/60 rounded-lg px-3 py-2.5 text-[#eae6db] focus:outline-none focus:ring-2 focus:ring-amber-500/50 focus:border-amber-500/50 transition-all duration-300 backdrop-blur-sm ${fontClass}`}
                 />
               </div>
+
+              <div className="space-y-2">
+                <label
+                  className={`block text-sm font-medium text-[#c0a480] ${fontClass}`}
+                >
+                  {t("worldBook.roleLabel")}
+                </label>
+                <select
+                  value={editingEntry.role}
+                  disabled={editingEntry.position !== WorldBookPosition.AT_DEPTH}
+                  onChange={(e) =>
+                    onEntryChange({
+                      ...editingEntry,
+                      role: e.target.value as WorldBookRole,
+                    })
+                  }
+                  className={`w-full bg-[#252220]/80 border border-[#534741]/60 rounded-lg px-3 py-2.5 text-[#eae6db] focus:outline-none focus:ring-2 focus:ring-amber-500/50 focus:border-amber-500/50 transition-all duration-300 backdrop-blur-sm disabled:opacity-50 ${fontClass}`}
+                >
+                  <option value="system">
+                    {t("worldBook.roleOptions.system")}
+                  </option>
+                  <option value="user">{t("worldBook.roleOptions.user")}</option>
+                  <option value="assistant">
+                    {t("worldBook.roleOptions.assistant")}
+                  </option>
+                </select>
+              </div>
             </div>
 
             <div className="grid grid-cols-2 gap-3">
@@ -456,7 +513,236 @@ export default function WorldBookEntryEditor({
                   {t("worldBook.constantLabel")}
                 </span>
               </label>
+
+              <label
+                className={`flex items-center space-x-3 cursor-pointer p-3 rounded-lg bg-[#252220]/40 border border-[#534741]/40 hover:bg-[#252220]/60 hover:border-[#534741]/60 transition-all duration-300 group ${fontClass}`}
+              >
+                <input
+                  type="checkbox"
+                  checked={editingEntry.prevent_recursion}
+                  onChange={(e) =>
+                    onEntryChange({
+                      ...editingEntry,
+                      prevent_recursion: e.target.checked,
+                    })
+                  }
+                  className="w-4 h-4 rounded border-[#534741] bg-[#1a1816] text-amber-500 focus:ring-amber-500/50 focus:ring-2 transition-all duration-300"
+                />
+                <span className="text-sm text-[#eae6db] group-hover:text-amber-200 transition-colors duration-300">
+                  {t("worldBook.preventRecursionLabel")}
+                </span>
+              </label>
+
+              <label
+                className={`flex items-center space-x-3 cursor-pointer p-3 rounded-lg bg-[#252220]/40 border border-[#534741]/40 hover:bg-[#252220]/60 hover:border-[#534741]/60 transition-all duration-300 group ${fontClass}`}
+              >
+                <input
+                  type="checkbox"
+                  checked={editingEntry.exclude_recursion}
+                  onChange={(e) =>
+                    onEntryChange({
+                      ...editingEntry,
+                      exclude_recursion: e.target.checked,
+                    })
+                  }
+                  className="w-4 h-4 rounded border-[#534741] bg-[#1a1816] text-amber-500 focus:ring-amber-500/50 focus:ring-2 transition-all duration-300"
+                />
+                <span className="text-sm text-[#eae6db] group-hover:text-amber-200 transition-colors duration-300">
+                  {t("worldBook.excludeRecursionLabel")}
+                </span>
+              </label>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <label
+                  className={`block text-sm font-medium text-[#c0a480] ${fontClass}`}
+                >
+                  {t("worldBook.selectiveLogic")}
+                </label>
+                <select
+                  value={editingEntry.selective_logic}
+                  disabled={!editingEntry.selective}
+                  onChange={(e) =>
+                    onEntryChange({
+                      ...editingEntry,
+                      selective_logic: Number(e.target.value),
+                    })
+                  }
+                  className={`w-full bg-[#252220]/80 border border-[#534741]/60 rounded-lg px-3 py-2.5 text-[#eae6db] focus:outline-none focus:ring-2 focus:ring-amber-500/50 focus:border-amber-500/50 transition-all duration-300 backdrop-blur-sm disabled:opacity-50 ${fontClass}`}
+                >
+                  <option value={0}>
+                    {t("worldBook.selectiveLogicOptions.andAny")}
+                  </option>
+                  <option value={3}>
+                    {t("worldBook.selectiveLogicOptions.andAll")}
+                  </option>
+                  <option value={2}>
+                    {t("worldBook.selectiveLogicOptions.notAny")}
+                  </option>
+                  <option value={1}>
+                    {t("worldBook.selectiveLogicOptions.notAll")}
+                  </option>
+                </select>
+              </div>
+
+              <div className="space-y-2">
+                <label
+                  className={`block text-sm font-medium text-[#c0a480] ${fontClass}`}
+                >
+                  {t("worldBook.caseSensitive")}
+                </label>
+                <select
+                  value={overrideValue(editingEntry.case_sensitive)}
+                  onChange={(e) =>
+                    onEntryChange({
+                      ...editingEntry,
+                      case_sensitive: parseOverride(e.target.value),
+                    })
+                  }
+                  className={`w-full bg-[#252220]/80 border border-[#534741]/60 rounded-lg px-3 py-2.5 text-[#eae6db] focus:outline-none focus:ring-2 focus:ring-amber-500/50 focus:border-amber-500/50 transition-all duration-300 backdrop-blur-sm disabled:opacity-50 ${fontClass}`}
+                >
+                  <option value="default">
+                    {t("worldBook.overrideOptions.default")}
+                  </option>
+                  <option value="on">
+                    {t("worldBook.overrideOptions.on")}
+                  </option>
+                  <option value="off">
+                    {t("worldBook.overrideOptions.off")}
+                  </option>
+                </select>
+              </div>
+
+              <div className="space-y-2">
+                <label
+                  className={`block text-sm font-medium text-[#c0a480] ${fontClass}`}
+                >
+                  {t("worldBook.matchWholeWords")}
+                </label>
+                <select
+                  value={overrideValue(editingEntry.match_whole_words)}
+                  onChange={(e) =>
+                    onEntryChange({
+                      ...editingEntry,
+                      match_whole_words: parseOverride(e.target.value),
+                    })
+                  }
+                  className={`w-full bg-[#252220]/80 border border-[#534741]/60 rounded-lg px-3 py-2.5 text-[#eae6db] focus:outline-none focus:ring-2 focus:ring-amber-500/50 focus:border-amber-500/50 transition-all duration-300 backdrop-blur-sm disabled:opacity-50 ${fontClass}`}
+                >
+                  <option value="default">
+                    {t("worldBook.overrideOptions.default")}
+                  </option>
+                  <option value="on">
+                    {t("worldBook.overrideOptions.on")}
+                  </option>
+                  <option value="off">
+                    {t("worldBook.overrideOptions.off")}
+                  </option>
+                </select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div className="space-y-2">
+                <label
+                  className={`flex items-center gap-2 text-sm font-medium text-[#c0a480] cursor-pointer ${fontClass}`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={editingEntry.use_probability}
+                    onChange={(e) =>
+                      onEntryChange({
+                        ...editingEntry,
+                        use_probability: e.target.checked,
+                      })
+                    }
+                    className="w-4 h-4 rounded border-[#534741] bg-[#1a1816] text-amber-500 focus:ring-amber-500/50 focus:ring-2 transition-all duration-300"
+                  />
+                  {t("worldBook.probability")}
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={editingEntry.probability}
+                  disabled={!editingEntry.use_probability}
+                  onChange={(e) =>
+                    onEntryChange({
+                      ...editingEntry,
+                      probability: Math.min(
+                        100,
+                        Math.max(0, Number(e.target.value) || 0),
+                      ),
+                    })
+                  }
+                  className={`w-full bg-[#252220]/80 border border-[#534741]/60 rounded-lg px-3 py-2.5 text-[#eae6db] focus:outline-none focus:ring-2 focus:ring-amber-500/50 focus:border-amber-500/50 transition-all duration-300 backdrop-blur-sm disabled:opacity-50 ${fontClass}`}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <label
+                  className={`block text-sm font-medium text-[#c0a480] ${fontClass}`}
+                >
+                  {t("worldBook.sticky")}
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  value={editingEntry.sticky}
+                  onChange={(e) =>
+                    onEntryChange({
+                      ...editingEntry,
+                      sticky: Math.max(0, Number(e.target.value) || 0),
+                    })
+                  }
+                  className={`w-full bg-[#252220]/80 border border-[#534741]/60 rounded-lg px-3 py-2.5 text-[#eae6db] focus:outline-none focus:ring-2 focus:ring-amber-500/50 focus:border-amber-500/50 transition-all duration-300 backdrop-blur-sm disabled:opacity-50 ${fontClass}`}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <label
+                  className={`block text-sm font-medium text-[#c0a480] ${fontClass}`}
+                >
+                  {t("worldBook.cooldown")}
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  value={editingEntry.cooldown}
+                  onChange={(e) =>
+                    onEntryChange({
+                      ...editingEntry,
+                      cooldown: Math.max(0, Number(e.target.value) || 0),
+                    })
+                  }
+                  className={`w-full bg-[#252220]/80 border border-[#534741]/60 rounded-lg px-3 py-2.5 text-[#eae6db] focus:outline-none focus:ring-2 focus:ring-amber-500/50 focus:border-amber-500/50 transition-all duration-300 backdrop-blur-sm disabled:opacity-50 ${fontClass}`}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <label
+                  className={`block text-sm font-medium text-[#c0a480] ${fontClass}`}
+                >
+                  {t("worldBook.delay")}
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  value={editingEntry.delay}
+                  onChange={(e) =>
+                    onEntryChange({
+                      ...editingEntry,
+                      delay: Math.max(0, Number(e.target.value) || 0),
+                    })
+                  }
+                  className={`w-full bg-[#252220]/80 border border-[#534741]/60 rounded-lg px-3 py-2.5 text-[#eae6db] focus:outline-none focus:ring-2 focus:ring-amber-500/50 focus:border-amber-500/50 transition-all duration-300 backdrop-blur-sm disabled:opacity-50 ${fontClass}`}
+                />
+              </div>
             </div>
+            <p className={`text-xs text-[#a18d6f]/70 ${fontClass}`}>
+              {t("worldBook.timedEffectsHint")}
+            </p>
 
             <div className="space-y-3">
               <div className="flex justify-between items-center">
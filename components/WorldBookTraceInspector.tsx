@@ -0,0 +1,211 @@
+/**
+ * World Book Trace Inspector Component
+ *
+ * Shows what the world book contributed to one generated reply:
+ * - Entries that were inserted, what triggered them and where
+ * - For keyed entries, the key and the message it was found in
+ * - Entries that applied but were left out, and why
+ * - Estimated token cost of each entry against the token budget
+ *
+ * Dependencies:
+ * - useLanguage: For internationalization
+ * - function/dialogue/trace: For loading the trace stored on the reply
+ */
+
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useLanguage } from "@/app/i18n";
+import {
+  WorldBookActivationTrace,
+  WorldBookTraceActivation,
+} from "@/lib/models/world-book-model";
+import { getWorldBookTrace } from "@/function/dialogue/trace";
+
+interface WorldBookTraceInspectorProps {
+  isOpen: boolean;
+  onClose: () => void;
+  dialogueId: string;
+  nodeId: string;
+}
+
+/** `worldBook.positionOptions` keys by `WorldBookPosition` */
+const POSITION_KEYS = [
+  "beforeChar",
+  "afterChar",
+  "beforeAuthorNote",
+  "afterAuthorNote",
+  "atDepth",
+  "beforeExamples",
+  "afterExamples",
+];
+
+export default function WorldBookTraceInspector({
+  isOpen,
+  onClose,
+  dialogueId,
+  nodeId,
+}: WorldBookTraceInspectorProps) {
+  const { t, fontClass, serifFontClass } = useLanguage();
+  const [trace, setTrace] = useState<WorldBookActivationTrace | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setIsLoading(true);
+    getWorldBookTrace(dialogueId, nodeId)
+      .then(setTrace)
+      .catch((error) => {
+        console.error("Failed to load world book trace:", error);
+        setTrace(null);
+      })
+      .finally(() => setIsLoading(false));
+  }, [isOpen, dialogueId, nodeId]);
+
+  if (!isOpen) return null;
+
+  const describeSource = (item: WorldBookTraceActivation) => {
+    if (item.messageOffset === undefined) return "";
+    if (item.messageOffset === 0) return t("worldBookTrace.newMessage");
+    return `${item.messageOffset} ${t("worldBookTrace.messagesBack")} (${t(`worldBookTrace.role_${item.messageRole}`)})`;
+  };
+
+  const usedTokens =
+    trace?.activated.reduce((sum, item) => sum + item.tokens, 0) || 0;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-[10000] p-3">
+      <div className="relative bg-gradient-to-br from-[#1a1816]/95 via-[#252220]/95 to-[#1a1816]/95 backdrop-blur-xl border border-[#534741]/60 rounded-xl shadow-2xl max-w-xl w-full max-h-[85vh] overflow-hidden">
+        <div className="relative p-3 border-b border-[#534741]/40 bg-gradient-to-r from-[#252220]/80 via-[#1a1816]/60 to-[#252220]/80 backdrop-blur-sm">
+          <div className="flex justify-between items-center">
+            <h2
+              className={`text-base font-semibold text-[#eae6db] ${serifFontClass} bg-gradient-to-r from-amber-300 via-amber-200 to-amber-300 bg-clip-text text-transparent`}
+            >
+              {t("worldBookTrace.title")}
+            </h2>
+            <button
+              onClick={onClose}
+              className="w-7 h-7 flex items-center justify-center text-[#a18d6f] hover:text-[#eae6db] transition-all duration-300 rounded-lg hover:bg-[#333]/50"
+            >
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                width="16"
+                height="16"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              >
+                <line x1="18" y1="6" x2="6" y2="18"></line>
+                <line x1="6" y1="6" x2="18" y2="18"></line>
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <div
+          className={`relative p-4 max-h-[70vh] overflow-y-auto fantasy-scrollbar space-y-4 ${fontClass}`}
+        >
+          {isLoading ? (
+            <p className="text-xs text-[#a18d6f]">{t("worldBookTrace.loading")}</p>
+          ) : !trace ? (
+            <p className="text-xs text-[#a18d6f]">{t("worldBookTrace.noTrace")}</p>
+          ) : (
+            <>
+              <div className="flex flex-wrap items-center gap-3 text-xs text-[#a18d6f]">
+                {trace.turn !== undefined && (
+                  <span>
+                    {t("worldBookTrace.turn")}: {trace.turn}
+                  </span>
+                )}
+                <span>
+                  {t("worldBookTrace.tokens")}: ~{usedTokens}
+                  {" / "}
+                  {trace.tokenBudget > 0
+                    ? trace.tokenBudget
+                    : t("worldBookTrace.unlimited")}
+                </span>
+              </div>
+
+              <section className="space-y-2">
+                <h3 className="text-sm text-[#eae6db]">
+                  {t("worldBookTrace.activated")} ({trace.activated.length})
+                </h3>
+                {trace.activated.length === 0 && (
+                  <p className="text-xs text-[#a18d6f]">
+                    {t("worldBookTrace.noneActivated")}
+                  </p>
+                )}
+                <ul className="space-y-2">
+                  {trace.activated.map((item, index) => (
+                    <li
+                      key={`${item.entryId || item.label}-${index}`}
+                      className="p-2 rounded-lg border border-[#534741]/40 bg-[#1a1816]/60 text-xs"
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <p className="text-sm text-[#eae6db] truncate">
+                          {item.label || t("worldBookTrace.untitled")}
+                        </p>
+                        <span className="flex-shrink-0 text-[#a18d6f]">
+                          ~{item.tokens} tokens
+                        </span>
+                      </div>
+                      <p className="text-[#a18d6f]">
+                        {t(`worldBookTrace.trigger_${item.trigger}`)}
+                        {item.key && (
+                          <>
+                            {" · "}
+                            <span className="text-amber-300">{item.key}</span>
+                          </>
+                        )}
+                        {item.secondaryKeys &&
+                          ` + ${item.secondaryKeys.join(", ")}`}
+                        {item.messageOffset !== undefined &&
+                          ` · ${describeSource(item)}`}
+                      </p>
+                      <p className="text-[10px] text-[#a18d6f]/80">
+                        {t(
+                          `worldBook.positionOptions.${POSITION_KEYS[item.position]}`,
+                        )}
+                      </p>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+
+              {trace.skipped.length > 0 && (
+                <section className="space-y-2">
+                  <h3 className="text-sm text-[#eae6db]">
+                    {t("worldBookTrace.skipped")} ({trace.skipped.length})
+                  </h3>
+                  <ul className="space-y-2">
+                    {trace.skipped.map((item, index) => (
+                      <li
+                        key={`${item.entryId || item.label}-${index}`}
+                        className="flex items-center justify-between gap-2 p-2 rounded-lg border border-[#534741]/30 bg-[#1a1816]/40 text-xs opacity-80"
+                      >
+                        <div className="min-w-0">
+                          <p className="text-[#eae6db] truncate">
+                            {item.label || t("worldBookTrace.untitled")}
+                          </p>
+                          <p className="text-[#a18d6f]">
+                            {t(`worldBookTrace.reason_${item.reason}`)}
+                          </p>
+                        </div>
+                        <span className="flex-shrink-0 text-[#a18d6f]">
+                          ~{item.tokens} tokens
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </section>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import { LocalCharacterRecordOperations } from "@/lib/data/roleplay/character-record-operation";
+import { WorldBookOperations } from "@/lib/data/roleplay/world-book-operation";
+import { RegexScriptOperations } from "@/lib/data/roleplay/regex-script-operation";
+import { getBlob } from "@/lib/data/local-storage";
+import {
+  CharacterCardBuilder,
+  CharacterCardV3,
+} from "@/lib/core/character-card";
+import { CharacterRecord } from "@/lib/data/roleplay/character-record-operation";
+import { writeCharacterToPng } from "@/utils/character-parser";
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+async function isPng(blob: Blob): Promise<boolean> {
+  const header = new Uint8Array(await blob.slice(0, 8).arrayBuffer());
+  return PNG_SIGNATURE.every((byte, i) => header[i] === byte);
+}
+
+/**
+ * Re-encodes a JPEG/WebP avatar as PNG, or draws a plain placeholder when
+ * the character has no avatar.
+ */
+async function toPngBlob(blob: Blob | null): Promise<Blob> {
+  const canvas = document.createElement("canvas");
+  const context = canvas.getContext("2d");
+  if (!context) {
+    throw new Error("Canvas is not available");
+  }
+
+  if (blob) {
+    const bitmap = await createImageBitmap(blob);
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    context.drawImage(bitmap, 0, 0);
+  } else {
+    canvas.width = 400;
+    canvas.height = 600;
+    context.fillStyle = "#1a1816";
+    context.fillRect(0, 0, canvas.width, canvas.height);
+  }
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (png) => (png ? resolve(png) : reject(new Error("PNG encoding failed"))),
+      "image/png",
+    );
+  });
+}
+
+/**
+ * Points the card's assets at data embedded in the PNG: stored assets are
+ * renumbered to `__asset:N`, and a main icon with nothing stored is the
+ * PNG itself (`ccdefault:`). Returns the asset data in `__asset` order.
+ */
+async function embedAssets(
+  record: CharacterRecord,
+  card: CharacterCardV3,
+): Promise<Uint8Array[]> {
+  if (!Array.isArray(card.data.assets)) {
+    return [];
+  }
+
+  const embedded: Uint8Array[] = [];
+  const assets = [];
+  for (const asset of card.data.assets) {
+    const key = record.assetPaths?.[asset.uri];
+    const blob = key ? await getBlob(key) : null;
+    if (blob) {
+      embedded.push(new Uint8Array(await blob.arrayBuffer()));
+      assets.push({ ...asset, uri: `__asset:${embedded.length - 1}` });
+    } else if (asset.type === "icon" && asset.name === "main") {
+      assets.push({ ...asset, uri: "ccdefault:" });
+    } else {
+      assets.push(asset);
+    }
+  }
+  card.data.assets = assets;
+
+  return embedded;
+}
+
+/**
+ * Export a character as a PNG card carrying both V2 (`chara`) and V3
+ * (`ccv3`) metadata, with its current world book, regex scripts and any
+ * stored card assets
+ * @param {string} characterId - The character to export
+ * @returns {Promise<{ blob: Blob; fileName: string }>} The card and a file name for it
+ */
+export async function exportCharacterCard(
+  characterId: string,
+): Promise<{ blob: Blob; fileName: string }> {
+  const record = await LocalCharacterRecordOperations.getCharacterById(
+    characterId,
+  );
+  if (!record) {
+    throw new Error("Character not found");
+  }
+
+  try {
+    const [worldBook, regexScripts, avatar] = await Promise.all([
+      WorldBookOperations.getWorldBook(characterId),
+      RegexScriptOperations.getRegexScripts(characterId),
+      record.imagePath ? getBlob(record.imagePath) : Promise.resolve(null),
+    ]);
+
+    const { v2, v3 } = CharacterCardBuilder.build(
+      record,
+      worldBook,
+      regexScripts,
+    );
+    const assets = await embedAssets(record, v3);
+    const image = avatar && (await isPng(avatar)) ? avatar : await toPngBlob(avatar);
+    const blob = await writeCharacterToPng(image, v2, v3, assets);
+
+    const safeName = (v2.data.name || characterId).replace(/[\\/:*?"<>|]/g, "_");
+    return { blob, fileName: `${safeName}.png` };
+  } catch (error: any) {
+    console.error("Failed to export character:", error);
+    throw new Error(`Failed to export character: ${error.message}`);
+  }
+}
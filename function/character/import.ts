@@ -4,19 +4,28 @@ import { setBlob } from "@/lib/data/local-storage";
 import { WorldBookOperations } from "@/lib/data/roleplay/world-book-operation";
 import { RegexScriptOperations } from "@/lib/data/roleplay/regex-script-operation";
 import { RegexScript } from "@/lib/models/regex-script-model";
+import { LintReport } from "@/lib/core/card-lint";
+import { lintCharacter } from "@/function/character/lint";
 import { v4 as uuidv4 } from "uuid";
 
+/**
+ * Import a character card from a PNG, a V2/V3 JSON file or a CharX archive.
+ * The avatar and any card assets go to the image store; the card's world
+ * book and regex scripts are extracted the same way for every format.
+ * The imported card is linted so problems can be pointed out right away.
+ * @param {File} file - The card file
+ */
 export async function handleCharacterUpload(file: File) {
-  if (!file || !file.name.toLowerCase().endsWith(".png")) {
+  if (!file) {
     throw new Error("Unsupported or missing file.");
   }
 
   try {
-    const characterData = await parseCharacterCard(file);
-    const characterJson = JSON.parse(characterData);
+    const { format, card: characterJson, avatar, assets } =
+      await parseCharacterCard(file);
 
     const characterId = `char_${Date.now()}`;
-    const imagePath = `${characterId}.png`;
+    const imagePath = avatar ? `${characterId}.png` : "";
 
     if (characterJson.data?.character_book?.entries) {
       await WorldBookOperations.updateWorldBook(
@@ -57,21 +66,41 @@ export async function handleCharacterUpload(file: File) {
       }
     }
 
+    const assetPaths: Record<string, string> = {};
+    for (const [index, asset] of assets.entries()) {
+      const key = `${characterId}_asset_${index}.${asset.ext || "bin"}`;
+      await setBlob(key, asset.blob);
+      assetPaths[asset.uri] = key;
+    }
+
     await LocalCharacterRecordOperations.createCharacter(
       characterId,
       characterJson,
       imagePath,
+      assets.length > 0 ? assetPaths : undefined,
     );
 
-    await setBlob(imagePath, file);
+    if (avatar) {
+      await setBlob(imagePath, avatar);
+    }
+
+    let lintReport: LintReport | null = null;
+    try {
+      lintReport = await lintCharacter(characterId);
+    } catch (error) {
+      console.warn("Failed to lint imported character:", error);
+    }
 
     return {
       success: true,
       characterId,
       characterData: characterJson,
       imagePath,
+      format,
+      assetCount: assets.length,
       hasWorldBook: !!characterJson.data?.character_book?.entries,
       hasRegexScripts: !!characterJson.data?.extensions?.regex_scripts,
+      lintReport,
     };
   } catch (error: any) {
     console.error("Failed to parse character data:", error);
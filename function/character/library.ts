@@ -0,0 +1,158 @@
+import { LocalCharacterRecordOperations } from "@/lib/data/roleplay/character-record-operation";
+import { LocalCharacterDialogueOperations } from "@/lib/data/roleplay/character-dialogue-operation";
+import { WorldBookOperations } from "@/lib/data/roleplay/world-book-operation";
+import { RegexScriptOperations } from "@/lib/data/roleplay/regex-script-operation";
+import { CollectionOperations } from "@/lib/data/roleplay/collection-operation";
+import { CharacterCollection } from "@/lib/models/collection-model";
+import {
+  DEFAULT_LIBRARY_FILTERS,
+  LIBRARY_SORTS,
+  LibraryEntry,
+  LibraryFilters,
+  LibrarySort,
+} from "@/lib/core/character-library";
+
+const LIBRARY_FILTERS_KEY = "characterLibraryFilters";
+const LIBRARY_SORT_KEY = "characterLibrarySort";
+
+/**
+ * Everything the library searches and filters on, one entry per character
+ * @returns {Promise<LibraryEntry[]>} Entries for every stored character
+ */
+export async function getCharacterLibrary(): Promise<LibraryEntry[]> {
+  const [characters, worldBooks, regexScripts, activity, collections] =
+    await Promise.all([
+      LocalCharacterRecordOperations.getAllCharacters(),
+      WorldBookOperations.getWorldBookRecords(),
+      RegexScriptOperations.getRegexScriptRecords(),
+      LocalCharacterDialogueOperations.getChatActivity(),
+      CollectionOperations.getCollections(),
+    ]);
+
+  const withWorldBook = new Set(
+    worldBooks
+      .filter((record) => Object.keys(record.entries || {}).length > 0)
+      .map((record) => record.id),
+  );
+  const withRegex = new Set(
+    regexScripts
+      .filter((record) => Object.keys(record.scripts || {}).length > 0)
+      .map((record) => record.id),
+  );
+
+  return characters.map((character) => {
+    const card = character.data.data;
+    const chats = activity.get(character.id);
+    return {
+      id: character.id,
+      name: card?.name || character.data.name || "",
+      description: card?.description || character.data.description || "",
+      creator: (card?.creator || "").trim(),
+      tags: [
+        ...new Set(
+          (card?.tags || []).map((tag) => tag.trim()).filter(Boolean),
+        ),
+      ],
+      hasWorldBook: withWorldBook.has(character.id),
+      hasRegex: withRegex.has(character.id),
+      lastChattedAt: chats?.lastChattedAt || "",
+      messageCount: chats?.messageCount || 0,
+      created_at: character.created_at,
+      updated_at: character.updated_at || character.created_at,
+      collectionIds: collections
+        .filter((collection) => collection.characterIds.includes(character.id))
+        .map((collection) => collection.id),
+    };
+  });
+}
+
+/**
+ * The filters last used in the library in this browser
+ * @returns {LibraryFilters} Saved filters, or none when nothing was saved
+ */
+export function getLibraryFilters(): LibraryFilters {
+  try {
+    const saved = JSON.parse(localStorage.getItem(LIBRARY_FILTERS_KEY) || "{}");
+    return { ...DEFAULT_LIBRARY_FILTERS, ...saved };
+  } catch {
+    return DEFAULT_LIBRARY_FILTERS;
+  }
+}
+
+export function setLibraryFilters(filters: LibraryFilters): void {
+  localStorage.setItem(LIBRARY_FILTERS_KEY, JSON.stringify(filters));
+}
+
+export function getLibrarySort(): LibrarySort {
+  const saved = localStorage.getItem(LIBRARY_SORT_KEY) as LibrarySort | null;
+  return saved && LIBRARY_SORTS.includes(saved) ? saved : "newest";
+}
+
+export function setLibrarySort(sort: LibrarySort): void {
+  localStorage.setItem(LIBRARY_SORT_KEY, sort);
+}
+
+export async function listCollections(): Promise<CharacterCollection[]> {
+  return CollectionOperations.getCollections();
+}
+
+export async function createCollection(
+  name: string,
+): Promise<CharacterCollection> {
+  if (!name.trim()) {
+    throw new Error("A collection needs a name");
+  }
+  return CollectionOperations.createCollection(name.trim());
+}
+
+export async function renameCollection(
+  collectionId: string,
+  name: string,
+): Promise<CharacterCollection> {
+  const collection = await CollectionOperations.updateCollection(
+    collectionId,
+    { name: name.trim() },
+  );
+  if (!collection) {
+    throw new Error("Collection not found");
+  }
+  return collection;
+}
+
+/**
+ * Put a character into a collection or take it out
+ * @param {string} collectionId - Collection to change
+ * @param {string} characterId - Character to add or remove
+ * @param {boolean} included - Whether the character should be in it
+ * @returns {Promise<CharacterCollection>} The updated collection
+ */
+export async function setCollectionMembership(
+  collectionId: string,
+  characterId: string,
+  included: boolean,
+): Promise<CharacterCollection> {
+  const collection = await CollectionOperations.setMembership(
+    collectionId,
+    characterId,
+    included,
+  );
+  if (!collection) {
+    throw new Error("Collection not found");
+  }
+  return collection;
+}
+
+/**
+ * Move a collection to the trash; its characters stay in the library
+ * @param {string} collectionId - Collection to delete
+ * @returns {Promise<{ success: boolean; trashItemId: string }>} The trash item to undo with
+ */
+export async function deleteCollection(
+  collectionId: string,
+): Promise<{ success: boolean; trashItemId: string }> {
+  const trashItem = await CollectionOperations.deleteCollection(collectionId);
+  if (!trashItem) {
+    throw new Error("Collection not found");
+  }
+  return { success: true, trashItemId: trashItem.id };
+}
@@ -0,0 +1,71 @@
+import { LocalCharacterRecordOperations } from "@/lib/data/roleplay/character-record-operation";
+import { CharacterRevisionOperations } from "@/lib/data/roleplay/character-revision-operation";
+import { WorldBookOperations } from "@/lib/data/roleplay/world-book-operation";
+import { RegexScriptOperations } from "@/lib/data/roleplay/regex-script-operation";
+import { CardLinter, LintIssue, LintReport } from "@/lib/core/card-lint";
+import { RawCharacterData } from "@/lib/models/rawdata-model";
+import { saveWithRevision } from "@/function/character/revisions";
+
+/**
+ * Check a stored character's card, world book and regex scripts
+ * @param {string} characterId - Character to check
+ * @returns {Promise<LintReport>} Issues found and token estimates
+ */
+export async function lintCharacter(characterId: string): Promise<LintReport> {
+  const snapshot =
+    await CharacterRevisionOperations.captureSnapshot(characterId);
+  if (!snapshot) {
+    throw new Error("Character not found");
+  }
+  return CardLinter.lint(snapshot);
+}
+
+/**
+ * Apply the safe fixes of the given issues and save the result as one
+ * revision
+ * @param {string} characterId - Character to fix
+ * @param {LintIssue[]} issues - Issues to fix; ones without a fix are skipped
+ * @param {string} note - Note for the revision
+ * @returns {Promise<{ report: LintReport; data: RawCharacterData }>} The report after fixing and the fixed card
+ */
+export async function fixCharacterLintIssues(
+  characterId: string,
+  issues: LintIssue[],
+  note: string = "",
+): Promise<{ report: LintReport; data: RawCharacterData }> {
+  const snapshot =
+    await CharacterRevisionOperations.captureSnapshot(characterId);
+  if (!snapshot) {
+    throw new Error("Character not found");
+  }
+
+  const fixed = CardLinter.applyFixes(
+    snapshot,
+    issues.filter((issue) => issue.fix),
+  );
+  const changed = (before: unknown, after: unknown) =>
+    JSON.stringify(before) !== JSON.stringify(after);
+
+  await saveWithRevision(characterId, note, async () => {
+    if (changed(snapshot.data, fixed.data)) {
+      await LocalCharacterRecordOperations.updateCharacter(
+        characterId,
+        fixed.data,
+      );
+    }
+    for (const [key, entry] of Object.entries(fixed.worldBook?.entries || {})) {
+      if (changed(snapshot.worldBook?.entries[key], entry)) {
+        await WorldBookOperations.updateWorldBookEntry(characterId, key, entry);
+      }
+    }
+    for (const [key, script] of Object.entries(
+      fixed.regexScripts?.scripts || {},
+    )) {
+      if (changed(snapshot.regexScripts?.scripts[key], script)) {
+        await RegexScriptOperations.updateRegexScript(characterId, key, script);
+      }
+    }
+  });
+
+  return { report: CardLinter.lint(fixed), data: fixed.data };
+}
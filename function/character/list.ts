@@ -1,5 +1,6 @@
 import { LocalCharacterRecordOperations } from "@/lib/data/roleplay/character-record-operation";
 import { adaptCharacterData } from "@/lib/adapter/tagReplacer";
+import { Character } from "@/lib/core/character";
 
 export async function getAllCharacters(
   language: "en" | "zh",
@@ -21,7 +22,8 @@ export async function getAllCharacters(
         mes_example:
           character.data.data?.mes_example || character.data.mes_example,
         creatorcomment:
-          character.data.creatorcomment || character.data.data?.creator_notes,
+          new Character(character).getCreatorNotes(language) ||
+          character.data.creatorcomment,
         created_at: character.created_at,
         updated_at: character.updated_at,
         avatar_path: character.imagePath,
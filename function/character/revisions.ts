@@ -0,0 +1,127 @@
+import {
+  CharacterRevisionOperations,
+  getRevisionRetentionLimit,
+  setRevisionRetentionLimit,
+} from "@/lib/data/roleplay/character-revision-operation";
+import { CharacterRevision } from "@/lib/models/character-revision-model";
+import {
+  RevisionFieldChange,
+  diffSnapshots,
+} from "@/lib/core/character-revision-diff";
+
+/**
+ * Record how a character looks after a save. The first save also keeps how
+ * it looked before, so that state can be returned to as well. Saves to
+ * owners that are not characters, such as global world books, record nothing.
+ * @param {string} characterId - Character that was saved
+ * @param {string} note - What the author wrote about the change
+ * @param {() => Promise<T>} save - The write itself
+ * @returns {Promise<T>} Whatever the write returned
+ */
+export async function saveWithRevision<T>(
+  characterId: string,
+  note: string,
+  save: () => Promise<T>,
+): Promise<T> {
+  const limit = getRevisionRetentionLimit();
+  const existing = await CharacterRevisionOperations.getRevisions(characterId);
+  if (existing.length === 0) {
+    await CharacterRevisionOperations.recordRevision(
+      characterId,
+      "baseline",
+      "",
+      limit,
+    );
+  }
+
+  const result = await save();
+  await CharacterRevisionOperations.recordRevision(
+    characterId,
+    "save",
+    note.trim(),
+    limit,
+  );
+  return result;
+}
+
+export async function listCharacterRevisions(
+  characterId: string,
+): Promise<CharacterRevision[]> {
+  return CharacterRevisionOperations.getRevisions(characterId);
+}
+
+/**
+ * What changed in a revision, compared with the one before it or with the
+ * character as it is now
+ * @param {string} revisionId - Revision to look at
+ * @param {"previous" | "current"} against - What to compare it with
+ * @returns {Promise<RevisionFieldChange[]>} Changed fields, old value first
+ */
+export async function getRevisionDiff(
+  revisionId: string,
+  against: "previous" | "current",
+): Promise<RevisionFieldChange[]> {
+  const revision = await CharacterRevisionOperations.getRevision(revisionId);
+  if (!revision) {
+    throw new Error("Revision not found");
+  }
+
+  if (against === "current") {
+    const current = await CharacterRevisionOperations.captureSnapshot(
+      revision.characterId,
+    );
+    return diffSnapshots(revision, current);
+  }
+
+  const revisions = await CharacterRevisionOperations.getRevisions(
+    revision.characterId,
+  );
+  const previous =
+    revisions[revisions.findIndex((item) => item.id === revisionId) + 1];
+  return diffSnapshots(previous || null, revision);
+}
+
+/**
+ * Bring a character's card, world book and regex scripts back to a
+ * revision. The revert is itself recorded, so it can be undone the same way.
+ * @param {string} revisionId - Revision to return to
+ */
+export async function revertCharacterToRevision(
+  revisionId: string,
+): Promise<{ success: boolean }> {
+  const revision = await CharacterRevisionOperations.getRevision(revisionId);
+  const restored =
+    revision &&
+    (await CharacterRevisionOperations.revertToRevision(revisionId));
+  if (!revision || !restored) {
+    throw new Error("Revision not found");
+  }
+
+  await CharacterRevisionOperations.recordRevision(
+    revision.characterId,
+    "revert",
+    "",
+    getRevisionRetentionLimit(),
+    revision.created_at,
+  );
+  return { success: true };
+}
+
+export function getRevisionRetention(): number {
+  return getRevisionRetentionLimit();
+}
+
+/**
+ * Change how many revisions each character keeps, pruning this character's
+ * history right away
+ */
+export async function updateRevisionRetention(
+  characterId: string,
+  limit: number,
+): Promise<number> {
+  setRevisionRetentionLimit(limit);
+  return CharacterRevisionOperations.pruneRevisions(
+    characterId,
+    getRevisionRetentionLimit(),
+  );
+}
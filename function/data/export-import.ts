@@ -1,12 +1,39 @@
-import { exportAllData, importAllData } from "@/lib/data/local-storage";
+import {
+  BackupOptions,
+  createBackupManifest,
+} from "@/lib/data/backup-manifest";
+import { RestoreOptions, restoreBackup } from "@/lib/data/backup-restore";
+import {
+  BackupPassphraseError,
+  decryptBackup,
+  encryptBackup,
+  isEncryptedBackup,
+} from "@/lib/data/backup-crypto";
+
+export interface ExportOptions extends BackupOptions {
+  /** Encrypts the file when set; an empty passphrase exports plain JSON. */
+  passphrase?: string;
+}
 
 /**
- * Export all data from IndexedDB to a JSON file
+ * Asked for the passphrase when an encrypted backup is opened. Returning
+ * null cancels the import.
+ */
+export type PassphraseRequest = () => Promise<string | null> | string | null;
+
+/**
+ * Export all IndexedDB stores and allow-listed settings to a JSON file
+ * @param {ExportOptions} options - Whether API keys are written and the optional passphrase
  * @returns {Promise<Blob>} A blob containing the exported data
  */
-export async function exportDataToFile(): Promise<Blob> {
+export async function exportDataToFile(
+  options: ExportOptions = {},
+): Promise<Blob> {
   try {
-    const data = await exportAllData();
+    const manifest = await createBackupManifest(options);
+    const data = options.passphrase
+      ? await encryptBackup(manifest, options.passphrase)
+      : manifest;
     const jsonString = JSON.stringify(data);
     return new Blob([jsonString], { type: "application/json" });
   } catch (error) {
@@ -16,17 +43,52 @@ export async function exportDataToFile(): Promise<Blob> {
 }
 
 /**
- * Import data from a JSON file to IndexedDB
+ * Read and parse a backup JSON file without importing it, decrypting it first
+ * when it is an encrypted backup
+ * @param {File} file - The JSON file to read
+ * @param {PassphraseRequest} requestPassphrase - Asked for the passphrase of encrypted files
+ * @returns {Promise<any>} The parsed backup
+ */
+export async function readBackupFile(
+  file: File,
+  requestPassphrase?: PassphraseRequest,
+): Promise<any> {
+  const text = await file.text();
+  const data = JSON.parse(text);
+
+  if (!isEncryptedBackup(data)) {
+    return data;
+  }
+
+  const passphrase = requestPassphrase ? await requestPassphrase() : null;
+  if (!passphrase) {
+    throw new Error("A passphrase is required to open this backup");
+  }
+
+  return decryptBackup(data, passphrase);
+}
+
+/**
+ * Import a backup JSON file into IndexedDB and localStorage
  * @param {File} file - The JSON file to import
+ * @param {RestoreOptions} options - Restore mode, conflict policy and character selection
+ * @param {PassphraseRequest} requestPassphrase - Asked for the passphrase of encrypted files
  * @returns {Promise<void>}
  */
-export async function importDataFromFile(file: File): Promise<void> {
+export async function importDataFromFile(
+  file: File,
+  options?: RestoreOptions,
+  requestPassphrase?: PassphraseRequest,
+): Promise<void> {
   try {
-    const text = await file.text();
-    const data = JSON.parse(text);
-    await importAllData(data);
+    const data = await readBackupFile(file, requestPassphrase);
+    await restoreBackup(data, options);
   } catch (error) {
     console.error("Import failed:", error);
+    // Callers tell a wrong passphrase apart from a broken file
+    if (error instanceof BackupPassphraseError) {
+      throw error;
+    }
     throw new Error("Import failed");
   }
 }
@@ -7,9 +7,14 @@ const refresh_token_url = "https://oauth2.googleapis.com/token";
 // Use environment variables for sensitive credentials
 const client_id = process.env.GOOGLE_OAUTH_CLIENT_ID || "";
 const client_secret = process.env.GOOGLE_OAUTH_CLIENT_SECRET || "";
-const redirect_uri =
-  process.env.GOOGLE_OAUTH_REDIRECT_URI ||
-  "https://www.narratium.org/oauth2callback";
+
+// Defaults to the app's own origin, where getGoogleCodeByUrl picks up the code
+function getRedirectUri() {
+  if (process.env.GOOGLE_OAUTH_REDIRECT_URI) {
+    return process.env.GOOGLE_OAUTH_REDIRECT_URI;
+  }
+  return typeof window !== "undefined" ? window.location.origin : "";
+}
 
 export function getGoogleAjaxUrl(url: string, params: Record<string, string>) {
   const newUrl = new URL(url);
@@ -22,7 +27,7 @@ export function getGoogleAjaxUrl(url: string, params: Record<string, string>) {
 export function getGoogleLoginUrl() {
   return getGoogleAjaxUrl(login_url, {
     client_id,
-    redirect_uri,
+    redirect_uri: getRedirectUri(),
     response_type: "code",
     scope: "https://www.googleapis.com/auth/drive",
     access_type: "offline",
@@ -35,7 +40,7 @@ export function getGoogleToken(code: string) {
     code: code,
     client_id: client_id,
     client_secret: client_secret,
-    redirect_uri: redirect_uri,
+    redirect_uri: getRedirectUri(),
     grant_type: "authorization_code",
   };
 
@@ -98,33 +103,6 @@ export async function getGoogleCodeByUrl(url: Location) {
   }
 }
 
-export async function backupToGoogle(info: {
-  blob: Blob;
-  filename: string;
-  folderId: string;
-}) {
-  const formData = new FormData();
-  const metadata = {
-    name: info.filename,
-    parents: [info.folderId], // 关键：指定目标文件夹ID
-  };
-  const file = new File([info.blob], info.filename, {
-    type: "application/json",
-  });
-  formData.append(
-    "metadata",
-    new Blob([JSON.stringify(metadata)], { type: "application/json" }),
-  );
-  formData.append("file", file);
-  await createRequest(
-    "https://www.googleapis.com/upload/drive/v3/files?uploadType=multipart",
-    {
-      method: "POST",
-      body: formData,
-    },
-  );
-}
-
 export async function getFolderList() {
   const url = getGoogleAjaxUrl("https://www.googleapis.com/drive/v3/files", {
     pageSize: "10",
@@ -150,28 +128,3 @@ async function createDefaultFolder() {
     }),
   });
 }
-
-export async function getBackUpFile(folderId: string) {
-  const url = getGoogleAjaxUrl("https://www.googleapis.com/drive/v3/files", {
-    q: `'${folderId}' in parents`, // 核心：按父文件夹ID筛选
-    fields: "files(id, name, mimeType, modifiedTime, size, webViewLink)",
-    pageSize: "10", // 最大允许值
-    orderBy: "createdTime desc",
-  });
-  const res = await createRequest<{ files: any[] }>(url, {});
-  if (res?.files?.[0]) {
-    const blob = await fetch(
-      `https://www.googleapis.com/drive/v3/files/${res.files[0].id}?alt=media`,
-      {
-        headers: {
-          Authorization: "Bearer " + localStorage.getItem("google_drive_token"),
-        },
-      },
-    ).then((res) => res.blob());
-    const file = new File([blob], "backup.json", { type: "application/json" });
-    return file;
-  } else {
-    alert("没有备份文件，请先导出数据！");
-    return false;
-  }
-}
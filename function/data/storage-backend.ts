@@ -0,0 +1,42 @@
+import {
+  CHARACTERS_RECORD_FILE,
+  createStorageBackend,
+  getStorageBackend,
+  getStorageBackendType,
+  setStorageBackendType,
+} from "@/lib/data/local-storage";
+import { StorageBackendType } from "@/lib/data/storage/storage-backend";
+import {
+  StorageTransferProgress,
+  StorageTransferResult,
+  transferStorage,
+} from "@/lib/data/storage/storage-transfer";
+
+/**
+ * Moves this device to another storage backend
+ * @param {StorageBackendType} type - Backend to switch to
+ * @param {boolean} copyData - Replace the target's data with the current backend's
+ * @param {StorageTransferProgress} onProgress - Called while data is copied
+ * @returns {Promise<StorageTransferResult | null>} What was copied, or null when nothing was
+ */
+export async function switchStorageBackend(
+  type: StorageBackendType,
+  copyData: boolean,
+  onProgress?: StorageTransferProgress,
+): Promise<StorageTransferResult | null> {
+  if (type === getStorageBackendType()) {
+    return null;
+  }
+
+  const target = createStorageBackend(type);
+  // Fails early when the server has storage turned off or rejects the token
+  await target.initialize();
+  await target.getAllKeys(CHARACTERS_RECORD_FILE);
+
+  const result = copyData
+    ? await transferStorage(getStorageBackend(), target, onProgress)
+    : null;
+
+  setStorageBackendType(type);
+  return result;
+}
@@ -0,0 +1,105 @@
+import { GoogleDriveSyncProvider } from "@/lib/data/sync/google-drive-provider";
+import { WebDAVSyncProvider } from "@/lib/data/sync/webdav-provider";
+import {
+  SyncProvider,
+  SyncProviderId,
+} from "@/lib/data/sync/sync-provider";
+import {
+  ConflictStrategy,
+  SyncLogEntry,
+  getSyncLog,
+  syncNow,
+} from "@/lib/data/sync/sync-engine";
+
+export const SYNC_PROVIDER_KEY = "syncProvider";
+
+const providers: Record<SyncProviderId, SyncProvider> = {
+  "google-drive": new GoogleDriveSyncProvider(),
+  webdav: new WebDAVSyncProvider(),
+};
+
+export function getSyncProviders(): SyncProvider[] {
+  return Object.values(providers);
+}
+
+export function getSyncProvider(id: SyncProviderId): SyncProvider {
+  return providers[id];
+}
+
+export function getActiveSyncProviderId(): SyncProviderId | null {
+  const saved = localStorage.getItem(SYNC_PROVIDER_KEY);
+  return saved && saved in providers ? (saved as SyncProviderId) : null;
+}
+
+export function setActiveSyncProviderId(id: SyncProviderId): void {
+  localStorage.setItem(SYNC_PROVIDER_KEY, id);
+}
+
+/**
+ * Pulls remote changes and pushes local ones through the active provider
+ * @param {ConflictStrategy} strategy - Which side wins when a record changed on both
+ * @returns {Promise<SyncLogEntry[]>} The log entries of the pull and the push
+ */
+export async function syncWithActiveProvider(
+  strategy: ConflictStrategy = "keepLocal",
+): Promise<SyncLogEntry[]> {
+  const providerId = getActiveSyncProviderId();
+  if (!providerId) {
+    throw new Error("No sync provider selected");
+  }
+
+  const provider = getSyncProvider(providerId);
+  if (!provider.isConfigured()) {
+    throw new Error(`${provider.label} is not configured`);
+  }
+
+  return syncNow(provider, strategy);
+}
+
+export async function getActiveSyncLog(): Promise<SyncLogEntry[]> {
+  const providerId = getActiveSyncProviderId();
+  return providerId ? getSyncLog(providerId) : [];
+}
+
+const BACKUP_FILE_PREFIX = "narratium-backup-";
+
+/**
+ * Upload a full backup file next to the sync files of a provider
+ * @param {SyncProviderId} providerId - Provider to upload to
+ * @param {Blob} blob - Backup produced by exportDataToFile
+ * @param {string} filename - Name of the remote file
+ */
+export async function uploadBackupToProvider(
+  providerId: SyncProviderId,
+  blob: Blob,
+  filename: string,
+): Promise<void> {
+  await getSyncProvider(providerId).push(filename, await blob.text());
+}
+
+/**
+ * Download the most recent full backup stored with a provider
+ * @param {SyncProviderId} providerId - Provider to download from
+ * @returns {Promise<File | null>} The backup file, or null when there is none
+ */
+export async function downloadLatestBackupFromProvider(
+  providerId: SyncProviderId,
+): Promise<File | null> {
+  const provider = getSyncProvider(providerId);
+  const backups = (await provider.list())
+    .filter((file) => file.name.startsWith(BACKUP_FILE_PREFIX))
+    // Backup names embed the export date and timestamp, so they sort by age
+    .sort((a, b) => b.name.localeCompare(a.name));
+
+  if (backups.length === 0) {
+    return null;
+  }
+
+  const remote = await provider.pull(backups[0].name);
+  if (!remote) {
+    return null;
+  }
+  return new File([remote.content], backups[0].name, {
+    type: "application/json",
+  });
+}
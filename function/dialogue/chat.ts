@@ -1,14 +1,22 @@
 import { LocalCharacterDialogueOperations } from "@/lib/data/roleplay/character-dialogue-operation";
 import { ParsedResponse } from "@/lib/models/parsed-response";
+import {
+  WorldBookActivationTrace,
+  WorldBookTimers,
+} from "@/lib/models/world-book-model";
 import {
   DialogueWorkflow,
   DialogueWorkflowParams,
 } from "@/lib/workflow/examples/DialogueWorkflow";
 import { getCurrentSystemPresetType } from "@/function/preset/download";
+import { getActivePersona } from "@/function/persona/info";
 
 export async function handleCharacterChatRequest(payload: {
   username?: string;
   characterId: string;
+  dialogueId?: string;
+  /** Set in a group chat; `characterId` is then the member who answers */
+  groupMemberIds?: string[];
   message: string;
   modelName: string;
   baseUrl: string;
@@ -24,6 +32,8 @@ export async function handleCharacterChatRequest(payload: {
     const {
       username,
       characterId,
+      dialogueId = characterId,
+      groupMemberIds,
       message,
       modelName,
       baseUrl,
@@ -43,12 +53,20 @@ export async function handleCharacterChatRequest(payload: {
     }
 
     try {
+      // A group chat's persona does not follow the speaking member's lock
+      const persona = await getActivePersona(
+        groupMemberIds ? dialogueId : characterId,
+        dialogueId,
+      );
       const workflow = new DialogueWorkflow();
       const workflowParams: DialogueWorkflowParams = {
         characterId,
+        dialogueId,
         userInput: message,
         language,
-        username,
+        username: persona?.name || username,
+        personaId: persona?.id,
+        groupMemberIds,
         modelName,
         apiKey,
         baseUrl,
@@ -71,10 +89,12 @@ export async function handleCharacterChatRequest(payload: {
         fullResponse,
         nextPrompts,
         event,
+        worldBookTimers,
+        worldBookTrace,
       } = workflowResult.outputData;
 
       await processPostResponseAsync({
-        characterId,
+        dialogueId,
         message,
         thinkingContent,
         fullResponse,
@@ -82,6 +102,9 @@ export async function handleCharacterChatRequest(payload: {
         event,
         nextPrompts,
         nodeId,
+        speakerId: groupMemberIds ? characterId : undefined,
+        worldBookTimers,
+        worldBookTrace,
       }).catch((e) => console.error("Post-processing error:", e));
 
       return new Response(
@@ -133,7 +156,7 @@ export async function handleCharacterChatRequest(payload: {
 }
 
 async function processPostResponseAsync({
-  characterId,
+  dialogueId,
   message,
   thinkingContent,
   fullResponse,
@@ -141,8 +164,11 @@ async function processPostResponseAsync({
   event,
   nextPrompts,
   nodeId,
+  speakerId,
+  worldBookTimers,
+  worldBookTrace,
 }: {
-  characterId: string;
+  dialogueId: string;
   message: string;
   thinkingContent: string;
   fullResponse: string;
@@ -150,6 +176,9 @@ async function processPostResponseAsync({
   event: string;
   nextPrompts: string[];
   nodeId: string;
+  speakerId?: string;
+  worldBookTimers?: WorldBookTimers;
+  worldBookTrace?: WorldBookActivationTrace;
 }) {
   try {
     const parsed: ParsedResponse = {
@@ -157,10 +186,10 @@ async function processPostResponseAsync({
       nextPrompts,
     };
     const dialogueTree =
-      await LocalCharacterDialogueOperations.getDialogueTreeById(characterId);
+      await LocalCharacterDialogueOperations.getDialogueTreeById(dialogueId);
     const parentNodeId = dialogueTree ? dialogueTree.current_nodeId : "root";
     await LocalCharacterDialogueOperations.addNodeToDialogueTree(
-      characterId,
+      dialogueId,
       parentNodeId,
       message,
       screenContent,
@@ -168,14 +197,17 @@ async function processPostResponseAsync({
       thinkingContent,
       parsed,
       nodeId,
+      speakerId,
+      worldBookTimers,
+      worldBookTrace,
     );
 
     if (event) {
       const updatedDialogueTree =
-        await LocalCharacterDialogueOperations.getDialogueTreeById(characterId);
+        await LocalCharacterDialogueOperations.getDialogueTreeById(dialogueId);
       if (updatedDialogueTree) {
         await LocalCharacterDialogueOperations.updateNodeInDialogueTree(
-          characterId,
+          dialogueId,
           nodeId,
           {
             parsedContent: {
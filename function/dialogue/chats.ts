@@ -0,0 +1,169 @@
+import {
+  DialogueInfo,
+  DialogueTreeRecord,
+  LocalCharacterDialogueOperations,
+} from "@/lib/data/roleplay/character-dialogue-operation";
+import { v4 as uuidv4 } from "uuid";
+
+const ACTIVE_DIALOGUE_KEY = "activeDialogue_";
+
+export interface ChatSummary {
+  id: string;
+  name: string;
+  summary: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * The chat a character was last opened on in this browser
+ * @param {string} characterId - Character whose chat to look up
+ * @returns {string | null} The chat id, or null when none was remembered
+ */
+export function getActiveDialogueId(characterId: string): string | null {
+  if (typeof window === "undefined") {
+    return null;
+  }
+  return localStorage.getItem(ACTIVE_DIALOGUE_KEY + characterId);
+}
+
+export function setActiveDialogueId(
+  characterId: string,
+  dialogueId: string,
+): void {
+  localStorage.setItem(ACTIVE_DIALOGUE_KEY + characterId, dialogueId);
+}
+
+/**
+ * Picks the chat to show for a character: the requested one, the remembered
+ * one, the most recently active one, or the character's first chat
+ * @param {string} characterId - Character being opened
+ * @param {string} dialogueId - Chat asked for explicitly, if any
+ * @returns {Promise<string>} The id of an existing chat, or the character id
+ */
+export async function resolveDialogueId(
+  characterId: string,
+  dialogueId?: string,
+): Promise<string> {
+  const dialogues =
+    await LocalCharacterDialogueOperations.getDialoguesByCharacter(characterId);
+  const exists = (id: string | null | undefined): id is string =>
+    !!id && dialogues.some((dialogue) => dialogue.id === id);
+
+  if (exists(dialogueId)) {
+    return dialogueId;
+  }
+  const remembered = getActiveDialogueId(characterId);
+  if (exists(remembered)) {
+    return remembered;
+  }
+  return dialogues[0]?.id || characterId;
+}
+
+function toChatSummary(
+  dialogue: DialogueTreeRecord,
+  index: number,
+  fallbackName: string,
+): ChatSummary {
+  return {
+    id: dialogue.id,
+    name: dialogue.name || `${fallbackName} ${index + 1}`,
+    summary: dialogue.summary || "",
+    createdAt: dialogue.created_at || "",
+    updatedAt: dialogue.updated_at || dialogue.created_at || "",
+  };
+}
+
+/**
+ * List a character's chats, most recently active first
+ * @param {string} characterId - Character whose chats to list
+ * @param {string} fallbackName - Name prefix for chats that were never named
+ * @returns {Promise<ChatSummary[]>} The chats
+ */
+export async function listCharacterChats(
+  characterId: string,
+  fallbackName: string,
+): Promise<ChatSummary[]> {
+  const dialogues =
+    await LocalCharacterDialogueOperations.getDialoguesByCharacter(characterId);
+  const byAge = [...dialogues].sort((a, b) =>
+    (a.created_at || "").localeCompare(b.created_at || ""),
+  );
+  return dialogues.map((dialogue) =>
+    toChatSummary(dialogue, byAge.indexOf(dialogue), fallbackName),
+  );
+}
+
+/**
+ * Start a new, empty chat with a character and make it the active one. The
+ * greetings are added when the chat is first opened.
+ * @param {string} characterId - Character to chat with
+ * @param {string} name - Name of the chat
+ * @returns {Promise<{ success: boolean; dialogueId: string }>} The new chat's id
+ */
+export async function createCharacterChat(
+  characterId: string,
+  name: string,
+): Promise<{ success: boolean; dialogueId: string }> {
+  const dialogues =
+    await LocalCharacterDialogueOperations.getDialoguesByCharacter(characterId);
+  // The first chat keeps the character's id, like chats made before there
+  // could be several
+  const dialogueId = dialogues.some((dialogue) => dialogue.id === characterId)
+    ? uuidv4()
+    : characterId;
+
+  await LocalCharacterDialogueOperations.createDialogueTree(
+    characterId,
+    dialogueId,
+    name,
+  );
+  setActiveDialogueId(characterId, dialogueId);
+
+  return { success: true, dialogueId };
+}
+
+export async function updateCharacterChat(
+  dialogueId: string,
+  info: DialogueInfo,
+): Promise<{ success: boolean }> {
+  const updated = await LocalCharacterDialogueOperations.updateDialogueInfo(
+    dialogueId,
+    info,
+  );
+  if (!updated) {
+    throw new Error("Chat not found");
+  }
+  return { success: true };
+}
+
+export async function duplicateCharacterChat(
+  dialogueId: string,
+  name: string,
+): Promise<{ success: boolean; dialogueId: string }> {
+  const copy = await LocalCharacterDialogueOperations.duplicateDialogue(
+    dialogueId,
+    name,
+  );
+  if (!copy) {
+    throw new Error("Chat not found");
+  }
+  setActiveDialogueId(copy.character_id, copy.id);
+  return { success: true, dialogueId: copy.id };
+}
+
+/**
+ * Move a chat, with its branches and memories, to the trash
+ * @param {string} dialogueId - Chat to delete
+ * @returns {Promise<{ success: boolean; trashItemId: string }>} The trash item to undo with
+ */
+export async function deleteCharacterChat(
+  dialogueId: string,
+): Promise<{ success: boolean; trashItemId: string }> {
+  const trashItem =
+    await LocalCharacterDialogueOperations.deleteDialogueTree(dialogueId);
+  if (!trashItem) {
+    throw new Error("Chat not found");
+  }
+  return { success: true, trashItemId: trashItem.id };
+}
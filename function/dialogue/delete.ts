@@ -2,25 +2,39 @@ import { LocalCharacterDialogueOperations } from "@/lib/data/roleplay/character-
 
 interface DeleteDialogueNodeOptions {
   characterId: string;
+  /** Chat to act on; defaults to the character's first chat */
+  dialogueId?: string;
   nodeId: string;
+  /**
+   * Keep the removed nodes in the trash; false for a reply that is being
+   * regenerated, which the user did not ask to delete
+   */
+  moveToTrash?: boolean;
 }
 
 export async function deleteDialogueNode({
   characterId,
+  dialogueId = characterId,
   nodeId,
+  moveToTrash = true,
 }: DeleteDialogueNodeOptions) {
   try {
-    const updatedDialogueTree =
-      await LocalCharacterDialogueOperations.deleteNode(characterId, nodeId);
+    const result = await LocalCharacterDialogueOperations.deleteNode(
+      dialogueId,
+      nodeId,
+      moveToTrash,
+    );
 
-    if (!updatedDialogueTree) {
+    if (!result) {
       throw new Error("Failed to delete node or node not found");
     }
 
+    const updatedDialogueTree = result.dialogueTree;
+
     const currentPath =
       updatedDialogueTree.current_nodeId !== "root"
         ? await LocalCharacterDialogueOperations.getDialoguePathToNode(
-            characterId,
+            dialogueId,
             updatedDialogueTree.current_nodeId,
           )
         : [];
@@ -65,6 +79,7 @@ export async function deleteDialogueNode({
       success: true,
       message: "Successfully deleted dialogue node",
       dialogue: processedDialogue,
+      trashItemId: result.trashItem?.id,
     };
   } catch (error: any) {
     console.error("Error deleting dialogue node:", error);
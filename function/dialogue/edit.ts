@@ -7,6 +7,7 @@ import { Character } from "@/lib/core/character";
 
 interface EditDialogueNodeRequest {
   characterId: string;
+  dialogueId?: string;
   nodeId: string;
   assistantResponse: string;
   model_name: string;
@@ -20,6 +21,7 @@ export async function editDialaogueNodeContent(input: EditDialogueNodeRequest) {
   try {
     const {
       characterId,
+      dialogueId = characterId,
       nodeId,
       assistantResponse,
       model_name,
@@ -30,7 +32,7 @@ export async function editDialaogueNodeContent(input: EditDialogueNodeRequest) {
     } = input;
 
     const dialogueTree =
-      await LocalCharacterDialogueOperations.getDialogueTreeById(characterId);
+      await LocalCharacterDialogueOperations.getDialogueTreeById(dialogueId);
     if (!dialogueTree) {
       throw new Error("Dialogue tree not found");
     }
@@ -0,0 +1,39 @@
+import { LocalCharacterDialogueOperations } from "@/lib/data/roleplay/character-dialogue-operation";
+import { switchDialogueBranch } from "@/function/dialogue/truncate";
+
+interface SelectDialogueGreetingOptions {
+  characterId: string;
+  /** Chat to act on; defaults to the character's first chat */
+  dialogueId?: string;
+  greetingIndex: number;
+}
+
+/**
+ * Switch the chat to another of the character's greetings. Each greeting is
+ * a branch under the root, so replies to the previous one stay in the tree.
+ */
+export async function selectDialogueGreeting({
+  characterId,
+  dialogueId = characterId,
+  greetingIndex,
+}: SelectDialogueGreetingOptions) {
+  const dialogueTree =
+    await LocalCharacterDialogueOperations.getDialogueTreeById(dialogueId);
+  if (!dialogueTree) {
+    throw new Error("Dialogue not found");
+  }
+
+  const greeting =
+    LocalCharacterDialogueOperations.getGreetingNodes(dialogueTree)[
+      greetingIndex
+    ];
+  if (!greeting) {
+    throw new Error(`Greeting not found: ${greetingIndex}`);
+  }
+
+  return switchDialogueBranch({
+    characterId,
+    dialogueId,
+    nodeId: greeting.nodeId,
+  });
+}
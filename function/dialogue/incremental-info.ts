@@ -3,6 +3,7 @@ import { LocalCharacterRecordOperations } from "@/lib/data/roleplay/character-re
 
 interface IncrementalDialogueParams {
   characterId: string;
+  dialogueId?: string;
   lastKnownNodeIds?: string[];
   lastUpdateTime?: string;
   language?: "en" | "zh";
@@ -29,6 +30,7 @@ export async function getIncrementalDialogue(
 ): Promise<IncrementalDialogueResponse> {
   const {
     characterId,
+    dialogueId = characterId,
     lastKnownNodeIds = [],
     lastUpdateTime,
     language = "zh",
@@ -41,7 +43,7 @@ export async function getIncrementalDialogue(
   try {
     // Get current dialogue tree
     const dialogueTree =
-      await LocalCharacterDialogueOperations.getDialogueTreeById(characterId);
+      await LocalCharacterDialogueOperations.getDialogueTreeById(dialogueId);
 
     if (!dialogueTree) {
       return {
@@ -108,17 +110,17 @@ export async function getIncrementalDialogue(
 
 /**
  * Check if there are new dialogue nodes without fetching full data
- * @param characterId - Character ID to check
+ * @param dialogueId - Chat to check
  * @param lastKnownNodeCount - Last known number of nodes
  * @returns Whether new dialogue nodes exist
  */
 export async function hasNewDialogueNodes(
-  characterId: string,
+  dialogueId: string,
   lastKnownNodeCount: number,
 ): Promise<boolean> {
   try {
     const dialogueTree =
-      await LocalCharacterDialogueOperations.getDialogueTreeById(characterId);
+      await LocalCharacterDialogueOperations.getDialogueTreeById(dialogueId);
 
     if (!dialogueTree) {
       return false;
@@ -1,11 +1,18 @@
 import { LocalCharacterDialogueOperations } from "@/lib/data/roleplay/character-dialogue-operation";
 import { LocalCharacterRecordOperations } from "@/lib/data/roleplay/character-record-operation";
 import { Character } from "@/lib/core/character";
+import { resolveDialogueId } from "@/function/dialogue/chats";
+import { getActivePersona } from "@/function/persona/info";
 
+/**
+ * Load a character and one of its chats. Without a chat id, the chat last
+ * opened in this browser (or the most recently active one) is used.
+ */
 export async function getCharacterDialogue(
   characterId: string,
   language: "en" | "zh" = "zh",
   username?: string,
+  requestedDialogueId?: string,
 ) {
   if (!characterId) {
     throw new Error("Character ID is required");
@@ -24,15 +31,20 @@ export async function getCharacterDialogue(
 
     console.log(`找到角色记录: ${characterId}`);
     const character = new Character(characterRecord);
+    const dialogueId = await resolveDialogueId(
+      characterId,
+      requestedDialogueId,
+    );
     const dialogueTree =
-      await LocalCharacterDialogueOperations.getDialogueTreeById(characterId);
+      await LocalCharacterDialogueOperations.getDialogueTreeById(dialogueId);
+    const persona = await getActivePersona(characterId, dialogueId);
     let processedDialogue = null;
 
     if (dialogueTree) {
       const currentPath =
         dialogueTree.current_nodeId !== "root"
           ? await LocalCharacterDialogueOperations.getDialoguePathToNode(
-              characterId,
+              dialogueId,
               dialogueTree.current_nodeId,
             )
           : [];
@@ -80,6 +92,10 @@ export async function getCharacterDialogue(
           nodes: dialogueTree.nodes,
           currentNodeId: dialogueTree.current_nodeId,
         },
+        greetingIndex:
+          LocalCharacterDialogueOperations.getGreetingIndex(dialogueTree),
+        greetingCount:
+          LocalCharacterDialogueOperations.getGreetingNodes(dialogueTree).length,
       };
     }
 
@@ -87,9 +103,11 @@ export async function getCharacterDialogue(
       success: true,
       character: {
         id: character.id,
-        data: character.getData(language, username),
+        data: character.getData(language, persona?.name || username),
         imagePath: character.imagePath,
       },
+      dialogueId,
+      persona,
       dialogue: processedDialogue,
     };
   } catch (error: any) {
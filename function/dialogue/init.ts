@@ -4,15 +4,20 @@ import { LocalCharacterDialogueOperations } from "@/lib/data/roleplay/character-
 import { LocalCharacterRecordOperations } from "@/lib/data/roleplay/character-record-operation";
 import { adaptText } from "@/lib/adapter/tagReplacer";
 import { RegexProcessor } from "@/lib/core/regex-processor";
+import { getActivePersona } from "@/function/persona/info";
 
 interface InitCharacterDialogueOptions {
   username?: string;
   characterId: string;
+  /** Chat to open; defaults to the character's first chat */
+  dialogueId?: string;
   language?: "zh" | "en";
   modelName: string;
   baseUrl: string;
   apiKey: string;
   llmType: "openai" | "ollama";
+  /** Which greeting to open with; 0 is the card's first message */
+  greetingIndex?: number;
 }
 
 export async function initCharacterDialogue(
@@ -21,11 +26,13 @@ export async function initCharacterDialogue(
   const {
     username,
     characterId,
+    dialogueId = characterId,
     language = "zh",
     modelName,
     baseUrl,
     apiKey,
     llmType,
+    greetingIndex = 0,
   } = options;
 
   if (!characterId) {
@@ -41,6 +48,7 @@ export async function initCharacterDialogue(
 
     const character = new Character(characterRecord);
     const dialogue = new CharacterDialogue(character);
+    const persona = await getActivePersona(characterId, dialogueId);
 
     await dialogue.initialize({
       modelName,
@@ -50,78 +58,105 @@ export async function initCharacterDialogue(
       language,
     });
 
-    const firstAssistantMessage = await dialogue.getFirstMessage();
-    let dialogueTree =
-      await LocalCharacterDialogueOperations.getDialogueTreeById(characterId);
+    const greetings = await dialogue.getGreetings();
+    const dialogueTree =
+      await LocalCharacterDialogueOperations.getDialogueTreeById(dialogueId);
 
     if (!dialogueTree) {
-      dialogueTree =
-        await LocalCharacterDialogueOperations.createDialogueTree(characterId);
-    }
-
-    let nodeIds: string[] = [];
-    const adaptedMessages: string[] = [];
-    const processedMessages: string[] = [];
-    if (firstAssistantMessage) {
-      const messagesToProcess = [...firstAssistantMessage];
-      let firstProcessedMessage = "";
-
-      if (messagesToProcess.length > 0) {
-        const firstMessage = messagesToProcess[0];
-        const adaptedFirstMessage = adaptText(firstMessage, language, username);
-
-        const firstRegexResult = await RegexProcessor.processFullContext(
-          adaptedFirstMessage,
-          {
-            ownerId: characterId,
-          },
+      await LocalCharacterDialogueOperations.createDialogueTree(
+        characterId,
+        dialogueId,
+      );
+    } else {
+      // A chat left at its root already has its greetings
+      const greetingNodes =
+        LocalCharacterDialogueOperations.getGreetingNodes(dialogueTree);
+      if (greetingNodes.length > 0) {
+        const index = Math.min(
+          Math.max(
+            options.greetingIndex ??
+              LocalCharacterDialogueOperations.getGreetingIndex(dialogueTree),
+            0,
+          ),
+          greetingNodes.length - 1,
+        );
+        const greetingNode = greetingNodes[index];
+        await LocalCharacterDialogueOperations.switchBranch(
+          dialogueId,
+          greetingNode.nodeId,
         );
 
-        firstProcessedMessage = firstRegexResult.replacedText;
-        adaptedMessages.push(adaptedFirstMessage);
-        processedMessages.push(firstProcessedMessage);
+        return {
+          success: true,
+          characterId,
+          dialogueId,
+          firstMessage:
+            greetingNode.parsedContent?.regexResult ||
+            greetingNode.assistantResponse,
+          nodeId: greetingNode.nodeId,
+          greetingIndex: index,
+          greetingCount: greetingNodes.length,
+        };
       }
+    }
 
-      for (const message of [...messagesToProcess].reverse()) {
-        const adaptedMessage = adaptText(message, language, username);
-
-        const regexResult = await RegexProcessor.processFullContext(
+    // Every greeting becomes its own branch under the root, so the chat can
+    // swipe between openings later
+    const nodeIds: string[] = [];
+    const processedMessages: string[] = [];
+    for (const greeting of greetings) {
+      const adaptedMessage = adaptText(
+        greeting,
+        language,
+        persona?.name || username,
+        character.characterData.name,
+      );
+
+      const regexResult = await RegexProcessor.processFullContext(
+        adaptedMessage,
+        {
+          ownerId: characterId,
+        },
+      );
+
+      const processedMessage = regexResult.replacedText;
+      const nodeId =
+        await LocalCharacterDialogueOperations.addNodeToDialogueTree(
+          dialogueId,
+          "root",
+          "",
+          adaptedMessage,
           adaptedMessage,
+          "",
           {
-            ownerId: characterId,
+            nextPrompts: [],
+            regexResult: processedMessage,
+            compressedContent: "",
           },
+          undefined,
         );
+      nodeIds.push(nodeId);
+      processedMessages.push(processedMessage);
+    }
 
-        const processedMessage = regexResult.replacedText;
-
-        if (message !== messagesToProcess[messagesToProcess.length - 1]) {
-          adaptedMessages.push(adaptedMessage);
-          processedMessages.push(processedMessage);
-        }
-
-        const nodeId =
-          await LocalCharacterDialogueOperations.addNodeToDialogueTree(
-            characterId,
-            "root",
-            "",
-            adaptedMessage,
-            adaptedMessage,
-            "",
-            {
-              nextPrompts: [],
-              regexResult: processedMessage,
-              compressedContent: "",
-            },
-            undefined,
-          );
-        nodeIds.push(nodeId);
-      }
+    if (nodeIds.length > 0) {
+      const index = Math.min(
+        Math.max(greetingIndex, 0),
+        nodeIds.length - 1,
+      );
+      await LocalCharacterDialogueOperations.switchBranch(
+        dialogueId,
+        nodeIds[index],
+      );
 
       return {
         success: true,
         characterId,
-        firstMessage: firstProcessedMessage,
-        nodeId: nodeIds[0],
+        dialogueId,
+        firstMessage: processedMessages[index],
+        nodeId: nodeIds[index],
+        greetingIndex: index,
+        greetingCount: nodeIds.length,
       };
     }
 
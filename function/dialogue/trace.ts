@@ -0,0 +1,19 @@
+import { LocalCharacterDialogueOperations } from "@/lib/data/roleplay/character-dialogue-operation";
+import { WorldBookActivationTrace } from "@/lib/models/world-book-model";
+
+/**
+ * The world book activation trace recorded when a reply was generated
+ * @param {string} dialogueId - Chat the reply belongs to
+ * @param {string} nodeId - Node holding the reply
+ * @returns {Promise<WorldBookActivationTrace | null>} The trace, or null for replies generated without one
+ */
+export async function getWorldBookTrace(
+  dialogueId: string,
+  nodeId: string,
+): Promise<WorldBookActivationTrace | null> {
+  const node = await LocalCharacterDialogueOperations.getNode(
+    dialogueId,
+    nodeId,
+  );
+  return node?.worldBookTrace || null;
+}
@@ -2,23 +2,26 @@ import { LocalCharacterDialogueOperations } from "@/lib/data/roleplay/character-
 
 interface SwitchDialogueBranchOptions {
   characterId: string;
+  /** Chat to act on; defaults to the character's first chat */
+  dialogueId?: string;
   nodeId: string;
 }
 
 export async function switchDialogueBranch({
   characterId,
+  dialogueId = characterId,
   nodeId,
 }: SwitchDialogueBranchOptions) {
   try {
     const dialogueTree =
-      await LocalCharacterDialogueOperations.getDialogueTreeById(characterId);
+      await LocalCharacterDialogueOperations.getDialogueTreeById(dialogueId);
 
     if (!dialogueTree) {
       throw new Error("Dialogue not found");
     }
 
     const updated = await LocalCharacterDialogueOperations.switchBranch(
-      characterId,
+      dialogueId,
       nodeId,
     );
     if (!updated) {
@@ -26,7 +29,7 @@ export async function switchDialogueBranch({
     }
 
     const updatedDialogueTree =
-      await LocalCharacterDialogueOperations.getDialogueTreeById(characterId);
+      await LocalCharacterDialogueOperations.getDialogueTreeById(dialogueId);
     if (!updatedDialogueTree) {
       throw new Error("Failed to retrieve updated dialogue");
     }
@@ -34,7 +37,7 @@ export async function switchDialogueBranch({
     const currentPath =
       updatedDialogueTree.current_nodeId !== "root"
         ? await LocalCharacterDialogueOperations.getDialoguePathToNode(
-            characterId,
+            dialogueId,
             updatedDialogueTree.current_nodeId,
           )
         : [];
@@ -75,6 +78,10 @@ export async function switchDialogueBranch({
         nodes: updatedDialogueTree.nodes,
         currentNodeId: updatedDialogueTree.current_nodeId,
       },
+      greetingIndex:
+        LocalCharacterDialogueOperations.getGreetingIndex(updatedDialogueTree),
+      greetingCount:
+        LocalCharacterDialogueOperations.getGreetingNodes(updatedDialogueTree).length,
     };
 
     return {
@@ -1,8 +1,10 @@
 import { LocalCharacterRecordOperations } from "@/lib/data/roleplay/character-record-operation";
+import { saveWithRevision } from "@/function/character/revisions";
 
 export async function updateCharacter(
   character_id: string,
   character_data: any,
+  note: string = "",
 ): Promise<{ success: true; character: any }> {
   try {
     const existingCharacter =
@@ -11,14 +13,20 @@ export async function updateCharacter(
       throw new Error("Character not found");
     }
 
-    const updatedCharacter =
-      await LocalCharacterRecordOperations.updateCharacter(
-        character_id,
-        character_data,
-      );
-    if (!updatedCharacter) {
-      throw new Error("Failed to update character");
-    }
+    const updatedCharacter = await saveWithRevision(
+      character_id,
+      note,
+      async () => {
+        const updated = await LocalCharacterRecordOperations.updateCharacter(
+          character_id,
+          character_data,
+        );
+        if (!updated) {
+          throw new Error("Failed to update character");
+        }
+        return updated;
+      },
+    );
 
     return {
       success: true,
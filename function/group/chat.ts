@@ -0,0 +1,97 @@
+import { GroupOperations } from "@/lib/data/roleplay/group-operation";
+import { LocalCharacterDialogueOperations } from "@/lib/data/roleplay/character-dialogue-operation";
+import { GroupTurnOrder } from "@/lib/core/group-turn-order";
+import { handleCharacterChatRequest } from "@/function/dialogue/chat";
+import { getGroupMembers } from "@/function/group/info";
+
+/**
+ * Pick the member who answers next from the group's turn mode and the
+ * current branch
+ * @param {string} groupId - Group chat being continued
+ * @param {string} message - What the user is about to send; empty to let the group carry on
+ * @param {string} requestedSpeakerId - Member the user chose, if any
+ * @returns {Promise<{ id: string; name: string } | null>} The speaker, or null for an empty group
+ */
+export async function pickGroupSpeaker(
+  groupId: string,
+  message: string = "",
+  requestedSpeakerId?: string,
+): Promise<{ id: string; name: string } | null> {
+  const group = await GroupOperations.getGroup(groupId);
+  if (!group) {
+    throw new Error("Group not found");
+  }
+
+  const members = (await getGroupMembers(group)).map((member) => ({
+    id: member.id,
+    name: member.characterData.name,
+  }));
+
+  const dialogueTree =
+    await LocalCharacterDialogueOperations.getDialogueTreeById(groupId);
+  const currentPath =
+    dialogueTree && dialogueTree.current_nodeId !== "root"
+      ? await LocalCharacterDialogueOperations.getDialoguePathToNode(
+        groupId,
+        dialogueTree.current_nodeId,
+      )
+      : [];
+  const lastNode = currentPath[currentPath.length - 1];
+
+  const speakerId = GroupTurnOrder.pickSpeaker(members, {
+    turnMode: group.turnMode,
+    lastSpeakerId: lastNode?.speakerId,
+    userInput:
+      message.match(/<input_message>([\s\S]*?)<\/input_message>/)?.[1] ||
+      message,
+    lastResponse: lastNode?.assistantResponse,
+    requestedSpeakerId,
+  });
+  return members.find((member) => member.id === speakerId) || null;
+}
+
+function turnInstruction(name: string, language: "zh" | "en"): string {
+  return language === "zh"
+    ? `现在轮到${name}发言。只以${name}的身份回应，不要替其他角色发言。`
+    : `It is ${name}'s turn. Reply only as ${name} and do not speak for the other characters.`;
+}
+
+/**
+ * Send a message to a group chat and have one member answer it. The reply
+ * is stored on the group's chat, tagged with the member who gave it.
+ */
+export async function handleGroupChatRequest(payload: {
+  groupId: string;
+  /** Member who answers, as picked by `pickGroupSpeaker` */
+  speaker: { id: string; name: string };
+  /** What the user sent; empty when a member carries on unprompted */
+  message: string;
+  username?: string;
+  modelName: string;
+  baseUrl: string;
+  apiKey: string;
+  llmType?: string;
+  streaming?: boolean;
+  language?: "zh" | "en";
+  number?: number;
+  nodeId: string;
+  fastModel: boolean;
+}): Promise<Response> {
+  const { groupId, speaker, message, language = "zh", ...request } = payload;
+  const group = await GroupOperations.getGroup(groupId);
+  if (!group) {
+    return new Response(JSON.stringify({ error: "Group not found" }), {
+      status: 404,
+    });
+  }
+
+  const instruction = `<group_turn>${turnInstruction(speaker.name, language)}</group_turn>`;
+  return handleCharacterChatRequest({
+    ...request,
+    characterId: speaker.id,
+    dialogueId: groupId,
+    groupMemberIds: group.members,
+    message: message ? `${message}\n${instruction}` : instruction,
+    language,
+  });
+}
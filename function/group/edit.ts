@@ -0,0 +1,54 @@
+import {
+  GroupOperations,
+  NewGroup,
+} from "@/lib/data/roleplay/group-operation";
+import { Group } from "@/lib/models/group-model";
+
+/**
+ * Create a group chat, or update it when `groupId` is given
+ * @param {NewGroup} fields - Name, members in turn order and turn mode
+ * @param {string} groupId - Group to update
+ * @returns {Promise<Group>} The stored group
+ */
+export async function saveGroupChat(
+  fields: NewGroup,
+  groupId?: string,
+): Promise<Group> {
+  if (fields.members.length === 0) {
+    throw new Error("A group needs at least one member");
+  }
+
+  const group = groupId
+    ? await GroupOperations.updateGroup(groupId, fields)
+    : await GroupOperations.createGroup(fields);
+  if (!group) {
+    throw new Error("Group not found");
+  }
+  return group;
+}
+
+export async function updateGroupChat(
+  groupId: string,
+  updates: Partial<NewGroup>,
+): Promise<Group> {
+  const group = await GroupOperations.updateGroup(groupId, updates);
+  if (!group) {
+    throw new Error("Group not found");
+  }
+  return group;
+}
+
+/**
+ * Move a group and its chat to the trash
+ * @param {string} groupId - Group to delete
+ * @returns {Promise<{ success: boolean; trashItemId: string }>} The trash item to undo with
+ */
+export async function deleteGroupChat(
+  groupId: string,
+): Promise<{ success: boolean; trashItemId: string }> {
+  const trashItem = await GroupOperations.deleteGroup(groupId);
+  if (!trashItem) {
+    throw new Error("Group not found");
+  }
+  return { success: true, trashItemId: trashItem.id };
+}
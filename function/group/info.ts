@@ -0,0 +1,154 @@
+import { GroupOperations } from "@/lib/data/roleplay/group-operation";
+import { LocalCharacterDialogueOperations } from "@/lib/data/roleplay/character-dialogue-operation";
+import { LocalCharacterRecordOperations } from "@/lib/data/roleplay/character-record-operation";
+import { Character } from "@/lib/core/character";
+import { Group, GroupTurnMode } from "@/lib/models/group-model";
+import { getActivePersona } from "@/function/persona/info";
+
+// The turn instruction added by `handleGroupChatRequest`; not shown to the user
+const GROUP_TURN_PATTERN = /<group_turn>[\s\S]*?<\/group_turn>/g;
+
+export interface GroupMemberSummary {
+  id: string;
+  name: string;
+  avatarPath: string;
+}
+
+export interface GroupChatSummary {
+  id: string;
+  name: string;
+  turnMode: GroupTurnMode;
+  members: GroupMemberSummary[];
+  updatedAt: string;
+}
+
+/**
+ * The group's members that still exist, in turn order
+ * @param {Group} group - Group to load
+ * @returns {Promise<Character[]>} The member characters
+ */
+export async function getGroupMembers(group: Group): Promise<Character[]> {
+  const members: Character[] = [];
+  for (const memberId of group.members) {
+    const record =
+      await LocalCharacterRecordOperations.getCharacterById(memberId);
+    if (record) {
+      members.push(new Character(record));
+    }
+  }
+  return members;
+}
+
+function toMemberSummary(
+  member: Character,
+  language: "en" | "zh",
+  username?: string,
+): GroupMemberSummary {
+  return {
+    id: member.id,
+    name: member.getData(language, username).name,
+    avatarPath: member.imagePath,
+  };
+}
+
+/**
+ * List every group chat, most recently changed first
+ * @param {"en" | "zh"} language - Language to show member names in
+ * @returns {Promise<GroupChatSummary[]>} The groups
+ */
+export async function listGroupChats(
+  language: "en" | "zh" = "zh",
+): Promise<GroupChatSummary[]> {
+  const groups = await GroupOperations.getGroups();
+  const summaries: GroupChatSummary[] = [];
+  for (const group of groups) {
+    const members = await getGroupMembers(group);
+    summaries.push({
+      id: group.id,
+      name: group.name,
+      turnMode: group.turnMode,
+      members: members.map((member) => toMemberSummary(member, language)),
+      updatedAt: group.updated_at,
+    });
+  }
+  return summaries;
+}
+
+/**
+ * Load a group, its members and its chat along the current branch. Replies
+ * carry the id of the member who gave them.
+ */
+export async function getGroupChat(
+  groupId: string,
+  language: "en" | "zh" = "zh",
+  username?: string,
+) {
+  const group = await GroupOperations.getGroup(groupId);
+  if (!group) {
+    throw new Error("Group not found");
+  }
+
+  const persona = await getActivePersona(groupId, groupId);
+  const members = await getGroupMembers(group);
+  const dialogueTree =
+    await LocalCharacterDialogueOperations.getDialogueTreeById(groupId);
+  let dialogue = null;
+
+  if (dialogueTree) {
+    const currentPath =
+      dialogueTree.current_nodeId !== "root"
+        ? await LocalCharacterDialogueOperations.getDialoguePathToNode(
+          groupId,
+          dialogueTree.current_nodeId,
+        )
+        : [];
+
+    const messages = currentPath.flatMap((node) => {
+      const nodeMessages = [];
+
+      // A member continuing on their own leaves no user message
+      if (/<input_message>/.test(node.userInput)) {
+        nodeMessages.push({
+          id: node.nodeId,
+          role: "user",
+          thinkingContent: node.thinkingContent || "",
+          content: node.userInput.replace(GROUP_TURN_PATTERN, "").trim(),
+          parsedContent: null,
+        });
+      }
+
+      if (node.assistantResponse) {
+        nodeMessages.push({
+          id: node.nodeId,
+          role: "assistant",
+          thinkingContent: node.thinkingContent || "",
+          content: node.parsedContent?.regexResult || node.assistantResponse,
+          parsedContent: node.parsedContent || null,
+          speakerId: node.speakerId,
+        });
+      }
+
+      return nodeMessages;
+    });
+
+    dialogue = {
+      id: dialogueTree.id,
+      current_nodeId: dialogueTree.current_nodeId,
+      messages,
+      greetingIndex:
+        LocalCharacterDialogueOperations.getGreetingIndex(dialogueTree),
+      greetingCount:
+        LocalCharacterDialogueOperations.getGreetingNodes(dialogueTree).length,
+    };
+  }
+
+  return {
+    success: true,
+    group,
+    members: members.map((member) =>
+      toMemberSummary(member, language, persona?.name || username),
+    ),
+    persona,
+    dialogue,
+  };
+}
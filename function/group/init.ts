@@ -0,0 +1,107 @@
+import { GroupOperations } from "@/lib/data/roleplay/group-operation";
+import { LocalCharacterDialogueOperations } from "@/lib/data/roleplay/character-dialogue-operation";
+import { adaptText } from "@/lib/adapter/tagReplacer";
+import { RegexProcessor } from "@/lib/core/regex-processor";
+import { getActivePersona } from "@/function/persona/info";
+import { getGroupMembers } from "@/function/group/info";
+
+interface InitGroupDialogueOptions {
+  groupId: string;
+  username?: string;
+  language?: "zh" | "en";
+  /** Which greeting to open with, counting across all members */
+  greetingIndex?: number;
+}
+
+/**
+ * Open a group chat. The first time, every member's greetings, including
+ * the ones their cards keep for groups, become branches under the root.
+ */
+export async function initGroupDialogue(options: InitGroupDialogueOptions) {
+  const { groupId, username, language = "zh" } = options;
+
+  if (!groupId) {
+    throw new Error("Missing required parameters");
+  }
+
+  try {
+    const group = await GroupOperations.getGroup(groupId);
+    if (!group) {
+      throw new Error("Group not found");
+    }
+
+    const dialogueTree =
+      await LocalCharacterDialogueOperations.getDialogueTreeById(groupId);
+    const greetingNodes = dialogueTree
+      ? LocalCharacterDialogueOperations.getGreetingNodes(dialogueTree)
+      : [];
+
+    if (!dialogueTree) {
+      await LocalCharacterDialogueOperations.createDialogueTree(
+        groupId,
+        groupId,
+        group.name,
+      );
+    }
+
+    const nodeIds = greetingNodes.map((node) => node.nodeId);
+    if (nodeIds.length === 0) {
+      const members = await getGroupMembers(group);
+      const persona = await getActivePersona(groupId, groupId);
+
+      for (const member of members) {
+        for (const greeting of await member.getGroupGreetings()) {
+          const adaptedMessage = adaptText(
+            greeting,
+            language,
+            persona?.name || username,
+            member.characterData.name,
+          );
+          const regexResult = await RegexProcessor.processFullContext(
+            adaptedMessage,
+            { ownerId: member.id },
+          );
+          nodeIds.push(
+            await LocalCharacterDialogueOperations.addNodeToDialogueTree(
+              groupId,
+              "root",
+              "",
+              adaptedMessage,
+              adaptedMessage,
+              "",
+              {
+                nextPrompts: [],
+                regexResult: regexResult.replacedText,
+                compressedContent: "",
+              },
+              undefined,
+              member.id,
+            ),
+          );
+        }
+      }
+    }
+
+    if (nodeIds.length === 0) {
+      throw new Error("No group member has a greeting");
+    }
+
+    const requestedIndex =
+      options.greetingIndex ??
+      (dialogueTree && greetingNodes.length > 0
+        ? LocalCharacterDialogueOperations.getGreetingIndex(dialogueTree)
+        : 0);
+    const index = Math.min(Math.max(requestedIndex, 0), nodeIds.length - 1);
+    await LocalCharacterDialogueOperations.switchBranch(groupId, nodeIds[index]);
+
+    return {
+      success: true,
+      groupId,
+      greetingIndex: index,
+      greetingCount: nodeIds.length,
+    };
+  } catch (error: any) {
+    console.error("Failed to initialize group dialogue:", error);
+    throw new Error(`Failed to initialize group dialogue: ${error.message}`);
+  }
+}
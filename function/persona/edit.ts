@@ -0,0 +1,75 @@
+import {
+  NewPersona,
+  PersonaOperations,
+} from "@/lib/data/roleplay/persona-operation";
+import { deleteBlob, setBlob } from "@/lib/data/local-storage";
+import { Persona, PersonaLockScope } from "@/lib/models/persona-model";
+
+/**
+ * Create a persona, or update it when `personaId` is given
+ * @param {Partial<NewPersona>} fields - Fields to store
+ * @param {File} avatar - New avatar image, if one was picked
+ * @param {string} personaId - Persona to update
+ * @returns {Promise<Persona>} The stored persona
+ */
+export async function savePersona(
+  fields: Partial<NewPersona>,
+  avatar?: File | null,
+  personaId?: string,
+): Promise<Persona> {
+  let persona = personaId
+    ? await PersonaOperations.updatePersona(personaId, fields)
+    : await PersonaOperations.createPersona({
+      name: "",
+      description: "",
+      ...fields,
+    });
+  if (!persona) {
+    throw new Error("Persona not found");
+  }
+
+  if (avatar) {
+    // A fresh key per upload so open views notice the new image
+    const avatarPath = `persona_${persona.id}_${Date.now()}`;
+    await setBlob(avatarPath, avatar);
+    const previousPath = persona.avatarPath;
+    persona = await PersonaOperations.updatePersona(persona.id, { avatarPath });
+    if (!persona) {
+      throw new Error("Persona not found");
+    }
+    if (previousPath) {
+      await deleteBlob(previousPath);
+    }
+  }
+
+  return persona;
+}
+
+export async function deletePersona(
+  personaId: string,
+): Promise<{ success: boolean; trashItemId?: string }> {
+  const trashItem = await PersonaOperations.deletePersona(personaId);
+  return { success: !!trashItem, trashItemId: trashItem?.id };
+}
+
+export async function setDefaultPersona(
+  personaId: string | null,
+): Promise<{ success: boolean }> {
+  await PersonaOperations.setDefaultPersona(personaId);
+  return { success: true };
+}
+
+/**
+ * Lock a persona to a character or chat, or clear the lock
+ * @param {PersonaLockScope} scope - Whether the lock is per character or per chat
+ * @param {string} targetId - The character or chat id
+ * @param {string | null} personaId - Persona to lock, or null to unlock
+ */
+export async function lockPersona(
+  scope: PersonaLockScope,
+  targetId: string,
+  personaId: string | null,
+): Promise<{ success: boolean }> {
+  await PersonaOperations.setPersonaLock(scope, targetId, personaId);
+  return { success: true };
+}
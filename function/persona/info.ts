@@ -0,0 +1,24 @@
+import { PersonaOperations } from "@/lib/data/roleplay/persona-operation";
+import { Persona } from "@/lib/models/persona-model";
+
+export async function listPersonas(): Promise<Persona[]> {
+  return PersonaOperations.getPersonas();
+}
+
+/**
+ * The persona the user plays as in a chat, if any applies
+ * @param {string} characterId - Character of the chat
+ * @param {string} dialogueId - The chat
+ * @returns {Promise<Persona | null>} The locked or default persona
+ */
+export async function getActivePersona(
+  characterId: string,
+  dialogueId: string = characterId,
+): Promise<Persona | null> {
+  try {
+    return await PersonaOperations.resolvePersona(characterId, dialogueId);
+  } catch (error) {
+    console.error("Failed to resolve persona:", error);
+    return null;
+  }
+}
@@ -39,11 +39,11 @@ export async function createPreset(preset: Preset) {
 
 export async function deletePreset(presetId: string) {
   try {
-    const success = await PresetOperations.deletePreset(presetId);
-    if (!success) {
+    const trashItem = await PresetOperations.deletePreset(presetId);
+    if (!trashItem) {
       return { success: false, error: "Failed to delete preset" };
     }
-    return { success: true };
+    return { success: true, data: { trashItemId: trashItem.id } };
   } catch (error) {
     console.error("Error deleting preset:", error);
     return { success: false, error: "Failed to delete preset" };
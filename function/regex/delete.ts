@@ -1,12 +1,16 @@
 import { RegexScriptSettings } from "@/lib/models/regex-script-model";
 import { RegexScriptOperations } from "@/lib/data/roleplay/regex-script-operation";
+import { saveWithRevision } from "@/function/character/revisions";
 
 export async function deleteRegexScript(
   characterId: string,
   scriptId: string,
-): Promise<boolean> {
+): Promise<{ success: boolean; trashItemId?: string }> {
   try {
-    return await RegexScriptOperations.deleteRegexScript(characterId, scriptId);
+    const trashItem = await saveWithRevision(characterId, "", () =>
+      RegexScriptOperations.deleteRegexScript(characterId, scriptId),
+    );
+    return { success: !!trashItem, trashItemId: trashItem?.id };
   } catch (error) {
     console.error("Error deleting regex script:", error);
     throw new Error("Failed to delete regex script");
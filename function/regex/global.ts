@@ -1,5 +1,6 @@
 import { RegexScriptOperations } from "@/lib/data/roleplay/regex-script-operation";
 import { RegexScript } from "@/lib/models/regex-script-model";
+import { saveWithRevision } from "@/function/character/revisions";
 
 export interface GlobalRegexScript {
   id: string;
@@ -48,11 +49,11 @@ export async function getNextGlobalId(): Promise<string> {
 export async function listGlobalRegexScripts(): Promise<ListGlobalRegexScriptsResult> {
   try {
     const globalRegexScripts: GlobalRegexScript[] = [];
-    const store = await RegexScriptOperations["getRegexScriptStore"]();
+    const records = await RegexScriptOperations.getRegexScriptRecords();
 
-    for (const key of Object.keys(store)) {
-      if (key.startsWith("global_regex_") && key.endsWith("_settings")) {
-        const settings = store[key];
+    for (const record of records) {
+      if (record.id.startsWith("global_regex_")) {
+        const settings = record.settings;
 
         if (settings && settings.metadata) {
           globalRegexScripts.push(settings.metadata as GlobalRegexScript);
@@ -155,9 +156,8 @@ export async function importFromGlobalRegexScript(
       importedCount++;
     }
 
-    const saveResult = await RegexScriptOperations.updateRegexScripts(
-      characterId,
-      characterScripts,
+    const saveResult = await saveWithRevision(characterId, "", () =>
+      RegexScriptOperations.updateRegexScripts(characterId, characterScripts),
     );
     if (!saveResult) {
       return {
@@ -185,6 +185,7 @@ export async function importFromGlobalRegexScript(
 export async function deleteGlobalRegexScript(globalId: string): Promise<{
   success: boolean;
   message: string;
+  trashItemId?: string;
 }> {
   try {
     if (!globalId.startsWith("global_regex_")) {
@@ -194,17 +195,16 @@ export async function deleteGlobalRegexScript(globalId: string): Promise<{
       };
     }
 
-    const store = await RegexScriptOperations["getRegexScriptStore"]();
-
-    delete store[globalId];
-
-    delete store[`${globalId}_settings`];
-
-    await RegexScriptOperations["saveRegexScriptStore"](store);
+    const settings = await RegexScriptOperations.getRegexScriptSettings(globalId);
+    const trashItem = await RegexScriptOperations.deleteOwnerScripts(
+      globalId,
+      settings.metadata?.name || globalId,
+    );
 
     return {
       success: true,
       message: "Global regex script deleted successfully",
+      trashItemId: trashItem.id,
     };
   } catch (error: any) {
     console.error("Failed to delete global regex script:", error);
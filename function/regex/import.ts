@@ -1,4 +1,5 @@
 import { RegexScriptOperations } from "@/lib/data/roleplay/regex-script-operation";
+import { saveWithRevision } from "@/function/character/revisions";
 import { RegexScript } from "@/lib/models/regex-script-model";
 import { v4 as uuidv4 } from "uuid";
 
@@ -108,9 +109,8 @@ export async function importRegexScriptFromJson(
     }
 
     if (result.importedCount > 0) {
-      const updateResult = await RegexScriptOperations.updateRegexScripts(
-        characterId,
-        scripts,
+      const updateResult = await saveWithRevision(characterId, "", () =>
+        RegexScriptOperations.updateRegexScripts(characterId, scripts),
       );
       if (updateResult) {
         result.success = true;
@@ -118,15 +118,12 @@ export async function importRegexScriptFromJson(
 
         if (options?.saveAsGlobal && options.globalName) {
           try {
-            const store = await RegexScriptOperations["getRegexScriptStore"]();
+            const records = await RegexScriptOperations.getRegexScriptRecords();
             let nextId = 1;
 
-            for (const key of Object.keys(store)) {
-              if (
-                key.startsWith("global_regex_") &&
-                key.endsWith("_settings")
-              ) {
-                const match = key.match(/^global_regex_(\d+)_settings$/);
+            for (const record of records) {
+              if (record.id.startsWith("global_regex_") && record.settings) {
+                const match = record.id.match(/^global_regex_(\d+)$/);
                 if (match) {
                   const id = parseInt(match[1], 10);
                   if (id >= nextId) {
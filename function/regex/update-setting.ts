@@ -1,14 +1,14 @@
 import { RegexScriptSettings } from "@/lib/models/regex-script-model";
 import { RegexScriptOperations } from "@/lib/data/roleplay/regex-script-operation";
+import { saveWithRevision } from "@/function/character/revisions";
 
 export async function updateRegexScriptSettings(
   characterId: string,
   updates: Partial<RegexScriptSettings>,
 ): Promise<RegexScriptSettings> {
   try {
-    return await RegexScriptOperations.updateRegexScriptSettings(
-      characterId,
-      updates,
+    return await saveWithRevision(characterId, "", () =>
+      RegexScriptOperations.updateRegexScriptSettings(characterId, updates),
     );
   } catch (error) {
     console.error("Error updating regex script settings:", error);
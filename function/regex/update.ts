@@ -1,5 +1,6 @@
 import { RegexScript } from "@/lib/models/regex-script-model";
 import { RegexScriptOperations } from "@/lib/data/roleplay/regex-script-operation";
+import { saveWithRevision } from "@/function/character/revisions";
 
 export async function updateRegexScript(
   characterId: string,
@@ -7,10 +8,8 @@ export async function updateRegexScript(
   updates: Partial<RegexScript>,
 ): Promise<boolean> {
   try {
-    return await RegexScriptOperations.updateRegexScript(
-      characterId,
-      scriptId,
-      updates,
+    return await saveWithRevision(characterId, "", () =>
+      RegexScriptOperations.updateRegexScript(characterId, scriptId, updates),
     );
   } catch (error) {
     console.error("Error updating regex script:", error);
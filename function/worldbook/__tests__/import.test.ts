@@ -0,0 +1,83 @@
+import { describe, it, expect, vi } from "vitest";
+import { importWorldBookFromJson } from "@/function/worldbook/import";
+import { WorldBookOperations } from "@/lib/data/roleplay/world-book-operation";
+
+const saved = new Map<string, any>();
+
+vi.mock("@/lib/data/local-storage", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/data/local-storage")>()),
+  getRecord: async (storeName: string, key: string) =>
+    saved.get(`${storeName}/${key}`),
+  putRecord: async (storeName: string, value: any) => {
+    saved.set(`${storeName}/${value.id}`, value);
+  },
+}));
+
+vi.mock("@/function/character/revisions", () => ({
+  saveWithRevision: (_characterId: string, _label: string, save: () => any) =>
+    save(),
+}));
+
+let characterCount = 0;
+
+/** Imports into a new character's book and returns its entries */
+async function importedEntries(jsonData: any) {
+  const characterId = `c${++characterCount}`;
+  const result = await importWorldBookFromJson(characterId, jsonData);
+  expect(result.errors).toEqual([]);
+  return Object.values((await WorldBookOperations.getWorldBook(characterId))!);
+}
+
+describe("importWorldBookFromJson", () => {
+  it("reads the placement of character_book entries from their extensions", async () => {
+    const [entry] = await importedEntries({
+      entries: [
+        {
+          keys: ["dragon"],
+          content: "Dragons hoard gold.",
+          position: "after_char",
+          extensions: {
+            position: 4,
+            depth: 0,
+            role: 2,
+            case_sensitive: true,
+            vectorized: false,
+          },
+        },
+      ],
+    });
+
+    expect(entry).toMatchObject({
+      position: 4,
+      depth: 0,
+      role: "assistant",
+      case_sensitive: true,
+      extensions: { position: 4, depth: 0, vectorized: false, imported: true },
+    });
+  });
+
+  it("reads the card spec's positions without extensions", async () => {
+    const [entry] = await importedEntries({
+      entries: [{ keys: ["a"], content: "first", position: "before_char" }],
+    });
+
+    expect(entry.position).toBe(0);
+  });
+
+  it("prefers SillyTavern's top-level fields", async () => {
+    const [entry] = await importedEntries({
+      entries: {
+        0: {
+          key: ["a"],
+          content: "lore",
+          position: 6,
+          depth: 2,
+          role: 1,
+          extensions: { position: 4, depth: 5, role: 0 },
+        },
+      },
+    });
+
+    expect(entry).toMatchObject({ position: 6, depth: 2, role: "user" });
+  });
+});
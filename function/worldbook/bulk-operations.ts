@@ -1,4 +1,5 @@
 import { WorldBookOperations } from "@/lib/data/roleplay/world-book-operation";
+import { saveWithRevision } from "@/function/character/revisions";
 
 export async function bulkToggleWorldBookEntries(
   characterId: string,
@@ -45,9 +46,8 @@ export async function bulkToggleWorldBookEntries(
       };
     }
 
-    const result = await WorldBookOperations.updateWorldBook(
-      characterId,
-      worldBook,
+    const result = await saveWithRevision(characterId, "", () =>
+      WorldBookOperations.updateWorldBook(characterId, worldBook),
     );
 
     return {
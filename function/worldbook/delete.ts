@@ -1,4 +1,5 @@
 import { WorldBookOperations } from "@/lib/data/roleplay/world-book-operation";
+import { saveWithRevision } from "@/function/character/revisions";
 
 export async function deleteWorldBookEntry(
   characterId: string,
@@ -9,13 +10,13 @@ export async function deleteWorldBookEntry(
   }
 
   try {
-    const success = await WorldBookOperations.deleteWorldBookEntry(
-      characterId,
-      entryId,
+    const trashItem = await saveWithRevision(characterId, "", () =>
+      WorldBookOperations.deleteWorldBookEntry(characterId, entryId),
     );
 
     return {
-      success,
+      success: !!trashItem,
+      trashItemId: trashItem?.id,
     };
   } catch (error: any) {
     console.error("Failed to delete world book entry:", error);
@@ -1,5 +1,6 @@
 import { WorldBookOperations } from "@/lib/data/roleplay/world-book-operation";
 import { WorldBookEntry } from "@/lib/models/world-book-model";
+import { saveWithRevision } from "@/function/character/revisions";
 
 export async function saveAdvancedWorldBookEntry(
   characterId: string,
@@ -31,13 +32,24 @@ export async function saveAdvancedWorldBookEntry(
       insertion_order: entry.insertion_order || 0,
       enabled: entry.enabled !== undefined ? entry.enabled : true,
       use_regex: entry.use_regex !== undefined ? entry.use_regex : false,
+      selective_logic: entry.selective_logic || 0,
+      case_sensitive: entry.case_sensitive ?? null,
+      match_whole_words: entry.match_whole_words ?? null,
+      prevent_recursion: entry.prevent_recursion || false,
+      exclude_recursion: entry.exclude_recursion || false,
+      probability: entry.probability ?? 100,
+      use_probability: entry.use_probability ?? true,
+      sticky: entry.sticky || 0,
+      cooldown: entry.cooldown || 0,
+      delay: entry.delay || 0,
       depth: entry.depth !== undefined ? entry.depth : 1,
+      role: entry.role || "system",
       comment: entry.comment?.trim() || "",
       tokens: entry.tokens || undefined,
       extensions: {
         ...entry.extensions,
         position: typeof entry.position === "number" ? entry.position : 4,
-        depth: entry.depth || 1,
+        depth: entry.depth ?? 1,
         updatedAt: now,
         createdAt: entry.extensions?.createdAt || now,
       },
@@ -45,9 +57,8 @@ export async function saveAdvancedWorldBookEntry(
 
     worldBook[entryId] = updatedEntry;
 
-    const result = await WorldBookOperations.updateWorldBook(
-      characterId,
-      worldBook,
+    const result = await saveWithRevision(characterId, "", () =>
+      WorldBookOperations.updateWorldBook(characterId, worldBook),
     );
 
     return {
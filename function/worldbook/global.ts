@@ -3,6 +3,7 @@ import {
   WorldBookSettings,
 } from "@/lib/data/roleplay/world-book-operation";
 import { WorldBookEntry } from "@/lib/models/world-book-model";
+import { saveWithRevision } from "@/function/character/revisions";
 
 export interface GlobalWorldBook {
   id: string;
@@ -121,11 +122,11 @@ export async function listGlobalWorldBooks(): Promise<ListGlobalWorldBooksResult
   try {
     const globalWorldBooks: GlobalWorldBook[] = [];
 
-    const worldBooksData = await WorldBookOperations.getWorldBooks();
+    const worldBookRecords = await WorldBookOperations.getWorldBookRecords();
 
-    for (const key of Object.keys(worldBooksData)) {
-      if (key.startsWith("global_") && key.endsWith("_settings")) {
-        const settings = worldBooksData[key] as WorldBookSettings;
+    for (const record of worldBookRecords) {
+      if (record.id.startsWith("global_")) {
+        const settings = record.settings as WorldBookSettings | undefined;
 
         if (settings && settings.metadata) {
           globalWorldBooks.push(settings.metadata as GlobalWorldBook);
@@ -227,9 +228,8 @@ export async function importFromGlobalWorldBook(
       importedCount++;
     }
 
-    const saveResult = await WorldBookOperations.updateWorldBook(
-      characterId,
-      characterWorldBook,
+    const saveResult = await saveWithRevision(characterId, "", () =>
+      WorldBookOperations.updateWorldBook(characterId, characterWorldBook),
     );
     if (!saveResult) {
       return {
@@ -257,6 +257,7 @@ export async function importFromGlobalWorldBook(
 export async function deleteGlobalWorldBook(globalId: string): Promise<{
   success: boolean;
   message: string;
+  trashItemId?: string;
 }> {
   try {
     if (!globalId.startsWith("global_")) {
@@ -266,17 +267,16 @@ export async function deleteGlobalWorldBook(globalId: string): Promise<{
       };
     }
 
-    await WorldBookOperations.updateWorldBook(globalId, {});
-
-    await WorldBookOperations.updateWorldBookSettings(globalId, {
-      enabled: false,
-      contextWindow: 5,
-      metadata: null,
-    });
+    const settings = await WorldBookOperations.getWorldBookSettings(globalId);
+    const trashItem = await WorldBookOperations.deleteWorldBook(
+      globalId,
+      settings.metadata?.name || globalId,
+    );
 
     return {
       success: true,
       message: "Global world book deleted successfully",
+      trashItemId: trashItem.id,
     };
   } catch (error: any) {
     console.error("Failed to delete global world book:", error);
@@ -1,8 +1,25 @@
 import { WorldBookOperations } from "@/lib/data/roleplay/world-book-operation";
-import { WorldBookEntry } from "@/lib/models/world-book-model";
+import {
+  WorldBookEntry,
+  WorldBookRole,
+  WORLD_BOOK_ROLES,
+} from "@/lib/models/world-book-model";
 import { v4 as uuidv4 } from "uuid";
+import { saveWithRevision } from "@/function/character/revisions";
 import { saveAsGlobalWorldBook } from "./global";
 
+/** Turn counts SillyTavern keeps at the top level or in `extensions` */
+const TIMED_FIELDS = ["sticky", "cooldown", "delay"] as const;
+
+/** Whether a field holds a number; card entries put "after_char" in `position` */
+function isNumeric(value: unknown): boolean {
+  return (
+    (typeof value === "number" ||
+      (typeof value === "string" && value.trim() !== "")) &&
+    Number.isFinite(Number(value))
+  );
+}
+
 export interface ImportWorldBookResult {
   success: boolean;
   message: string;
@@ -75,6 +92,16 @@ export async function importWorldBookFromJson(
         let constant = false;
         let use_regex = false;
         let insertion_order = 0;
+        let selective_logic: number | undefined;
+        let case_sensitive: boolean | undefined;
+        let match_whole_words: boolean | undefined;
+        let prevent_recursion = false;
+        let exclude_recursion = false;
+        let role: WorldBookRole | undefined;
+        let probability: number | undefined;
+        let use_probability: boolean | undefined;
+        const timed: Partial<Record<(typeof TIMED_FIELDS)[number], number>> =
+          {};
 
         if (entryData.key !== undefined) {
           keys = Array.isArray(entryData.key)
@@ -95,11 +122,14 @@ export async function importWorldBookFromJson(
         if (entryData.comment !== undefined) {
           comment = String(entryData.comment || "");
         }
-        if (entryData.position !== undefined) {
-          position = Number(entryData.position) || 4;
+        if (isNumeric(entryData.position)) {
+          position = Number(entryData.position);
+        }
+        if (isNumeric(entryData.depth)) {
+          depth = Number(entryData.depth);
         }
-        if (entryData.depth !== undefined) {
-          depth = Number(entryData.depth) || 1;
+        if (typeof entryData.role === "number") {
+          role = WORLD_BOOK_ROLES[entryData.role];
         }
         if (entryData.disable !== undefined) {
           enabled = !entryData.disable;
@@ -113,6 +143,27 @@ export async function importWorldBookFromJson(
         if (entryData.order !== undefined) {
           insertion_order = Number(entryData.order) || 0;
         }
+        if (entryData.selectiveLogic !== undefined) {
+          selective_logic = Number(entryData.selectiveLogic) || 0;
+        }
+        if (typeof entryData.caseSensitive === "boolean") {
+          case_sensitive = entryData.caseSensitive;
+        }
+        if (typeof entryData.matchWholeWords === "boolean") {
+          match_whole_words = entryData.matchWholeWords;
+        }
+        if (entryData.preventRecursion !== undefined) {
+          prevent_recursion = Boolean(entryData.preventRecursion);
+        }
+        if (entryData.excludeRecursion !== undefined) {
+          exclude_recursion = Boolean(entryData.excludeRecursion);
+        }
+        if (typeof entryData.probability === "number") {
+          probability = entryData.probability;
+        }
+        if (typeof entryData.useProbability === "boolean") {
+          use_probability = entryData.useProbability;
+        }
 
         if (entryData.keys !== undefined) {
           keys = Array.isArray(entryData.keys)
@@ -136,6 +187,61 @@ export async function importWorldBookFromJson(
         if (entryData.insertion_order !== undefined) {
           insertion_order = Number(entryData.insertion_order) || 0;
         }
+        if (typeof entryData.case_sensitive === "boolean") {
+          case_sensitive = entryData.case_sensitive;
+        }
+        if (
+          !isNumeric(entryData.position) &&
+          isNumeric(entryData.extensions?.position)
+        ) {
+          position = Number(entryData.extensions.position);
+        } else if (entryData.position === "before_char") {
+          position = 0;
+        } else if (entryData.position === "after_char") {
+          position = 1;
+        }
+        if (
+          !isNumeric(entryData.depth) &&
+          isNumeric(entryData.extensions?.depth)
+        ) {
+          depth = Number(entryData.extensions.depth);
+        }
+        if (
+          role === undefined &&
+          typeof entryData.extensions?.role === "number"
+        ) {
+          role = WORLD_BOOK_ROLES[entryData.extensions.role];
+        }
+        if (
+          case_sensitive === undefined &&
+          typeof entryData.extensions?.case_sensitive === "boolean"
+        ) {
+          case_sensitive = entryData.extensions.case_sensitive;
+        }
+        if (entryData.extensions?.selectiveLogic !== undefined) {
+          selective_logic = Number(entryData.extensions.selectiveLogic) || 0;
+        }
+        if (typeof entryData.extensions?.match_whole_words === "boolean") {
+          match_whole_words = entryData.extensions.match_whole_words;
+        }
+        if (entryData.extensions?.prevent_recursion !== undefined) {
+          prevent_recursion = Boolean(entryData.extensions.prevent_recursion);
+        }
+        if (entryData.extensions?.exclude_recursion !== undefined) {
+          exclude_recursion = Boolean(entryData.extensions.exclude_recursion);
+        }
+        if (typeof entryData.extensions?.probability === "number") {
+          probability = entryData.extensions.probability;
+        }
+        if (typeof entryData.extensions?.useProbability === "boolean") {
+          use_probability = entryData.extensions.useProbability;
+        }
+        for (const field of TIMED_FIELDS) {
+          const value = entryData[field] ?? entryData.extensions?.[field];
+          if (typeof value === "number") {
+            timed[field] = value;
+          }
+        }
         if (!content.trim() && keys.length === 0) {
           result.skippedCount++;
           continue;
@@ -151,10 +257,20 @@ export async function importWorldBookFromJson(
           insertion_order: insertion_order,
           enabled: enabled,
           use_regex: use_regex,
+          selective_logic: selective_logic,
+          case_sensitive: case_sensitive,
+          match_whole_words: match_whole_words,
+          prevent_recursion: prevent_recursion,
+          exclude_recursion: exclude_recursion,
+          probability: probability,
+          use_probability: use_probability,
+          ...timed,
           depth: depth,
+          role: role,
           comment: comment.trim(),
           tokens: undefined,
           extensions: {
+            ...entryData.extensions,
             position: position,
             depth: depth,
             createdAt: now,
@@ -173,9 +289,8 @@ export async function importWorldBookFromJson(
     }
 
     if (result.importedCount > 0) {
-      const updateResult = await WorldBookOperations.updateWorldBook(
-        characterId,
-        worldBook,
+      const updateResult = await saveWithRevision(characterId, "", () =>
+        WorldBookOperations.updateWorldBook(characterId, worldBook),
       );
       if (updateResult) {
         result.success = true;
@@ -1,4 +1,5 @@
 import { WorldBookOperations } from "@/lib/data/roleplay/world-book-operation";
+import { WorldBookManager } from "@/lib/core/world-book";
 
 export async function getWorldBookEntries(characterId: string) {
   if (!characterId) {
@@ -7,43 +8,52 @@ export async function getWorldBookEntries(characterId: string) {
 
   try {
     const worldBook = await WorldBookOperations.getWorldBook(characterId);
-    const entries = worldBook
-      ? Object.entries(worldBook).map(([key, entry]) => {
-          return {
-            entry_id: key,
-            id: entry.id,
-            content: entry.content || "",
-            keys: entry.keys || [],
-            secondary_keys: entry.secondary_keys || [],
-            selective: entry.selective !== undefined ? entry.selective : false,
-            constant: entry.constant !== undefined ? entry.constant : false,
-            position: entry.position !== undefined ? entry.position : 4,
-            insertion_order: entry.insertion_order || 0,
-            enabled: entry.enabled !== undefined ? entry.enabled : true,
-            use_regex: entry.use_regex !== undefined ? entry.use_regex : false,
-            depth: entry.depth || 1,
-            comment: entry.comment || "",
-            tokens: entry.content ? entry.content.length : 0,
-            extensions: entry.extensions || {},
-            primaryKey:
-              Array.isArray(entry.keys) && entry.keys.length > 0
-                ? entry.keys[0]
-                : "",
-            keyCount: Array.isArray(entry.keys) ? entry.keys.length : 0,
-            secondaryKeyCount: Array.isArray(entry.secondary_keys)
-              ? entry.secondary_keys.length
-              : 0,
-            contentLength: entry.content ? entry.content.length : 0,
-            isActive: entry.enabled !== false,
-            lastUpdated:
-              entry.extensions?.updatedAt ||
-              entry.extensions?.createdAt ||
-              Date.now(),
-            isImported: entry.extensions?.imported || false,
-            importedAt: entry.extensions?.importedAt || null,
-          };
-        })
-      : [];
+    const entries = Object.entries(worldBook || {}).map(([key, entry]) => {
+      return {
+        entry_id: key,
+        id: entry.id,
+        content: entry.content || "",
+        keys: entry.keys || [],
+        secondary_keys: entry.secondary_keys || [],
+        selective: entry.selective !== undefined ? entry.selective : false,
+        constant: entry.constant !== undefined ? entry.constant : false,
+        position: entry.position !== undefined ? entry.position : 4,
+        insertion_order: entry.insertion_order || 0,
+        enabled: entry.enabled !== undefined ? entry.enabled : true,
+        use_regex: entry.use_regex !== undefined ? entry.use_regex : false,
+        selective_logic: entry.selective_logic || 0,
+        case_sensitive: entry.case_sensitive ?? null,
+        match_whole_words: entry.match_whole_words ?? null,
+        prevent_recursion: entry.prevent_recursion || false,
+        exclude_recursion: entry.exclude_recursion || false,
+        probability: entry.probability ?? 100,
+        use_probability: entry.use_probability ?? true,
+        sticky: entry.sticky || 0,
+        cooldown: entry.cooldown || 0,
+        delay: entry.delay || 0,
+        depth: entry.depth ?? 1,
+        role: WorldBookManager.resolveRole(entry),
+        comment: entry.comment || "",
+        tokens: entry.content ? entry.content.length : 0,
+        extensions: entry.extensions || {},
+        primaryKey:
+          Array.isArray(entry.keys) && entry.keys.length > 0
+            ? entry.keys[0]
+            : "",
+        keyCount: Array.isArray(entry.keys) ? entry.keys.length : 0,
+        secondaryKeyCount: Array.isArray(entry.secondary_keys)
+          ? entry.secondary_keys.length
+          : 0,
+        contentLength: entry.content ? entry.content.length : 0,
+        isActive: entry.enabled !== false,
+        lastUpdated:
+          entry.extensions?.updatedAt ||
+          entry.extensions?.createdAt ||
+          Date.now(),
+        isImported: entry.extensions?.imported || false,
+        importedAt: entry.extensions?.importedAt || null,
+      };
+    });
 
     entries.sort((a, b) => {
       const positionA = typeof a.position === "number" ? a.position : 4;
@@ -2,6 +2,7 @@ import {
   WorldBookOperations,
   WorldBookSettings,
 } from "@/lib/data/roleplay/world-book-operation";
+import { saveWithRevision } from "@/function/character/revisions";
 
 export async function getWorldBookSettings(characterId: string) {
   if (!characterId) {
@@ -44,10 +45,20 @@ export async function updateWorldBookSettings(
     throw new Error("Context window must be between 1 and 20");
   }
 
+  if (
+    updates.scanDepth !== undefined &&
+    (updates.scanDepth < 1 || updates.scanDepth > 100)
+  ) {
+    throw new Error("Scan depth must be between 1 and 100");
+  }
+
+  if (updates.tokenBudget !== undefined && updates.tokenBudget < 0) {
+    throw new Error("Token budget cannot be negative");
+  }
+
   try {
-    const newSettings = await WorldBookOperations.updateWorldBookSettings(
-      characterId,
-      updates,
+    const newSettings = await saveWithRevision(characterId, "", () =>
+      WorldBookOperations.updateWorldBookSettings(characterId, updates),
     );
 
     return {
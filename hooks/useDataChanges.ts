@@ -0,0 +1,56 @@
+import { useEffect, useRef } from "react";
+import {
+  DataChangeEvent,
+  DataEntity,
+  subscribeToChanges,
+} from "@/lib/data/change-bus";
+
+const DEBOUNCE_MS = 150;
+
+/**
+ * Calls `onChange` when another tab changes the given stores. Bursts of
+ * events (a restore, a multi-record write) are coalesced into one call.
+ */
+export function useDataChanges(
+  entities: DataEntity[],
+  onChange: (events: DataChangeEvent[]) => void,
+  options: { id?: string; enabled?: boolean } = {},
+) {
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  const entityKey = entities.join(",");
+  const { id, enabled = true } = options;
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    let pending: DataChangeEvent[] = [];
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const unsubscribe = subscribeToChanges(
+      (event) => {
+        pending.push(event);
+        if (timer) {
+          clearTimeout(timer);
+        }
+        timer = setTimeout(() => {
+          const events = pending;
+          pending = [];
+          timer = null;
+          onChangeRef.current(events);
+        }, DEBOUNCE_MS);
+      },
+      { entities: entityKey.split(",") as DataEntity[], id },
+    );
+
+    return () => {
+      unsubscribe();
+      if (timer) {
+        clearTimeout(timer);
+      }
+    };
+  }, [entityKey, id, enabled]);
+}
@@ -27,6 +27,8 @@ export function adaptCharacterData(
     "mes_example",
     "creatorcomment",
     "creator_notes",
+    "system_prompt",
+    "post_history_instructions",
   ];
 
   for (const field of fieldsToProcess) {
@@ -73,11 +75,11 @@ export function adaptCharacterData(
     });
   }
 
-  if (Array.isArray(result.alternate_greetings)) {
-    for (let i = 0; i < result.alternate_greetings.length; i++) {
-      let greeting = result.alternate_greetings[i];
-      greeting = adaptText(greeting, language, username, charReplacement);
-      result.alternate_greetings[i] = greeting;
+  for (const field of ["alternate_greetings", "group_only_greetings"]) {
+    if (Array.isArray(result[field])) {
+      result[field] = result[field].map((greeting: string) =>
+        adaptText(greeting, language, username, charReplacement),
+      );
     }
   }
 
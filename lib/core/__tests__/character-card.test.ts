@@ -0,0 +1,62 @@
+import { describe, it, expect, vi } from "vitest";
+import { CharacterCardBuilder } from "@/lib/core/character-card";
+import { WorldBookManager } from "@/lib/core/world-book";
+import { WorldBookActivation } from "@/lib/core/world-book-activation";
+import { WorldBookOperations } from "@/lib/data/roleplay/world-book-operation";
+import { WorldBookEntry } from "@/lib/models/world-book-model";
+
+const saved = new Map<string, any>();
+
+vi.mock("@/lib/data/local-storage", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/data/local-storage")>()),
+  getRecord: async (storeName: string, key: string) =>
+    saved.get(`${storeName}/${key}`),
+  putRecord: async (storeName: string, value: any) => {
+    saved.set(`${storeName}/${value.id}`, value);
+  },
+}));
+
+/** Exports entries into a card book and imports it the way a card upload does */
+async function roundTrip(entries: WorldBookEntry[]): Promise<WorldBookEntry[]> {
+  const book = CharacterCardBuilder.buildCharacterBook(undefined, entries);
+  await WorldBookOperations.updateWorldBook("c1", book.entries as any);
+  return Object.values((await WorldBookOperations.getWorldBook("c1"))!);
+}
+
+describe("character book export", () => {
+  it("keeps placement and activation through export and import", async () => {
+    const [deep, plain] = await roundTrip([
+      {
+        comment: "deep",
+        content: "deep lore",
+        keys: ["dragon"],
+        secondary_keys: ["gold"],
+        selective: true,
+        constant: false,
+        position: 4,
+        depth: 0,
+        role: "assistant",
+      },
+      {
+        comment: "plain",
+        content: "plain lore",
+        keys: ["dragon"],
+        secondary_keys: ["gold"],
+        constant: false,
+        position: 6,
+      } as WorldBookEntry,
+    ]);
+
+    expect(WorldBookManager.resolvePosition(deep)).toBe(4);
+    expect(WorldBookManager.resolvePosition(plain)).toBe(6);
+    expect(
+      WorldBookManager.getDepthInsertions(
+        WorldBookManager.organizeEntriesByPosition([deep, plain]),
+        (item) => item.content,
+      ),
+    ).toEqual([{ depth: 0, role: "assistant", content: "deep lore" }]);
+
+    const activated = WorldBookActivation.scan([deep, plain], "a dragon").activated;
+    expect(activated.map((item) => item.entry.comment)).toEqual(["plain"]);
+  });
+});
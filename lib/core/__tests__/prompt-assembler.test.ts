@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { PromptAssembler } from "@/lib/core/prompt-assembler";
+import { WorldBookEntry } from "@/lib/models/world-book-model";
+
+function entry(comment: string, position: number): WorldBookEntry {
+  return {
+    comment,
+    content: `${comment} lore`,
+    keys: [],
+    selective: false,
+    constant: true,
+    position,
+  };
+}
+
+const book = [entry("before", 5), entry("after", 6)];
+
+function assemble(userMessage: string): string {
+  return new PromptAssembler({ language: "en" }).assemblePrompt(
+    book,
+    "",
+    userMessage,
+    [],
+    "hello",
+  ).userMessage;
+}
+
+describe("PromptAssembler example slots", () => {
+  it("wraps the dialogue examples", () => {
+    const message = assemble(
+      "<dialogueExamples>\nexample\n</dialogueExamples>\n{{chatHistory}}",
+    );
+
+    expect(message.indexOf("before lore")).toBeLessThan(message.indexOf("example"));
+    expect(message.indexOf("after lore")).toBeGreaterThan(message.indexOf("example"));
+    expect(message.indexOf("after lore")).toBeLessThan(
+      message.indexOf("</dialogueExamples>"),
+    );
+  });
+
+  it("puts them before the chat history when the preset has no examples", () => {
+    const message = assemble("intro\n{{chatHistory}}\n<userInput>{{userInput}}</userInput>");
+
+    expect(message.indexOf("intro")).toBeLessThan(message.indexOf("before lore"));
+    expect(message.indexOf("before lore")).toBeLessThan(message.indexOf("after lore"));
+    expect(message.indexOf("after lore")).toBeLessThan(
+      message.indexOf("{{chatHistory}}"),
+    );
+  });
+
+  it("falls back to the user input, then to the start", () => {
+    const beforeInput = assemble("intro\n<userInput>{{userInput}}</userInput>");
+    expect(beforeInput.indexOf("after lore")).toBeLessThan(
+      beforeInput.indexOf("<userInput>"),
+    );
+    expect(beforeInput.indexOf("intro")).toBeLessThan(
+      beforeInput.indexOf("before lore"),
+    );
+
+    expect(assemble("plain").endsWith("plain")).toBe(true);
+  });
+});
@@ -0,0 +1,590 @@
+import { describe, it, expect } from "vitest";
+import {
+  ActivationOptions,
+  ScanResult,
+  SelectiveLogic,
+  WorldBookActivation,
+} from "@/lib/core/world-book-activation";
+import { WorldBookManager } from "@/lib/core/world-book";
+import {
+  WorldBookEntry,
+  WorldBookTimers,
+} from "@/lib/models/world-book-model";
+import { DialogueMessage } from "@/lib/models/character-dialogue-model";
+
+function entry(overrides: Partial<WorldBookEntry>): WorldBookEntry {
+  return {
+    content: "lore",
+    keys: [],
+    selective: false,
+    constant: false,
+    position: 4,
+    ...overrides,
+  };
+}
+
+interface Fixture {
+  name: string;
+  entry: Partial<WorldBookEntry>;
+  text: string;
+  options?: ActivationOptions;
+  activates: boolean;
+}
+
+const fixtures: Fixture[] = [
+  {
+    name: "primary key found in any case",
+    entry: { keys: ["Dragon"] },
+    text: "a DRAGON lands",
+    activates: true,
+  },
+  {
+    name: "no primary key found",
+    entry: { keys: ["dragon"] },
+    text: "a wyvern lands",
+    activates: false,
+  },
+  {
+    name: "entry without keys",
+    entry: { keys: [" "] },
+    text: "anything",
+    activates: false,
+  },
+  {
+    name: "substring match without whole words",
+    entry: { keys: ["cat"] },
+    text: "a catalogue",
+    activates: true,
+  },
+  {
+    name: "whole words rejects a substring",
+    entry: { keys: ["cat"] },
+    text: "a catalogue",
+    options: { matchWholeWords: true },
+    activates: false,
+  },
+  {
+    name: "whole words accepts the word next to punctuation",
+    entry: { keys: ["cat"] },
+    text: "the cat, sleeping",
+    options: { matchWholeWords: true },
+    activates: true,
+  },
+  {
+    name: "whole words matches phrases as written",
+    entry: { keys: ["black cat"] },
+    text: "a black catalogue",
+    options: { matchWholeWords: true },
+    activates: true,
+  },
+  {
+    name: "whole words matches CJK keys inside text",
+    entry: { keys: ["龙"] },
+    text: "一条龙飞过",
+    options: { matchWholeWords: true },
+    activates: true,
+  },
+  {
+    name: "entry override turns whole words on",
+    entry: { keys: ["cat"], match_whole_words: true },
+    text: "a catalogue",
+    activates: false,
+  },
+  {
+    name: "entry override turns whole words off",
+    entry: { keys: ["cat"], match_whole_words: false },
+    text: "a catalogue",
+    options: { matchWholeWords: true },
+    activates: true,
+  },
+  {
+    name: "case sensitive scan default",
+    entry: { keys: ["Rose"] },
+    text: "a rose",
+    options: { caseSensitive: true },
+    activates: false,
+  },
+  {
+    name: "case sensitive entry override",
+    entry: { keys: ["Rose"], case_sensitive: true },
+    text: "Rose speaks",
+    activates: true,
+  },
+  {
+    name: "null override follows the scan default",
+    entry: { keys: ["Rose"], case_sensitive: null },
+    text: "a rose",
+    options: { caseSensitive: true },
+    activates: false,
+  },
+  {
+    name: "override read from imported extensions",
+    entry: { keys: ["cat"], extensions: { match_whole_words: true } },
+    text: "a catalogue",
+    activates: false,
+  },
+  {
+    name: "slash-delimited key is a regex",
+    entry: { keys: ["/dra(gon|ke)s?/"] },
+    text: "two drakes",
+    activates: true,
+  },
+  {
+    name: "slash-delimited key keeps its own flags",
+    entry: { keys: ["/Dragon/"] },
+    text: "a dragon",
+    activates: false,
+  },
+  {
+    name: "slash-delimited key with the i flag",
+    entry: { keys: ["/Dragon/i"] },
+    text: "a dragon",
+    activates: true,
+  },
+  {
+    name: "use_regex treats plain keys as patterns",
+    entry: { keys: ["^hello\\b"], use_regex: true },
+    text: "Hello there",
+    activates: true,
+  },
+  {
+    name: "use_regex respects case sensitivity",
+    entry: { keys: ["^hello\\b"], use_regex: true, case_sensitive: true },
+    text: "Hello there",
+    activates: false,
+  },
+  {
+    name: "invalid regex never matches",
+    entry: { keys: ["/([a-z/"] },
+    text: "([a-z",
+    activates: false,
+  },
+  {
+    name: "secondary keys ignored when not selective",
+    entry: { keys: ["sword"], secondary_keys: ["fire"] },
+    text: "a sword",
+    activates: true,
+  },
+  {
+    name: "AND ANY with a secondary key present",
+    entry: {
+      keys: ["sword"],
+      secondary_keys: ["fire", "ice"],
+      selective: true,
+    },
+    text: "a sword of ice",
+    activates: true,
+  },
+  {
+    name: "AND ANY with no secondary key present",
+    entry: {
+      keys: ["sword"],
+      secondary_keys: ["fire", "ice"],
+      selective: true,
+    },
+    text: "a sword of stone",
+    activates: false,
+  },
+  {
+    name: "AND ALL with every secondary key present",
+    entry: {
+      keys: ["sword"],
+      secondary_keys: ["fire", "ice"],
+      selective: true,
+      selective_logic: SelectiveLogic.AND_ALL,
+    },
+    text: "a sword of fire and ice",
+    activates: true,
+  },
+  {
+    name: "AND ALL with one secondary key missing",
+    entry: {
+      keys: ["sword"],
+      secondary_keys: ["fire", "ice"],
+      selective: true,
+      selective_logic: SelectiveLogic.AND_ALL,
+    },
+    text: "a sword of fire",
+    activates: false,
+  },
+  {
+    name: "NOT ANY with no secondary key present",
+    entry: {
+      keys: ["sword"],
+      secondary_keys: ["fire", "ice"],
+      selective: true,
+      selective_logic: SelectiveLogic.NOT_ANY,
+    },
+    text: "a sword of stone",
+    activates: true,
+  },
+  {
+    name: "NOT ANY with a secondary key present",
+    entry: {
+      keys: ["sword"],
+      secondary_keys: ["fire", "ice"],
+      selective: true,
+      selective_logic: SelectiveLogic.NOT_ANY,
+    },
+    text: "a sword of fire",
+    activates: false,
+  },
+  {
+    name: "NOT ALL with one secondary key missing",
+    entry: {
+      keys: ["sword"],
+      secondary_keys: ["fire", "ice"],
+      selective: true,
+      selective_logic: SelectiveLogic.NOT_ALL,
+    },
+    text: "a sword of fire",
+    activates: true,
+  },
+  {
+    name: "NOT ALL with every secondary key present",
+    entry: {
+      keys: ["sword"],
+      secondary_keys: ["fire", "ice"],
+      selective: true,
+      selective_logic: SelectiveLogic.NOT_ALL,
+    },
+    text: "a sword of fire and ice",
+    activates: false,
+  },
+  {
+    name: "logic read from imported extensions",
+    entry: {
+      keys: ["sword"],
+      secondary_keys: ["fire"],
+      selective: true,
+      extensions: { selectiveLogic: SelectiveLogic.NOT_ANY },
+    },
+    text: "a sword of fire",
+    activates: false,
+  },
+  {
+    name: "secondary keys follow whole-word matching",
+    entry: {
+      keys: ["sword"],
+      secondary_keys: ["ice"],
+      selective: true,
+      match_whole_words: true,
+    },
+    text: "a sword with a price",
+    activates: false,
+  },
+];
+
+describe("WorldBookActivation.matchEntry", () => {
+  for (const fixture of fixtures) {
+    it(fixture.name, () => {
+      const match = WorldBookActivation.matchEntry(
+        entry(fixture.entry),
+        fixture.text,
+        fixture.options,
+      );
+      expect(match !== null).toBe(fixture.activates);
+    });
+  }
+
+  it("reports the primary and secondary keys that matched", () => {
+    const match = WorldBookActivation.matchEntry(
+      entry({
+        keys: ["blade", "sword"],
+        secondary_keys: ["fire", "ice"],
+        selective: true,
+      }),
+      "a sword of ice",
+    );
+    expect(match).toEqual({ key: "sword", secondaryKeys: ["ice"] });
+  });
+});
+
+describe("WorldBookActivation.activate", () => {
+  it("skips disabled entries, keyed or constant", () => {
+    const active = WorldBookActivation.activate(
+      [
+        entry({ comment: "off", keys: ["dragon"], enabled: false }),
+        entry({ comment: "off constant", constant: true, enabled: false }),
+        entry({ comment: "on", keys: ["dragon"] }),
+      ],
+      "a dragon",
+    );
+    expect(active.map((e) => e.comment)).toEqual(["on"]);
+  });
+
+  it("activates constant entries without keys, ahead of keyed ones", () => {
+    const active = WorldBookActivation.activate(
+      [
+        entry({ comment: "keyed", keys: ["dragon"] }),
+        entry({ comment: "constant", constant: true }),
+      ],
+      "a dragon",
+    );
+    expect(active.map((e) => e.comment)).toEqual(["constant", "keyed"]);
+  });
+
+  it("keeps non-selective entries enabled regardless of selective", () => {
+    const active = WorldBookActivation.activate(
+      [entry({ comment: "plain", keys: ["dragon"], selective: false })],
+      "a dragon",
+    );
+    expect(active).toHaveLength(1);
+  });
+});
+
+describe("WorldBookActivation.scan", () => {
+  const chain = () => [
+    entry({ comment: "city", keys: ["city"], content: "the city has a tower" }),
+    entry({ comment: "tower", keys: ["tower"], content: "the tower hides a gem" }),
+    entry({ comment: "gem", keys: ["gem"], content: "the gem glows" }),
+  ];
+  const comments = (result: { activated: { entry: WorldBookEntry }[] }) =>
+    result.activated.map((item) => item.entry.comment);
+
+  it("does not recurse unless asked", () => {
+    expect(comments(WorldBookActivation.scan(chain(), "the city"))).toEqual([
+      "city",
+    ]);
+  });
+
+  it("follows keys through activated content", () => {
+    const result = WorldBookActivation.scan(chain(), "the city", {
+      recursive: true,
+    });
+    expect(comments(result)).toEqual(["city", "tower", "gem"]);
+    expect(result.activated.map((item) => item.pass)).toEqual([0, 1, 2]);
+  });
+
+  it("stops at entries that prevent recursion", () => {
+    const entries = chain();
+    entries[1].prevent_recursion = true;
+    expect(
+      comments(WorldBookActivation.scan(entries, "the city", { recursive: true })),
+    ).toEqual(["city", "tower"]);
+  });
+
+  it("keeps entries excluded from recursion to the chat", () => {
+    const entries = chain();
+    entries[1].extensions = { exclude_recursion: true };
+    expect(
+      comments(WorldBookActivation.scan(entries, "the city", { recursive: true })),
+    ).toEqual(["city"]);
+    expect(
+      comments(WorldBookActivation.scan(entries, "a tower", { recursive: true })),
+    ).toEqual(["tower", "gem"]);
+  });
+
+  it("drops the lowest-priority entries over the token budget", () => {
+    const entries = [
+      entry({ comment: "low", keys: ["a"], content: "x".repeat(40), insertion_order: 1 }),
+      entry({ comment: "high", keys: ["a"], content: "x".repeat(40), insertion_order: 9 }),
+      entry({ comment: "mid", keys: ["a"], content: "x".repeat(40), insertion_order: 5 }),
+    ];
+    const result = WorldBookActivation.scan(entries, "a", { tokenBudget: 25 });
+    expect(comments(result)).toEqual(["high", "mid"]);
+    expect(result.skipped.map((item) => item.entry.comment)).toEqual(["low"]);
+  });
+
+  it("does not recurse from entries the budget dropped", () => {
+    const result = WorldBookActivation.scan(chain(), "the city", {
+      recursive: true,
+      tokenBudget: 6,
+    });
+    expect(comments(result)).toEqual(["city"]);
+    expect(result.skipped.map((item) => item.entry.comment)).toEqual(["tower"]);
+  });
+});
+
+describe("WorldBookActivation timed effects", () => {
+  const scanTurn = (
+    entries: WorldBookEntry[],
+    text: string,
+    turn: number,
+    timers: WorldBookTimers = {},
+  ) => WorldBookActivation.scan(entries, text, { turn, timers });
+  const active = (result: ScanResult) =>
+    result.activated.map((item) => item.entry.comment);
+
+  it("rolls the probability of matched entries", () => {
+    const entries = [
+      entry({ comment: "rare", keys: ["a"], probability: 30 }),
+      entry({
+        comment: "unrolled",
+        keys: ["a"],
+        probability: 0,
+        use_probability: false,
+      }),
+    ];
+    const roll = (value: number) =>
+      WorldBookActivation.scan(entries, "a", { random: () => value });
+    expect(active(roll(0.2))).toEqual(["rare", "unrolled"]);
+    expect(active(roll(0.5))).toEqual(["unrolled"]);
+    expect(roll(0.5).skipped).toMatchObject([
+      { entry: { comment: "rare" }, reason: "probability" },
+    ]);
+  });
+
+  it("always activates entries whose probability is null", () => {
+    const entries = [
+      entry({ comment: "unset", keys: ["a"], probability: null }),
+      entry({ comment: "card", keys: ["a"], extensions: { probability: null } }),
+    ];
+    const result = WorldBookActivation.scan(entries, "a", { random: () => 0.99 });
+    expect(active(result)).toEqual(["unset", "card"]);
+  });
+
+  it("holds delayed entries back until their turn", () => {
+    const entries = [entry({ comment: "late", keys: ["a"], delay: 3 })];
+    expect(active(scanTurn(entries, "a", 2))).toEqual([]);
+    expect(scanTurn(entries, "a", 2).skipped[0].reason).toBe("delay");
+    expect(active(scanTurn(entries, "a", 3))).toEqual(["late"]);
+  });
+
+  it("keeps sticky entries active, then cools them down", () => {
+    const entries = [
+      entry({ entry_id: "e1", comment: "e1", keys: ["a"], sticky: 2, cooldown: 1 }),
+    ];
+    const first = scanTurn(entries, "a", 1);
+    expect(first.timers).toEqual({ e1: { stickyUntil: 3, cooldownUntil: 4 } });
+
+    const second = scanTurn(entries, "nothing", 2, first.timers);
+    expect(active(second)).toEqual(["e1"]);
+    expect(second.activated[0].sticky).toBe(true);
+    expect(second.timers).toEqual(first.timers);
+
+    const third = scanTurn(entries, "nothing", 3, second.timers);
+    expect(active(third)).toEqual(["e1"]);
+
+    const fourth = scanTurn(entries, "a", 4, third.timers);
+    expect(active(fourth)).toEqual([]);
+    expect(fourth.skipped[0].reason).toBe("cooldown");
+    expect(fourth.timers).toEqual({});
+
+    expect(active(scanTurn(entries, "a", 5, fourth.timers))).toEqual(["e1"]);
+  });
+
+  it("restores a branch's timers from that branch", () => {
+    const entries = [
+      entry({ entry_id: "e1", comment: "e1", keys: ["a"], cooldown: 2 }),
+    ];
+    const fired = scanTurn(entries, "a", 1).timers;
+    expect(active(scanTurn(entries, "a", 2, fired))).toEqual([]);
+    // A sibling branch that never fired the entry has no timers
+    expect(active(scanTurn(entries, "a", 2, {}))).toEqual(["e1"]);
+  });
+});
+
+describe("WorldBookManager.getMatchingEntries", () => {
+  it("scans only the last messages of the context window", () => {
+    const book = {
+      old: entry({ comment: "old", keys: ["castle"] }),
+      recent: entry({ comment: "recent", keys: ["forest"] }),
+    };
+    const history: DialogueMessage[] = [
+      { role: "user", content: "we reach the castle", id: 0 },
+      { role: "assistant", content: "the gates open", id: 1 },
+      { role: "user", content: "into the forest", id: 2 },
+    ];
+    const active = WorldBookManager.getMatchingEntries(book, "", history, {
+      scanDepth: 2,
+    });
+    expect(active.map((e) => e.comment)).toEqual(["recent"]);
+  });
+});
+
+describe("WorldBookManager placement", () => {
+  it("reads card spec and unknown positions", () => {
+    expect(
+      WorldBookManager.resolvePosition(entry({ position: "before_char" })),
+    ).toBe(0);
+    expect(
+      WorldBookManager.resolvePosition(entry({ position: "after_char" })),
+    ).toBe(1);
+    expect(WorldBookManager.resolvePosition(entry({ position: 6 }))).toBe(6);
+    expect(WorldBookManager.resolvePosition(entry({ position: 9 }))).toBe(4);
+  });
+
+  it("takes a card entry's slot and depth from its extensions", () => {
+    const card = entry({
+      content: "card",
+      position: "after_char",
+      depth: undefined,
+      extensions: { position: 4, depth: 3, role: 1 },
+    });
+    expect(WorldBookManager.resolvePosition(card)).toBe(4);
+    expect(
+      WorldBookManager.getDepthInsertions(
+        WorldBookManager.organizeEntriesByPosition([card]),
+        (item) => item.content,
+      ),
+    ).toEqual([{ depth: 3, role: "user", content: "card" }]);
+  });
+
+  it("turns depth and author's note entries into insertions", () => {
+    const groups = WorldBookManager.organizeEntriesByPosition([
+      entry({ content: "note", position: 2 }),
+      entry({ content: "deep", position: 4, depth: 2, role: "user" }),
+      entry({
+        content: "imported",
+        position: 4,
+        depth: 0,
+        extensions: { role: 2 },
+      }),
+      entry({ content: "before", position: 0 }),
+    ]);
+    expect(
+      WorldBookManager.getDepthInsertions(groups, (item) => item.content),
+    ).toEqual([
+      { depth: 4, role: "system", content: "note" },
+      { depth: 2, role: "user", content: "deep" },
+      { depth: 0, role: "assistant", content: "imported" },
+    ]);
+  });
+
+  it("counts depth from the end of the history", () => {
+    const lines = WorldBookManager.insertAtDepth(
+      ["m1", "m2", "m3"],
+      [
+        { depth: 0, role: "system", content: "end" },
+        { depth: 1, role: "system", content: "before last" },
+        { depth: 9, role: "system", content: "top" },
+      ],
+      (insertion) => `[${insertion.content}]`,
+    );
+    expect(lines).toEqual(["[top]", "m1", "m2", "[before last]", "m3", "[end]"]);
+  });
+});
+
+describe("WorldBookManager.traceScan", () => {
+  it("records what triggered each entry and what was left out", () => {
+    const book = [
+      entry({ comment: "always", constant: true, content: "rules" }),
+      entry({ comment: "castle", keys: ["castle"], content: "a keep" }),
+      entry({ comment: "keep", keys: ["keep"], content: "stone" }),
+      entry({ comment: "off", keys: ["castle"], enabled: false }),
+    ];
+    const history: DialogueMessage[] = [
+      { role: "user", content: "we reach the castle", id: 0 },
+      { role: "assistant", content: "the gates open", id: 1 },
+    ];
+    const options = { recursive: true, turn: 2 };
+    const scan = WorldBookManager.scanEntries(book, "hello", history, options);
+    const trace = WorldBookManager.traceScan(scan, "hello", history, options);
+
+    expect(trace.activated).toMatchObject([
+      { label: "always", trigger: "constant" },
+      {
+        label: "castle",
+        trigger: "key",
+        key: "castle",
+        messageOffset: 2,
+        messageRole: "user",
+      },
+      { label: "keep", trigger: "recursion", key: "keep" },
+    ]);
+    expect(trace.activated[2].messageOffset).toBeUndefined();
+    expect(trace.skipped).toMatchObject([{ label: "off", reason: "disabled" }]);
+    expect(trace.turn).toBe(2);
+  });
+});
@@ -0,0 +1,436 @@
+import { CharacterSnapshot } from "@/lib/models/character-revision-model";
+import { WorldBookEntry } from "@/lib/models/world-book-model";
+import { estimateTokens } from "@/lib/core/token-estimate";
+
+export type LintSeverity = "error" | "warning" | "info";
+
+export type LintRule =
+  | "missingName"
+  | "emptyGreeting"
+  | "brokenMacro"
+  | "unsupportedMacro"
+  | "entryNoKeys"
+  | "duplicateKeys"
+  | "sharedKey"
+  | "emptyEntry"
+  | "largeConstantEntry"
+  | "invalidRegex";
+
+export type LintFixKind =
+  | "normalizeMacros"
+  | "removeEmptyGreetings"
+  | "cleanKeys"
+  | "disableScript";
+
+export interface LintLocation {
+  section: "card" | "worldBook" | "regex";
+  /** Card field, e.g. "description" or "alternate_greetings" */
+  field?: string;
+  /** World book entry or regex script key */
+  key?: string;
+  /** Card field name, entry comment or script name, for display */
+  label: string;
+}
+
+export interface LintIssue {
+  id: string;
+  rule: LintRule;
+  severity: LintSeverity;
+  location: LintLocation;
+  /** The offending text: a macro, a key, a regex error */
+  detail?: string;
+  tokens?: number;
+  /** Set when the issue can be fixed without changing what the card means */
+  fix?: LintFixKind;
+}
+
+export interface LintReport {
+  issues: LintIssue[];
+  tokens: {
+    /** Card fields sent with every message */
+    permanent: number;
+    /** World book entries that are always inserted */
+    constantEntries: number;
+    firstMessage: number;
+  };
+}
+
+/** Constant entries larger than this are flagged as crowding the context */
+export const LARGE_CONSTANT_ENTRY_TOKENS = 400;
+
+const PERMANENT_FIELDS = [
+  "description",
+  "personality",
+  "scenario",
+  "mes_example",
+  "system_prompt",
+  "post_history_instructions",
+];
+
+const TEXT_FIELDS = [...PERMANENT_FIELDS, "first_mes"];
+
+const GREETING_LIST_FIELDS = ["alternate_greetings", "group_only_greetings"];
+
+const SEVERITY_ORDER: Record<LintSeverity, number> = {
+  error: 0,
+  warning: 1,
+  info: 2,
+};
+
+/** `{{char}}` and `{{user}}` written with the wrong case, spacing or braces */
+const MISWRITTEN_MACRO = /\{+\s*(char|user)\s*\}+/gi;
+/** Older placeholders some cards still use */
+const LEGACY_MACRO = /<(USER|BOT|CHAR)>/g;
+const ANY_MACRO = /\{\{([^{}]*)\}\}/g;
+/**
+ * Macros the prompt builder replaces in card text: `{{original}}` stands for
+ * the preset prompt a card prompt overrides, `{{persona}}` for the user's
+ * persona
+ */
+const SUPPORTED_MACROS = new Set(["char", "user", "original", "persona"]);
+
+function canonicalMacro(name: string): string {
+  return name.toLowerCase() === "user" ? "{{user}}" : "{{char}}";
+}
+
+/**
+ * Rewrites miswritten and legacy `{{char}}`/`{{user}}` macros into the form
+ * the prompt builder replaces
+ */
+export function normalizeMacros(text: string): string {
+  return text
+    .replace(MISWRITTEN_MACRO, (_, name: string) => canonicalMacro(name))
+    .replace(LEGACY_MACRO, (_, name: string) => canonicalMacro(name));
+}
+
+function brokenMacros(text: string): string[] {
+  const found = [
+    ...[...text.matchAll(MISWRITTEN_MACRO)]
+      .map((match) => match[0])
+      .filter((macro) => macro !== "{{char}}" && macro !== "{{user}}"),
+    ...[...text.matchAll(LEGACY_MACRO)].map((match) => match[0]),
+  ];
+  return [...new Set(found)];
+}
+
+function unsupportedMacros(text: string): string[] {
+  const found = [...text.matchAll(ANY_MACRO)]
+    .filter((match) => !SUPPORTED_MACROS.has(match[1].trim().toLowerCase()))
+    .map((match) => match[0]);
+  return [...new Set(found)];
+}
+
+function cleanKeyList(keys: string[] | undefined): string[] {
+  const seen = new Set<string>();
+  const cleaned: string[] = [];
+  for (const key of keys || []) {
+    const trimmed = key.trim();
+    if (trimmed && !seen.has(trimmed.toLowerCase())) {
+      seen.add(trimmed.toLowerCase());
+      cleaned.push(trimmed);
+    }
+  }
+  return cleaned;
+}
+
+function needsKeyCleanup(keys: string[] | undefined): boolean {
+  const cleaned = cleanKeyList(keys);
+  return cleaned.length !== (keys || []).length ||
+    cleaned.some((key, i) => key !== keys![i]);
+}
+
+/**
+ * Parses a script's find pattern the way the regex processor does, returning
+ * the error message when it cannot be compiled
+ */
+function regexError(findRegex: string | undefined): string | null {
+  if (!findRegex) {
+    return "empty pattern";
+  }
+  const literal = findRegex.match(/^\/([\s\S]*)\/([a-z]*)$/);
+  try {
+    if (literal) {
+      new RegExp(literal[1], literal[2]);
+    } else {
+      new RegExp(findRegex, "g");
+    }
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+function cardFields(snapshot: CharacterSnapshot): Record<string, any> {
+  return { ...snapshot.data, ...(snapshot.data.data || {}) };
+}
+
+export class CardLinter {
+  /**
+   * Checks a card, its world book and its regex scripts
+   */
+  static lint(snapshot: CharacterSnapshot): LintReport {
+    const issues: LintIssue[] = [];
+    const add = (issue: Omit<LintIssue, "id">) =>
+      issues.push({
+        ...issue,
+        id: [
+          issue.rule,
+          issue.location.section,
+          issue.location.field || issue.location.key || "",
+          issue.detail || "",
+        ].join(":"),
+      });
+
+    const card = cardFields(snapshot);
+
+    if (!String(card.name || "").trim()) {
+      add({
+        rule: "missingName",
+        severity: "error",
+        location: { section: "card", field: "name", label: "name" },
+      });
+    }
+
+    const greetings = GREETING_LIST_FIELDS.flatMap((field) =>
+      Array.isArray(card[field]) ? card[field] : [],
+    );
+    if (!String(card.first_mes || "").trim()) {
+      add({
+        rule: "emptyGreeting",
+        severity: greetings.some((greeting) => greeting?.trim())
+          ? "warning"
+          : "error",
+        location: { section: "card", field: "first_mes", label: "first_mes" },
+      });
+    }
+    for (const field of GREETING_LIST_FIELDS) {
+      const list = card[field];
+      if (Array.isArray(list) && list.some((greeting) => !greeting?.trim())) {
+        add({
+          rule: "emptyGreeting",
+          severity: "warning",
+          location: { section: "card", field, label: field },
+          fix: "removeEmptyGreetings",
+        });
+      }
+    }
+
+    const checkMacros = (text: string, location: LintLocation) => {
+      const broken = brokenMacros(text);
+      if (broken.length > 0) {
+        add({
+          rule: "brokenMacro",
+          severity: "warning",
+          location,
+          detail: broken.join(" "),
+          fix: "normalizeMacros",
+        });
+      }
+      const unsupported = unsupportedMacros(text);
+      if (unsupported.length > 0) {
+        add({
+          rule: "unsupportedMacro",
+          severity: "info",
+          location,
+          detail: unsupported.join(" "),
+        });
+      }
+    };
+
+    for (const field of [...TEXT_FIELDS, ...GREETING_LIST_FIELDS]) {
+      const value = card[field];
+      const text = Array.isArray(value) ? value.join("\n") : value;
+      if (typeof text === "string" && text) {
+        checkMacros(text, { section: "card", field, label: field });
+      }
+    }
+
+    const entries = Object.entries(snapshot.worldBook?.entries || {});
+    let constantEntries = 0;
+    const keyOwners = new Map<string, string[]>();
+
+    for (const [key, entry] of entries) {
+      if (entry.enabled === false) {
+        continue;
+      }
+      const location: LintLocation = {
+        section: "worldBook",
+        key,
+        label: entry.comment || key,
+      };
+      const tokens = estimateTokens(entry.content);
+
+      if (!entry.content?.trim()) {
+        add({ rule: "emptyEntry", severity: "warning", location });
+      }
+      if (entry.constant) {
+        constantEntries += tokens;
+        if (tokens > LARGE_CONSTANT_ENTRY_TOKENS) {
+          add({
+            rule: "largeConstantEntry",
+            severity: "warning",
+            location,
+            tokens,
+          });
+        }
+      } else if (cleanKeyList(entry.keys).length === 0) {
+        add({ rule: "entryNoKeys", severity: "warning", location, tokens });
+      }
+
+      if (
+        needsKeyCleanup(entry.keys) ||
+        needsKeyCleanup(entry.secondary_keys)
+      ) {
+        add({
+          rule: "duplicateKeys",
+          severity: "warning",
+          location,
+          fix: "cleanKeys",
+        });
+      }
+
+      for (const entryKey of cleanKeyList(entry.keys)) {
+        const owners = keyOwners.get(entryKey.toLowerCase()) || [];
+        keyOwners.set(entryKey.toLowerCase(), [...owners, key]);
+      }
+
+      if (entry.content) {
+        checkMacros(entry.content, location);
+      }
+    }
+
+    keyOwners.forEach((owners, entryKey) => {
+      if (owners.length > 1) {
+        add({
+          rule: "sharedKey",
+          severity: "info",
+          location: {
+            section: "worldBook",
+            key: owners[0],
+            label: owners
+              .map((owner) => snapshot.worldBook?.entries[owner]?.comment || owner)
+              .join(", "),
+          },
+          detail: entryKey,
+        });
+      }
+    });
+
+    for (const [key, script] of Object.entries(
+      snapshot.regexScripts?.scripts || {},
+    )) {
+      if (script.disabled) {
+        continue;
+      }
+      const error = regexError(script.findRegex);
+      if (error) {
+        add({
+          rule: "invalidRegex",
+          severity: "error",
+          location: {
+            section: "regex",
+            key,
+            label: script.scriptName || key,
+          },
+          detail: error,
+          fix: "disableScript",
+        });
+      }
+    }
+
+    issues.sort(
+      (a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity],
+    );
+
+    return {
+      issues,
+      tokens: {
+        permanent: PERMANENT_FIELDS.reduce(
+          (sum, field) =>
+            sum + estimateTokens(typeof card[field] === "string" ? card[field] : ""),
+          0,
+        ),
+        constantEntries,
+        firstMessage: estimateTokens(card.first_mes),
+      },
+    };
+  }
+
+  /**
+   * Applies the safe fixes of the given issues to a copy of the snapshot
+   */
+  static applyFixes(
+    snapshot: CharacterSnapshot,
+    issues: LintIssue[],
+  ): CharacterSnapshot {
+    const fixed: CharacterSnapshot = JSON.parse(JSON.stringify(snapshot));
+
+    for (const issue of issues) {
+      const { section, field, key } = issue.location;
+      switch (issue.fix) {
+      case "normalizeMacros":
+        if (section === "card" && field) {
+          this.updateCardField(fixed, field, (value) =>
+            Array.isArray(value)
+              ? value.map((item) =>
+                typeof item === "string" ? normalizeMacros(item) : item,
+              )
+              : typeof value === "string"
+                ? normalizeMacros(value)
+                : value,
+          );
+        } else if (section === "worldBook" && key) {
+          const entry = fixed.worldBook?.entries[key];
+          if (entry?.content) {
+            entry.content = normalizeMacros(entry.content);
+          }
+        }
+        break;
+      case "removeEmptyGreetings":
+        if (field) {
+          this.updateCardField(fixed, field, (value) =>
+            Array.isArray(value)
+              ? value.filter((greeting) => greeting?.trim())
+              : value,
+          );
+        }
+        break;
+      case "cleanKeys":
+        if (key && fixed.worldBook?.entries[key]) {
+          const entry: WorldBookEntry = fixed.worldBook.entries[key];
+          entry.keys = cleanKeyList(entry.keys);
+          if (entry.secondary_keys) {
+            entry.secondary_keys = cleanKeyList(entry.secondary_keys);
+          }
+        }
+        break;
+      case "disableScript":
+        if (key && fixed.regexScripts?.scripts[key]) {
+          fixed.regexScripts.scripts[key].disabled = true;
+        }
+        break;
+      }
+    }
+
+    return fixed;
+  }
+
+  /**
+   * Rewrites a card field where it is stored: inside `data` and, for older
+   * cards, at the top level as well
+   */
+  private static updateCardField(
+    snapshot: CharacterSnapshot,
+    field: string,
+    update: (value: any) => any,
+  ): void {
+    const legacy = snapshot.data as Record<string, any>;
+    const card = snapshot.data.data as Record<string, any> | undefined;
+    if (card && field in card) {
+      card[field] = update(card[field]);
+    }
+    if (field in legacy && field !== "data") {
+      legacy[field] = update(legacy[field]);
+    }
+  }
+}
@@ -0,0 +1,234 @@
+import { CharacterRecord } from "@/lib/data/roleplay/character-record-operation";
+import {
+  WorldBookEntry,
+  WORLD_BOOK_ROLES,
+} from "@/lib/models/world-book-model";
+import { RegexScript } from "@/lib/models/regex-script-model";
+import { CharacterAsset } from "@/lib/models/character-model";
+
+/**
+ * Lorebook entry in the Character Card V2/V3 layout. SillyTavern-specific
+ * settings (numeric position, depth, ...) travel in `extensions`.
+ */
+export interface CharacterBookEntry {
+  id: number;
+  keys: string[];
+  secondary_keys: string[];
+  comment: string;
+  content: string;
+  constant: boolean;
+  selective: boolean;
+  insertion_order: number;
+  enabled: boolean;
+  position: "before_char" | "after_char";
+  use_regex?: boolean;
+  extensions: Record<string, any>;
+}
+
+export interface CharacterBook {
+  name?: string;
+  entries: CharacterBookEntry[];
+  extensions: Record<string, any>;
+  [key: string]: any;
+}
+
+export interface CharacterCardData {
+  name: string;
+  description: string;
+  personality: string;
+  scenario: string;
+  first_mes: string;
+  mes_example: string;
+  creator_notes: string;
+  system_prompt: string;
+  post_history_instructions: string;
+  alternate_greetings: string[];
+  character_book?: CharacterBook;
+  tags: string[];
+  creator: string;
+  character_version: string;
+  extensions: Record<string, any>;
+  [key: string]: any;
+}
+
+export interface CharacterCardV2 {
+  spec: "chara_card_v2";
+  spec_version: "2.0";
+  data: CharacterCardData;
+  [key: string]: any;
+}
+
+export interface CharacterCardV3 {
+  spec: "chara_card_v3";
+  spec_version: "3.0";
+  data: CharacterCardData & {
+    group_only_greetings: string[];
+    nickname?: string;
+    creator_notes_multilingual?: Record<string, string>;
+    assets?: CharacterAsset[];
+    source?: string[];
+  };
+}
+
+// Fields only defined by V3; left out of the V2 card
+const V3_ONLY_FIELDS = [
+  "nickname",
+  "creator_notes_multilingual",
+  "source",
+  "group_only_greetings",
+  "creation_date",
+  "modification_date",
+  "assets",
+];
+
+// Top-level copies of the main fields for readers that only know V1 cards
+const V1_FIELDS = [
+  "name",
+  "description",
+  "personality",
+  "scenario",
+  "first_mes",
+  "mes_example",
+];
+
+export class CharacterCardBuilder {
+  /**
+   * Builds V2 and V3 cards from a stored character, embedding the given world
+   * book as `character_book` and the regex scripts as
+   * `extensions.regex_scripts`.
+   */
+  static build(
+    record: CharacterRecord,
+    worldBook: Record<string, WorldBookEntry> | null,
+    regexScripts: Record<string, RegexScript> | null,
+  ): { v2: CharacterCardV2; v3: CharacterCardV3 } {
+    const raw: Record<string, any> = record.data || {};
+    const source: Record<string, any> = raw.data || {};
+    const pick = (field: string): string => source[field] ?? raw[field] ?? "";
+
+    const data: CharacterCardData = {
+      ...source,
+      name: pick("name"),
+      description: pick("description"),
+      personality: pick("personality"),
+      scenario: pick("scenario"),
+      first_mes: pick("first_mes"),
+      mes_example: pick("mes_example"),
+      creator_notes: source.creator_notes || raw.creatorcomment || "",
+      system_prompt: source.system_prompt || "",
+      post_history_instructions: source.post_history_instructions || "",
+      alternate_greetings: source.alternate_greetings || [],
+      tags: source.tags || [],
+      creator: source.creator || "",
+      character_version: source.character_version || "",
+      extensions: {
+        ...(source.extensions || {}),
+        regex_scripts: Object.values(regexScripts || {}),
+      },
+    };
+
+    const entries = Object.values(worldBook || {});
+    if (entries.length > 0) {
+      data.character_book = this.buildCharacterBook(
+        source.character_book,
+        entries,
+      );
+    } else {
+      delete data.character_book;
+    }
+
+    const v2Data = { ...data };
+    V3_ONLY_FIELDS.forEach((field) => delete v2Data[field]);
+
+    const v2: CharacterCardV2 = {
+      spec: "chara_card_v2",
+      spec_version: "2.0",
+      data: v2Data,
+    };
+    V1_FIELDS.forEach((field) => {
+      v2[field] = data[field];
+    });
+
+    const v3: CharacterCardV3 = {
+      spec: "chara_card_v3",
+      spec_version: "3.0",
+      data: {
+        ...data,
+        group_only_greetings: source.group_only_greetings || [],
+        modification_date: Math.floor(Date.now() / 1000),
+      },
+    };
+
+    return { v2, v3 };
+  }
+
+  static buildCharacterBook(
+    original: Record<string, any> | undefined,
+    entries: WorldBookEntry[],
+  ): CharacterBook {
+    const { entries: _originalEntries, ...settings } = original || {};
+    return {
+      ...settings,
+      extensions: settings.extensions || {},
+      entries: entries.map((entry, index) =>
+        this.toCharacterBookEntry(entry, index),
+      ),
+    };
+  }
+
+  static toCharacterBookEntry(
+    entry: WorldBookEntry,
+    index: number,
+  ): CharacterBookEntry {
+    const position =
+      typeof entry.position === "number"
+        ? entry.position
+        : (entry.extensions?.position ?? 4);
+    const depth = entry.depth ?? entry.extensions?.depth ?? 4;
+
+    return {
+      id: index,
+      keys: entry.keys || [],
+      secondary_keys: entry.secondary_keys || [],
+      comment: entry.comment || "",
+      content: entry.content || "",
+      constant: !!entry.constant,
+      selective: !!entry.selective,
+      insertion_order: entry.insertion_order ?? 100,
+      enabled: entry.enabled !== false,
+      // The spec only knows before/after the character definition
+      position: position === 0 ? "before_char" : "after_char",
+      ...(entry.use_regex !== undefined && { use_regex: entry.use_regex }),
+      extensions: {
+        ...(entry.extensions || {}),
+        position,
+        depth,
+        ...(entry.selective_logic !== undefined && {
+          selectiveLogic: entry.selective_logic,
+        }),
+        ...(typeof entry.match_whole_words === "boolean" && {
+          match_whole_words: entry.match_whole_words,
+        }),
+        ...(typeof entry.case_sensitive === "boolean" && {
+          case_sensitive: entry.case_sensitive,
+        }),
+        ...(entry.prevent_recursion !== undefined && {
+          prevent_recursion: entry.prevent_recursion,
+        }),
+        ...(entry.exclude_recursion !== undefined && {
+          exclude_recursion: entry.exclude_recursion,
+        }),
+        ...(entry.role && { role: WORLD_BOOK_ROLES.indexOf(entry.role) }),
+        ...(entry.probability !== undefined && {
+          probability: entry.probability,
+        }),
+        ...(entry.use_probability !== undefined && {
+          useProbability: entry.use_probability,
+        }),
+        ...(entry.sticky && { sticky: entry.sticky }),
+        ...(entry.cooldown && { cooldown: entry.cooldown }),
+        ...(entry.delay && { delay: entry.delay }),
+      },
+    };
+  }
+}
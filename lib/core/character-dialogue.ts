@@ -47,9 +47,9 @@ export class CharacterDialogue {
     }
   }
 
-  async getFirstMessage(): Promise<string[]> {
-    const firstMessage = await this.character.getFirstMessage();
-    return firstMessage;
+  async getGreetings(): Promise<string[]> {
+    const greetings = await this.character.getGreetings();
+    return greetings;
   }
 
   setupLLM(options?: DialogueOptions): void {
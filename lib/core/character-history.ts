@@ -4,25 +4,39 @@ export class DialogueStory {
   language: string;
   userInput: string[];
   responses: string[];
+  /** Who said each response; a group chat labels lines with member names */
+  speakers: string[];
 
   constructor(
     language: string,
     userInput: string[] | null = null,
     responses: string[] | null = null,
+    speakers: string[] | null = null,
   ) {
     this.language = language;
     this.userInput = userInput || [];
     this.responses = responses || [];
+    this.speakers = speakers || [];
   }
 
   getStory(
     startIndex: number | null = null,
     endIndex: number | null = null,
   ): string {
+    return this.getMessageLines(startIndex, endIndex).join("\n").trim();
+  }
+
+  /**
+   * One labelled line per message, user input before the response it got
+   */
+  getMessageLines(
+    startIndex: number | null = null,
+    endIndex: number | null = null,
+  ): string[] {
     if (startIndex === null) startIndex = 0;
     if (endIndex === null) endIndex = this.responses.length;
 
-    let result = "";
+    const lines: string[] = [];
     const userLabel = "User";
     const assistantLabel = "Character";
 
@@ -30,11 +44,13 @@ export class DialogueStory {
       const userInput = this.userInput[i];
       const response = this.responses[i];
 
-      if (userInput) result += `${userLabel}: ${userInput}\n`;
-      if (response) result += `${assistantLabel}: ${response}\n`;
+      if (userInput) lines.push(`${userLabel}: ${userInput}`);
+      if (response) {
+        lines.push(`${this.speakers[i] || assistantLabel}: ${response}`);
+      }
     }
 
-    return result.trim();
+    return lines;
   }
 }
 
@@ -0,0 +1,251 @@
+/**
+ * What the library knows about a character beyond its card text, gathered
+ * once per load so that searching and filtering stay in memory.
+ */
+export interface LibraryEntry {
+  id: string;
+  name: string;
+  description: string;
+  creator: string;
+  tags: string[];
+  hasWorldBook: boolean;
+  hasRegex: boolean;
+  /** Empty when the character was never chatted with */
+  lastChattedAt: string;
+  messageCount: number;
+  created_at: string;
+  updated_at: string;
+  collectionIds: string[];
+}
+
+export type LastChattedFilter = "any" | "never" | "week" | "month";
+
+export interface LibraryFilters {
+  query: string;
+  /** Every tag listed must be on the card */
+  tags: string[];
+  creator: string;
+  hasWorldBook: boolean;
+  hasRegex: boolean;
+  lastChatted: LastChattedFilter;
+  minMessages: number;
+  /** Empty for the whole library */
+  collectionId: string;
+}
+
+export type LibrarySort =
+  | "newest"
+  | "oldest"
+  | "name"
+  | "lastChatted"
+  | "mostMessages"
+  | "recentlyUpdated";
+
+export const LIBRARY_SORTS: LibrarySort[] = [
+  "newest",
+  "oldest",
+  "name",
+  "lastChatted",
+  "mostMessages",
+  "recentlyUpdated",
+];
+
+export const DEFAULT_LIBRARY_FILTERS: LibraryFilters = {
+  query: "",
+  tags: [],
+  creator: "",
+  hasWorldBook: false,
+  hasRegex: false,
+  lastChatted: "any",
+  minMessages: 0,
+  collectionId: "",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Lowercased words of a text. Runs of CJK characters have no spaces to split
+ * on, so each of their characters counts as a word of its own.
+ */
+function tokenize(text: string): string[] {
+  const spaced = text.toLowerCase().replace(/\p{Script=Han}/gu, " $& ");
+  return spaced.match(/[\p{L}\p{N}_'-]+/gu) || [];
+}
+
+/**
+ * Word index over the searchable fields of the library. A query matches a
+ * character when each of its words starts some word in the name,
+ * description, creator or tags.
+ */
+export class CharacterLibraryIndex {
+  private entries: LibraryEntry[];
+  private postings = new Map<string, Set<string>>();
+  private sortedTokens: string[];
+
+  constructor(entries: LibraryEntry[]) {
+    this.entries = entries;
+    for (const entry of entries) {
+      const fields = [entry.name, entry.description, entry.creator];
+      const text = [...fields, ...entry.tags].join(" ");
+      for (const token of tokenize(text)) {
+        if (!this.postings.has(token)) {
+          this.postings.set(token, new Set());
+        }
+        this.postings.get(token)!.add(entry.id);
+      }
+    }
+    this.sortedTokens = [...this.postings.keys()].sort();
+  }
+
+  /**
+   * Every tag in the library with how many cards carry it, most used first
+   */
+  get tags(): { tag: string; count: number }[] {
+    const counts = new Map<string, number>();
+    for (const entry of this.entries) {
+      for (const tag of entry.tags) {
+        counts.set(tag, (counts.get(tag) || 0) + 1);
+      }
+    }
+    return [...counts.entries()]
+      .map(([tag, count]) => ({ tag, count }))
+      .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+  }
+
+  get creators(): string[] {
+    const creators = new Set(
+      this.entries.map((entry) => entry.creator).filter(Boolean),
+    );
+    return [...creators].sort((a, b) => a.localeCompare(b));
+  }
+
+  /**
+   * Ids of the characters that pass the filters, in the requested order
+   */
+  query(
+    filters: LibraryFilters,
+    sort: LibrarySort,
+    now: number = Date.now(),
+  ): string[] {
+    const matches = this.search(filters.query);
+    return this.entries
+      .filter(
+        (entry) =>
+          (!matches || matches.has(entry.id)) &&
+          this.passesFilters(entry, filters, now),
+      )
+      .sort(this.comparator(sort))
+      .map((entry) => entry.id);
+  }
+
+  /**
+   * Ids matching every word of the query, or null when there is nothing to
+   * search for
+   */
+  private search(query: string): Set<string> | null {
+    const words = tokenize(query);
+    if (words.length === 0) {
+      return null;
+    }
+
+    let result = this.idsWithPrefix(words[0]);
+    for (const word of words.slice(1)) {
+      if (result.size === 0) {
+        break;
+      }
+      const ids = this.idsWithPrefix(word);
+      result = new Set([...result].filter((id) => ids.has(id)));
+    }
+    return result;
+  }
+
+  private idsWithPrefix(prefix: string): Set<string> {
+    const ids = new Set<string>();
+    let low = 0;
+    let high = this.sortedTokens.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (this.sortedTokens[mid] < prefix) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    for (
+      let i = low;
+      i < this.sortedTokens.length && this.sortedTokens[i].startsWith(prefix);
+      i++
+    ) {
+      this.postings.get(this.sortedTokens[i])!.forEach((id) => ids.add(id));
+    }
+    return ids;
+  }
+
+  private passesFilters(
+    entry: LibraryEntry,
+    filters: LibraryFilters,
+    now: number,
+  ): boolean {
+    if (filters.tags.some((tag) => !entry.tags.includes(tag))) {
+      return false;
+    }
+    if (filters.creator && entry.creator !== filters.creator) {
+      return false;
+    }
+    if (filters.hasWorldBook && !entry.hasWorldBook) {
+      return false;
+    }
+    if (filters.hasRegex && !entry.hasRegex) {
+      return false;
+    }
+    if (entry.messageCount < filters.minMessages) {
+      return false;
+    }
+    if (
+      filters.collectionId &&
+      !entry.collectionIds.includes(filters.collectionId)
+    ) {
+      return false;
+    }
+
+    const chattedAt = entry.lastChattedAt
+      ? new Date(entry.lastChattedAt).getTime()
+      : 0;
+    switch (filters.lastChatted) {
+    case "never":
+      return !chattedAt;
+    case "week":
+      return chattedAt > 0 && now - chattedAt <= 7 * DAY_MS;
+    case "month":
+      return chattedAt > 0 && now - chattedAt <= 30 * DAY_MS;
+    default:
+      return true;
+    }
+  }
+
+  private comparator(
+    sort: LibrarySort,
+  ): (a: LibraryEntry, b: LibraryEntry) => number {
+    switch (sort) {
+    case "oldest":
+      return (a, b) => a.created_at.localeCompare(b.created_at);
+    case "name":
+      return (a, b) => a.name.localeCompare(b.name);
+    case "lastChatted":
+      return (a, b) =>
+        b.lastChattedAt.localeCompare(a.lastChattedAt) ||
+          b.created_at.localeCompare(a.created_at);
+    case "mostMessages":
+      return (a, b) =>
+        b.messageCount - a.messageCount ||
+          b.created_at.localeCompare(a.created_at);
+    case "recentlyUpdated":
+      return (a, b) =>
+        (b.updated_at || b.created_at).localeCompare(
+          a.updated_at || a.created_at,
+        );
+    default:
+      return (a, b) => b.created_at.localeCompare(a.created_at);
+    }
+  }
+}
@@ -0,0 +1,142 @@
+import { CharacterSnapshot } from "@/lib/models/character-revision-model";
+
+export type RevisionSection = "card" | "worldBook" | "regex";
+
+export interface RevisionFieldChange {
+  /** Stable key of the field, e.g. "card.description" or "worldBook.entry_3" */
+  key: string;
+  section: RevisionSection;
+  /** Card field name, world book entry comment or regex script name */
+  label: string;
+  /** Empty when the field did not exist before */
+  before: string;
+  /** Empty when the field was removed */
+  after: string;
+}
+
+/**
+ * Card fields compared between revisions, in the order they are shown
+ */
+const CARD_FIELDS = [
+  "name",
+  "nickname",
+  "description",
+  "personality",
+  "scenario",
+  "first_mes",
+  "alternate_greetings",
+  "group_only_greetings",
+  "mes_example",
+  "system_prompt",
+  "post_history_instructions",
+  "creator_notes",
+  "creator",
+  "character_version",
+  "tags",
+] as const;
+
+interface FlatField {
+  section: RevisionSection;
+  label: string;
+  value: string;
+}
+
+function stringify(value: unknown): string {
+  if (value === undefined || value === null) {
+    return "";
+  }
+  if (typeof value === "string") {
+    return value;
+  }
+  if (Array.isArray(value) && value.every((item) => typeof item === "string")) {
+    return value.join("\n");
+  }
+  return JSON.stringify(value, null, 2);
+}
+
+/**
+ * Every comparable field of a snapshot, keyed so the same field lines up
+ * across revisions
+ */
+function flatten(snapshot: CharacterSnapshot | null): Map<string, FlatField> {
+  const fields = new Map<string, FlatField>();
+  if (!snapshot) {
+    return fields;
+  }
+
+  const card: Record<string, any> = snapshot.data.data || {};
+  const legacy: Record<string, any> = snapshot.data;
+  for (const field of CARD_FIELDS) {
+    const value = stringify(
+      card[field] ?? legacy[field === "creator_notes" ? "creatorcomment" : field],
+    );
+    if (value) {
+      fields.set(`card.${field}`, { section: "card", label: field, value });
+    }
+  }
+
+  const worldBook = snapshot.worldBook;
+  for (const [key, entry] of Object.entries(worldBook?.entries || {})) {
+    fields.set(`worldBook.${key}`, {
+      section: "worldBook",
+      label: entry.comment || key,
+      value: stringify(entry),
+    });
+  }
+  if (worldBook?.settings) {
+    fields.set("worldBook.settings", {
+      section: "worldBook",
+      label: "settings",
+      value: stringify(worldBook.settings),
+    });
+  }
+
+  const regexScripts = snapshot.regexScripts;
+  for (const [key, script] of Object.entries(regexScripts?.scripts || {})) {
+    fields.set(`regex.${key}`, {
+      section: "regex",
+      label: script.scriptName || key,
+      value: stringify(script),
+    });
+  }
+  if (regexScripts?.settings) {
+    fields.set("regex.settings", {
+      section: "regex",
+      label: "settings",
+      value: stringify(regexScripts.settings),
+    });
+  }
+
+  return fields;
+}
+
+/**
+ * Fields that differ between two snapshots. Pass null as `before` to list
+ * everything in `after` as added.
+ */
+export function diffSnapshots(
+  before: CharacterSnapshot | null,
+  after: CharacterSnapshot | null,
+): RevisionFieldChange[] {
+  const beforeFields = flatten(before);
+  const afterFields = flatten(after);
+  const keys = new Set([...beforeFields.keys(), ...afterFields.keys()]);
+
+  const changes: RevisionFieldChange[] = [];
+  for (const key of keys) {
+    const previous = beforeFields.get(key);
+    const next = afterFields.get(key);
+    if (previous?.value === next?.value) {
+      continue;
+    }
+    const field = (next || previous)!;
+    changes.push({
+      key,
+      section: field.section,
+      label: field.label,
+      before: previous?.value || "",
+      after: next?.value || "",
+    });
+  }
+  return changes;
+}
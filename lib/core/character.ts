@@ -1,5 +1,8 @@
 import { CharacterRecord } from "@/lib/data/roleplay/character-record-operation";
-import { WorldBookEntry } from "@/lib/models/world-book-model";
+import {
+  WorldBookEntry,
+  WorldBookSettings,
+} from "@/lib/models/world-book-model";
 import { CharacterData } from "@/lib/models/character-model";
 import { adaptCharacterData } from "@/lib/adapter/tagReplacer";
 
@@ -7,6 +10,7 @@ export class Character {
   id: string;
   characterData: CharacterData;
   worldBook: WorldBookEntry[] | Record<string, WorldBookEntry>;
+  worldBookSettings: WorldBookSettings;
   imagePath: string;
 
   constructor(characterRecord: CharacterRecord) {
@@ -49,10 +53,39 @@ export class Character {
       avatar: characterRecord.data.avatar || "",
       creator_notes: characterRecord.data.data?.creator_notes || "",
       alternate_greetings: characterRecord.data.data?.alternate_greetings || [],
+      system_prompt: characterRecord.data.data?.system_prompt || "",
+      post_history_instructions:
+        characterRecord.data.data?.post_history_instructions || "",
+      nickname: characterRecord.data.data?.nickname || undefined,
+      group_only_greetings:
+        characterRecord.data.data?.group_only_greetings || [],
+      creator_notes_multilingual:
+        characterRecord.data.data?.creator_notes_multilingual,
+      assets: characterRecord.data.data?.assets,
+      source: characterRecord.data.data?.source,
     };
     this.worldBook = this.processCharacterBook(
       characterRecord.data.data?.character_book,
     );
+    this.worldBookSettings = this.processBookSettings(
+      characterRecord.data.data?.character_book,
+    );
+  }
+
+  private processBookSettings(characterBook: any): WorldBookSettings {
+    if (!characterBook) return {};
+
+    return {
+      ...(typeof characterBook.scan_depth === "number" && {
+        scan_depth: characterBook.scan_depth,
+      }),
+      ...(typeof characterBook.token_budget === "number" && {
+        token_budget: characterBook.token_budget,
+      }),
+      ...(typeof characterBook.recursive_scanning === "boolean" && {
+        recursive_scanning: characterBook.recursive_scanning,
+      }),
+    };
   }
 
   private processCharacterBook(
@@ -63,9 +96,10 @@ export class Character {
     if (characterBook.entries) {
       if (Array.isArray(characterBook.entries)) {
         return characterBook.entries.map((entry: any, index: number) => ({
+          entry_id: `entry_${entry.id ?? index}`,
           comment: entry.comment || "",
           content: entry.content || "",
-          enabled: entry.enabled || true,
+          enabled: entry.enabled !== false,
           position: (entry.extensions &&
           typeof entry.extensions.position !== "undefined"
             ? entry.extensions.position
@@ -74,6 +108,11 @@ export class Character {
               : 0) as 0 | 1 | 2 | 3 | 4,
           constant: entry.constant || false,
           keys: entry.keys || [],
+          secondary_keys: entry.secondary_keys || [],
+          selective: entry.selective || false,
+          use_regex: entry.use_regex || false,
+          case_sensitive: entry.case_sensitive,
+          extensions: entry.extensions,
           insertion_order:
             typeof entry.insertion_order !== "undefined"
               ? entry.insertion_order
@@ -86,38 +125,69 @@ export class Character {
               : 0,
         }));
       } else {
-        return characterBook.entries;
+        const entries: Record<string, WorldBookEntry> = characterBook.entries;
+        return Object.fromEntries(
+          Object.entries(entries).map(([key, entry]) => [
+            key,
+            { entry_id: key, ...entry },
+          ]),
+        );
       }
     }
 
     return [];
   }
 
-  async getFirstMessage(): Promise<string[]> {
-    if (
-      this.characterData.alternate_greetings &&
-      Array.isArray(this.characterData.alternate_greetings) &&
-      this.characterData.alternate_greetings.length > 0
-    ) {
-      return this.characterData.alternate_greetings;
-    } else {
-      const rawMessage =
-        this.characterData.first_mes ||
-        `你好，我是${this.characterData.name}。`;
-      return [rawMessage];
-    }
+  /**
+   * Every opening the card offers: `first_mes` first, then the alternate
+   * greetings in card order
+   */
+  async getGreetings(): Promise<string[]> {
+    const firstMessage =
+      this.characterData.first_mes || `你好，我是${this.characterData.name}。`;
+    const alternateGreetings = Array.isArray(
+      this.characterData.alternate_greetings,
+    )
+      ? this.characterData.alternate_greetings.filter(Boolean)
+      : [];
+    return [firstMessage, ...alternateGreetings];
   }
 
-  getData(language: "en" | "zh" = "zh", username?: string): CharacterData {
-    return adaptCharacterData(this.characterData, language, username);
+  /**
+   * Openings for a group chat: the card's own greetings followed by the ones
+   * it reserves for groups
+   */
+  async getGroupGreetings(): Promise<string[]> {
+    const groupOnlyGreetings = Array.isArray(
+      this.characterData.group_only_greetings,
+    )
+      ? this.characterData.group_only_greetings.filter(Boolean)
+      : [];
+    return [...(await this.getGreetings()), ...groupOnlyGreetings];
   }
 
-  getSystemPrompt(language: "en" | "zh" = "zh", username?: string): string {
-    const processedData = adaptCharacterData(
-      this.characterData,
+  /**
+   * Creator notes in the UI language when the card has a translation for
+   * it, otherwise the card's default notes
+   */
+  getCreatorNotes(language: "en" | "zh" = "zh"): string {
+    return (
+      this.characterData.creator_notes_multilingual?.[language] ||
+      this.characterData.creator_notes ||
+      ""
+    );
+  }
+
+  getData(language: "en" | "zh" = "zh", username?: string): CharacterData {
+    return adaptCharacterData(
+      { ...this.characterData, creator_notes: this.getCreatorNotes(language) },
       language,
       username,
     );
+  }
+
+  getSystemPrompt(language: "en" | "zh" = "zh", username?: string): string {
+    const processedData = this.getData(language, username);
     let prompt = "";
 
     if (language === "zh") {
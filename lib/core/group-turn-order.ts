@@ -0,0 +1,87 @@
+import { GroupTurnMode } from "@/lib/models/group-model";
+
+export interface GroupSpeaker {
+  id: string;
+  name: string;
+}
+
+export interface PickSpeakerOptions {
+  turnMode: GroupTurnMode;
+  /** Member who gave the last reply on the current branch */
+  lastSpeakerId?: string;
+  /** What the user just sent, if anything */
+  userInput?: string;
+  /** The last reply on the current branch */
+  lastResponse?: string;
+  /** Member the user asked to answer; wins in every mode */
+  requestedSpeakerId?: string;
+}
+
+export class GroupTurnOrder {
+  /**
+   * Chooses which member answers next. Members are given in turn order.
+   */
+  static pickSpeaker(
+    members: GroupSpeaker[],
+    options: PickSpeakerOptions,
+  ): string | null {
+    if (members.length === 0) {
+      return null;
+    }
+
+    const { turnMode, lastSpeakerId, userInput, lastResponse } = options;
+    const requested = members.find(
+      (member) => member.id === options.requestedSpeakerId,
+    );
+    if (requested) {
+      return requested.id;
+    }
+
+    if (turnMode === "mention") {
+      const mentioned =
+        this.firstMentioned(members, userInput) ||
+        this.firstMentioned(
+          members.filter((member) => member.id !== lastSpeakerId),
+          lastResponse,
+        );
+      if (mentioned) {
+        return mentioned.id;
+      }
+    }
+
+    return this.nextInTurn(members, lastSpeakerId).id;
+  }
+
+  private static nextInTurn(
+    members: GroupSpeaker[],
+    lastSpeakerId?: string,
+  ): GroupSpeaker {
+    const lastIndex = members.findIndex((member) => member.id === lastSpeakerId);
+    return members[(lastIndex + 1) % members.length];
+  }
+
+  /**
+   * The member whose name appears earliest in the text
+   */
+  private static firstMentioned(
+    members: GroupSpeaker[],
+    text?: string,
+  ): GroupSpeaker | null {
+    if (!text) {
+      return null;
+    }
+
+    const haystack = text.toLowerCase();
+    let first: GroupSpeaker | null = null;
+    let firstIndex = Infinity;
+    for (const member of members) {
+      const name = member.name.trim().toLowerCase();
+      const index = name ? haystack.indexOf(name) : -1;
+      if (index >= 0 && index < firstIndex) {
+        first = member;
+        firstIndex = index;
+      }
+    }
+    return first;
+  }
+}
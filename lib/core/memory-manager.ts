@@ -15,6 +15,7 @@ import { RecursiveCharacterTextSplitter } from "langchain/text_splitter";
 
 export interface RAGGenerationOptions {
   characterId: string;
+  dialogueId?: string; // Limit retrieval to one of the character's chats
   currentUserInput: string;
   conversationContext?: string;
   maxMemories?: number;
@@ -62,6 +63,7 @@ export class MemoryManager {
     metadata: any = {},
     tags: string[] = [],
     importance: number = 0.5,
+    dialogueId?: string,
   ): Promise<MemoryEntry> {
     // Create the memory entry
     const memoryEntry = await LocalMemoryOperations.createMemoryEntry(
@@ -71,6 +73,7 @@ export class MemoryManager {
       metadata,
       tags,
       importance,
+      dialogueId,
     );
 
     // Generate and store embedding
@@ -97,6 +100,7 @@ export class MemoryManager {
       similarityThreshold?: number;
       includeTypes?: MemoryType[];
       excludeRecent?: boolean; // Exclude very recent memories
+      dialogueId?: string; // Only search memories from this chat
     } = {},
   ): Promise<MemorySearchResult[]> {
     const {
@@ -104,6 +108,7 @@ export class MemoryManager {
       similarityThreshold = 0.7,
       includeTypes,
       excludeRecent = false,
+      dialogueId,
     } = options;
 
     try {
@@ -114,7 +119,10 @@ export class MemoryManager {
       const characterEmbeddings =
         await LocalMemoryOperations.getEmbeddingsByCharacter(characterId);
       const characterMemories =
-        await LocalMemoryOperations.getMemoryEntriesByCharacter(characterId);
+        await LocalMemoryOperations.getMemoryEntriesByCharacter(
+          characterId,
+          dialogueId,
+        );
 
       // Calculate similarities
       const similarities: Array<{
@@ -192,7 +200,7 @@ export class MemoryManager {
     } catch (error) {
       console.error("Semantic search failed:", error);
       // Fallback to text search
-      return this.fallbackTextSearch(characterId, query, topK);
+      return this.fallbackTextSearch(characterId, query, topK, dialogueId);
     }
   }
 
@@ -207,6 +215,7 @@ export class MemoryManager {
       similarityThreshold?: number;
       includeTypes?: MemoryType[];
       alpha?: number; // Balance between semantic (0) and keyword (1) search
+      dialogueId?: string; // Only search memories from this chat
     } = {},
   ): Promise<MemorySearchResult[]> {
     const {
@@ -214,6 +223,7 @@ export class MemoryManager {
       similarityThreshold = 0.6,
       includeTypes,
       alpha = 0.7, // Favor semantic search
+      dialogueId,
     } = options;
 
     // Get semantic search results
@@ -221,12 +231,14 @@ export class MemoryManager {
       topK: topK * 2, // Get more results to combine
       similarityThreshold: similarityThreshold * 0.8, // Lower threshold for combination
       includeTypes,
+      dialogueId,
     });
 
     // Get keyword search results
     const keywordResults = await this.keywordSearch(characterId, query, {
       topK: topK * 2,
       includeTypes,
+      dialogueId,
     });
 
     // Combine and rerank results
@@ -247,6 +259,7 @@ export class MemoryManager {
     userMessage: string,
     assistantMessage: string,
     context?: string,
+    dialogueId?: string,
   ): Promise<MemoryExtractionResult> {
     const llm = new ChatOpenAI({
       apiKey: this.apiKey,
@@ -341,6 +354,7 @@ Extract important memories from this conversation:`,
             },
             memoryData.tags,
             memoryData.importance,
+            dialogueId,
           );
           memories.push(memory);
         }
@@ -375,6 +389,7 @@ Extract important memories from this conversation:`,
   ): Promise<MemoryContext> {
     const {
       characterId,
+      dialogueId,
       currentUserInput,
       conversationContext,
       maxMemories = 5,
@@ -390,6 +405,7 @@ Extract important memories from this conversation:`,
         topK: maxMemories,
         includeTypes,
         similarityThreshold: 0.6,
+        dialogueId,
       },
     );
 
@@ -398,7 +414,10 @@ Extract important memories from this conversation:`,
 
     // Get total memory count
     const totalMemoryCount = (
-      await LocalMemoryOperations.getMemoryEntriesByCharacter(characterId)
+      await LocalMemoryOperations.getMemoryEntriesByCharacter(
+        characterId,
+        dialogueId,
+      )
     ).length;
 
     // Get RAG config
@@ -533,11 +552,16 @@ Extract important memories from this conversation:`,
   private async keywordSearch(
     characterId: string,
     query: string,
-    options: { topK?: number; includeTypes?: MemoryType[] } = {},
+    options: {
+      topK?: number;
+      includeTypes?: MemoryType[];
+      dialogueId?: string;
+    } = {},
   ): Promise<MemorySearchResult[]> {
     const searchQuery = {
       query,
       characterId,
+      dialogueId: options.dialogueId,
       types: options.includeTypes,
       maxResults: options.topK || 5,
     };
@@ -620,9 +644,10 @@ Extract important memories from this conversation:`,
     characterId: string,
     query: string,
     topK: number,
+    dialogueId?: string,
   ): Promise<MemorySearchResult[]> {
     console.warn("Using fallback text search due to vector search failure");
-    return this.keywordSearch(characterId, query, { topK });
+    return this.keywordSearch(characterId, query, { topK, dialogueId });
   }
 
   /**
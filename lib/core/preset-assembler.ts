@@ -2,12 +2,24 @@ import { PresetPrompt } from "@/lib/models/preset-model";
 import { adaptText } from "@/lib/adapter/tagReplacer";
 import { PromptLibrary } from "@/lib/prompts/preset-prompts";
 
+export interface PresetContextData {
+  username?: string;
+  charName?: string;
+  number?: number;
+  /** The card's system_prompt; replaces the main prompt when set */
+  systemPrompt?: string;
+  /** The card's post_history_instructions; replaces the jailbreak prompt when set */
+  postHistoryInstructions?: string;
+  /** Description of the user's persona; fills the `{{persona}}` slot */
+  persona?: string;
+}
+
 export class PresetAssembler {
   static assemblePrompts(
     prompts: PresetPrompt[],
     language: "zh" | "en" = "zh",
     fastModel: boolean,
-    contextData: { username?: string; charName?: string; number?: number } = {},
+    contextData: PresetContextData = {},
     systemPresetType:
       | "mirror_realm"
       | "novel_king"
@@ -25,6 +37,7 @@ export class PresetAssembler {
     const orderedSystemIdentifiers = [
       "main",
       "worldInfoBefore",
+      "personaDescription",
       "charDescription",
       "charPersonality",
       "scenario",
@@ -87,6 +100,23 @@ export class PresetAssembler {
       }
     }
 
+    systemSectionContents.main = [
+      PresetAssembler._applyCharacterOverride(
+        systemSectionContents.main.filter(Boolean).join("\n\n"),
+        contextData.systemPrompt,
+        language,
+        contextData,
+      ),
+    ];
+    userSectionContents.jailbreak = [
+      PresetAssembler._applyCharacterOverride(
+        userSectionContents.jailbreak.filter(Boolean).join("\n\n"),
+        contextData.postHistoryInstructions,
+        language,
+        contextData,
+      ),
+    ];
+
     let finalSystemMessageParts: string[] = [];
     for (const id of orderedSystemIdentifiers) {
       const sectionContent = systemSectionContents[id]
@@ -99,6 +129,8 @@ export class PresetAssembler {
         finalSystemMessageParts.push(sectionContent);
       } else if (id === "worldInfoBefore" || id === "worldInfoAfter") {
         finalSystemMessageParts.push(`{{${id}}}`);
+      } else if (id === "personaDescription") {
+        finalSystemMessageParts.push("{{persona}}");
       }
       finalSystemMessageParts.push(`</${id}>`);
     }
@@ -213,15 +245,19 @@ export class PresetAssembler {
     }
     finalUserMessageParts.push("</outputFormat>");
 
-    return {
-      systemMessage: finalSystemMessageParts.filter(Boolean).join("\n\n"),
-      userMessage: finalUserMessageParts.filter(Boolean).join("\n\n"),
-    };
+    return PresetAssembler._fillPersona(
+      {
+        systemMessage: finalSystemMessageParts.filter(Boolean).join("\n\n"),
+        userMessage: finalUserMessageParts.filter(Boolean).join("\n\n"),
+      },
+      language,
+      contextData,
+    );
   }
 
   private static _getDefaultFramework(
     language: "zh" | "en" = "zh",
-    contextData: { username?: string; charName?: string; number?: number },
+    contextData: PresetContextData,
     systemPresetType:
       | "mirror_realm"
       | "novel_king"
@@ -230,6 +266,7 @@ export class PresetAssembler {
     const orderedSystemIdentifiers = [
       "main",
       "worldInfoBefore",
+      "personaDescription",
       "charDescription",
       "charPersonality",
       "scenario",
@@ -250,10 +287,17 @@ export class PresetAssembler {
 
       if (id === "main") {
         finalSystemMessageParts.push(
-          PromptLibrary.get(systemPresetType, language, "prompt"),
+          PresetAssembler._applyCharacterOverride(
+            PromptLibrary.get(systemPresetType, language, "prompt"),
+            contextData.systemPrompt,
+            language,
+            contextData,
+          ),
         );
       } else if (id === "worldInfoBefore" || id === "worldInfoAfter") {
         finalSystemMessageParts.push(`{{${id}}}`);
+      } else if (id === "personaDescription") {
+        finalSystemMessageParts.push("{{persona}}");
       }
 
       finalSystemMessageParts.push(`</${id}>`);
@@ -273,6 +317,15 @@ export class PresetAssembler {
         finalUserMessageParts.push(
           PromptLibrary.get(systemPresetType, language, "structure"),
         );
+      } else if (id === "jailbreak") {
+        finalUserMessageParts.push(
+          PresetAssembler._applyCharacterOverride(
+            "",
+            contextData.postHistoryInstructions,
+            language,
+            contextData,
+          ),
+        );
       } else if (id === "chatHistory" || id === "userInput") {
         finalUserMessageParts.push(`{{${id}}}`);
         if (id === "userInput") {
@@ -374,16 +427,65 @@ export class PresetAssembler {
       );
     }
     finalUserMessageParts.push("</outputFormat>");
+    return PresetAssembler._fillPersona(
+      {
+        systemMessage: finalSystemMessageParts.filter(Boolean).join("\n\n"),
+        userMessage: finalUserMessageParts.filter(Boolean).join("\n\n"),
+      },
+      language,
+      contextData,
+    );
+  }
+
+  /**
+   * Card prompts take the place of the preset's own; `{{original}}` inside
+   * them stands for the preset text being replaced
+   */
+  private static _applyCharacterOverride(
+    original: string,
+    override: string | undefined,
+    language: "zh" | "en",
+    contextData: PresetContextData,
+  ): string {
+    if (!override || !override.trim()) {
+      return original;
+    }
+
+    return adaptText(
+      override,
+      language,
+      contextData.username,
+      contextData.charName,
+    ).replace(/{{original}}/gi, () => original);
+  }
+
+  /**
+   * Replaces the `{{persona}}` slot, wherever a prompt put it, with the
+   * persona description; without a persona the slot is left empty
+   */
+  private static _fillPersona(
+    messages: { systemMessage: string; userMessage: string },
+    language: "zh" | "en",
+    contextData: PresetContextData,
+  ): { systemMessage: string; userMessage: string } {
+    const persona = contextData.persona
+      ? adaptText(
+        contextData.persona,
+        language,
+        contextData.username,
+        contextData.charName,
+      )
+      : "";
     return {
-      systemMessage: finalSystemMessageParts.filter(Boolean).join("\n\n"),
-      userMessage: finalUserMessageParts.filter(Boolean).join("\n\n"),
+      systemMessage: messages.systemMessage.replace(/{{persona}}/gi, () => persona),
+      userMessage: messages.userMessage.replace(/{{persona}}/gi, () => persona),
     };
   }
 
   private static _formatPromptContent(
     prompt: PresetPrompt,
     language: "zh" | "en",
-    contextData: { username?: string; charName?: string; number?: number },
+    contextData: PresetContextData,
   ): string {
     let contentToAppend = "";
 
@@ -396,6 +498,8 @@ export class PresetAssembler {
 
     if (isAlwaysMarked) {
       contentToAppend += `{{${prompt.identifier}}}`;
+    } else if (prompt.identifier === "personaDescription") {
+      contentToAppend += "{{persona}}";
     }
 
     if (prompt.content) {
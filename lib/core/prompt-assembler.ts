@@ -1,22 +1,55 @@
-import { WorldBookEntry } from "@/lib/models/world-book-model";
-import { WorldBookManager } from "@/lib/core/world-book";
+import {
+  WorldBookActivationTrace,
+  WorldBookEntry,
+  WorldBookPosition,
+  WorldBookTimers,
+} from "@/lib/models/world-book-model";
+import {
+  DEFAULT_SCAN_DEPTH,
+  WorldBookDepthInsertion,
+  WorldBookManager,
+} from "@/lib/core/world-book";
 import { DialogueMessage } from "@/lib/models/character-dialogue-model";
 import { adaptText } from "@/lib/adapter/tagReplacer";
 
 export interface PromptAssemblerOptions {
   language: "zh" | "en";
   contextWindow?: number;
+  /** Messages scanned for world book keys; defaults to the context window */
+  scanDepth?: number;
+  /** Estimated tokens world book entries may take; 0 is unlimited */
+  tokenBudget?: number;
+  recursiveScanning?: boolean;
+  /** Turn of the chat branch, for sticky, cooldown and delay */
+  turn?: number;
+  /** Timers left by the previous reply on the branch */
+  timers?: WorldBookTimers;
 }
 
 export class PromptAssembler {
   private language: "zh" | "en";
-  private contextWindow: number;
+  private scanDepth: number;
+  private tokenBudget: number;
+  private recursiveScanning: boolean;
+  private turn?: number;
+  private timers: WorldBookTimers;
 
   constructor(options: PromptAssemblerOptions) {
     this.language = options.language || "zh";
-    this.contextWindow = options.contextWindow || 5;
+    this.scanDepth =
+      options.scanDepth || options.contextWindow || DEFAULT_SCAN_DEPTH;
+    this.tokenBudget = options.tokenBudget || 0;
+    this.recursiveScanning = options.recursiveScanning || false;
+    this.turn = options.turn;
+    this.timers = options.timers || {};
   }
 
+  /**
+   * Fills the world info slots of the prompt with the entries the chat
+   * activates. Entries that belong inside the chat history are returned as
+   * depth insertions for the chat history to place, along with the timers
+   * the scan leaves for the next turn and a trace of what it activated.
+   */
   assemblePrompt(
     worldBook: WorldBookEntry[] | Record<string, WorldBookEntry> | undefined,
     baseSystemMessage: string,
@@ -25,7 +58,13 @@ export class PromptAssembler {
     currentUserInput: string,
     username?: string,
     charName?: string,
-  ): { systemMessage: string; userMessage: string } {
+  ): {
+    systemMessage: string;
+    userMessage: string;
+    depthInsertions: WorldBookDepthInsertion[];
+    timers: WorldBookTimers;
+    trace: WorldBookActivationTrace;
+  } {
     let finalSystemMessage = baseSystemMessage;
     let finalUserMessage = userMessage;
 
@@ -36,132 +75,87 @@ export class PromptAssembler {
       );
     }
 
-    const hasSystemMarkers =
-      finalSystemMessage.includes("{{worldInfoBefore}}") ||
-      finalSystemMessage.includes("{{worldInfoAfter}}");
-    const hasUserMarkers = finalUserMessage.includes("<userInput>");
-
-    if (
-      !worldBook ||
-      (Array.isArray(worldBook)
-        ? worldBook.length === 0
-        : Object.keys(worldBook).length === 0)
-    ) {
-      if (hasSystemMarkers) {
-        finalSystemMessage = finalSystemMessage
-          .replace("{{worldInfoBefore}}", "")
-          .replace("{{worldInfoAfter}}", "");
-      }
-      return {
-        systemMessage: finalSystemMessage,
-        userMessage: finalUserMessage,
-      };
-    }
-
-    if (!hasSystemMarkers && !hasUserMarkers) {
-      return {
-        systemMessage: finalSystemMessage,
-        userMessage: finalUserMessage,
-      };
-    }
-
-    const adjustedChatHistory = this.adjustChatHistoryByTurns(chatHistory);
-    const contextWithCurrentMessage = [...adjustedChatHistory];
-
-    if (currentUserInput) {
-      contextWithCurrentMessage.push({
-        role: "user",
-        content: currentUserInput,
-        id: adjustedChatHistory.length,
-      });
-    }
-
-    const matchingEntries = WorldBookManager.getMatchingEntries(
+    const scanOptions = {
+      scanDepth: this.scanDepth,
+      recursive: this.recursiveScanning,
+      tokenBudget: this.tokenBudget,
+      turn: this.turn,
+      timers: this.timers,
+    };
+    const scan = WorldBookManager.scanEntries(
       worldBook,
       currentUserInput,
-      contextWithCurrentMessage,
-      { contextWindow: this.contextWindow },
+      chatHistory,
+      scanOptions,
     );
-
-    if (matchingEntries.length === 0) {
-      if (hasSystemMarkers) {
-        finalSystemMessage = finalSystemMessage
-          .replace("{{worldInfoBefore}}", "")
-          .replace("{{worldInfoAfter}}", "");
-      }
-      return {
-        systemMessage: finalSystemMessage,
-        userMessage: finalUserMessage,
-      };
-    }
-
-    const position0_1Entries = matchingEntries.filter(
-      (entry) => Number(entry.position || 0) <= 1,
-    );
-    const position2Entries = matchingEntries.filter(
-      (entry) => Number(entry.position || 0) === 2,
-    );
-    const position3Entries = matchingEntries.filter(
-      (entry) => Number(entry.position || 0) === 3,
-    );
-    const position4Entries = matchingEntries.filter(
-      (entry) => Number(entry.position || 0) === 4,
+    const positionGroups = WorldBookManager.organizeEntriesByPosition(
+      scan.activated.map((activated) => activated.entry),
     );
+    const formatGroup = (position: number) =>
+      this.formatWorldBookEntries(positionGroups[position], username, charName);
 
-    if (hasSystemMarkers) {
-      const worldInfoBeforeContent = this.formatWorldBookEntries(
-        position0_1Entries,
-        username,
-        charName,
-      );
-      const worldInfoAfterContent = this.formatWorldBookEntries(
-        position2Entries,
-        username,
-        charName,
-      );
+    finalSystemMessage = finalSystemMessage
+      .replace("{{worldInfoBefore}}", formatGroup(WorldBookPosition.BEFORE_CHAR))
+      .replace("{{worldInfoAfter}}", formatGroup(WorldBookPosition.AFTER_CHAR));
 
-      finalSystemMessage = finalSystemMessage.replace(
-        "{{worldInfoBefore}}",
-        worldInfoBeforeContent,
-      );
-      finalSystemMessage = finalSystemMessage.replace(
-        "{{worldInfoAfter}}",
-        worldInfoAfterContent,
+    // Presets without example markers get these entries ahead of the chat
+    const unplacedExamples: string[] = [];
+    const beforeExamples = formatGroup(WorldBookPosition.BEFORE_EXAMPLES);
+    if (beforeExamples && finalUserMessage.includes("<dialogueExamples>")) {
+      finalUserMessage = finalUserMessage.replace(
+        "<dialogueExamples>",
+        "<dialogueExamples>\n" + beforeExamples,
       );
+    } else if (beforeExamples) {
+      unplacedExamples.push(beforeExamples);
     }
-
-    if (
-      hasUserMarkers &&
-      (position3Entries.length > 0 || position4Entries.length > 0)
-    ) {
-      const position3Content = this.formatWorldBookEntries(
-        position3Entries,
-        username,
-        charName,
+    const afterExamples = formatGroup(WorldBookPosition.AFTER_EXAMPLES);
+    if (afterExamples && finalUserMessage.includes("</dialogueExamples>")) {
+      finalUserMessage = finalUserMessage.replace(
+        "</dialogueExamples>",
+        afterExamples + "\n</dialogueExamples>",
       );
-      const position4Content = this.formatWorldBookEntries(
-        position4Entries,
-        username,
-        charName,
+    } else if (afterExamples) {
+      unplacedExamples.push(afterExamples);
+    }
+    if (unplacedExamples.length > 0) {
+      finalUserMessage = this.placeBeforeChatHistory(
+        finalUserMessage,
+        unplacedExamples.join("\n\n"),
       );
+    }
 
-      if (position3Content && finalUserMessage.includes("<userInput>")) {
-        const beforeUserInput = position3Content + "\n\n";
-        finalUserMessage = finalUserMessage.replace(
-          "<userInput>",
-          beforeUserInput + "<userInput>",
-        );
-      }
+    const depthInsertions = WorldBookManager.getDepthInsertions(
+      positionGroups,
+      (entry) =>
+        adaptText(entry.content || "", this.language, username, charName),
+    );
+
+    return {
+      systemMessage: finalSystemMessage,
+      userMessage: finalUserMessage,
+      depthInsertions,
+      timers: scan.timers,
+      trace: WorldBookManager.traceScan(
+        scan,
+        currentUserInput,
+        chatHistory,
+        scanOptions,
+      ),
+    };
+  }
 
-      if (position4Content && finalUserMessage.includes("</userInput>")) {
-        const afterUserInput = "\n\n" + position4Content;
-        finalUserMessage = finalUserMessage.replace(
-          "</userInput>",
-          "</userInput>" + afterUserInput,
-        );
+  /**
+   * Puts content just before the chat history, or before the user input when
+   * the message has no chat history slot, or else at the start
+   */
+  private placeBeforeChatHistory(message: string, content: string): string {
+    for (const slot of ["{{chatHistory}}", "<userInput>"]) {
+      if (message.includes(slot)) {
+        return message.replace(slot, `${content}\n\n${slot}`);
       }
     }
-    return { systemMessage: finalSystemMessage, userMessage: finalUserMessage };
+    return `${content}\n\n${message}`;
   }
 
   private formatWorldBookEntries(
@@ -189,65 +183,4 @@ export class PromptAssembler {
       })
       .join("\n\n");
   }
-
-  private adjustChatHistoryByTurns(
-    chatHistory: DialogueMessage[],
-  ): DialogueMessage[] {
-    if (chatHistory.length === 0) {
-      return [];
-    }
-
-    const adjustedHistory: DialogueMessage[] = [];
-    const conversationTurns: {
-      user: DialogueMessage;
-      assistant?: DialogueMessage;
-    }[] = [];
-
-    let currentTurn: { user?: DialogueMessage; assistant?: DialogueMessage } =
-      {};
-
-    for (const message of chatHistory) {
-      if (message.role === "user") {
-        if (currentTurn.user) {
-          conversationTurns.push(
-            currentTurn as {
-              user: DialogueMessage;
-              assistant?: DialogueMessage;
-            },
-          );
-          currentTurn = { user: message };
-        } else {
-          currentTurn.user = message;
-        }
-      } else if (message.role === "assistant") {
-        if (currentTurn.user) {
-          currentTurn.assistant = message;
-          conversationTurns.push(
-            currentTurn as {
-              user: DialogueMessage;
-              assistant?: DialogueMessage;
-            },
-          );
-          currentTurn = {};
-        }
-      }
-    }
-
-    if (currentTurn.user) {
-      conversationTurns.push(
-        currentTurn as { user: DialogueMessage; assistant?: DialogueMessage },
-      );
-    }
-
-    const recentTurns = conversationTurns.slice(-this.contextWindow);
-
-    for (const turn of recentTurns) {
-      adjustedHistory.push(turn.user);
-      if (turn.assistant) {
-        adjustedHistory.push(turn.assistant);
-      }
-    }
-
-    return adjustedHistory;
-  }
 }
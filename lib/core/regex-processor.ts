@@ -3,6 +3,8 @@ import { RegexScriptOperations } from "@/lib/data/roleplay/regex-script-operatio
 
 export interface RegexProcessorOptions {
   ownerId: string;
+  /** Owners whose scripts run as well, such as the other members of a group */
+  extraOwnerIds?: string[];
 }
 
 export class RegexProcessor {
@@ -36,10 +38,12 @@ export class RegexProcessor {
     fullContext: string,
     options: RegexProcessorOptions,
   ): Promise<RegexReplacementResult> {
-    const { ownerId } = options;
+    const { ownerId, extraOwnerIds } = options;
 
-    const allScripts =
-      await RegexScriptOperations.getAllScriptsForProcessing(ownerId);
+    const allScripts = await RegexScriptOperations.getAllScriptsForProcessing(
+      ownerId,
+      extraOwnerIds,
+    );
 
     const result: RegexReplacementResult = {
       originalText: fullContext,
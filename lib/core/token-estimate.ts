@@ -0,0 +1,15 @@
+/**
+ * Rough token count for budgeting prompt text without a tokenizer. CJK
+ * characters are about one token each; other text is about four characters
+ * per token.
+ */
+export function estimateTokens(text: string | undefined | null): number {
+  if (!text) {
+    return 0;
+  }
+  const cjk = text.match(
+    /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/gu,
+  );
+  const cjkCount = cjk ? cjk.length : 0;
+  return cjkCount + Math.ceil((text.length - cjkCount) / 4);
+}
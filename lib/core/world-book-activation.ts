@@ -0,0 +1,446 @@
+import {
+  WorldBookEntry,
+  WorldBookSkipReason,
+  WorldBookTimers,
+} from "@/lib/models/world-book-model";
+import { estimateTokens } from "@/lib/core/token-estimate";
+
+/**
+ * How an entry's secondary keys gate its activation once a primary key has
+ * matched. The numbers are the ones SillyTavern stores in `selectiveLogic`.
+ */
+export const SelectiveLogic = {
+  /** At least one secondary key is present */
+  AND_ANY: 0,
+  /** Not every secondary key is present */
+  NOT_ALL: 1,
+  /** No secondary key is present */
+  NOT_ANY: 2,
+  /** Every secondary key is present */
+  AND_ALL: 3,
+} as const;
+
+export type SelectiveLogicMode =
+  (typeof SelectiveLogic)[keyof typeof SelectiveLogic];
+
+/** Scan-wide defaults that entries without an override follow */
+export interface ActivationOptions {
+  caseSensitive?: boolean;
+  matchWholeWords?: boolean;
+}
+
+/** Why a keyed entry activated */
+export interface KeyMatch {
+  /** The primary key that was found */
+  key: string;
+  /** The secondary keys that were found, when the entry is selective */
+  secondaryKeys: string[];
+}
+
+export interface ScanOptions extends ActivationOptions {
+  /** Scan the content of activated entries for further keys */
+  recursive?: boolean;
+  /** Estimated tokens all activated entries may take; 0 or unset is unlimited */
+  tokenBudget?: number;
+  /**
+   * Turn of the chat branch the scan is for, counting user messages. Sticky,
+   * cooldown and delay only apply when it is set.
+   */
+  turn?: number;
+  /** Timers as they stood after the previous reply on the branch */
+  timers?: WorldBookTimers;
+  /** Returns a number in [0, 1) for probability rolls */
+  random?: () => number;
+}
+
+export interface ActivatedEntry {
+  entry: WorldBookEntry;
+  /** Null for constant and sticky entries */
+  match: KeyMatch | null;
+  /** Kept active by an earlier activation rather than by this scan */
+  sticky: boolean;
+  tokens: number;
+  /** 0 when activated by the chat, then one more per recursion pass */
+  pass: number;
+}
+
+export interface SkippedEntry {
+  entry: WorldBookEntry;
+  reason: WorldBookSkipReason;
+  tokens: number;
+}
+
+export interface ScanResult {
+  activated: ActivatedEntry[];
+  skipped: SkippedEntry[];
+  /** Timers after this scan, for the next turn on the branch */
+  timers: WorldBookTimers;
+}
+
+/** Guards against entries that keep activating each other */
+const MAX_RECURSION_PASSES = 10;
+
+/** A key written as `/pattern/flags` is a regex whatever the entry says */
+const REGEX_KEY = /^\/([\s\S]+)\/([dgimsuy]*)$/;
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function readFlag(
+  entry: WorldBookEntry,
+  field:
+    | "case_sensitive"
+    | "match_whole_words"
+    | "prevent_recursion"
+    | "exclude_recursion",
+): boolean | undefined {
+  const value = entry[field] ?? entry.extensions?.[field];
+  return typeof value === "boolean" ? value : undefined;
+}
+
+function readNumber(
+  entry: WorldBookEntry,
+  field: "probability" | "sticky" | "cooldown" | "delay",
+): number {
+  const value = Number(entry[field] ?? entry.extensions?.[field]);
+  return Number.isFinite(value) ? value : 0;
+}
+
+/**
+ * Whether a matched entry passes its probability roll. Entries without a
+ * probability (SillyTavern exports null for it), or with the roll turned
+ * off, always do.
+ */
+function passesProbability(
+  entry: WorldBookEntry,
+  random: () => number,
+): boolean {
+  const useProbability =
+    entry.use_probability ?? entry.extensions?.useProbability;
+  const probability = entry.probability ?? entry.extensions?.probability;
+  if (
+    useProbability === false ||
+    probability === undefined ||
+    probability === null
+  ) {
+    return true;
+  }
+  return random() * 100 < readNumber(entry, "probability");
+}
+
+function readLogic(entry: WorldBookEntry): SelectiveLogicMode {
+  const value = Number(
+    entry.selective_logic ?? entry.extensions?.selectiveLogic ?? 0,
+  );
+  return value >= 0 && value <= 3
+    ? (value as SelectiveLogicMode)
+    : SelectiveLogic.AND_ANY;
+}
+
+function cleanKeys(keys: string[] | undefined): string[] {
+  return (keys || []).filter(
+    (key) => typeof key === "string" && key.trim() !== "",
+  );
+}
+
+export class WorldBookActivation {
+  static isEnabled(entry: WorldBookEntry): boolean {
+    return entry.enabled !== false;
+  }
+
+  /** The id timers are kept under; entries without one get no timers */
+  static timerKey(entry: WorldBookEntry): string | undefined {
+    return (
+      entry.entry_id ?? (entry.id !== undefined ? String(entry.id) : undefined)
+    );
+  }
+
+  /**
+   * The entry's case sensitivity and whole-word setting, its own override
+   * taking precedence over the scan default
+   */
+  static resolveOptions(
+    entry: WorldBookEntry,
+    options: ActivationOptions = {},
+  ): Required<ActivationOptions> {
+    return {
+      caseSensitive:
+        readFlag(entry, "case_sensitive") ?? options.caseSensitive ?? false,
+      matchWholeWords:
+        readFlag(entry, "match_whole_words") ??
+        options.matchWholeWords ??
+        false,
+    };
+  }
+
+  /**
+   * Whether one key occurs in the text. Regex keys are tested as written,
+   * adding the `i` flag for case-insensitive entries that give no flags of
+   * their own; a regex that does not compile never matches.
+   */
+  static matchKey(
+    key: string,
+    text: string,
+    entry: WorldBookEntry,
+    options: ActivationOptions = {},
+  ): boolean {
+    const { caseSensitive, matchWholeWords } = this.resolveOptions(
+      entry,
+      options,
+    );
+    const literal = key.match(REGEX_KEY);
+
+    if (literal || entry.use_regex) {
+      try {
+        const pattern = literal
+          ? new RegExp(literal[1], literal[2])
+          : new RegExp(key, caseSensitive ? "" : "i");
+        return pattern.test(text);
+      } catch {
+        return false;
+      }
+    }
+
+    const needle = caseSensitive ? key.trim() : key.trim().toLowerCase();
+    const haystack = caseSensitive ? text : text.toLowerCase();
+
+    // Phrases are matched as written; single words must stand on their own
+    if (!matchWholeWords || /\s/.test(needle)) {
+      return haystack.includes(needle);
+    }
+    return new RegExp(`(?:^|\\W)${escapeRegex(needle)}(?:$|\\W)`).test(
+      haystack,
+    );
+  }
+
+  /**
+   * Tests a keyed entry against the scanned text: a primary key must be
+   * present, then a selective entry's secondary keys must satisfy its logic.
+   * Returns null when the entry does not activate. Constant and disabled
+   * entries are not considered here.
+   */
+  static matchEntry(
+    entry: WorldBookEntry,
+    text: string,
+    options: ActivationOptions = {},
+  ): KeyMatch | null {
+    const key = cleanKeys(entry.keys).find((candidate) =>
+      this.matchKey(candidate, text, entry, options),
+    );
+    if (key === undefined) {
+      return null;
+    }
+
+    const secondary = cleanKeys(entry.secondary_keys);
+    if (!entry.selective || secondary.length === 0) {
+      return { key, secondaryKeys: [] };
+    }
+
+    const found = secondary.filter((candidate) =>
+      this.matchKey(candidate, text, entry, options),
+    );
+    let passes: boolean;
+    switch (readLogic(entry)) {
+    case SelectiveLogic.NOT_ALL:
+      passes = found.length < secondary.length;
+      break;
+    case SelectiveLogic.NOT_ANY:
+      passes = found.length === 0;
+      break;
+    case SelectiveLogic.AND_ALL:
+      passes = found.length === secondary.length;
+      break;
+    default:
+      passes = found.length > 0;
+    }
+
+    return passes ? { key, secondaryKeys: found } : null;
+  }
+
+  /**
+   * Every enabled entry that applies to the text: constant entries first,
+   * then keyed entries whose keys match
+   */
+  static activate(
+    entries: WorldBookEntry[],
+    text: string,
+    options: ActivationOptions = {},
+  ): WorldBookEntry[] {
+    return this.scan(entries, text, options).activated.map(
+      (activated) => activated.entry,
+    );
+  }
+
+  /**
+   * Activates entries against the chat text, then, when recursive, against
+   * the content of the entries activated in the previous pass until nothing
+   * new activates. Entries flagged `prevent_recursion` never trigger others;
+   * entries flagged `exclude_recursion` are only triggered by the chat.
+   *
+   * Disabled entries never activate; they are reported as skipped when they
+   * would have. When the turn is known, entries still sticky from an earlier
+   * turn are active from the first pass, and entries cooling down or delayed
+   * are skipped. A matched entry activates only if its probability roll
+   * passes.
+   *
+   * Each pass admits its entries by priority (highest `insertion_order`
+   * first) while they fit the token budget. Once one does not fit, it and
+   * every lower-priority entry are skipped and scanning stops.
+   */
+  static scan(
+    entries: WorldBookEntry[],
+    text: string,
+    options: ScanOptions = {},
+  ): ScanResult {
+    const {
+      recursive = false,
+      tokenBudget = 0,
+      turn,
+      timers = {},
+      random = Math.random,
+    } = options;
+    const result: ScanResult = { activated: [], skipped: [], timers: {} };
+    const pending = new Set(entries);
+    const timerOf = (entry: WorldBookEntry) => {
+      const key = this.timerKey(entry);
+      return key !== undefined ? timers[key] : undefined;
+    };
+    const isSticky = (entry: WorldBookEntry) =>
+      turn !== undefined && (timerOf(entry)?.stickyUntil ?? -1) >= turn;
+    let usedTokens = 0;
+    let budgetExhausted = false;
+    let buffer = text;
+
+    for (let pass = 0; pass <= MAX_RECURSION_PASSES; pass++) {
+      const found: ActivatedEntry[] = [];
+      pending.forEach((entry) => {
+        const tokens = estimateTokens(entry.content);
+        const enabled = this.isEnabled(entry);
+        if (enabled && pass === 0 && isSticky(entry)) {
+          found.push({ entry, match: null, sticky: true, tokens, pass });
+          return;
+        }
+        if (pass > 0 && readFlag(entry, "exclude_recursion")) {
+          return;
+        }
+        const match = entry.constant
+          ? null
+          : this.matchEntry(entry, buffer, options);
+        if (!entry.constant && !match) {
+          return;
+        }
+
+        pending.delete(entry);
+        let reason: WorldBookSkipReason | null = null;
+        if (!enabled) {
+          reason = "disabled";
+        } else if (turn !== undefined && turn < readNumber(entry, "delay")) {
+          reason = "delay";
+        } else if (
+          turn !== undefined &&
+          (timerOf(entry)?.cooldownUntil ?? -1) >= turn
+        ) {
+          reason = "cooldown";
+        } else if (!passesProbability(entry, random)) {
+          reason = "probability";
+        }
+        if (reason) {
+          result.skipped.push({ entry, reason, tokens });
+        } else {
+          found.push({ entry, match, sticky: false, tokens, pass });
+        }
+      });
+
+      const byPriority = [...found].sort(
+        (a, b) =>
+          (b.entry.insertion_order || 0) - (a.entry.insertion_order || 0) ||
+          Number(b.entry.constant) - Number(a.entry.constant),
+      );
+      const admitted = new Set<ActivatedEntry>();
+      for (const candidate of byPriority) {
+        pending.delete(candidate.entry);
+        if (
+          !budgetExhausted &&
+          (tokenBudget <= 0 || usedTokens + candidate.tokens <= tokenBudget)
+        ) {
+          usedTokens += candidate.tokens;
+          admitted.add(candidate);
+        } else {
+          budgetExhausted = true;
+          result.skipped.push({
+            entry: candidate.entry,
+            reason: "budget",
+            tokens: candidate.tokens,
+          });
+        }
+      }
+
+      // Constant entries first, then in the order the entries were given
+      const newlyActivated = [
+        ...found.filter((item) => item.entry.constant),
+        ...found.filter((item) => !item.entry.constant),
+      ].filter((item) => admitted.has(item));
+      result.activated.push(...newlyActivated);
+
+      if (!recursive || budgetExhausted || newlyActivated.length === 0) {
+        break;
+      }
+      buffer = newlyActivated
+        .filter((item) => !readFlag(item.entry, "prevent_recursion"))
+        .map((item) => item.entry.content)
+        .join("\n");
+      if (!buffer) {
+        break;
+      }
+    }
+
+    if (turn !== undefined) {
+      result.timers = this.advanceTimers(result.activated, timers, turn);
+    }
+    return result;
+  }
+
+  /**
+   * The timers after a turn: ones that still matter on later turns are
+   * kept, and entries that newly activated start their sticky period, then
+   * their cooldown once it ends. Entries kept active by sticky do not
+   * restart their timers.
+   */
+  static advanceTimers(
+    activated: ActivatedEntry[],
+    timers: WorldBookTimers,
+    turn: number,
+  ): WorldBookTimers {
+    const next: WorldBookTimers = {};
+    for (const [key, timer] of Object.entries(timers)) {
+      if (
+        (timer.stickyUntil ?? -1) > turn ||
+        (timer.cooldownUntil ?? -1) > turn
+      ) {
+        next[key] = timer;
+      }
+    }
+
+    for (const item of activated) {
+      const key = this.timerKey(item.entry);
+      if (key === undefined || item.sticky) {
+        continue;
+      }
+      const sticky = readNumber(item.entry, "sticky");
+      const cooldown = readNumber(item.entry, "cooldown");
+      if (sticky <= 0 && cooldown <= 0) {
+        continue;
+      }
+      const stickyUntil = sticky > 0 ? turn + sticky : undefined;
+      next[key] = {
+        ...(stickyUntil !== undefined && { stickyUntil }),
+        ...(cooldown > 0 && {
+          cooldownUntil: (stickyUntil ?? turn) + cooldown,
+        }),
+      };
+    }
+
+    return next;
+  }
+}
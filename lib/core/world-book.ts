@@ -1,45 +1,137 @@
-import { WorldBookEntry } from "@/lib/models/world-book-model";
+import {
+  WorldBookActivationTrace,
+  WorldBookEntry,
+  WorldBookPosition,
+  WorldBookRole,
+  WorldBookTraceActivation,
+  WORLD_BOOK_ROLES,
+} from "@/lib/models/world-book-model";
 import { DialogueMessage } from "@/lib/models/character-dialogue-model";
+import {
+  ScanOptions,
+  ScanResult,
+  WorldBookActivation,
+} from "@/lib/core/world-book-activation";
 
 export interface WorldBookJson {
   entries: Record<string, WorldBookEntry> | WorldBookEntry[];
 }
 
+/** A world book entry placed inside the chat history */
+export interface WorldBookDepthInsertion {
+  /** Messages from the end of the history; 0 is after the last one */
+  depth: number;
+  role: WorldBookRole;
+  content: string;
+}
+
+/**
+ * There is no author's note of its own; its entries go where SillyTavern
+ * puts the note by default
+ */
+export const AUTHOR_NOTE_DEPTH = 4;
+
+/** Messages scanned for keys when neither the user nor the card sets it */
+export const DEFAULT_SCAN_DEPTH = 5;
+
 export class WorldBookManager {
   static getMatchingEntries(
     worldBook: WorldBookEntry[] | Record<string, WorldBookEntry> | undefined,
     message: string,
     chatHistory: DialogueMessage[],
-    options: {
-      contextWindow?: number;
-    } = {},
+    options: { scanDepth?: number } & ScanOptions = {},
   ): WorldBookEntry[] {
-    if (!worldBook) return [];
+    return this.scanEntries(worldBook, message, chatHistory, options).activated.map(
+      (activated) => activated.entry,
+    );
+  }
+
+  /**
+   * Scans the last `scanDepth` messages and the new message for entries to
+   * activate, reporting the ones the token budget left out as well
+   */
+  static scanEntries(
+    worldBook: WorldBookEntry[] | Record<string, WorldBookEntry> | undefined,
+    message: string,
+    chatHistory: DialogueMessage[],
+    options: { scanDepth?: number } & ScanOptions = {},
+  ): ScanResult {
+    if (!worldBook) return { activated: [], skipped: [], timers: {} };
 
-    const { contextWindow = 5 } = options;
+    const { scanDepth = DEFAULT_SCAN_DEPTH, ...scanOptions } = options;
 
     const recentMessages = chatHistory
-      .slice(-contextWindow)
+      .slice(-scanDepth)
       .map((m) => m.content)
-      .join(" ");
+      .join("\n");
 
-    const fullText = `${recentMessages} ${message}`.toLowerCase();
+    const fullText = `${recentMessages}\n${message}`;
 
     const entries = Array.isArray(worldBook)
       ? worldBook
       : Object.values(worldBook);
 
-    const enabledEntries = entries.filter((entry) => entry.selective !== false);
-
-    const constantEntries = enabledEntries.filter((entry) => entry.constant);
+    return WorldBookActivation.scan(entries, fullText, scanOptions);
+  }
 
-    const matchedEntries = enabledEntries.filter((entry) => {
-      if (entry.constant) return false;
-      if (!entry.keys || entry.keys.length === 0) return false;
-      return entry.keys.some((key) => fullText.includes(key.toLowerCase()));
+  /**
+   * Describes a scan for the activation inspector: what activated each entry
+   * and, for keys found in the chat, which scanned message held the key
+   */
+  static traceScan(
+    scan: ScanResult,
+    message: string,
+    chatHistory: DialogueMessage[],
+    options: { scanDepth?: number } & ScanOptions = {},
+  ): WorldBookActivationTrace {
+    const { scanDepth = DEFAULT_SCAN_DEPTH, tokenBudget = 0, turn } = options;
+    // Newest first, so that the index is the offset from the new message
+    const scanned: Pick<DialogueMessage, "role" | "content">[] = [
+      { role: "user", content: message },
+      ...chatHistory.slice(-scanDepth).reverse(),
+    ];
+    const describe = (entry: WorldBookEntry, tokens: number) => ({
+      ...(WorldBookActivation.timerKey(entry) !== undefined && {
+        entryId: WorldBookActivation.timerKey(entry),
+      }),
+      label: entry.comment || entry.keys?.find((key) => key.trim()) || "",
+      tokens,
     });
 
-    return [...constantEntries, ...matchedEntries];
+    return {
+      activated: scan.activated.map(({ entry, match, sticky, tokens, pass }) => {
+        const trace: WorldBookTraceActivation = {
+          ...describe(entry, tokens),
+          trigger: "constant",
+          position: this.resolvePosition(entry),
+        };
+        if (sticky) {
+          trace.trigger = "sticky";
+        } else if (match) {
+          trace.trigger = pass > 0 ? "recursion" : "key";
+          trace.key = match.key;
+          if (match.secondaryKeys.length > 0) {
+            trace.secondaryKeys = match.secondaryKeys;
+          }
+        }
+        if (match && pass === 0) {
+          const offset = scanned.findIndex((item) =>
+            WorldBookActivation.matchKey(match.key, item.content, entry, options),
+          );
+          if (offset >= 0) {
+            trace.messageOffset = offset;
+            trace.messageRole = scanned[offset].role;
+          }
+        }
+        return trace;
+      }),
+      skipped: scan.skipped.map(({ entry, reason, tokens }) => ({
+        ...describe(entry, tokens),
+        reason,
+      })),
+      tokenBudget,
+      ...(turn !== undefined && { turn }),
+    };
   }
 
   static normalizeWorldBookEntries(worldBook: any): WorldBookEntry[] {
@@ -60,36 +152,119 @@ export class WorldBookManager {
     return Object.values(worldBook);
   }
 
+  /**
+   * The entry's position. Card entries keep the real slot in
+   * `extensions.position` next to the spec's "before_char"/"after_char", so
+   * a number there wins; anything unknown goes in at depth
+   */
+  static resolvePosition(entry: WorldBookEntry): number {
+    const slot =
+      typeof entry.extensions?.position === "number"
+        ? entry.extensions.position
+        : entry.position;
+    if (slot === "before_char") return WorldBookPosition.BEFORE_CHAR;
+    if (slot === "after_char") return WorldBookPosition.AFTER_CHAR;
+    const position = Number(slot);
+    return Number.isInteger(position) &&
+      position >= WorldBookPosition.BEFORE_CHAR &&
+      position <= WorldBookPosition.AFTER_EXAMPLES
+      ? position
+      : WorldBookPosition.AT_DEPTH;
+  }
+
+  /** How deep an at-depth entry goes; card entries keep it in `extensions` */
+  static resolveDepth(entry: WorldBookEntry): number {
+    const depth = Number(entry.depth ?? entry.extensions?.depth ?? 0);
+    return Number.isFinite(depth) ? Math.max(0, Math.floor(depth)) : 0;
+  }
+
+  /**
+   * The role of an entry inserted at depth; imported lorebooks store it as
+   * SillyTavern's number in `extensions.role`
+   */
+  static resolveRole(entry: WorldBookEntry): WorldBookRole {
+    return (
+      entry.role ?? WORLD_BOOK_ROLES[Number(entry.extensions?.role)] ?? "system"
+    );
+  }
+
   static organizeEntriesByPosition(
     entries: WorldBookEntry[],
   ): Record<number, WorldBookEntry[]> {
-    const positionGroups: Record<number, WorldBookEntry[]> = {
-      0: [],
-      1: [],
-      2: [],
-      3: [],
-      4: [],
-    };
+    const positionGroups: Record<number, WorldBookEntry[]> = {};
+    Object.values(WorldBookPosition).forEach(
+      (position) => (positionGroups[position] = []),
+    );
 
     for (const entry of entries) {
-      const position = typeof entry.position === "number" ? entry.position : 4;
-
-      if (position >= 0 && position <= 4) {
-        positionGroups[position].push(entry);
-      } else {
-        positionGroups[4].push(entry);
-      }
+      positionGroups[this.resolvePosition(entry)].push(entry);
     }
 
     for (const position in positionGroups) {
-      positionGroups[Number(position)].sort((a, b) => {
-        const insertionOrderDiff =
-          (b.insertion_order || 0) - (a.insertion_order || 0);
-        if (insertionOrderDiff !== 0) return insertionOrderDiff;
-        return (b.insertion_order || 0) - (a.insertion_order || 0);
-      });
+      positionGroups[Number(position)].sort(
+        (a, b) => (b.insertion_order || 0) - (a.insertion_order || 0),
+      );
     }
 
     return positionGroups;
   }
+
+  /**
+   * Entries that go into the chat history: at-depth entries grouped by depth
+   * and role, and the author's note entries at the author's note depth
+   */
+  static getDepthInsertions(
+    positionGroups: Record<number, WorldBookEntry[]>,
+    format: (entry: WorldBookEntry) => string,
+  ): WorldBookDepthInsertion[] {
+    const insertions: WorldBookDepthInsertion[] = [];
+    const add = (depth: number, role: WorldBookRole, content: string) => {
+      const existing = insertions.find(
+        (insertion) => insertion.depth === depth && insertion.role === role,
+      );
+      if (existing) {
+        existing.content += `\n${content}`;
+      } else {
+        insertions.push({ depth, role, content });
+      }
+    };
+
+    for (const position of [
+      WorldBookPosition.BEFORE_AUTHOR_NOTE,
+      WorldBookPosition.AFTER_AUTHOR_NOTE,
+    ]) {
+      for (const entry of positionGroups[position] || []) {
+        add(AUTHOR_NOTE_DEPTH, "system", format(entry));
+      }
+    }
+    for (const entry of positionGroups[WorldBookPosition.AT_DEPTH] || []) {
+      add(this.resolveDepth(entry), this.resolveRole(entry), format(entry));
+    }
+
+    return insertions;
+  }
+
+  /**
+   * Places insertions among chat messages, oldest first: depth 0 goes after
+   * the last message, depth 1 before it, and depths beyond the history
+   * before the first
+   */
+  static insertAtDepth(
+    messages: string[],
+    insertions: WorldBookDepthInsertion[],
+    format: (insertion: WorldBookDepthInsertion) => string,
+  ): string[] {
+    const indexOf = (insertion: WorldBookDepthInsertion) =>
+      Math.max(0, messages.length - insertion.depth);
+    const result: string[] = [];
+    for (let i = 0; i <= messages.length; i++) {
+      insertions
+        .filter((insertion) => indexOf(insertion) === i)
+        .forEach((insertion) => result.push(format(insertion)));
+      if (i < messages.length) {
+        result.push(messages[i]);
+      }
+    }
+    return result;
+  }
 }
@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import {
+  BackupPassphraseError,
+  decryptBackup,
+  encryptBackup,
+  isEncryptedBackup,
+} from "@/lib/data/backup-crypto";
+
+const manifest = {
+  schema_version: 19,
+  characters_record: [{ id: "c1", data: { name: "Aria ✨" } }],
+};
+
+describe("backup encryption", () => {
+  it("decrypts what it encrypted", async () => {
+    const encrypted = await encryptBackup(manifest, "correct horse");
+
+    expect(isEncryptedBackup(encrypted)).toBe(true);
+    expect(encrypted.ciphertext).not.toContain("Aria");
+    expect(await decryptBackup(encrypted, "correct horse")).toEqual(manifest);
+  });
+
+  it("uses a fresh salt and IV for every backup", async () => {
+    const first = await encryptBackup(manifest, "pass");
+    const second = await encryptBackup(manifest, "pass");
+
+    expect(first.kdf.salt).not.toBe(second.kdf.salt);
+    expect(first.cipher.iv).not.toBe(second.cipher.iv);
+  });
+
+  it("rejects a wrong passphrase", async () => {
+    const encrypted = await encryptBackup(manifest, "correct horse");
+
+    await expect(decryptBackup(encrypted, "wrong horse")).rejects.toBeInstanceOf(
+      BackupPassphraseError,
+    );
+  });
+
+  it("rejects a backup whose header was edited", async () => {
+    const encrypted = await encryptBackup(manifest, "correct horse");
+    const edited = { ...encrypted, version: 0 };
+
+    await expect(decryptBackup(edited, "correct horse")).rejects.toBeInstanceOf(
+      BackupPassphraseError,
+    );
+  });
+
+  it("refuses backups from a newer format version", async () => {
+    const encrypted = await encryptBackup(manifest, "pass");
+
+    await expect(
+      decryptBackup({ ...encrypted, version: 99 }, "pass"),
+    ).rejects.toThrow("Unsupported encrypted backup version: 99");
+  });
+
+  it("tells plain backups apart", () => {
+    expect(isEncryptedBackup(manifest)).toBe(false);
+    expect(isEncryptedBackup(null)).toBe(false);
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, it, expect } from "vitest";
+import {
+  remapLegacyWorldBookPositions,
+  splitLegacyStoreData,
+} from "@/lib/data/legacy-records";
+import {
+  CHARACTERS_RECORD_FILE,
+  CHARACTER_DIALOGUES_FILE,
+  DIALOGUE_NODES_FILE,
+  MEMORY_CONFIGS_FILE,
+  MEMORY_ENTRIES_FILE,
+  PRESET_FILE,
+  REGEX_SCRIPTS_FILE,
+  WORLD_BOOK_FILE,
+  readBackupStores,
+} from "@/lib/data/local-storage";
+
+describe("splitLegacyStoreData", () => {
+  it("keeps records with an id", () => {
+    expect(
+      splitLegacyStoreData(CHARACTERS_RECORD_FILE, [
+        { id: "c1", data: {} },
+        { data: {} },
+        null,
+      ]),
+    ).toEqual([
+      { storeName: CHARACTERS_RECORD_FILE, records: [{ id: "c1", data: {} }] },
+    ]);
+  });
+
+  it("splits dialogue trees from their nodes", () => {
+    const [trees, nodes] = splitLegacyStoreData(CHARACTER_DIALOGUES_FILE, [
+      {
+        id: "d1",
+        character_id: "c1",
+        current_nodeId: "n2",
+        nodes: [
+          { nodeId: "n1", parentNodeId: "root" },
+          { parentNodeId: "n1" },
+          { nodeId: "n2", parentNodeId: "n1" },
+        ],
+      },
+    ]);
+
+    expect(trees).toEqual({
+      storeName: CHARACTER_DIALOGUES_FILE,
+      records: [
+        { id: "d1", character_id: "c1", current_nodeId: "n2", next_order: 2 },
+      ],
+    });
+    expect(nodes).toEqual({
+      storeName: DIALOGUE_NODES_FILE,
+      records: [
+        { nodeId: "n1", parentNodeId: "root", dialogueId: "d1", order: 0 },
+        { nodeId: "n2", parentNodeId: "n1", dialogueId: "d1", order: 1 },
+      ],
+    });
+  });
+
+  it("gives each world book and regex owner one record with its settings", () => {
+    const ownerMap = {
+      c1: { e1: { content: "lore" } },
+      c1_settings: { enabled: true },
+      c2_settings: { enabled: false },
+    };
+
+    expect(splitLegacyStoreData(WORLD_BOOK_FILE, [ownerMap])[0].records).toEqual([
+      { id: "c1", entries: { e1: { content: "lore" } }, settings: { enabled: true } },
+      { id: "c2", entries: {}, settings: { enabled: false } },
+    ]);
+    expect(
+      splitLegacyStoreData(REGEX_SCRIPTS_FILE, [{ c1: { s1: { findRegex: "a" } } }])[0]
+        .records,
+    ).toEqual([{ id: "c1", scripts: { s1: { findRegex: "a" } } }]);
+  });
+
+  it("turns the preset map into records keyed by id", () => {
+    expect(
+      splitLegacyStoreData(PRESET_FILE, [
+        { p1: { name: "One" }, p2: { id: "p2", name: "Two" }, p1_settings: {} },
+      ])[0].records,
+    ).toEqual([
+      { id: "p1", name: "One" },
+      { id: "p2", name: "Two" },
+    ]);
+  });
+
+  it("splits memory records into entries and configs", () => {
+    const [entries, configs] = splitLegacyStoreData(MEMORY_ENTRIES_FILE, [
+      {
+        characterId: "c1",
+        entries: [{ id: "m1", content: "remembered" }, { content: "no id" }],
+        config: { maxEntries: 10 },
+        created_at: "2024-01-01",
+        updated_at: "2024-01-02",
+      },
+    ]);
+
+    expect(entries.records).toEqual([
+      { id: "m1", content: "remembered", characterId: "c1" },
+    ]);
+    expect(configs).toEqual({
+      storeName: MEMORY_CONFIGS_FILE,
+      records: [
+        {
+          characterId: "c1",
+          config: { maxEntries: 10 },
+          created_at: "2024-01-01",
+          updated_at: "2024-01-02",
+        },
+      ],
+    });
+  });
+});
+
+describe("remapLegacyWorldBookPositions", () => {
+  it("moves entries off the author's note slots", () => {
+    const record = {
+      id: "c1",
+      entries: {
+        a: { content: "a", position: 2 },
+        b: { content: "b", position: "3", depth: 4 },
+        c: { content: "c", position: 0 },
+      },
+    };
+
+    expect(remapLegacyWorldBookPositions(record)).toEqual({
+      id: "c1",
+      entries: {
+        a: { content: "a", position: 1 },
+        b: { content: "b", position: 4, depth: 0 },
+        c: { content: "c", position: 0 },
+      },
+    });
+  });
+
+  it("moves the position saving copies from extensions as well", () => {
+    const record = {
+      id: "c1",
+      entries: {
+        a: { position: 3, depth: 2, extensions: { position: 3, depth: 2, imported: true } },
+      },
+    };
+
+    expect(remapLegacyWorldBookPositions(record).entries.a).toEqual({
+      position: 4,
+      depth: 0,
+      extensions: { position: 4, depth: 0, imported: true },
+    });
+  });
+
+  it("leaves records without those positions untouched", () => {
+    expect(
+      remapLegacyWorldBookPositions({ id: "c1", entries: { a: { position: 4 } } }),
+    ).toBeUndefined();
+    expect(remapLegacyWorldBookPositions({ id: "c1" })).toBeUndefined();
+  });
+});
+
+describe("readBackupStores", () => {
+  it("splits backups written before per-record storage", () => {
+    const { stores } = readBackupStores({
+      schema_version: 11,
+      [CHARACTERS_RECORD_FILE]: [{ id: "c1" }],
+      [WORLD_BOOK_FILE]: [{ c1: { e1: { content: "lore" } } }],
+    });
+
+    expect(stores[CHARACTERS_RECORD_FILE]).toEqual([{ id: "c1" }]);
+    expect(stores[WORLD_BOOK_FILE]).toEqual([
+      { id: "c1", entries: { e1: { content: "lore" } } },
+    ]);
+  });
+
+  it("reads current backups as they are", () => {
+    const worldBook = { id: "c1", entries: { e1: { content: "lore" } } };
+    const { stores } = readBackupStores({
+      schema_version: 12,
+      [WORLD_BOOK_FILE]: [worldBook],
+    });
+
+    expect(stores[WORLD_BOOK_FILE]).toEqual([worldBook]);
+  });
+
+  it("moves world book entries of older backups off the author's note slots", () => {
+    const { stores } = readBackupStores({
+      schema_version: 18,
+      [WORLD_BOOK_FILE]: [{ id: "c1", entries: { e1: { position: 3 } } }],
+    });
+
+    expect(stores[WORLD_BOOK_FILE]).toEqual([
+      { id: "c1", entries: { e1: { position: 4, depth: 0 } } },
+    ]);
+  });
+});
@@ -0,0 +1,274 @@
+import { describe, it, expect, vi } from "vitest";
+import { MigrationError, runMigrations } from "@/lib/data/migrations";
+import { WorldBookOperations } from "@/lib/data/roleplay/world-book-operation";
+import {
+  CHARACTERS_RECORD_FILE,
+  CHARACTER_DIALOGUES_FILE,
+  CHARACTER_IMAGES_FILE,
+  DIALOGUE_NODES_FILE,
+  WORLD_BOOK_FILE,
+  getRecordKey,
+} from "@/lib/data/local-storage";
+
+/** Records the app reads and writes after migrating, by store and key */
+const saved = new Map<string, any>();
+
+vi.mock("@/lib/data/local-storage", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/data/local-storage")>()),
+  getRecord: async (storeName: string, key: string) =>
+    saved.get(`${storeName}/${key}`),
+  putRecord: async (storeName: string, value: any) => {
+    saved.set(`${storeName}/${value.id}`, value);
+  },
+}));
+
+/**
+ * Just enough of an IndexedDB upgrade transaction for the runner: requests
+ * complete in the order they were made, one task later, like the real thing.
+ */
+class FakeDatabase {
+  stores = new Map<string, Map<string, any>>();
+  private pending = 0;
+
+  constructor(data: Record<string, Record<string, any>>) {
+    for (const [storeName, records] of Object.entries(data)) {
+      this.stores.set(storeName, new Map(Object.entries(records).map(
+        ([key, value]) => [JSON.stringify(key), value],
+      )));
+    }
+  }
+
+  get db(): IDBDatabase {
+    return {
+      objectStoreNames: { contains: (name: string) => this.stores.has(name) },
+    } as unknown as IDBDatabase;
+  }
+
+  get tx(): IDBTransaction {
+    return {
+      objectStore: (name: string) => this.objectStore(name),
+      abort: () => undefined,
+    } as unknown as IDBTransaction;
+  }
+
+  recreateStore = (name: string): IDBObjectStore => {
+    this.stores.set(name, new Map());
+    return this.objectStore(name);
+  };
+
+  records(storeName: string): any[] {
+    return [...(this.stores.get(storeName)?.values() || [])];
+  }
+
+  /** Resolves once every request made so far, and those they led to, ran */
+  async idle(): Promise<void> {
+    do {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    } while (this.pending > 0);
+  }
+
+  private schedule(run: () => void): void {
+    this.pending++;
+    setTimeout(() => {
+      this.pending--;
+      run();
+    }, 0);
+  }
+
+  private request<T>(produce: () => T): IDBRequest<T> {
+    const request: any = { onsuccess: null, onerror: null };
+    this.schedule(() => {
+      request.result = produce();
+      request.onsuccess?.();
+    });
+    return request;
+  }
+
+  private objectStore(name: string): IDBObjectStore {
+    if (!this.stores.has(name)) {
+      this.stores.set(name, new Map());
+    }
+    const records = this.stores.get(name)!;
+    const key = (value: any) => JSON.stringify(getRecordKey(name, value));
+
+    return {
+      get: (id: IDBValidKey) => this.request(() => records.get(JSON.stringify(id))),
+      put: (value: any) => this.request(() => records.set(key(value), value)),
+      delete: (id: IDBValidKey) =>
+        this.request(() => records.delete(JSON.stringify(id))),
+      openCursor: () => {
+        const request: any = { onsuccess: null, onerror: null };
+        // Read when the request runs, so earlier writes are seen
+        let entries: [string, any][] | null = null;
+        let index = 0;
+        const step = () =>
+          this.schedule(() => {
+            entries ??= [...records.entries()];
+            const entry = entries[index];
+            request.result = entry && {
+              value: entry[1],
+              update: (value: any) => records.set(entry[0], value),
+              delete: () => records.delete(entry[0]),
+              continue: () => {
+                index++;
+                step();
+              },
+            };
+            request.onsuccess?.();
+          });
+        step();
+        return request;
+      },
+    } as unknown as IDBObjectStore;
+  }
+}
+
+async function migrate(
+  fake: FakeDatabase,
+  oldVersion: number,
+  newVersion: number,
+): Promise<MigrationError[]> {
+  const failures: MigrationError[] = [];
+  runMigrations({
+    db: fake.db,
+    tx: fake.tx,
+    oldVersion,
+    newVersion,
+    recreateStore: fake.recreateStore,
+    onFailure: (error) => failures.push(error),
+  });
+  await fake.idle();
+  return failures;
+}
+
+describe("migration 12", () => {
+  it("splits every legacy data array into records", async () => {
+    const fake = new FakeDatabase({
+      [CHARACTERS_RECORD_FILE]: { data: [{ id: "c1" }, { id: "c2" }] },
+      [CHARACTER_DIALOGUES_FILE]: {
+        data: [
+          {
+            id: "d1",
+            character_id: "c1",
+            current_nodeId: "n1",
+            nodes: [{ nodeId: "n1", parentNodeId: "root" }],
+          },
+        ],
+      },
+      [WORLD_BOOK_FILE]: {
+        data: [{ c1: { e1: { content: "lore" } }, c1_settings: { enabled: true } }],
+      },
+      [CHARACTER_IMAGES_FILE]: { data: [], "c1.png": "image" },
+    });
+
+    expect(await migrate(fake, 11, 12)).toEqual([]);
+
+    expect(fake.records(CHARACTERS_RECORD_FILE)).toEqual([{ id: "c1" }, { id: "c2" }]);
+    expect(fake.records(CHARACTER_DIALOGUES_FILE)).toEqual([
+      { id: "d1", character_id: "c1", current_nodeId: "n1", next_order: 1 },
+    ]);
+    expect(fake.records(DIALOGUE_NODES_FILE)).toEqual([
+      { nodeId: "n1", parentNodeId: "root", dialogueId: "d1", order: 0 },
+    ]);
+    expect(fake.records(WORLD_BOOK_FILE)).toEqual([
+      { id: "c1", entries: { e1: { content: "lore" } }, settings: { enabled: true } },
+    ]);
+    expect(fake.records(CHARACTER_IMAGES_FILE)).toEqual(["image"]);
+  });
+
+  it("leaves stores that do not exist yet alone", async () => {
+    const fake = new FakeDatabase({
+      [CHARACTERS_RECORD_FILE]: { data: [{ id: "c1" }] },
+    });
+
+    expect(await migrate(fake, 11, 12)).toEqual([]);
+    expect(fake.stores.has(WORLD_BOOK_FILE)).toBe(false);
+    expect(fake.records(CHARACTERS_RECORD_FILE)).toEqual([{ id: "c1" }]);
+  });
+
+  it("does not run again on a database already past it", async () => {
+    const fake = new FakeDatabase({
+      [CHARACTERS_RECORD_FILE]: { c1: { id: "c1" } },
+    });
+
+    expect(await migrate(fake, 12, 12)).toEqual([]);
+    expect(fake.records(CHARACTERS_RECORD_FILE)).toEqual([{ id: "c1" }]);
+  });
+
+  it("reports a failing migration with its version", async () => {
+    const fake = new FakeDatabase({
+      [CHARACTERS_RECORD_FILE]: { data: [{ id: "c1" }] },
+    });
+    fake.recreateStore = () => {
+      throw new Error("store is locked");
+    };
+
+    const failures = await migrate(fake, 11, 12);
+    expect(failures).toHaveLength(1);
+    expect(failures[0].version).toBe(12);
+    expect(failures[0].message).toBe(
+      "Migration to version 12 failed: store is locked",
+    );
+  });
+});
+
+describe("migration 19", () => {
+  it("moves world book entries off the author's note slots", async () => {
+    const fake = new FakeDatabase({
+      [WORLD_BOOK_FILE]: {
+        c1: {
+          id: "c1",
+          entries: { a: { position: 2 }, b: { position: 3 }, c: { position: 4 } },
+        },
+        c2: { id: "c2", entries: { d: { position: 0 } } },
+      },
+    });
+
+    expect(await migrate(fake, 18, 19)).toEqual([]);
+    expect(fake.records(WORLD_BOOK_FILE)).toEqual([
+      {
+        id: "c1",
+        entries: {
+          a: { position: 1 },
+          b: { position: 4, depth: 0 },
+          c: { position: 4 },
+        },
+      },
+      { id: "c2", entries: { d: { position: 0 } } },
+    ]);
+  });
+
+  it("keeps the new slots when the book is saved again", async () => {
+    const fake = new FakeDatabase({
+      [WORLD_BOOK_FILE]: {
+        c1: {
+          id: "c1",
+          entries: {
+            a: { position: 2, depth: 1, extensions: { position: 2, depth: 1 } },
+            b: { position: 3, depth: 2, extensions: { position: 3, depth: 2 } },
+          },
+        },
+      },
+    });
+
+    expect(await migrate(fake, 18, 19)).toEqual([]);
+    const [record] = fake.records(WORLD_BOOK_FILE);
+    saved.set(`${WORLD_BOOK_FILE}/c1`, record);
+    await WorldBookOperations.updateWorldBook("c1", record.entries);
+
+    const entries = (await WorldBookOperations.getWorldBook("c1"))!;
+    expect(entries.a).toMatchObject({ position: 1, depth: 1 });
+    expect(entries.b).toMatchObject({ position: 4, depth: 0 });
+  });
+
+  it("runs after migration 12 on a legacy database", async () => {
+    const fake = new FakeDatabase({
+      [WORLD_BOOK_FILE]: { data: [{ c1: { a: { position: 2 } } }] },
+    });
+
+    expect(await migrate(fake, 11, 19)).toEqual([]);
+    expect(fake.records(WORLD_BOOK_FILE)).toEqual([
+      { id: "c1", entries: { a: { position: 1 } } },
+    ]);
+  });
+});
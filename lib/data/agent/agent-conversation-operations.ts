@@ -8,10 +8,14 @@ import {
   TaskEntry,
 } from "../../models/agent-model";
 import {
-  readData,
-  writeData,
+  getRecord,
+  getAllRecords,
+  putRecord,
+  deleteRecord,
+  clearStore,
   AGENT_CONVERSATIONS_FILE,
 } from "../local-storage";
+import { publishChange } from "../change-bus";
 import { v4 as uuidv4 } from "uuid";
 
 /**
@@ -75,8 +79,15 @@ export class ResearchSessionOperations {
   static async getSessionById(
     sessionId: string,
   ): Promise<ResearchSession | null> {
-    const sessions = await this.getAllSessions();
-    return sessions.find((s) => s.id === sessionId) || null;
+    try {
+      return await getRecord<ResearchSession>(
+        AGENT_CONVERSATIONS_FILE,
+        sessionId,
+      );
+    } catch (error) {
+      console.error("Failed to load session:", error);
+      return null;
+    }
   }
 
   /**
@@ -84,8 +95,7 @@ export class ResearchSessionOperations {
    */
   static async getAllSessions(): Promise<ResearchSession[]> {
     try {
-      const data = await readData(AGENT_CONVERSATIONS_FILE);
-      return Array.isArray(data) ? data : [];
+      return await getAllRecords<ResearchSession>(AGENT_CONVERSATIONS_FILE);
     } catch (error) {
       console.error("Failed to load sessions:", error);
       return [];
@@ -96,16 +106,8 @@ export class ResearchSessionOperations {
    * Save conversation to storage
    */
   static async saveSession(session: ResearchSession): Promise<void> {
-    const sessions = await this.getAllSessions();
-    const existingIndex = sessions.findIndex((s) => s.id === session.id);
-
-    if (existingIndex >= 0) {
-      sessions[existingIndex] = session;
-    } else {
-      sessions.push(session);
-    }
-
-    await writeData(AGENT_CONVERSATIONS_FILE, sessions);
+    await putRecord(AGENT_CONVERSATIONS_FILE, session);
+    publishChange("agentConversations", "put", session.id);
   }
 
   /**
@@ -273,16 +275,16 @@ export class ResearchSessionOperations {
    * Delete conversation
    */
   static async deleteSession(sessionId: string): Promise<void> {
-    const sessions = await this.getAllSessions();
-    const updatedSessions = sessions.filter((s) => s.id !== sessionId);
-    await writeData(AGENT_CONVERSATIONS_FILE, updatedSessions);
+    await deleteRecord(AGENT_CONVERSATIONS_FILE, sessionId);
+    publishChange("agentConversations", "delete", sessionId);
   }
 
   /**
    * Clear all sessions from the data file
    */
   static async clearAll(): Promise<void> {
-    await writeData(AGENT_CONVERSATIONS_FILE, []);
+    await clearStore(AGENT_CONVERSATIONS_FILE);
+    publishChange("agentConversations", "reset");
   }
 
   /**
@@ -326,21 +328,19 @@ export class ResearchSessionOperations {
     sessionId: string,
     newTasks: TaskEntry[],
   ): Promise<void> {
-    const sessions = await this.getAllSessions();
-    const sessionIndex = sessions.findIndex((s) => s.id === sessionId);
+    const session = await this.getSessionById(sessionId);
 
-    if (sessionIndex === -1) {
+    if (!session) {
       throw new Error(`Session not found: ${sessionId}`);
     }
 
-    const session = sessions[sessionIndex];
     const currentQueue = session.research_state.task_queue || [];
 
     // Add new tasks to the end of current queue
     session.research_state.task_queue = [...currentQueue, ...newTasks];
 
     // Save only the updated session
-    await writeData(AGENT_CONVERSATIONS_FILE, sessions);
+    await this.saveSession(session);
   }
 
   /**
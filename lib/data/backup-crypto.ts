@@ -0,0 +1,173 @@
+export const ENCRYPTED_BACKUP_FORMAT = "narratium-encrypted-backup";
+export const ENCRYPTED_BACKUP_VERSION = 1;
+
+const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+/**
+ * Plaintext header of an encrypted backup. It carries everything needed to
+ * derive the key again and is bound to the ciphertext as AES-GCM additional
+ * data, so editing it makes decryption fail.
+ */
+export interface EncryptedBackupHeader {
+  format: typeof ENCRYPTED_BACKUP_FORMAT;
+  version: number;
+  kdf: {
+    name: "PBKDF2";
+    hash: "SHA-256";
+    iterations: number;
+    salt: string;
+  };
+  cipher: {
+    name: "AES-GCM";
+    iv: string;
+  };
+}
+
+export interface EncryptedBackup extends EncryptedBackupHeader {
+  ciphertext: string;
+}
+
+export class BackupPassphraseError extends Error {
+  constructor(message = "Wrong passphrase or damaged backup file") {
+    super(message);
+    this.name = "BackupPassphraseError";
+  }
+}
+
+export function isEncryptedBackup(data: any): data is EncryptedBackup {
+  return (
+    !!data &&
+    typeof data === "object" &&
+    data.format === ENCRYPTED_BACKUP_FORMAT &&
+    typeof data.ciphertext === "string"
+  );
+}
+
+export async function encryptBackup(
+  data: any,
+  passphrase: string,
+): Promise<EncryptedBackup> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+
+  const header: EncryptedBackupHeader = {
+    format: ENCRYPTED_BACKUP_FORMAT,
+    version: ENCRYPTED_BACKUP_VERSION,
+    kdf: {
+      name: "PBKDF2",
+      hash: "SHA-256",
+      iterations: PBKDF2_ITERATIONS,
+      salt: bytesToBase64(salt),
+    },
+    cipher: {
+      name: "AES-GCM",
+      iv: bytesToBase64(iv),
+    },
+  };
+
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const plaintext = new TextEncoder().encode(JSON.stringify(data));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: encodeHeader(header) },
+    key,
+    plaintext,
+  );
+
+  return { ...header, ciphertext: bytesToBase64(new Uint8Array(ciphertext)) };
+}
+
+export async function decryptBackup(
+  backup: EncryptedBackup,
+  passphrase: string,
+): Promise<any> {
+  if (backup.version > ENCRYPTED_BACKUP_VERSION) {
+    throw new Error(`Unsupported encrypted backup version: ${backup.version}`);
+  }
+
+  const header: EncryptedBackupHeader = {
+    format: backup.format,
+    version: backup.version,
+    kdf: backup.kdf,
+    cipher: backup.cipher,
+  };
+  const key = await deriveKey(
+    passphrase,
+    base64ToBytes(backup.kdf.salt),
+    backup.kdf.iterations,
+  );
+
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt(
+      {
+        name: "AES-GCM",
+        iv: base64ToBytes(backup.cipher.iv),
+        additionalData: encodeHeader(header),
+      },
+      key,
+      base64ToBytes(backup.ciphertext),
+    );
+  } catch {
+    // AES-GCM cannot tell a wrong key from tampered data
+    throw new BackupPassphraseError();
+  }
+
+  return JSON.parse(new TextDecoder().decode(plaintext));
+}
+
+async function deriveKey(
+  passphrase: string,
+  salt: Uint8Array,
+  iterations: number,
+): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"],
+  );
+
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    baseKey,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  );
+}
+
+// Fixed field order so the same header always authenticates the same way
+function encodeHeader(header: EncryptedBackupHeader): Uint8Array {
+  return new TextEncoder().encode(
+    JSON.stringify([
+      header.format,
+      header.version,
+      header.kdf.name,
+      header.kdf.hash,
+      header.kdf.iterations,
+      header.kdf.salt,
+      header.cipher.name,
+      header.cipher.iv,
+    ]),
+  );
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
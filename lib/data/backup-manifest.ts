@@ -0,0 +1,177 @@
+import { DB_VERSION, exportAllData } from "@/lib/data/local-storage";
+
+export const BACKUP_FORMAT = "narratium-backup";
+export const BACKUP_MANIFEST_VERSION = 1;
+
+/**
+ * localStorage keys that belong in a full backup. Session state such as
+ * login or Google Drive tokens is deliberately left out.
+ */
+export const BACKUP_SETTINGS_KEYS = [
+  "apiConfigs",
+  "activeConfigId",
+  "llmType",
+  "modelName",
+  "modelBaseUrl",
+  "openaiBaseUrl",
+  "openaiModel",
+  "ollamaBaseUrl",
+  "ollamaModel",
+  "temperature",
+  "maxTokens",
+  "responseLength",
+  "streamingEnabled",
+  "fastModelEnabled",
+  "symbol-colors",
+  "soundEnabled",
+  "language",
+  "system_preset_type",
+  "system_preset_name",
+  "syncProvider",
+  "trashRetentionDays",
+];
+
+// Only written when the user opts in at export time
+export const BACKUP_API_KEY_KEYS = [
+  "webdavSyncConfig",
+  "apiKey",
+  "openaiApiKey",
+  "falApiKey",
+  "jinaApiKey",
+  "tavilyApiKey",
+];
+
+export interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  manifest_version: number;
+  schema_version: number;
+  created_at: string;
+  includes_api_keys: boolean;
+  stores: Record<string, any>;
+  settings: Record<string, string>;
+}
+
+export interface BackupOptions {
+  includeApiKeys?: boolean;
+}
+
+export function isBackupManifest(data: any): data is BackupManifest {
+  return !!data && typeof data === "object" && data.format === BACKUP_FORMAT;
+}
+
+export async function createBackupManifest(
+  options: BackupOptions = {},
+): Promise<BackupManifest> {
+  const includeApiKeys = options.includeApiKeys === true;
+
+  return {
+    format: BACKUP_FORMAT,
+    manifest_version: BACKUP_MANIFEST_VERSION,
+    schema_version: DB_VERSION,
+    created_at: new Date().toISOString(),
+    includes_api_keys: includeApiKeys,
+    stores: await exportAllData(),
+    settings: collectSettings(includeApiKeys),
+  };
+}
+
+/**
+ * Store section of a backup file. Plain store dumps written before manifests
+ * existed are the store section themselves.
+ */
+export function getBackupStoreData(data: any): Record<string, any> {
+  if (!isBackupManifest(data)) {
+    return data || {};
+  }
+
+  if (data.manifest_version > BACKUP_MANIFEST_VERSION) {
+    throw new Error(
+      `Unsupported backup manifest version: ${data.manifest_version}`,
+    );
+  }
+
+  return data.stores || {};
+}
+
+function collectSettings(includeApiKeys: boolean): Record<string, string> {
+  const settings: Record<string, string> = {};
+  const keys = includeApiKeys
+    ? [...BACKUP_SETTINGS_KEYS, ...BACKUP_API_KEY_KEYS]
+    : BACKUP_SETTINGS_KEYS;
+
+  for (const key of keys) {
+    const value = localStorage.getItem(key);
+    if (value !== null) {
+      settings[key] = value;
+    }
+  }
+
+  if (!includeApiKeys && settings.apiConfigs) {
+    settings.apiConfigs = stripConfigApiKeys(settings.apiConfigs);
+  }
+
+  return settings;
+}
+
+export function restoreSettings(
+  settings: Record<string, string>,
+  includesApiKeys: boolean,
+): void {
+  const allowedKeys = includesApiKeys
+    ? [...BACKUP_SETTINGS_KEYS, ...BACKUP_API_KEY_KEYS]
+    : BACKUP_SETTINGS_KEYS;
+
+  for (const key of allowedKeys) {
+    const value = settings[key];
+    if (typeof value !== "string") {
+      continue;
+    }
+
+    if (key === "apiConfigs" && !includesApiKeys) {
+      localStorage.setItem(key, keepLocalApiKeys(value));
+    } else {
+      localStorage.setItem(key, value);
+    }
+  }
+}
+
+function stripConfigApiKeys(serializedConfigs: string): string {
+  try {
+    const configs = JSON.parse(serializedConfigs);
+    if (!Array.isArray(configs)) {
+      return serializedConfigs;
+    }
+    return JSON.stringify(
+      configs.map(({ apiKey: _apiKey, ...config }: any) => config),
+    );
+  } catch {
+    return "[]";
+  }
+}
+
+// A backup without keys must not wipe the keys this browser already has
+function keepLocalApiKeys(serializedConfigs: string): string {
+  try {
+    const configs = JSON.parse(serializedConfigs);
+    const localConfigs = JSON.parse(localStorage.getItem("apiConfigs") || "[]");
+    if (!Array.isArray(configs) || !Array.isArray(localConfigs)) {
+      return serializedConfigs;
+    }
+
+    const localKeys = new Map<string, string>(
+      localConfigs
+        .filter((config: any) => config?.id && config.apiKey)
+        .map((config: any) => [config.id, config.apiKey]),
+    );
+
+    return JSON.stringify(
+      configs.map((config: any) =>
+        localKeys.has(config.id)
+          ? { ...config, apiKey: localKeys.get(config.id) }
+          : config,
+      ),
+    );
+  } catch {
+    return serializedConfigs;
+  }
+}
@@ -0,0 +1,577 @@
+import {
+  CHARACTERS_RECORD_FILE,
+  CHARACTER_DIALOGUES_FILE,
+  DIALOGUE_NODES_FILE,
+  CHARACTER_IMAGES_FILE,
+  WORLD_BOOK_FILE,
+  REGEX_SCRIPTS_FILE,
+  MEMORY_ENTRIES_FILE,
+  MEMORY_EMBEDDINGS_FILE,
+  MEMORY_CONFIGS_FILE,
+  CHARACTER_REVISIONS_FILE,
+  RECORD_STORES,
+  STORE_SCHEMAS,
+  BackupImage,
+  StorageOperation,
+  applyBatch,
+  base64ToBlob,
+  getAllKeys,
+  getAllRecords,
+  getRecordKey,
+  readBackupStores,
+  setBlob,
+} from "@/lib/data/local-storage";
+import { publishReset } from "@/lib/data/change-bus";
+import {
+  getCharacterImageKeys,
+  getRecordOwner,
+} from "@/lib/data/character-ownership";
+import {
+  getBackupStoreData,
+  isBackupManifest,
+  restoreSettings,
+} from "@/lib/data/backup-manifest";
+import { v4 as uuidv4 } from "uuid";
+
+export type RestoreMode = "replace" | "merge";
+export type ConflictPolicy = "keepNewer" | "keepBoth";
+
+export interface RestoreOptions {
+  mode: RestoreMode;
+  /** How merge mode settles a record that exists on both sides. */
+  conflictPolicy?: ConflictPolicy;
+  /** Restrict the restore to these characters and the data that belongs to them. */
+  characterIds?: string[];
+}
+
+export interface StoreChangeSummary {
+  added: number;
+  updated: number;
+  duplicated: number;
+  skipped: number;
+  removed: number;
+}
+
+export interface RestorePlan {
+  options: RestoreOptions;
+  stores: Record<string, StoreChangeSummary>;
+  settingsKeys: string[];
+  operations: StorageOperation[];
+  images: BackupImage[];
+  settings: Record<string, string>;
+  includesApiKeys: boolean;
+}
+
+export interface BackupCharacterSummary {
+  id: string;
+  name: string;
+  updated_at?: string;
+}
+
+type StoreMap = Record<string, any[]>;
+
+interface CharacterUnit {
+  records: StoreMap;
+  imageKeys: string[];
+}
+
+interface PartitionedStores {
+  units: Map<string, CharacterUnit>;
+  standalone: StoreMap;
+}
+
+export function listBackupCharacters(data: any): BackupCharacterSummary[] {
+  const { stores } = readBackupStores(getBackupStoreData(data));
+
+  return (stores[CHARACTERS_RECORD_FILE] || [])
+    .filter((record) => record?.id)
+    .map((record) => ({
+      id: record.id,
+      name: record.data?.data?.name || record.data?.name || record.id,
+      updated_at: record.updated_at,
+    }));
+}
+
+/**
+ * Works out every write a restore would make without touching the database,
+ * so the caller can show the summary first and apply the same plan after.
+ */
+export async function planRestore(
+  data: any,
+  options: RestoreOptions,
+): Promise<RestorePlan> {
+  const { stores: incomingStores, images } = readBackupStores(
+    getBackupStoreData(data),
+  );
+  const isSelective = Array.isArray(options.characterIds);
+
+  const localStores: StoreMap = {};
+  for (const storeName of RECORD_STORES) {
+    localStores[storeName] = await getAllRecords(storeName);
+  }
+  const localImageKeys = new Set(
+    ((await getAllKeys(CHARACTER_IMAGES_FILE)) as IDBValidKey[]).map(String),
+  );
+
+  const plan: RestorePlan = {
+    options,
+    stores: {},
+    settingsKeys: [],
+    operations: [],
+    images: [],
+    settings: {},
+    includesApiKeys: false,
+  };
+
+  if (options.mode === "replace" && !isSelective) {
+    planFullReplace(plan, incomingStores, localStores);
+    plan.images = images;
+    countImages(plan, images, localImageKeys);
+  } else {
+    const incomingImages = new Map(images.map((image) => [image.key, image]));
+    const incoming = partitionByCharacter(incomingStores);
+    const local = partitionByCharacter(localStores);
+    const selectedIds = isSelective
+      ? new Set(options.characterIds)
+      : new Set(incoming.units.keys());
+
+    for (const characterId of selectedIds) {
+      const unit = incoming.units.get(characterId);
+      if (unit) {
+        planCharacterUnit(
+          plan,
+          characterId,
+          unit,
+          local.units.get(characterId),
+          incomingImages,
+          localImageKeys,
+        );
+      }
+    }
+
+    if (!isSelective) {
+      planStandaloneRecords(plan, incoming.standalone, localStores);
+      planStandaloneImages(plan, incoming, incomingImages, localImageKeys);
+    }
+  }
+
+  if (!isSelective && isBackupManifest(data)) {
+    const settings = data.settings || {};
+    plan.includesApiKeys = data.includes_api_keys === true;
+    plan.settings =
+      options.mode === "replace"
+        ? settings
+        : Object.fromEntries(
+          Object.entries(settings).filter(
+            ([key]) => localStorage.getItem(key) === null,
+          ),
+        );
+    plan.settingsKeys = Object.keys(plan.settings);
+  }
+
+  return plan;
+}
+
+export async function applyRestorePlan(plan: RestorePlan): Promise<void> {
+  await applyBatch(plan.operations);
+
+  for (const image of plan.images) {
+    const blob = await base64ToBlob(image.data);
+    await setBlob(image.key, blob);
+  }
+
+  if (plan.settingsKeys.length > 0) {
+    restoreSettings(plan.settings, plan.includesApiKeys);
+  }
+
+  publishReset();
+}
+
+/**
+ * Restores a backup file. Without options every store in the file replaces
+ * the local one, which is how imports behaved before restore modes existed.
+ */
+export async function restoreBackup(
+  data: any,
+  options: RestoreOptions = { mode: "replace" },
+): Promise<RestorePlan> {
+  const plan = await planRestore(data, options);
+  await applyRestorePlan(plan);
+  return plan;
+}
+
+function getSummary(plan: RestorePlan, storeName: string): StoreChangeSummary {
+  if (!plan.stores[storeName]) {
+    plan.stores[storeName] = {
+      added: 0,
+      updated: 0,
+      duplicated: 0,
+      skipped: 0,
+      removed: 0,
+    };
+  }
+  return plan.stores[storeName];
+}
+
+function keyOf(storeName: string, record: any): string {
+  return JSON.stringify(getRecordKey(storeName, record));
+}
+
+function planFullReplace(
+  plan: RestorePlan,
+  incomingStores: StoreMap,
+  localStores: StoreMap,
+): void {
+  for (const [storeName, records] of Object.entries(incomingStores)) {
+    const summary = getSummary(plan, storeName);
+    const localKeys = new Set(
+      (localStores[storeName] || []).map((record) => keyOf(storeName, record)),
+    );
+    const incomingKeys = new Set<string>();
+
+    plan.operations.push({ type: "clear", storeName });
+    for (const record of records) {
+      const key = keyOf(storeName, record);
+      incomingKeys.add(key);
+      plan.operations.push({ type: "put", storeName, value: record });
+      if (localKeys.has(key)) {
+        summary.updated++;
+      } else {
+        summary.added++;
+      }
+    }
+
+    summary.removed = Array.from(localKeys).filter(
+      (key) => !incomingKeys.has(key),
+    ).length;
+  }
+}
+
+function countImages(
+  plan: RestorePlan,
+  images: BackupImage[],
+  localImageKeys: Set<string>,
+): void {
+  const summary = getSummary(plan, CHARACTER_IMAGES_FILE);
+  for (const image of images) {
+    if (localImageKeys.has(image.key)) {
+      summary.updated++;
+    } else {
+      summary.added++;
+    }
+  }
+}
+
+function partitionByCharacter(stores: StoreMap): PartitionedStores {
+  const characterIds = new Set(
+    (stores[CHARACTERS_RECORD_FILE] || []).map((record) => record.id),
+  );
+  const dialogueOwners = new Map<string, string>(
+    (stores[CHARACTER_DIALOGUES_FILE] || []).map((tree) => [
+      tree.id,
+      tree.character_id,
+    ]),
+  );
+
+  const units = new Map<string, CharacterUnit>();
+  const standalone: StoreMap = {};
+
+  for (const [storeName, records] of Object.entries(stores)) {
+    for (const record of records) {
+      const ownerId = getRecordOwner(storeName, record, dialogueOwners);
+
+      if (ownerId !== undefined && characterIds.has(ownerId)) {
+        if (!units.has(ownerId)) {
+          units.set(ownerId, { records: {}, imageKeys: [] });
+        }
+        const unit = units.get(ownerId) as CharacterUnit;
+        unit.records[storeName] = [...(unit.records[storeName] || []), record];
+        if (storeName === CHARACTERS_RECORD_FILE) {
+          unit.imageKeys = getCharacterImageKeys(record);
+        }
+      } else {
+        standalone[storeName] = [...(standalone[storeName] || []), record];
+      }
+    }
+  }
+
+  return { units, standalone };
+}
+
+function getUpdatedTime(record: any): number {
+  const value =
+    record?.updated_at ??
+    record?.updatedAt ??
+    record?.settings?.metadata?.updatedAt ??
+    record?.created_at ??
+    record?.createdAt;
+  const time = typeof value === "number" ? value : Date.parse(value);
+  return Number.isNaN(time) ? 0 : time;
+}
+
+function isSameRecord(a: any, b: any): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * A character and everything that belongs to it is restored as one unit, so
+ * a chat never ends up paired with a card from a different point in time.
+ */
+function planCharacterUnit(
+  plan: RestorePlan,
+  characterId: string,
+  incoming: CharacterUnit,
+  local: CharacterUnit | undefined,
+  incomingImages: Map<string, BackupImage>,
+  localImageKeys: Set<string>,
+): void {
+  const incomingCharacter = incoming.records[CHARACTERS_RECORD_FILE]?.[0];
+  const localCharacter = local?.records[CHARACTERS_RECORD_FILE]?.[0];
+  const policy = plan.options.conflictPolicy || "keepNewer";
+
+  let action: "overwrite" | "skip" | "duplicate" = "overwrite";
+  if (localCharacter && plan.options.mode === "merge") {
+    if (isSameRecord(localCharacter, incomingCharacter)) {
+      action = "skip";
+    } else if (policy === "keepBoth") {
+      action = "duplicate";
+    } else if (
+      getUpdatedTime(incomingCharacter) <= getUpdatedTime(localCharacter)
+    ) {
+      action = "skip";
+    }
+  }
+
+  if (action === "skip") {
+    for (const [storeName, records] of Object.entries(incoming.records)) {
+      getSummary(plan, storeName).skipped += records.length;
+    }
+    return;
+  }
+
+  if (action === "duplicate") {
+    const copy = copyCharacterUnit(incoming, characterId);
+    for (const [storeName, records] of Object.entries(copy.records)) {
+      getSummary(plan, storeName).duplicated += records.length;
+      for (const value of records) {
+        plan.operations.push({ type: "put", storeName, value });
+      }
+    }
+
+    incoming.imageKeys.forEach((key, i) => {
+      const image = incomingImages.get(key);
+      if (image) {
+        plan.images.push({ key: copy.imageKeys[i], data: image.data });
+        getSummary(plan, CHARACTER_IMAGES_FILE).duplicated++;
+      }
+    });
+    return;
+  }
+
+  // Overwrite: the local unit is replaced by the backup's copy
+  const storeNames = new Set([
+    ...Object.keys(incoming.records),
+    ...Object.keys(local?.records || {}),
+  ]);
+  for (const storeName of storeNames) {
+    const summary = getSummary(plan, storeName);
+    const incomingRecords = incoming.records[storeName] || [];
+    const incomingKeys = new Set(
+      incomingRecords.map((record) => keyOf(storeName, record)),
+    );
+    const localKeys = new Set<string>();
+
+    for (const record of local?.records[storeName] || []) {
+      const key = keyOf(storeName, record);
+      localKeys.add(key);
+      if (!incomingKeys.has(key)) {
+        plan.operations.push({
+          type: "delete",
+          storeName,
+          key: getRecordKey(storeName, record),
+        });
+        summary.removed++;
+      }
+    }
+
+    for (const record of incomingRecords) {
+      plan.operations.push({ type: "put", storeName, value: record });
+      if (localKeys.has(keyOf(storeName, record))) {
+        summary.updated++;
+      } else {
+        summary.added++;
+      }
+    }
+  }
+
+  const images = incoming.imageKeys.flatMap((key) => {
+    const image = incomingImages.get(key);
+    return image ? [image] : [];
+  });
+  plan.images.push(...images);
+  countImages(plan, images, localImageKeys);
+}
+
+/**
+ * Re-keys a character unit so it can sit next to the local character it
+ * conflicts with. Memory entries and revisions get fresh ids as well, since
+ * their ids are shared with the local copies.
+ */
+function copyCharacterUnit(
+  unit: CharacterUnit,
+  characterId: string,
+): CharacterUnit {
+  const newId = `${characterId}_copy_${uuidv4().slice(0, 8)}`;
+  const entryIds = new Map<string, string>();
+  const newEntryId = (entryId: string) => {
+    if (!entryIds.has(entryId)) {
+      entryIds.set(entryId, uuidv4());
+    }
+    return entryIds.get(entryId) as string;
+  };
+
+  // Avatar "<id>.png" and assets "<id>_asset_*" follow the new id
+  const copyImageKey = (key: string) =>
+    key.startsWith(characterId)
+      ? `${newId}${key.slice(characterId.length)}`
+      : `${newId}_${key}`;
+  const copyDialogueId = (dialogueId: string) =>
+    dialogueId === characterId ? newId : `${dialogueId}_${newId}`;
+
+  const records: StoreMap = {};
+  for (const [storeName, storeRecords] of Object.entries(unit.records)) {
+    records[storeName] = storeRecords.map((record) => {
+      switch (storeName) {
+      case CHARACTERS_RECORD_FILE:
+        return {
+          ...record,
+          id: newId,
+          imagePath: record.imagePath && copyImageKey(record.imagePath),
+          ...(record.assetPaths && {
+            assetPaths: Object.fromEntries(
+              Object.entries(record.assetPaths).map(([uri, key]) => [
+                uri,
+                copyImageKey(key as string),
+              ]),
+            ),
+          }),
+        };
+      case CHARACTER_DIALOGUES_FILE:
+        return {
+          ...record,
+          id: copyDialogueId(record.id),
+          character_id: newId,
+        };
+      case DIALOGUE_NODES_FILE:
+        return { ...record, dialogueId: copyDialogueId(record.dialogueId) };
+      case WORLD_BOOK_FILE:
+      case REGEX_SCRIPTS_FILE:
+        return { ...record, id: newId };
+      case MEMORY_ENTRIES_FILE:
+        return {
+          ...record,
+          id: newEntryId(record.id),
+          characterId: newId,
+          ...(record.dialogueId && {
+            dialogueId: copyDialogueId(record.dialogueId),
+          }),
+        };
+      case MEMORY_EMBEDDINGS_FILE:
+        return { ...record, id: newEntryId(record.id), characterId: newId };
+      case MEMORY_CONFIGS_FILE:
+        return { ...record, characterId: newId };
+      case CHARACTER_REVISIONS_FILE:
+        return { ...record, id: uuidv4(), characterId: newId };
+      default:
+        return record;
+      }
+    });
+  }
+
+  return {
+    records,
+    imageKeys: unit.imageKeys.map(copyImageKey),
+  };
+}
+
+function planStandaloneRecords(
+  plan: RestorePlan,
+  standalone: StoreMap,
+  localStores: StoreMap,
+): void {
+  const policy = plan.options.conflictPolicy || "keepNewer";
+
+  for (const [storeName, records] of Object.entries(standalone)) {
+    const summary = getSummary(plan, storeName);
+    const localRecords = new Map(
+      (localStores[storeName] || []).map((record) => [
+        keyOf(storeName, record),
+        record,
+      ]),
+    );
+    // Only records keyed by a plain "id" can be duplicated under a new key
+    const canDuplicate = STORE_SCHEMAS[storeName]?.keyPath === "id";
+
+    for (const record of records) {
+      const localRecord = localRecords.get(keyOf(storeName, record));
+
+      if (!localRecord) {
+        plan.operations.push({ type: "put", storeName, value: record });
+        summary.added++;
+      } else if (isSameRecord(localRecord, record)) {
+        summary.skipped++;
+      } else if (policy === "keepBoth" && canDuplicate) {
+        plan.operations.push({
+          type: "put",
+          storeName,
+          value: copyStandaloneRecord(record),
+        });
+        summary.duplicated++;
+      } else if (getUpdatedTime(record) > getUpdatedTime(localRecord)) {
+        plan.operations.push({ type: "put", storeName, value: record });
+        summary.updated++;
+      } else {
+        summary.skipped++;
+      }
+    }
+  }
+}
+
+function copyStandaloneRecord(record: any): any {
+  const newId = `${record.id}_copy_${uuidv4().slice(0, 8)}`;
+  const copy = { ...record, id: newId };
+
+  // Global world books and regex scripts repeat their id in the metadata
+  if (record.settings?.metadata?.id) {
+    copy.settings = {
+      ...record.settings,
+      metadata: { ...record.settings.metadata, id: newId },
+    };
+  }
+
+  return copy;
+}
+
+function planStandaloneImages(
+  plan: RestorePlan,
+  incoming: PartitionedStores,
+  incomingImages: Map<string, BackupImage>,
+  localImageKeys: Set<string>,
+): void {
+  const characterImageKeys = new Set(
+    Array.from(incoming.units.values()).flatMap((unit) => unit.imageKeys),
+  );
+  const summary = getSummary(plan, CHARACTER_IMAGES_FILE);
+
+  for (const image of incomingImages.values()) {
+    if (characterImageKeys.has(image.key)) {
+      continue;
+    }
+    if (localImageKeys.has(image.key)) {
+      summary.skipped++;
+    } else {
+      plan.images.push(image);
+      summary.added++;
+    }
+  }
+}
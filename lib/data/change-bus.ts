@@ -0,0 +1,218 @@
+/**
+ * Cross-tab change notifications for the local data stores.
+ *
+ * Every *Operations write publishes a DataChangeEvent. Events are delivered to
+ * subscribers in this tab and, through a BroadcastChannel, in every other tab
+ * of the app, so open views can refresh instead of showing stale data.
+ *
+ * Versioned records (characters, dialogue trees, world books, regex scripts,
+ * presets) also carry a `version` counter. Each tab remembers the version it
+ * last read; a write over a record that another tab has changed since then is
+ * refused with a StaleDataError instead of silently overwriting that change.
+ */
+
+export const DATA_ENTITIES = [
+  "characters",
+  "dialogues",
+  "worldBooks",
+  "regexScripts",
+  "presets",
+  "personas",
+  "groups",
+  "collections",
+  "memories",
+  "agentConversations",
+  "trash",
+] as const;
+
+export type DataEntity = (typeof DATA_ENTITIES)[number];
+
+export type DataChangeType = "put" | "delete" | "reset";
+
+export interface DataChangeEvent {
+  entity: DataEntity;
+  /**
+   * Owner the change belongs to: the character/owner id for per-owner stores,
+   * the record id otherwise. Omitted when a whole store changed.
+   */
+  id?: string;
+  type: DataChangeType;
+  version?: number;
+  /** Tab that made the change */
+  origin: string;
+  timestamp: number;
+}
+
+export interface SubscribeOptions {
+  entities?: DataEntity[];
+  id?: string;
+  /** Also deliver changes made by this tab (default: other tabs only) */
+  includeLocal?: boolean;
+}
+
+export interface VersionedRecord {
+  version?: number;
+}
+
+export class StaleDataError extends Error {
+  entity: DataEntity;
+  id: string;
+
+  constructor(entity: DataEntity, id: string) {
+    super(`${entity} "${id}" was changed in another tab`);
+    this.name = "StaleDataError";
+    this.entity = entity;
+    this.id = id;
+  }
+}
+
+const CHANNEL_NAME = "narratium-data-changes";
+
+export const TAB_ID =
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `tab_${Date.now()}_${Math.random().toString(36).slice(2)}`;
+
+type Listener = (event: DataChangeEvent) => void;
+
+const listeners = new Set<Listener>();
+const seenVersions = new Map<string, number>();
+let channel: BroadcastChannel | null = null;
+
+function versionKey(entity: DataEntity, id: string): string {
+  return `${entity}:${id}`;
+}
+
+function dispatch(event: DataChangeEvent): void {
+  // A put from another tab is not "seen" here until this tab reads it again
+  if (event.type === "delete" && event.id) {
+    seenVersions.delete(versionKey(event.entity, event.id));
+  }
+
+  listeners.forEach((listener) => {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error("Data change listener failed:", error);
+    }
+  });
+}
+
+function getChannel(): BroadcastChannel | null {
+  if (channel || typeof BroadcastChannel === "undefined") {
+    return channel;
+  }
+
+  channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (message: MessageEvent<DataChangeEvent>) => {
+    dispatch(message.data);
+  };
+  return channel;
+}
+
+export function publishChange(
+  entity: DataEntity,
+  type: DataChangeType,
+  id?: string,
+  version?: number,
+): void {
+  const event: DataChangeEvent = {
+    entity,
+    id,
+    type,
+    version,
+    origin: TAB_ID,
+    timestamp: Date.now(),
+  };
+
+  dispatch(event);
+  try {
+    getChannel()?.postMessage(event);
+  } catch (error) {
+    console.error("Failed to broadcast data change:", error);
+  }
+}
+
+/**
+ * Announces that every store may have changed, e.g. after a backup restore or
+ * a cloud sync pull. Remembered versions are dropped since they no longer
+ * describe what this tab has seen.
+ */
+export function publishReset(): void {
+  seenVersions.clear();
+  DATA_ENTITIES.forEach((entity) => publishChange(entity, "reset"));
+}
+
+export function subscribeToChanges(
+  listener: Listener,
+  options: SubscribeOptions = {},
+): () => void {
+  getChannel();
+
+  const filtered: Listener = (event) => {
+    if (!options.includeLocal && event.origin === TAB_ID) {
+      return;
+    }
+    if (options.entities && !options.entities.includes(event.entity)) {
+      return;
+    }
+    if (options.id && event.id && event.id !== options.id) {
+      return;
+    }
+    listener(event);
+  };
+
+  listeners.add(filtered);
+  return () => {
+    listeners.delete(filtered);
+  };
+}
+
+/**
+ * Records the version of a record this tab has just read.
+ */
+export function noteVersion(
+  entity: DataEntity,
+  id: string,
+  record: VersionedRecord | null | undefined,
+): void {
+  if (record) {
+    seenVersions.set(versionKey(entity, id), record.version || 0);
+  }
+}
+
+/**
+ * Checks that the stored record is still the one this tab last read and
+ * returns the version the write should store. Records this tab never read
+ * are not checked.
+ */
+export function nextVersion(
+  entity: DataEntity,
+  id: string,
+  current: VersionedRecord | null | undefined,
+): number {
+  const currentVersion = current?.version || 0;
+  const seen = seenVersions.get(versionKey(entity, id));
+
+  if (current && seen !== undefined && seen !== currentVersion) {
+    throw new StaleDataError(entity, id);
+  }
+
+  return currentVersion + 1;
+}
+
+/**
+ * Marks a write as done: remembers the new version and notifies subscribers.
+ */
+export function commitVersion(
+  entity: DataEntity,
+  id: string,
+  version: number,
+): void {
+  seenVersions.set(versionKey(entity, id), version);
+  publishChange(entity, "put", id, version);
+}
+
+export function forgetVersion(entity: DataEntity, id: string): void {
+  seenVersions.delete(versionKey(entity, id));
+}
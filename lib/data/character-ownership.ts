@@ -0,0 +1,171 @@
+import {
+  CHARACTERS_RECORD_FILE,
+  CHARACTER_REVISIONS_FILE,
+  CHARACTER_DIALOGUES_FILE,
+  CHARACTER_IMAGES_FILE,
+  DIALOGUE_NODES_FILE,
+  MEMORY_CONFIGS_FILE,
+  MEMORY_EMBEDDINGS_FILE,
+  MEMORY_ENTRIES_FILE,
+  PRESET_FILE,
+  REGEX_SCRIPTS_FILE,
+  StorageOperation,
+  WORLD_BOOK_FILE,
+  getAllRecords,
+  getRecordsByIndex,
+} from "@/lib/data/local-storage";
+import { Preset } from "@/lib/models/preset-model";
+import { GROUP_ID_PREFIX } from "@/lib/models/group-model";
+
+/**
+ * Stores whose records belong to a single character, and how to find the
+ * owner. Dialogue nodes are resolved through their dialogue tree.
+ */
+export const CHARACTER_OWNER_FIELDS: Record<string, string> = {
+  [CHARACTERS_RECORD_FILE]: "id",
+  [CHARACTER_DIALOGUES_FILE]: "character_id",
+  [WORLD_BOOK_FILE]: "id",
+  [REGEX_SCRIPTS_FILE]: "id",
+  [MEMORY_ENTRIES_FILE]: "characterId",
+  [MEMORY_EMBEDDINGS_FILE]: "characterId",
+  [MEMORY_CONFIGS_FILE]: "characterId",
+  [CHARACTER_REVISIONS_FILE]: "characterId",
+};
+
+/**
+ * World book and regex records are keyed by owner; "global" and "global_*"
+ * owners are shared and never belong to a character.
+ */
+export function isGlobalOwnerId(ownerId: string): boolean {
+  return ownerId === "global" || ownerId.startsWith("global_");
+}
+
+/**
+ * Group chats are stored under the group's id and belong to no one character.
+ */
+export function isGroupOwnerId(ownerId: string): boolean {
+  return ownerId.startsWith(GROUP_ID_PREFIX);
+}
+
+/**
+ * Character a record belongs to, or undefined for shared records.
+ * `dialogueOwners` maps dialogue tree ids to character ids.
+ */
+export function getRecordOwner(
+  storeName: string,
+  record: any,
+  dialogueOwners: Map<string, string>,
+): string | undefined {
+  const field = CHARACTER_OWNER_FIELDS[storeName];
+  const ownerId =
+    storeName === DIALOGUE_NODES_FILE
+      ? dialogueOwners.get(record?.dialogueId)
+      : field
+        ? record?.[field]
+        : undefined;
+  if (
+    typeof ownerId !== "string" ||
+    isGlobalOwnerId(ownerId) ||
+    isGroupOwnerId(ownerId)
+  ) {
+    return undefined;
+  }
+  return ownerId;
+}
+
+/**
+ * Image store keys a character record points at: its avatar and any
+ * imported card assets.
+ */
+export function getCharacterImageKeys(record: {
+  imagePath?: string;
+  assetPaths?: Record<string, string>;
+}): string[] {
+  return [
+    ...(record.imagePath ? [record.imagePath] : []),
+    ...Object.values(record.assetPaths || {}),
+  ];
+}
+
+/**
+ * Every write needed to remove a character and the data keyed by its id:
+ * dialogue trees and nodes, world book, regex scripts and settings, memories,
+ * embeddings, RAG config, edit history, avatar and asset blobs and character
+ * prompts in presets.
+ * Applied with one applyBatch, the delete is all-or-nothing.
+ */
+export async function getCharacterDeleteOperations(
+  characterId: string,
+  imageKeys: string[] = [],
+): Promise<StorageOperation[]> {
+  const trees = await getRecordsByIndex<{ id: string }>(
+    CHARACTER_DIALOGUES_FILE,
+    "character_id",
+    characterId,
+  );
+
+  const operations: StorageOperation[] = [
+    { type: "delete", storeName: CHARACTERS_RECORD_FILE, key: characterId },
+    ...trees.flatMap((tree): StorageOperation[] => [
+      { type: "delete", storeName: CHARACTER_DIALOGUES_FILE, key: tree.id },
+      {
+        type: "deleteByIndex",
+        storeName: DIALOGUE_NODES_FILE,
+        indexName: "dialogueId",
+        value: tree.id,
+      },
+    ]),
+    { type: "delete", storeName: WORLD_BOOK_FILE, key: characterId },
+    { type: "delete", storeName: REGEX_SCRIPTS_FILE, key: characterId },
+    {
+      type: "deleteByIndex",
+      storeName: MEMORY_ENTRIES_FILE,
+      indexName: "characterId",
+      value: characterId,
+    },
+    {
+      type: "deleteByIndex",
+      storeName: MEMORY_EMBEDDINGS_FILE,
+      indexName: "characterId",
+      value: characterId,
+    },
+    { type: "delete", storeName: MEMORY_CONFIGS_FILE, key: characterId },
+    {
+      type: "deleteByIndex",
+      storeName: CHARACTER_REVISIONS_FILE,
+      indexName: "characterId",
+      value: characterId,
+    },
+  ];
+
+  for (const key of imageKeys) {
+    operations.push({
+      type: "delete",
+      storeName: CHARACTER_IMAGES_FILE,
+      key,
+    });
+  }
+
+  // Presets keep per-character prompt overrides in groups named by character id
+  const presets = await getAllRecords<Preset>(PRESET_FILE);
+  for (const preset of presets) {
+    const prompts = preset.prompts || [];
+    const remaining = prompts.filter(
+      (prompt) => String(prompt.group_id) !== characterId,
+    );
+    if (remaining.length !== prompts.length) {
+      operations.push({
+        type: "put",
+        storeName: PRESET_FILE,
+        value: {
+          ...preset,
+          prompts: remaining,
+          updated_at: new Date().toISOString(),
+          version: (preset.version || 0) + 1,
+        },
+      });
+    }
+  }
+
+  return operations;
+}
@@ -0,0 +1,199 @@
+import {
+  CHARACTER_DIALOGUES_FILE,
+  DIALOGUE_NODES_FILE,
+  WORLD_BOOK_FILE,
+  REGEX_SCRIPTS_FILE,
+  PRESET_FILE,
+  MEMORY_ENTRIES_FILE,
+  MEMORY_CONFIGS_FILE,
+} from "@/lib/data/local-storage";
+
+export interface StoreRecords {
+  storeName: string;
+  records: any[];
+}
+
+const SETTINGS_SUFFIX = "_settings";
+
+/**
+ * Converts the single "data" array a store held before per-record storage
+ * into the records of the new layout. Some stores split into two: dialogue
+ * trees shed their nodes, memory records shed their RAG config.
+ */
+export function splitLegacyStoreData(
+  storeName: string,
+  data: any[],
+): StoreRecords[] {
+  const items = Array.isArray(data) ? data.filter(Boolean) : [];
+
+  switch (storeName) {
+  case CHARACTER_DIALOGUES_FILE:
+    return splitDialogueTrees(items);
+  case WORLD_BOOK_FILE:
+    return [
+      {
+        storeName,
+        records: groupOwnerMap(items[0], "entries"),
+      },
+    ];
+  case REGEX_SCRIPTS_FILE:
+    return [
+      {
+        storeName,
+        records: groupOwnerMap(items[0], "scripts"),
+      },
+    ];
+  case PRESET_FILE:
+    return [{ storeName, records: splitPresetMap(items[0]) }];
+  case MEMORY_ENTRIES_FILE:
+    return splitMemoryRecords(items);
+  default:
+    return [
+      {
+        storeName,
+        records: items.filter((item) => item.id !== undefined),
+      },
+    ];
+  }
+}
+
+function splitDialogueTrees(trees: any[]): StoreRecords[] {
+  const treeRecords: any[] = [];
+  const nodeRecords: any[] = [];
+
+  for (const tree of trees) {
+    if (!tree.id) continue;
+
+    const { nodes, ...header } = tree;
+    const validNodes = (nodes || []).filter((node: any) => node?.nodeId);
+    treeRecords.push({ ...header, next_order: validNodes.length });
+
+    validNodes.forEach((node: any, order: number) => {
+      nodeRecords.push({ ...node, dialogueId: tree.id, order });
+    });
+  }
+
+  return [
+    { storeName: CHARACTER_DIALOGUES_FILE, records: treeRecords },
+    { storeName: DIALOGUE_NODES_FILE, records: nodeRecords },
+  ];
+}
+
+/**
+ * World books and regex scripts were one object keyed by owner id, with the
+ * owner's settings under "<ownerId>_settings". Both now live on one record.
+ */
+function groupOwnerMap(
+  ownerMap: Record<string, any> | undefined,
+  contentField: "entries" | "scripts",
+): any[] {
+  if (!ownerMap || typeof ownerMap !== "object") {
+    return [];
+  }
+
+  const records: Record<string, any> = {};
+  const getOwnerRecord = (ownerId: string) => {
+    if (!records[ownerId]) {
+      records[ownerId] = { id: ownerId, [contentField]: {} };
+    }
+    return records[ownerId];
+  };
+
+  for (const [key, value] of Object.entries(ownerMap)) {
+    if (key.endsWith(SETTINGS_SUFFIX)) {
+      const ownerId = key.slice(0, -SETTINGS_SUFFIX.length);
+      getOwnerRecord(ownerId).settings = value;
+    } else {
+      getOwnerRecord(key)[contentField] = value || {};
+    }
+  }
+
+  return Object.values(records);
+}
+
+function splitPresetMap(presetMap: Record<string, any> | undefined): any[] {
+  if (!presetMap || typeof presetMap !== "object") {
+    return [];
+  }
+
+  return Object.entries(presetMap)
+    .filter(([key, value]) => !key.endsWith(SETTINGS_SUFFIX) && value)
+    .map(([key, value]) => ({ ...value, id: value.id || key }));
+}
+
+function splitMemoryRecords(memoryRecords: any[]): StoreRecords[] {
+  const entries: any[] = [];
+  const configs: any[] = [];
+
+  for (const record of memoryRecords) {
+    if (!record.characterId) continue;
+
+    for (const entry of record.entries || []) {
+      if (!entry?.id) continue;
+      entries.push({ ...entry, characterId: entry.characterId || record.characterId });
+    }
+
+    if (record.config) {
+      configs.push({
+        characterId: record.characterId,
+        config: record.config,
+        created_at: record.created_at,
+        updated_at: record.updated_at,
+      });
+    }
+  }
+
+  return [
+    { storeName: MEMORY_ENTRIES_FILE, records: entries },
+    { storeName: MEMORY_CONFIGS_FILE, records: configs },
+  ];
+}
+
+/** The slot an entry saved at a legacy position moves to, if it moves */
+function remapLegacyPosition(
+  position: unknown,
+): { position: number; depth?: number } | undefined {
+  switch (Number(position)) {
+  case 2:
+    return { position: 1 };
+  case 3:
+    return { position: 4, depth: 0 };
+  default:
+    return undefined;
+  }
+}
+
+/**
+ * Before WORLD_BOOK_POSITIONS_VERSION, position 2 filled `{{worldInfoAfter}}`
+ * and position 3 went just before the user input. Both numbers now follow
+ * SillyTavern and mean the author's note, so saved entries move to the slots
+ * that keep them where they were. `extensions` moves too, as saving an entry
+ * copies its position and depth from there. Returns undefined when nothing
+ * changes.
+ */
+export function remapLegacyWorldBookPositions(record: any): any {
+  if (!record?.entries || typeof record.entries !== "object") {
+    return undefined;
+  }
+
+  let changed = false;
+  const entries: Record<string, any> = {};
+  for (const [key, entry] of Object.entries<any>(record.entries)) {
+    const slot = remapLegacyPosition(entry?.position);
+    const extensionSlot = remapLegacyPosition(entry?.extensions?.position);
+    if (!slot && !extensionSlot) {
+      entries[key] = entry;
+      continue;
+    }
+    entries[key] = {
+      ...entry,
+      ...slot,
+      ...(extensionSlot && {
+        extensions: { ...entry.extensions, ...extensionSlot },
+      }),
+    };
+    changed = true;
+  }
+
+  return changed ? { ...record, entries } : undefined;
+}
@@ -1,13 +1,39 @@
-const DB_NAME = "CharacterAppDB";
-
-const DB_VERSION = 11;
+import {
+  remapLegacyWorldBookPositions,
+  splitLegacyStoreData,
+} from "@/lib/data/legacy-records";
+import {
+  StorageBackend,
+  StorageBackendType,
+} from "@/lib/data/storage/storage-backend";
+import { IndexedDBStorageBackend } from "@/lib/data/storage/indexeddb-backend";
+import { ServerStorageBackend } from "@/lib/data/storage/server-backend";
+
+export const DB_VERSION = 19;
+
+/**
+ * First schema version that stores one record per key instead of a single
+ * "data" array per object store.
+ */
+export const RECORD_STORES_VERSION = 12;
+
+/**
+ * First schema version where world book positions 2 and 3 are the author's
+ * note slots.
+ */
+export const WORLD_BOOK_POSITIONS_VERSION = 19;
 
 export const CHARACTERS_RECORD_FILE = "characters_record";
 export const CHARACTER_DIALOGUES_FILE = "character_dialogues";
+export const DIALOGUE_NODES_FILE = "dialogue_nodes";
 export const CHARACTER_IMAGES_FILE = "character_images";
 export const WORLD_BOOK_FILE = "world_book";
 export const REGEX_SCRIPTS_FILE = "regex_scripts";
 export const PRESET_FILE = "preset_data";
+export const PERSONAS_FILE = "personas";
+export const GROUPS_FILE = "groups";
+export const COLLECTIONS_FILE = "collections";
+export const CHARACTER_REVISIONS_FILE = "character_revisions";
 
 // Agent-related storage constants
 export const AGENT_CONVERSATIONS_FILE = "agent_conversations";
@@ -15,181 +41,224 @@ export const AGENT_CONVERSATIONS_FILE = "agent_conversations";
 // Memory/RAG storage constants
 export const MEMORY_ENTRIES_FILE = "memory_entries";
 export const MEMORY_EMBEDDINGS_FILE = "memory_embeddings";
+export const MEMORY_CONFIGS_FILE = "memory_configs";
 
-function openDB(): Promise<IDBDatabase> {
-  return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
+// Soft-deleted items waiting to be restored or purged
+export const TRASH_FILE = "trash";
 
-    request.onerror = () => reject(request.error);
-    request.onsuccess = () => resolve(request.result);
+// Cloud sync bookkeeping, kept out of backups
+export const SYNC_STATE_FILE = "sync_state";
+export const SYNC_LOG_FILE = "sync_log";
 
-    request.onupgradeneeded = () => {
-      const db = request.result;
-      if (!db.objectStoreNames.contains(CHARACTERS_RECORD_FILE)) {
-        db.createObjectStore(CHARACTERS_RECORD_FILE);
-      }
-      if (!db.objectStoreNames.contains(CHARACTER_DIALOGUES_FILE)) {
-        db.createObjectStore(CHARACTER_DIALOGUES_FILE);
-      }
-      if (!db.objectStoreNames.contains(CHARACTER_IMAGES_FILE)) {
-        db.createObjectStore(CHARACTER_IMAGES_FILE);
-      }
-      if (!db.objectStoreNames.contains(WORLD_BOOK_FILE)) {
-        db.createObjectStore(WORLD_BOOK_FILE);
-      }
-      if (!db.objectStoreNames.contains(REGEX_SCRIPTS_FILE)) {
-        db.createObjectStore(REGEX_SCRIPTS_FILE);
-      }
-      if (!db.objectStoreNames.contains(PRESET_FILE)) {
-        db.createObjectStore(PRESET_FILE);
-      }
-      // Agent-related object stores
-      if (!db.objectStoreNames.contains(AGENT_CONVERSATIONS_FILE)) {
-        db.createObjectStore(AGENT_CONVERSATIONS_FILE);
-      }
-      // Memory/RAG object stores
-      if (!db.objectStoreNames.contains(MEMORY_ENTRIES_FILE)) {
-        db.createObjectStore(MEMORY_ENTRIES_FILE);
-      }
-      if (!db.objectStoreNames.contains(MEMORY_EMBEDDINGS_FILE)) {
-        db.createObjectStore(MEMORY_EMBEDDINGS_FILE);
-      }
-    };
-  });
+export interface StoreIndexSchema {
+  name: string;
+  keyPath: string | string[];
 }
 
-export async function readData(storeName: string): Promise<any[]> {
-  await initializeDataFiles();
-  const db = await openDB();
-  return new Promise((resolve, reject) => {
-    const tx = db.transaction(storeName, "readonly");
-    const store = tx.objectStore(storeName);
-    const request = store.get("data");
+export interface StoreSchema {
+  keyPath?: string | string[];
+  indexes?: StoreIndexSchema[];
+}
 
-    request.onsuccess = () => resolve(request.result || []);
-    request.onerror = () => reject(request.error);
-  });
+/**
+ * Store layout shared by every storage backend. Stores without a keyPath
+ * (images) use out-of-line keys.
+ */
+export const STORE_SCHEMAS: Record<string, StoreSchema> = {
+  [CHARACTERS_RECORD_FILE]: { keyPath: "id" },
+  [CHARACTER_DIALOGUES_FILE]: {
+    keyPath: "id",
+    indexes: [{ name: "character_id", keyPath: "character_id" }],
+  },
+  [DIALOGUE_NODES_FILE]: {
+    keyPath: ["dialogueId", "nodeId"],
+    indexes: [{ name: "dialogueId", keyPath: "dialogueId" }],
+  },
+  [CHARACTER_IMAGES_FILE]: {},
+  [WORLD_BOOK_FILE]: { keyPath: "id" },
+  [REGEX_SCRIPTS_FILE]: { keyPath: "id" },
+  [PRESET_FILE]: { keyPath: "id" },
+  [PERSONAS_FILE]: { keyPath: "id" },
+  [GROUPS_FILE]: { keyPath: "id" },
+  [COLLECTIONS_FILE]: { keyPath: "id" },
+  [CHARACTER_REVISIONS_FILE]: {
+    keyPath: "id",
+    indexes: [{ name: "characterId", keyPath: "characterId" }],
+  },
+  [AGENT_CONVERSATIONS_FILE]: { keyPath: "id" },
+  [MEMORY_ENTRIES_FILE]: {
+    keyPath: "id",
+    indexes: [{ name: "characterId", keyPath: "characterId" }],
+  },
+  [MEMORY_EMBEDDINGS_FILE]: {
+    keyPath: "id",
+    indexes: [{ name: "characterId", keyPath: "characterId" }],
+  },
+  [MEMORY_CONFIGS_FILE]: { keyPath: "characterId" },
+  [TRASH_FILE]: {
+    keyPath: "id",
+    indexes: [{ name: "deleted_at", keyPath: "deleted_at" }],
+  },
+  [SYNC_STATE_FILE]: { keyPath: "providerId" },
+  [SYNC_LOG_FILE]: {
+    keyPath: "id",
+    indexes: [{ name: "providerId", keyPath: "providerId" }],
+  },
+};
+
+// Every store holding user data records, i.e. everything except image blobs and sync bookkeeping
+export const RECORD_STORES = [
+  CHARACTERS_RECORD_FILE,
+  CHARACTER_DIALOGUES_FILE,
+  DIALOGUE_NODES_FILE,
+  WORLD_BOOK_FILE,
+  REGEX_SCRIPTS_FILE,
+  PRESET_FILE,
+  PERSONAS_FILE,
+  GROUPS_FILE,
+  COLLECTIONS_FILE,
+  CHARACTER_REVISIONS_FILE,
+  AGENT_CONVERSATIONS_FILE,
+  MEMORY_ENTRIES_FILE,
+  MEMORY_EMBEDDINGS_FILE,
+  MEMORY_CONFIGS_FILE,
+  TRASH_FILE,
+];
+
+export type StorageOperation =
+  | { type: "put"; storeName: string; value: any; key?: IDBValidKey }
+  | { type: "delete"; storeName: string; key: IDBValidKey }
+  | {
+      type: "deleteByIndex";
+      storeName: string;
+      indexName: string;
+      value: IDBValidKey;
+    }
+  | { type: "clear"; storeName: string };
+
+export const STORAGE_BACKEND_KEY = "storageBackend";
+
+let activeBackend: StorageBackend | null = null;
+
+/**
+ * Backend chosen on this device, falling back to the deployment default
+ * (NEXT_PUBLIC_STORAGE_BACKEND) and then to IndexedDB.
+ */
+export function getStorageBackendType(): StorageBackendType {
+  const saved =
+    typeof localStorage !== "undefined"
+      ? localStorage.getItem(STORAGE_BACKEND_KEY)
+      : null;
+  const type = saved || process.env.NEXT_PUBLIC_STORAGE_BACKEND;
+  return type === "server" ? "server" : "indexeddb";
 }
 
-export async function writeData(storeName: string, data: any[]): Promise<void> {
-  await initializeDataFiles();
-  const db = await openDB();
-  return new Promise((resolve, reject) => {
-    const tx = db.transaction(storeName, "readwrite");
-    const store = tx.objectStore(storeName);
-    const request = store.put(data, "data");
+/**
+ * Switches this device to another backend. Callers reload afterwards so no
+ * screen keeps data read from the previous one.
+ */
+export function setStorageBackendType(type: StorageBackendType): void {
+  localStorage.setItem(STORAGE_BACKEND_KEY, type);
+  activeBackend = null;
+}
 
-    request.onsuccess = () => resolve();
-    request.onerror = () => reject(request.error);
-  });
+export function createStorageBackend(type: StorageBackendType): StorageBackend {
+  return type === "server"
+    ? new ServerStorageBackend()
+    : new IndexedDBStorageBackend();
+}
+
+export function getStorageBackend(): StorageBackend {
+  if (!activeBackend) {
+    activeBackend = createStorageBackend(getStorageBackendType());
+  }
+  return activeBackend;
+}
+
+export async function getRecord<T = any>(
+  storeName: string,
+  key: IDBValidKey,
+): Promise<T | null> {
+  return getStorageBackend().getRecord<T>(storeName, key);
+}
+
+export async function getAllRecords<T = any>(storeName: string): Promise<T[]> {
+  return getStorageBackend().getAllRecords<T>(storeName);
+}
+
+export async function getAllKeys(storeName: string): Promise<IDBValidKey[]> {
+  return getStorageBackend().getAllKeys(storeName);
+}
+
+export async function getRecordsByIndex<T = any>(
+  storeName: string,
+  indexName: string,
+  value: IDBValidKey,
+): Promise<T[]> {
+  return getStorageBackend().getRecordsByIndex<T>(storeName, indexName, value);
+}
+
+export async function putRecord(
+  storeName: string,
+  value: any,
+  key?: IDBValidKey,
+): Promise<void> {
+  await getStorageBackend().putRecord(storeName, value, key);
+}
+
+export async function deleteRecord(
+  storeName: string,
+  key: IDBValidKey,
+): Promise<void> {
+  await getStorageBackend().deleteRecord(storeName, key);
+}
+
+export async function clearStore(storeName: string): Promise<void> {
+  await getStorageBackend().clearStore(storeName);
+}
+
+/**
+ * Applies a list of writes across any number of stores in one transaction,
+ * so either all of them land or none do.
+ */
+export async function applyBatch(
+  operations: StorageOperation[],
+): Promise<void> {
+  await getStorageBackend().applyBatch(operations);
 }
 
+/**
+ * Prepares the active backend so that pending schema upgrades run before
+ * first use.
+ */
 export async function initializeDataFiles(): Promise<void> {
-  const db = await openDB();
-
-  const storeNames = [
-    CHARACTERS_RECORD_FILE,
-    CHARACTER_DIALOGUES_FILE,
-    CHARACTER_IMAGES_FILE,
-    WORLD_BOOK_FILE,
-    PRESET_FILE,
-    REGEX_SCRIPTS_FILE,
-    AGENT_CONVERSATIONS_FILE,
-    MEMORY_ENTRIES_FILE,
-    MEMORY_EMBEDDINGS_FILE,
-  ];
-
-  await Promise.all(
-    storeNames.map((storeName) => {
-      return new Promise<void>((resolve, reject) => {
-        const tx = db.transaction(storeName, "readwrite");
-        const store = tx.objectStore(storeName);
-        const getRequest = store.get("data");
-
-        getRequest.onsuccess = () => {
-          if (getRequest.result === undefined) {
-            const putRequest = store.put([], "data");
-            putRequest.onsuccess = () => resolve();
-            putRequest.onerror = () => reject(putRequest.error);
-          } else {
-            resolve();
-          }
-        };
-
-        getRequest.onerror = () => reject(getRequest.error);
-      });
-    }),
-  );
+  await getStorageBackend().initialize();
 }
 
 export async function setBlob(key: string, blob: Blob): Promise<void> {
-  await initializeDataFiles();
-  const db = await openDB();
-  return new Promise((resolve, reject) => {
-    const tx = db.transaction(CHARACTER_IMAGES_FILE, "readwrite");
-    const store = tx.objectStore(CHARACTER_IMAGES_FILE);
-    const request = store.put(blob, key);
-    request.onsuccess = () => resolve();
-    request.onerror = () => reject(request.error);
-  });
+  await putRecord(CHARACTER_IMAGES_FILE, blob, key);
 }
 
 export async function getBlob(key: string): Promise<Blob | null> {
-  await initializeDataFiles();
-  const db = await openDB();
-  return new Promise((resolve, reject) => {
-    const tx = db.transaction(CHARACTER_IMAGES_FILE, "readonly");
-    const store = tx.objectStore(CHARACTER_IMAGES_FILE);
-    const request = store.get(key);
-    request.onsuccess = () => resolve(request.result || null);
-    request.onerror = () => reject(request.error);
-  });
+  return getRecord<Blob>(CHARACTER_IMAGES_FILE, key);
 }
 
 export async function deleteBlob(key: string): Promise<void> {
-  await initializeDataFiles();
-  const db = await openDB();
-  return new Promise((resolve, reject) => {
-    const tx = db.transaction(CHARACTER_IMAGES_FILE, "readwrite");
-    const store = tx.objectStore(CHARACTER_IMAGES_FILE);
-    const request = store.delete(key);
-
-    request.onsuccess = () => resolve();
-    request.onerror = () => reject(request.error);
-  });
+  await deleteRecord(CHARACTER_IMAGES_FILE, key);
 }
 
 export async function exportAllData(): Promise<Record<string, any>> {
-  const db = await openDB();
-  const exportData: Record<string, any> = {};
-
-  // Handle regular data stores
-  const regularStores = [
-    CHARACTERS_RECORD_FILE,
-    CHARACTER_DIALOGUES_FILE,
-    WORLD_BOOK_FILE,
-    REGEX_SCRIPTS_FILE,
-    AGENT_CONVERSATIONS_FILE,
-    MEMORY_ENTRIES_FILE,
-    MEMORY_EMBEDDINGS_FILE,
-  ];
-
-  for (const storeName of regularStores) {
-    const data = await readData(storeName);
-    exportData[storeName] = data;
+  const exportData: Record<string, any> = {
+    schema_version: DB_VERSION,
+  };
+
+  for (const storeName of RECORD_STORES) {
+    exportData[storeName] = await getAllRecords(storeName);
   }
 
   // Handle image data separately
-  const imageData = await readData(CHARACTER_IMAGES_FILE);
   const imageBlobs: Array<{ key: string; data: string }> = [];
-
-  // Get all keys from the image store
-  const tx = db.transaction(CHARACTER_IMAGES_FILE, "readonly");
-  const store = tx.objectStore(CHARACTER_IMAGES_FILE);
-  const keys = await new Promise<string[]>((resolve) => {
-    const request = store.getAllKeys();
-    request.onsuccess = () => resolve(request.result as string[]);
-  });
+  const keys = (await getAllKeys(CHARACTER_IMAGES_FILE)) as string[];
 
   // Read each image blob and convert to base64
   for (const key of keys) {
@@ -209,39 +278,88 @@ export async function exportAllData(): Promise<Record<string, any>> {
   return exportData;
 }
 
+export interface BackupImage {
+  key: string;
+  data: string;
+}
+
+export interface BackupStores {
+  stores: Record<string, any[]>;
+  images: BackupImage[];
+}
+
+/**
+ * Reads the store section of a backup into records of the current layout.
+ */
+export function readBackupStores(data: Record<string, any>): BackupStores {
+  // Backups written before RECORD_STORES_VERSION still hold one "data" array per store
+  const schemaVersion = Number(data.schema_version) || 0;
+  const isLegacyBackup = schemaVersion < RECORD_STORES_VERSION;
+  const stores: Record<string, any[]> = {};
+
+  for (const storeName of RECORD_STORES) {
+    if (!Array.isArray(data[storeName])) {
+      continue;
+    }
+
+    const splits = isLegacyBackup
+      ? splitLegacyStoreData(storeName, data[storeName])
+      : [{ storeName, records: data[storeName] }];
+
+    for (const { storeName: target, records } of splits) {
+      stores[target] = [...(stores[target] || []), ...records];
+    }
+  }
+
+  if (schemaVersion < WORLD_BOOK_POSITIONS_VERSION && stores[WORLD_BOOK_FILE]) {
+    stores[WORLD_BOOK_FILE] = stores[WORLD_BOOK_FILE].map(
+      (record) => remapLegacyWorldBookPositions(record) || record,
+    );
+  }
+
+  const images = Array.isArray(data[CHARACTER_IMAGES_FILE])
+    ? data[CHARACTER_IMAGES_FILE].filter(
+      (item: any) => item && typeof item.data === "string",
+    )
+    : [];
+
+  return { stores, images };
+}
+
+/**
+ * Primary key of a record as defined by its store's keyPath.
+ */
+export function getRecordKey(storeName: string, record: any): IDBValidKey {
+  const keyPath = STORE_SCHEMAS[storeName]?.keyPath;
+
+  if (Array.isArray(keyPath)) {
+    return keyPath.map((path) => record[path]);
+  }
+
+  return keyPath ? record[keyPath] : record;
+}
+
 export async function importAllData(data: Record<string, any>): Promise<void> {
-  const db = await openDB();
-
-  // Handle regular data stores
-  const regularStores = [
-    CHARACTERS_RECORD_FILE,
-    CHARACTER_DIALOGUES_FILE,
-    WORLD_BOOK_FILE,
-    REGEX_SCRIPTS_FILE,
-    AGENT_CONVERSATIONS_FILE,
-    MEMORY_ENTRIES_FILE,
-    MEMORY_EMBEDDINGS_FILE,
-  ];
-
-  for (const storeName of regularStores) {
-    if (data[storeName]) {
-      await writeData(storeName, data[storeName]);
+  const { stores, images } = readBackupStores(data);
+
+  const operations: StorageOperation[] = [];
+  for (const [storeName, records] of Object.entries(stores)) {
+    operations.push({ type: "clear", storeName });
+    for (const value of records) {
+      operations.push({ type: "put", storeName, value });
     }
   }
+  await applyBatch(operations);
 
   // Handle image data separately
-  if (data[CHARACTER_IMAGES_FILE]) {
-    for (const item of data[CHARACTER_IMAGES_FILE]) {
-      if (typeof item.data === "string") {
-        const blob = await base64ToBlob(item.data);
-        await setBlob(item.key, blob);
-      }
-    }
+  for (const item of images) {
+    const blob = await base64ToBlob(item.data);
+    await setBlob(item.key, blob);
   }
 }
 
 // Helper function to convert Blob to base64
-async function blobToBase64(blob: Blob): Promise<string> {
+export async function blobToBase64(blob: Blob): Promise<string> {
   if (!(blob instanceof Blob)) {
     throw new Error("Input is not a valid Blob object");
   }
@@ -261,7 +379,7 @@ async function blobToBase64(blob: Blob): Promise<string> {
 }
 
 // Helper function to convert base64 to Blob
-async function base64ToBlob(base64: string): Promise<Blob> {
+export async function base64ToBlob(base64: string): Promise<Blob> {
   const response = await fetch(base64);
   return response.blob();
 }
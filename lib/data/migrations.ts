@@ -0,0 +1,253 @@
+import {
+  CHARACTERS_RECORD_FILE,
+  CHARACTER_DIALOGUES_FILE,
+  CHARACTER_IMAGES_FILE,
+  WORLD_BOOK_FILE,
+  REGEX_SCRIPTS_FILE,
+  PRESET_FILE,
+  AGENT_CONVERSATIONS_FILE,
+  MEMORY_ENTRIES_FILE,
+  MEMORY_EMBEDDINGS_FILE,
+} from "@/lib/data/local-storage";
+import {
+  remapLegacyWorldBookPositions,
+  splitLegacyStoreData,
+} from "@/lib/data/legacy-records";
+
+export interface MigrationContext {
+  db: IDBDatabase;
+  tx: IDBTransaction;
+  /**
+   * Drops a store and creates it again from STORE_SCHEMAS, e.g. to change its keyPath.
+   */
+  recreateStore(storeName: string): IDBObjectStore;
+  /**
+   * Registers a request with the runner. The next migration waits until every
+   * tracked request has finished, and a throwing callback aborts the upgrade.
+   */
+  track<T>(request: IDBRequest<T>, onSuccess?: (result: T) => void): void;
+  /**
+   * Walks every record of a store. Return a new value to replace the record,
+   * null to delete it, or undefined to leave it untouched.
+   */
+  updateRecords(storeName: string, transform: (record: any) => any): void;
+  log(message: string): void;
+}
+
+export interface Migration {
+  version: number;
+  description: string;
+  migrate(context: MigrationContext): void;
+}
+
+interface MigrationLogEntry {
+  version: number;
+  description: string;
+  changes: string[];
+}
+
+export class MigrationError extends Error {
+  version: number;
+
+  constructor(version: number, cause: unknown) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    super(`Migration to version ${version} failed: ${reason}`);
+    this.name = "MigrationError";
+    this.version = version;
+  }
+}
+
+/**
+ * Ordered list of schema transforms. Each entry upgrades existing data to its
+ * version; add a new entry whenever DB_VERSION is bumped for a model change.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 12,
+    description: "Split single \"data\" arrays into one record per key",
+    migrate({ db, tx, recreateStore, track, log }) {
+      // Stores that kept their whole contents under a single "data" key.
+      // Listed here rather than at module level: local-storage imports this
+      // module through the IndexedDB backend, so its constants are not yet
+      // initialised while this module loads.
+      const legacyArrayStores = [
+        CHARACTERS_RECORD_FILE,
+        CHARACTER_DIALOGUES_FILE,
+        WORLD_BOOK_FILE,
+        REGEX_SCRIPTS_FILE,
+        PRESET_FILE,
+        AGENT_CONVERSATIONS_FILE,
+        MEMORY_ENTRIES_FILE,
+        MEMORY_EMBEDDINGS_FILE,
+      ];
+      for (const storeName of legacyArrayStores) {
+        if (!db.objectStoreNames.contains(storeName)) {
+          continue;
+        }
+
+        track(tx.objectStore(storeName).get("data"), (result) => {
+          const legacyData = Array.isArray(result) ? result : [];
+          recreateStore(storeName);
+
+          for (const { storeName: target, records } of splitLegacyStoreData(
+            storeName,
+            legacyData,
+          )) {
+            const targetStore = tx.objectStore(target);
+            records.forEach((record) => targetStore.put(record));
+            log(`${storeName}: wrote ${records.length} record(s) to ${target}`);
+          }
+        });
+      }
+
+      if (db.objectStoreNames.contains(CHARACTER_IMAGES_FILE)) {
+        track(tx.objectStore(CHARACTER_IMAGES_FILE).delete("data"));
+      }
+    },
+  },
+  {
+    version: 19,
+    description: "Move world book entries off positions 2 and 3, now the author's note slots",
+    migrate({ db, updateRecords }) {
+      if (db.objectStoreNames.contains(WORLD_BOOK_FILE)) {
+        updateRecords(WORLD_BOOK_FILE, remapLegacyWorldBookPositions);
+      }
+    },
+  },
+];
+
+interface RunMigrationsOptions {
+  db: IDBDatabase;
+  tx: IDBTransaction;
+  oldVersion: number;
+  newVersion: number;
+  recreateStore: (storeName: string) => IDBObjectStore;
+  onFailure: (error: MigrationError) => void;
+}
+
+/**
+ * Runs the pending migrations one after another inside the upgrade
+ * transaction. Any failure aborts the transaction, which rolls the database
+ * back to its previous version untouched.
+ */
+export function runMigrations(options: RunMigrationsOptions): void {
+  const { db, tx, oldVersion, newVersion, recreateStore, onFailure } = options;
+  const pending = MIGRATIONS
+    .filter((migration) => migration.version > oldVersion && migration.version <= newVersion)
+    .sort((a, b) => a.version - b.version);
+
+  let current: Migration | null = null;
+  let currentEntry: MigrationLogEntry | null = null;
+  let inFlight = 0;
+  let failed = false;
+
+  const fail = (error: unknown) => {
+    if (failed) return;
+    failed = true;
+
+    const migrationError = new MigrationError(current?.version ?? newVersion, error);
+    console.error(migrationError.message, error);
+    onFailure(migrationError);
+    try {
+      tx.abort();
+    } catch {
+      // The transaction may already be finishing on its own
+    }
+  };
+
+  const guard = (callback: () => void) => {
+    if (failed) return;
+    try {
+      callback();
+    } catch (error) {
+      fail(error);
+    }
+  };
+
+  const finishCurrent = () => {
+    if (!current || !currentEntry) return;
+    console.log(
+      `Migration ${current.version} (${current.description}) done` +
+        (currentEntry.changes.length > 0 ? `:\n  ${currentEntry.changes.join("\n  ")}` : ""),
+    );
+    current = null;
+    currentEntry = null;
+  };
+
+  const settle = () => {
+    if (failed || inFlight > 0) return;
+    finishCurrent();
+    startNext();
+  };
+
+  const track = <T>(request: IDBRequest<T>, onSuccess?: (result: T) => void) => {
+    inFlight++;
+    request.onsuccess = () => {
+      if (onSuccess) {
+        guard(() => onSuccess(request.result));
+      }
+      inFlight--;
+      settle();
+    };
+    request.onerror = () => {
+      fail(request.error);
+    };
+  };
+
+  const updateRecords = (storeName: string, transform: (record: any) => any) => {
+    let updated = 0;
+    let deleted = 0;
+
+    const cursorRequest = tx.objectStore(storeName).openCursor();
+    inFlight++;
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) {
+        currentEntry?.changes.push(`${storeName}: ${updated} updated, ${deleted} deleted`);
+        inFlight--;
+        settle();
+        return;
+      }
+
+      guard(() => {
+        const next = transform(cursor.value);
+        if (next === null) {
+          cursor.delete();
+          deleted++;
+        } else if (next !== undefined) {
+          cursor.update(next);
+          updated++;
+        }
+        cursor.continue();
+      });
+    };
+    cursorRequest.onerror = () => {
+      fail(cursorRequest.error);
+    };
+  };
+
+  const context: MigrationContext = {
+    db,
+    tx,
+    recreateStore,
+    track,
+    updateRecords,
+    log: (message) => currentEntry?.changes.push(message),
+  };
+
+  function startNext() {
+    const migration = pending.shift();
+    if (!migration) return;
+
+    current = migration;
+    currentEntry = {
+      version: migration.version,
+      description: migration.description,
+      changes: [],
+    };
+    guard(() => migration.migrate(context));
+    settle();
+  }
+
+  startNext();
+}
@@ -1,27 +1,164 @@
 import {
-  readData,
-  writeData,
+  getRecord,
+  getAllRecords,
+  getRecordsByIndex,
+  putRecord,
+  applyBatch,
+  StorageOperation,
   CHARACTER_DIALOGUES_FILE,
+  DIALOGUE_NODES_FILE,
+  MEMORY_EMBEDDINGS_FILE,
+  MEMORY_ENTRIES_FILE,
 } from "@/lib/data/local-storage";
+import {
+  VersionedRecord,
+  commitVersion,
+  forgetVersion,
+  nextVersion,
+  noteVersion,
+  publishChange,
+} from "@/lib/data/change-bus";
+import {
+  TrashItem,
+  TrashOperations,
+} from "@/lib/data/roleplay/trash-operation";
+import { LocalMemoryOperations } from "@/lib/data/roleplay/memory-operation";
 import { DialogueNode, DialogueTree } from "@/lib/models/node-model";
 import { v4 as uuidv4 } from "uuid";
 import { ParsedResponse } from "@/lib/models/parsed-response";
+import {
+  WorldBookActivationTrace,
+  WorldBookTimers,
+} from "@/lib/models/world-book-model";
+
+/**
+ * Stored dialogue tree header. Nodes live in their own store so that adding
+ * or editing one node never rewrites the rest of the conversation.
+ *
+ * A character can have several chats. The first one keeps the character's id
+ * as its own, which is also what chats created before there were several use.
+ */
+export interface DialogueTreeRecord extends VersionedRecord {
+  id: string;
+  character_id: string;
+  current_nodeId: string;
+  next_order: number;
+  greeting_index?: number;
+  name?: string;
+  /** Optional note on where the chat stands, shown in the chat list */
+  summary?: string;
+  created_at?: string;
+  /** Last time a message was added */
+  updated_at?: string;
+}
+
+export type DialogueInfo = Pick<DialogueTreeRecord, "name" | "summary">;
+
+export interface ChatActivity {
+  /** When a message was last added to any of the character's chats */
+  lastChattedAt: string;
+  /** User messages and replies across every chat and branch */
+  messageCount: number;
+}
+
+export interface DialogueNodeRecord extends DialogueNode {
+  dialogueId: string;
+  order: number;
+}
+
+function toNodeRecord(
+  dialogueId: string,
+  node: DialogueNode,
+  order: number,
+): DialogueNodeRecord {
+  return { ...node, dialogueId, order };
+}
+
+function fromNodeRecord(record: DialogueNodeRecord): DialogueNode {
+  return new DialogueNode(
+    record.nodeId,
+    record.parentNodeId,
+    record.userInput,
+    record.assistantResponse,
+    record.fullResponse,
+    record.thinkingContent,
+    record.parsedContent,
+    record.speakerId,
+    record.worldBookTimers,
+    record.worldBookTrace,
+  );
+}
 
 export class LocalCharacterDialogueOperations {
-  static async createDialogueTree(characterId: string): Promise<DialogueTree> {
-    const dialogues = await readData(CHARACTER_DIALOGUES_FILE);
+  private static async getTreeRecord(
+    dialogueId: string,
+  ): Promise<DialogueTreeRecord | null> {
+    return getRecord<DialogueTreeRecord>(CHARACTER_DIALOGUES_FILE, dialogueId);
+  }
 
-    const filteredDialogues = dialogues.filter(
-      (d: any) => d.character_id !== characterId,
+  private static async getNodeRecords(
+    dialogueId: string,
+  ): Promise<DialogueNodeRecord[]> {
+    const records = await getRecordsByIndex<DialogueNodeRecord>(
+      DIALOGUE_NODES_FILE,
+      "dialogueId",
+      dialogueId,
     );
+    return records.sort((a, b) => (a.order || 0) - (b.order || 0));
+  }
 
-    const dialogueTree = new DialogueTree(characterId, characterId, [], "root");
+  /**
+   * Version for the next header write. Rewrites based on a tree this tab read
+   * earlier are checked for lost updates; appending a node is not, since it
+   * never overwrites another tab's nodes.
+   */
+  private static bumpVersion(
+    dialogue: DialogueTreeRecord,
+    checked = true,
+  ): number {
+    return checked
+      ? nextVersion("dialogues", dialogue.id, dialogue)
+      : (dialogue.version || 0) + 1;
+  }
 
-    filteredDialogues.push(dialogueTree);
-    await writeData(CHARACTER_DIALOGUES_FILE, filteredDialogues);
+  /**
+   * Starts an empty chat for a character. Any chat already stored under the
+   * same id is replaced; the character's other chats are left alone.
+   */
+  static async createDialogueTree(
+    characterId: string,
+    dialogueId: string = characterId,
+    name?: string,
+  ): Promise<DialogueTree> {
+    const dialogueTree = new DialogueTree(dialogueId, characterId, [], "root");
+    const now = new Date().toISOString();
+
+    await applyBatch([
+      {
+        type: "deleteByIndex",
+        storeName: DIALOGUE_NODES_FILE,
+        indexName: "dialogueId",
+        value: dialogueId,
+      },
+      {
+        type: "put",
+        storeName: CHARACTER_DIALOGUES_FILE,
+        value: {
+          id: dialogueTree.id,
+          character_id: dialogueTree.character_id,
+          current_nodeId: dialogueTree.current_nodeId,
+          next_order: 0,
+          ...(name && { name }),
+          created_at: now,
+          updated_at: now,
+          version: 1,
+        } as DialogueTreeRecord,
+      },
+    ]);
+    commitVersion("dialogues", dialogueId, 1);
 
     await this.addNodeToDialogueTree(
-      characterId,
+      dialogueId,
       "",
       "",
       "",
@@ -33,33 +170,207 @@ export class LocalCharacterDialogueOperations {
     return dialogueTree;
   }
 
+  /**
+   * A character's chats, most recently active first
+   */
+  static async getDialoguesByCharacter(
+    characterId: string,
+  ): Promise<DialogueTreeRecord[]> {
+    const dialogues = await getRecordsByIndex<DialogueTreeRecord>(
+      CHARACTER_DIALOGUES_FILE,
+      "character_id",
+      characterId,
+    );
+    const lastActivity = (dialogue: DialogueTreeRecord) =>
+      dialogue.updated_at || dialogue.created_at || "";
+    return dialogues.sort((a, b) =>
+      lastActivity(b).localeCompare(lastActivity(a)),
+    );
+  }
+
+  /**
+   * How much each character has been chatted with, keyed by character id.
+   * Greetings are not counted, and chats that never got past them are not
+   * activity.
+   */
+  static async getChatActivity(): Promise<Map<string, ChatActivity>> {
+    const dialogues = await getAllRecords<DialogueTreeRecord>(
+      CHARACTER_DIALOGUES_FILE,
+    );
+    const nodes = await getAllRecords<DialogueNodeRecord>(DIALOGUE_NODES_FILE);
+
+    const messageCounts = new Map<string, number>();
+    for (const node of nodes) {
+      if (node.nodeId === "root" || node.parentNodeId === "root") {
+        continue;
+      }
+      const count = (node.userInput ? 1 : 0) + (node.assistantResponse ? 1 : 0);
+      messageCounts.set(
+        node.dialogueId,
+        (messageCounts.get(node.dialogueId) || 0) + count,
+      );
+    }
+
+    const activity = new Map<string, ChatActivity>();
+    for (const dialogue of dialogues) {
+      const messageCount = messageCounts.get(dialogue.id) || 0;
+      if (messageCount === 0) {
+        continue;
+      }
+      const current = activity.get(dialogue.character_id);
+      const chattedAt = dialogue.updated_at || dialogue.created_at || "";
+      activity.set(dialogue.character_id, {
+        lastChattedAt:
+          current && current.lastChattedAt > chattedAt
+            ? current.lastChattedAt
+            : chattedAt,
+        messageCount: (current?.messageCount || 0) + messageCount,
+      });
+    }
+    return activity;
+  }
+
+  static async getDialogueInfo(
+    dialogueId: string,
+  ): Promise<DialogueTreeRecord | null> {
+    return this.getTreeRecord(dialogueId);
+  }
+
+  static async updateDialogueInfo(
+    dialogueId: string,
+    info: DialogueInfo,
+  ): Promise<DialogueTreeRecord | null> {
+    const dialogue = await this.getTreeRecord(dialogueId);
+
+    if (!dialogue) {
+      return null;
+    }
+
+    const updated: DialogueTreeRecord = {
+      ...dialogue,
+      ...info,
+      version: this.bumpVersion(dialogue),
+    };
+    await putRecord(CHARACTER_DIALOGUES_FILE, updated);
+    commitVersion("dialogues", dialogueId, updated.version!);
+
+    return updated;
+  }
+
+  /**
+   * Copies a chat with all of its branches and memories under a new id.
+   */
+  static async duplicateDialogue(
+    dialogueId: string,
+    name: string,
+  ): Promise<DialogueTreeRecord | null> {
+    const dialogue = await this.getTreeRecord(dialogueId);
+
+    if (!dialogue) {
+      return null;
+    }
+
+    const newId = uuidv4();
+    const now = new Date().toISOString();
+    const [nodes, memories] = await Promise.all([
+      this.getNodeRecords(dialogueId),
+      LocalMemoryOperations.getMemoryEntriesByCharacter(
+        dialogue.character_id,
+        dialogueId,
+      ),
+    ]);
+    const embeddings = await Promise.all(
+      memories.map((memory) => LocalMemoryOperations.getEmbedding(memory.id)),
+    );
+
+    const copy: DialogueTreeRecord = {
+      ...dialogue,
+      id: newId,
+      name,
+      created_at: now,
+      updated_at: now,
+      version: 1,
+    };
+    const memoryIds = new Map(memories.map((memory) => [memory.id, uuidv4()]));
+
+    await applyBatch([
+      { type: "put", storeName: CHARACTER_DIALOGUES_FILE, value: copy },
+      ...nodes.map(
+        (node): StorageOperation => ({
+          type: "put",
+          storeName: DIALOGUE_NODES_FILE,
+          value: { ...node, dialogueId: newId },
+        }),
+      ),
+      ...memories.map(
+        (memory): StorageOperation => ({
+          type: "put",
+          storeName: MEMORY_ENTRIES_FILE,
+          value: { ...memory, id: memoryIds.get(memory.id), dialogueId: newId },
+        }),
+      ),
+      ...embeddings.flatMap((embedding): StorageOperation[] =>
+        embedding
+          ? [
+            {
+              type: "put",
+              storeName: MEMORY_EMBEDDINGS_FILE,
+              value: { ...embedding, id: memoryIds.get(embedding.id) },
+            },
+          ]
+          : [],
+      ),
+    ]);
+    commitVersion("dialogues", newId, 1);
+    if (memories.length > 0) {
+      publishChange("memories", "put", dialogue.character_id);
+    }
+
+    return copy;
+  }
+
   static async getDialogueTreeById(
     dialogueId: string,
   ): Promise<DialogueTree | null> {
-    const dialogues = await readData(CHARACTER_DIALOGUES_FILE);
-    const dialogue = dialogues.find((d: any) => d.id === dialogueId);
+    const dialogue = await this.getTreeRecord(dialogueId);
 
     if (!dialogue) return null;
+    noteVersion("dialogues", dialogueId, dialogue);
+
+    const nodeRecords = await this.getNodeRecords(dialogueId);
 
     return new DialogueTree(
       dialogue.id,
       dialogue.character_id,
-      dialogue.nodes?.map(
-        (node: any) =>
-          new DialogueNode(
-            node.nodeId,
-            node.parentNodeId,
-            node.userInput,
-            node.assistantResponse,
-            node.fullResponse,
-            node.thinkingContent,
-            node.parsedContent,
-          ),
-      ) || [],
+      nodeRecords.map(fromNodeRecord),
       dialogue.current_nodeId,
+      dialogue.greeting_index,
     );
   }
 
+  /**
+   * The chat's openings: each greeting is a child of the root node, in the
+   * order it was added, so switching between them is switching branches.
+   */
+  static getGreetingNodes(dialogueTree: DialogueTree): DialogueNode[] {
+    return dialogueTree.nodes.filter((node) => node.parentNodeId === "root");
+  }
+
+  /**
+   * The greeting the current branch descends from, falling back to the
+   * remembered one while the chat sits at the root
+   */
+  static getGreetingIndex(dialogueTree: DialogueTree): number {
+    const byId = new Map(dialogueTree.nodes.map((node) => [node.nodeId, node]));
+    let node = byId.get(dialogueTree.current_nodeId);
+    while (node && node.parentNodeId !== "root") {
+      node = byId.get(node.parentNodeId);
+    }
+
+    const index = node ? this.getGreetingNodes(dialogueTree).indexOf(node) : -1;
+    return index >= 0 ? index : (dialogueTree.greeting_index ?? 0);
+  }
+
   static async addNodeToDialogueTree(
     dialogueId: string,
     parentNodeId: string,
@@ -69,9 +380,15 @@ export class LocalCharacterDialogueOperations {
     thinkingContent?: string,
     parsedContent?: ParsedResponse,
     nodeId?: string,
+    speakerId?: string,
+    worldBookTimers?: WorldBookTimers,
+    worldBookTrace?: WorldBookActivationTrace,
   ): Promise<string> {
-    const dialogues = await readData(CHARACTER_DIALOGUES_FILE);
-    const index = dialogues.findIndex((d: any) => d.id === dialogueId);
+    const dialogue = await this.getTreeRecord(dialogueId);
+
+    if (!dialogue) {
+      throw new Error(`Dialogue tree not found: ${dialogueId}`);
+    }
 
     if (!nodeId) {
       nodeId = uuidv4();
@@ -85,16 +402,33 @@ export class LocalCharacterDialogueOperations {
       fullResponse,
       thinkingContent,
       parsedContent,
+      speakerId,
+      worldBookTimers,
+      worldBookTrace,
     );
 
-    if (!dialogues[index].nodes) {
-      dialogues[index].nodes = [];
-    }
-
-    dialogues[index].nodes.push(newNode);
-    dialogues[index].current_nodeId = nodeId;
-
-    await writeData(CHARACTER_DIALOGUES_FILE, dialogues);
+    const order = dialogue.next_order || 0;
+    const version = this.bumpVersion(dialogue, false);
+
+    await applyBatch([
+      {
+        type: "put",
+        storeName: DIALOGUE_NODES_FILE,
+        value: toNodeRecord(dialogueId, newNode, order),
+      },
+      {
+        type: "put",
+        storeName: CHARACTER_DIALOGUES_FILE,
+        value: {
+          ...dialogue,
+          current_nodeId: nodeId,
+          next_order: order + 1,
+          updated_at: new Date().toISOString(),
+          version,
+        },
+      },
+    ]);
+    commitVersion("dialogues", dialogueId, version);
 
     return nodeId;
   }
@@ -103,18 +437,45 @@ export class LocalCharacterDialogueOperations {
     dialogueId: string,
     updatedDialogue: DialogueTree,
   ): Promise<boolean> {
-    const dialogues = await readData(CHARACTER_DIALOGUES_FILE);
-    const index = dialogues.findIndex((d: any) => d.id === dialogueId);
+    const dialogue = await this.getTreeRecord(dialogueId);
 
-    if (index === -1) {
+    if (!dialogue) {
       return false;
     }
 
-    dialogues[index] = {
-      ...updatedDialogue,
-    };
-
-    await writeData(CHARACTER_DIALOGUES_FILE, dialogues);
+    const version = this.bumpVersion(dialogue);
+    const nodes = updatedDialogue.nodes || [];
+    const operations: StorageOperation[] = [
+      {
+        type: "deleteByIndex",
+        storeName: DIALOGUE_NODES_FILE,
+        indexName: "dialogueId",
+        value: dialogueId,
+      },
+      ...nodes.map(
+        (node, index): StorageOperation => ({
+          type: "put",
+          storeName: DIALOGUE_NODES_FILE,
+          value: toNodeRecord(dialogueId, node, index),
+        }),
+      ),
+      {
+        type: "put",
+        storeName: CHARACTER_DIALOGUES_FILE,
+        value: {
+          ...dialogue,
+          id: dialogueId,
+          character_id: updatedDialogue.character_id,
+          current_nodeId: updatedDialogue.current_nodeId,
+          next_order: nodes.length,
+          greeting_index: updatedDialogue.greeting_index,
+          version,
+        } as DialogueTreeRecord,
+      },
+    ];
+
+    await applyBatch(operations);
+    commitVersion("dialogues", dialogueId, version);
     return true;
   }
 
@@ -123,89 +484,151 @@ export class LocalCharacterDialogueOperations {
     nodeId: string,
     updates: Partial<DialogueNode>,
   ): Promise<DialogueTree | null> {
-    const dialogueTree = await this.getDialogueTreeById(dialogueId);
-
-    if (!dialogueTree) {
-      return null;
-    }
-
-    const nodeIndex = dialogueTree.nodes.findIndex(
-      (node) => node.nodeId === nodeId,
+    const nodeRecord = await getRecord<DialogueNodeRecord>(
+      DIALOGUE_NODES_FILE,
+      [dialogueId, nodeId],
     );
 
-    if (nodeIndex === -1) {
+    if (!nodeRecord) {
       return null;
     }
 
-    dialogueTree.nodes[nodeIndex] = {
-      ...dialogueTree.nodes[nodeIndex],
+    await putRecord(DIALOGUE_NODES_FILE, {
+      ...nodeRecord,
       ...updates,
-    };
-
-    await this.updateDialogueTree(dialogueId, dialogueTree);
+      nodeId,
+      dialogueId,
+      order: nodeRecord.order,
+    });
+    publishChange("dialogues", "put", dialogueId);
 
-    return dialogueTree;
+    return this.getDialogueTreeById(dialogueId);
   }
 
   static async switchBranch(
     dialogueId: string,
     nodeId: string,
   ): Promise<DialogueTree | null> {
-    const dialogueTree = await this.getDialogueTreeById(dialogueId);
+    const dialogue = await this.getTreeRecord(dialogueId);
 
-    if (!dialogueTree) {
+    if (!dialogue) {
       return null;
     }
 
-    const node = dialogueTree.nodes.find((n) => n.nodeId === nodeId);
+    const node = await getRecord<DialogueNodeRecord>(DIALOGUE_NODES_FILE, [
+      dialogueId,
+      nodeId,
+    ]);
 
     if (!node) {
       return null;
     }
 
-    dialogueTree.current_nodeId = nodeId;
+    // Moving onto another greeting makes it the chat's remembered opening
+    let greetingIndex = dialogue.greeting_index;
+    if (node.parentNodeId === "root") {
+      const greetings = (await this.getNodeRecords(dialogueId)).filter(
+        (record) => record.parentNodeId === "root",
+      );
+      greetingIndex = greetings.findIndex(
+        (record) => record.nodeId === nodeId,
+      );
+    }
 
-    await this.updateDialogueTree(dialogueId, dialogueTree);
+    const version = this.bumpVersion(dialogue);
+    await putRecord(CHARACTER_DIALOGUES_FILE, {
+      ...dialogue,
+      current_nodeId: nodeId,
+      greeting_index: greetingIndex,
+      version,
+    });
+    commitVersion("dialogues", dialogueId, version);
 
-    return dialogueTree;
+    return this.getDialogueTreeById(dialogueId);
   }
 
   static async clearDialogueHistory(
     dialogueId: string,
   ): Promise<DialogueTree | null> {
-    const dialogueTree = await this.getDialogueTreeById(dialogueId);
+    const dialogue = await this.getTreeRecord(dialogueId);
 
-    if (!dialogueTree) {
+    if (!dialogue) {
       return null;
     }
 
-    dialogueTree.nodes = [];
-    dialogueTree.current_nodeId = "root";
-
-    await this.updateDialogueTree(dialogueId, dialogueTree);
-
-    return dialogueTree;
+    const version = this.bumpVersion(dialogue);
+    await applyBatch([
+      {
+        type: "deleteByIndex",
+        storeName: DIALOGUE_NODES_FILE,
+        indexName: "dialogueId",
+        value: dialogueId,
+      },
+      {
+        type: "put",
+        storeName: CHARACTER_DIALOGUES_FILE,
+        value: { ...dialogue, current_nodeId: "root", next_order: 0, version },
+      },
+    ]);
+    commitVersion("dialogues", dialogueId, version);
+
+    return new DialogueTree(dialogue.id, dialogue.character_id, [], "root");
   }
 
-  static async deleteDialogueTree(dialogueId: string): Promise<boolean> {
-    const dialogues = await readData(CHARACTER_DIALOGUES_FILE);
-    const initialLength = dialogues.length;
-
-    const filteredDialogues = dialogues.filter((d: any) => d.id !== dialogueId);
+  /**
+   * Moves a chat, its nodes and the memories made in it to the trash.
+   */
+  static async deleteDialogueTree(
+    dialogueId: string,
+  ): Promise<TrashItem | null> {
+    const dialogue = await this.getTreeRecord(dialogueId);
 
-    if (filteredDialogues.length === initialLength) {
-      return false;
+    if (!dialogue) {
+      return null;
     }
 
-    await writeData(CHARACTER_DIALOGUES_FILE, filteredDialogues);
+    const memories = await LocalMemoryOperations.getMemoryEntriesByCharacter(
+      dialogue.character_id,
+      dialogueId,
+    );
+    const trashItem = await TrashOperations.moveToTrash(
+      {
+        kind: "dialogue",
+        label: dialogue.name || dialogueId,
+        ownerId: dialogue.character_id,
+      },
+      [
+        { type: "delete", storeName: CHARACTER_DIALOGUES_FILE, key: dialogueId },
+        {
+          type: "deleteByIndex",
+          storeName: DIALOGUE_NODES_FILE,
+          indexName: "dialogueId",
+          value: dialogueId,
+        },
+        ...memories.flatMap((memory): StorageOperation[] => [
+          { type: "delete", storeName: MEMORY_ENTRIES_FILE, key: memory.id },
+          { type: "delete", storeName: MEMORY_EMBEDDINGS_FILE, key: memory.id },
+        ]),
+      ],
+    );
+    forgetVersion("dialogues", dialogueId);
+    publishChange("dialogues", "delete", dialogueId);
+    if (memories.length > 0) {
+      publishChange("memories", "delete", dialogue.character_id);
+    }
 
-    return true;
+    return trashItem;
   }
 
+  /**
+   * Moves a node and its whole subtree to the trash, or deletes them
+   * outright when `moveToTrash` is false.
+   */
   static async deleteNode(
     dialogueId: string,
     nodeId: string,
-  ): Promise<DialogueTree | null> {
+    moveToTrash: boolean = true,
+  ): Promise<{ dialogueTree: DialogueTree; trashItem: TrashItem | null } | null> {
     const dialogueTree = await this.getDialogueTreeById(dialogueId);
 
     if (!dialogueTree || nodeId === "root") {
@@ -234,14 +657,47 @@ export class LocalCharacterDialogueOperations {
     );
     if (nodesToDelete.has(dialogueTree.current_nodeId)) {
       dialogueTree.current_nodeId = nodeToDelete.parentNodeId;
-      const newCurrentNode = dialogueTree.nodes.find(
-        (node) => node.nodeId === dialogueTree.current_nodeId,
-      );
     }
 
-    await this.updateDialogueTree(dialogueId, dialogueTree);
+    const dialogue = await this.getTreeRecord(dialogueId);
+    if (!dialogue) {
+      return null;
+    }
 
-    return dialogueTree;
+    const version = this.bumpVersion(dialogue);
+    const label = (nodeToDelete.userInput || nodeToDelete.assistantResponse)
+      .replace(/\s+/g, " ")
+      .slice(0, 60);
+    const operations: StorageOperation[] = [
+      ...Array.from(nodesToDelete).map(
+        (id): StorageOperation => ({
+          type: "delete",
+          storeName: DIALOGUE_NODES_FILE,
+          key: [dialogueId, id],
+        }),
+      ),
+      {
+        type: "put",
+        storeName: CHARACTER_DIALOGUES_FILE,
+        value: {
+          ...dialogue,
+          current_nodeId: dialogueTree.current_nodeId,
+          version,
+        },
+      },
+    ];
+    let trashItem: TrashItem | null = null;
+    if (moveToTrash) {
+      trashItem = await TrashOperations.moveToTrash(
+        { kind: "dialogueNodes", label, ownerId: dialogueId },
+        operations,
+      );
+    } else {
+      await applyBatch(operations);
+    }
+    commitVersion("dialogues", dialogueId, version);
+
+    return { dialogueTree, trashItem };
   }
 
   static async getDialoguePathToNode(
@@ -287,8 +743,8 @@ export class LocalCharacterDialogueOperations {
     );
   }
 
-  static async getSystemMessage(characterId: string): Promise<string> {
-    const dialogueTree = await this.getDialogueTreeById(characterId);
+  static async getSystemMessage(dialogueId: string): Promise<string> {
+    const dialogueTree = await this.getDialogueTreeById(dialogueId);
     if (
       !dialogueTree ||
       !dialogueTree.nodes ||
@@ -302,18 +758,29 @@ export class LocalCharacterDialogueOperations {
     return rootNode?.assistantResponse || "";
   }
 
-  static async getLastNodeId(characterId: string): Promise<string> {
-    const dialogueTree = await this.getDialogueTreeById(characterId);
+  static async getNode(
+    dialogueId: string,
+    nodeId: string,
+  ): Promise<DialogueNode | null> {
+    const record = await getRecord<DialogueNodeRecord>(DIALOGUE_NODES_FILE, [
+      dialogueId,
+      nodeId,
+    ]);
+    return record ? fromNodeRecord(record) : null;
+  }
+
+  static async getLastNodeId(dialogueId: string): Promise<string> {
+    const dialogueTree = await this.getDialogueTreeById(dialogueId);
     return dialogueTree?.current_nodeId || "root";
   }
 
   static async nodeExists(
-    characterId: string,
+    dialogueId: string,
     nodeId: string,
   ): Promise<boolean> {
     if (nodeId === "root") return true;
 
-    const dialogueTree = await this.getDialogueTreeById(characterId);
+    const dialogueTree = await this.getDialogueTreeById(dialogueId);
     if (
       !dialogueTree ||
       !dialogueTree.nodes ||
@@ -1,96 +1,179 @@
 import {
-  readData,
-  writeData,
+  getRecord,
+  getAllRecords,
+  putRecord,
   CHARACTERS_RECORD_FILE,
+  PRESET_FILE,
 } from "@/lib/data/local-storage";
+import {
+  getCharacterDeleteOperations,
+  getCharacterImageKeys,
+} from "@/lib/data/character-ownership";
+import {
+  TrashItem,
+  TrashOperations,
+} from "@/lib/data/roleplay/trash-operation";
+import {
+  VersionedRecord,
+  commitVersion,
+  forgetVersion,
+  nextVersion,
+  noteVersion,
+  publishChange,
+} from "@/lib/data/change-bus";
 import { RawCharacterData } from "@/lib/models/rawdata-model";
-import { LocalCharacterDialogueOperations } from "@/lib/data/roleplay/character-dialogue-operation";
 
-export interface CharacterRecord {
+export interface CharacterRecord extends VersionedRecord {
   id: string;
   data: RawCharacterData;
   imagePath: string;
+  /** Image store keys of imported card assets, by their URI in the card */
+  assetPaths?: Record<string, string>;
   created_at: string;
   updated_at: string;
 }
 
+/**
+ * Top-level record fields and where the same value lives inside the card's
+ * `data` object.
+ */
+const CARD_DATA_FIELDS: Record<string, string> = {
+  name: "name",
+  description: "description",
+  personality: "personality",
+  scenario: "scenario",
+  first_mes: "first_mes",
+  mes_example: "mes_example",
+  creatorcomment: "creator_notes",
+};
+
 export class LocalCharacterRecordOperations {
   static async createCharacter(
     characterId: string,
     rawCharacterData: RawCharacterData,
     imagePath: string,
+    assetPaths?: Record<string, string>,
   ): Promise<CharacterRecord> {
-    const characterRecords = await readData(CHARACTERS_RECORD_FILE);
     const characterRecord: CharacterRecord = {
       id: characterId,
       data: rawCharacterData,
       imagePath,
+      ...(assetPaths && { assetPaths }),
       created_at: new Date().toISOString(),
       updated_at: new Date().toISOString(),
+      version: 1,
     };
 
-    characterRecords.push(characterRecord);
-    await writeData(CHARACTERS_RECORD_FILE, characterRecords);
+    await putRecord(CHARACTERS_RECORD_FILE, characterRecord);
+    commitVersion("characters", characterId, 1);
 
     return characterRecord;
   }
 
   static async getAllCharacters(): Promise<CharacterRecord[]> {
-    return await readData(CHARACTERS_RECORD_FILE);
+    const records = await getAllRecords<CharacterRecord>(CHARACTERS_RECORD_FILE);
+    records.forEach((record) => noteVersion("characters", record.id, record));
+    return records;
   }
 
   static async getCharacterById(
     characterId: string,
   ): Promise<CharacterRecord | undefined> {
-    const characterRecords = await readData(CHARACTERS_RECORD_FILE);
-
-    const characterRecord = characterRecords.find(
-      (record: CharacterRecord) => record.id === characterId,
+    const characterRecord = await getRecord<CharacterRecord>(
+      CHARACTERS_RECORD_FILE,
+      characterId,
     );
+    noteVersion("characters", characterId, characterRecord);
 
-    return characterRecord;
+    return characterRecord || undefined;
   }
 
   static async updateCharacter(
     characterId: string,
     characterData: Partial<RawCharacterData>,
   ): Promise<CharacterRecord | null> {
-    const characterRecords = await readData(CHARACTERS_RECORD_FILE);
-    const index = characterRecords.findIndex(
-      (characterRecord: CharacterRecord) => characterRecord.id === characterId,
+    const characterRecord = await getRecord<CharacterRecord>(
+      CHARACTERS_RECORD_FILE,
+      characterId,
     );
 
-    if (index === -1) {
+    if (!characterRecord) {
       return null;
     }
 
-    characterRecords[index].data = {
-      ...characterRecords[index].data,
+    const version = nextVersion("characters", characterId, characterRecord);
+    characterRecord.data = {
+      ...characterRecord.data,
       ...characterData,
     };
-    characterRecords[index].updated_at = new Date().toISOString();
+    // Card readers prefer data.data, so edited top-level fields go there too
+    if (characterRecord.data.data && !characterData.data) {
+      const cardData: Record<string, any> = { ...characterRecord.data.data };
+      for (const [field, cardField] of Object.entries(CARD_DATA_FIELDS)) {
+        const value = (characterData as Record<string, any>)[field];
+        if (value !== undefined) {
+          cardData[cardField] = value;
+        }
+      }
+      characterRecord.data.data = cardData as RawCharacterData["data"];
+    }
+    characterRecord.updated_at = new Date().toISOString();
+    characterRecord.version = version;
 
-    await writeData(CHARACTERS_RECORD_FILE, characterRecords);
+    await putRecord(CHARACTERS_RECORD_FILE, characterRecord);
+    commitVersion("characters", characterId, version);
 
-    return characterRecords[index];
+    return characterRecord;
   }
 
-  static async deleteCharacter(characterId: string): Promise<boolean> {
-    const characterRecords = await readData(CHARACTERS_RECORD_FILE);
-    const initialLength = characterRecords.length;
-
-    const filteredCharacterRecords = characterRecords.filter(
-      (characterRecord: CharacterRecord) => characterRecord.id !== characterId,
+  /**
+   * Moves the character and everything keyed by its id to the trash in a
+   * single transaction, so a failure never leaves half of it behind.
+   */
+  static async deleteCharacter(
+    characterId: string,
+  ): Promise<TrashItem | null> {
+    const characterRecord = await getRecord<CharacterRecord>(
+      CHARACTERS_RECORD_FILE,
+      characterId,
     );
 
-    if (filteredCharacterRecords.length === initialLength) {
-      return false;
+    if (!characterRecord) {
+      return null;
     }
 
-    await writeData(CHARACTERS_RECORD_FILE, filteredCharacterRecords);
-
-    await LocalCharacterDialogueOperations.deleteDialogueTree(characterId);
+    const operations = await getCharacterDeleteOperations(
+      characterId,
+      getCharacterImageKeys(characterRecord),
+    );
+    const trashItem = await TrashOperations.moveToTrash(
+      {
+        kind: "character",
+        label: characterRecord.data?.data?.name || characterRecord.data?.name,
+        ownerId: characterId,
+      },
+      operations,
+    );
 
-    return true;
+    const entities = [
+      "characters",
+      "dialogues",
+      "worldBooks",
+      "regexScripts",
+      "memories",
+    ] as const;
+    entities.forEach((entity) => {
+      forgetVersion(entity, characterId);
+      publishChange(entity, "delete", characterId);
+    });
+    operations
+      .filter((operation) => operation.storeName === PRESET_FILE)
+      .forEach((operation) => {
+        if (operation.type === "put") {
+          commitVersion("presets", operation.value.id, operation.value.version);
+        }
+      });
+
+    return trashItem;
   }
 }
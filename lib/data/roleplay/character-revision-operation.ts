@@ -0,0 +1,234 @@
+import {
+  getRecord,
+  getRecordsByIndex,
+  applyBatch,
+  StorageOperation,
+  CHARACTERS_RECORD_FILE,
+  CHARACTER_REVISIONS_FILE,
+  REGEX_SCRIPTS_FILE,
+  WORLD_BOOK_FILE,
+} from "@/lib/data/local-storage";
+import {
+  commitVersion,
+  forgetVersion,
+  publishChange,
+} from "@/lib/data/change-bus";
+import { CharacterRecord } from "@/lib/data/roleplay/character-record-operation";
+import { WorldBookRecord } from "@/lib/data/roleplay/world-book-operation";
+import { RegexScriptRecord } from "@/lib/data/roleplay/regex-script-operation";
+import {
+  CharacterRevision,
+  CharacterRevisionKind,
+  CharacterSnapshot,
+} from "@/lib/models/character-revision-model";
+import { v4 as uuidv4 } from "uuid";
+
+export const REVISION_RETENTION_KEY = "characterRevisionLimit";
+export const DEFAULT_REVISION_LIMIT = 20;
+
+export function getRevisionRetentionLimit(): number {
+  const saved = Number(localStorage.getItem(REVISION_RETENTION_KEY));
+  return Number.isFinite(saved) && saved > 0 ? saved : DEFAULT_REVISION_LIMIT;
+}
+
+export function setRevisionRetentionLimit(limit: number): void {
+  localStorage.setItem(
+    REVISION_RETENTION_KEY,
+    String(Math.max(1, Math.round(limit))),
+  );
+}
+
+export class CharacterRevisionOperations {
+  /**
+   * A character's revisions, newest first
+   */
+  static async getRevisions(characterId: string): Promise<CharacterRevision[]> {
+    const revisions = await getRecordsByIndex<CharacterRevision>(
+      CHARACTER_REVISIONS_FILE,
+      "characterId",
+      characterId,
+    );
+    return revisions.sort(
+      (a, b) =>
+        (b.sequence || 0) - (a.sequence || 0) ||
+        b.created_at.localeCompare(a.created_at),
+    );
+  }
+
+  static async getRevision(
+    revisionId: string,
+  ): Promise<CharacterRevision | null> {
+    return getRecord<CharacterRevision>(CHARACTER_REVISIONS_FILE, revisionId);
+  }
+
+  /**
+   * The character as it is stored right now, or null if it no longer exists
+   */
+  static async captureSnapshot(
+    characterId: string,
+  ): Promise<CharacterSnapshot | null> {
+    const [character, worldBook, regexScripts] = await Promise.all([
+      getRecord<CharacterRecord>(CHARACTERS_RECORD_FILE, characterId),
+      getRecord<WorldBookRecord>(WORLD_BOOK_FILE, characterId),
+      getRecord<RegexScriptRecord>(REGEX_SCRIPTS_FILE, characterId),
+    ]);
+    if (!character) {
+      return null;
+    }
+
+    return {
+      data: character.data,
+      ...(worldBook && {
+        worldBook: {
+          entries: worldBook.entries || {},
+          settings: worldBook.settings,
+        },
+      }),
+      ...(regexScripts && {
+        regexScripts: {
+          scripts: regexScripts.scripts || {},
+          settings: regexScripts.settings,
+        },
+      }),
+    };
+  }
+
+  /**
+   * Records the character's current state and drops the oldest revisions
+   * beyond `limit` in the same transaction.
+   */
+  static async recordRevision(
+    characterId: string,
+    kind: CharacterRevisionKind,
+    note: string = "",
+    limit: number = DEFAULT_REVISION_LIMIT,
+    revertedFrom?: string,
+  ): Promise<CharacterRevision | null> {
+    const snapshot = await this.captureSnapshot(characterId);
+    if (!snapshot) {
+      return null;
+    }
+
+    const existing = await this.getRevisions(characterId);
+    const revision: CharacterRevision = {
+      ...snapshot,
+      id: uuidv4(),
+      characterId,
+      kind,
+      note,
+      ...(revertedFrom && { revertedFrom }),
+      sequence: (existing[0]?.sequence || 0) + 1,
+      created_at: new Date().toISOString(),
+    };
+
+    const operations: StorageOperation[] = [
+      { type: "put", storeName: CHARACTER_REVISIONS_FILE, value: revision },
+      ...existing.slice(Math.max(limit - 1, 0)).map(
+        (old): StorageOperation => ({
+          type: "delete",
+          storeName: CHARACTER_REVISIONS_FILE,
+          key: old.id,
+        }),
+      ),
+    ];
+    await applyBatch(operations);
+
+    return revision;
+  }
+
+  /**
+   * Puts the card, world book and regex scripts back as a revision had them.
+   * Stores the character had no record in at the time are cleared. This is
+   * a deliberate overwrite, so edits made elsewhere since are not checked.
+   */
+  static async revertToRevision(
+    revisionId: string,
+  ): Promise<CharacterRecord | null> {
+    const revision = await this.getRevision(revisionId);
+    if (!revision) {
+      return null;
+    }
+
+    const { characterId } = revision;
+    const [character, worldBook, regexScripts] = await Promise.all([
+      getRecord<CharacterRecord>(CHARACTERS_RECORD_FILE, characterId),
+      getRecord<WorldBookRecord>(WORLD_BOOK_FILE, characterId),
+      getRecord<RegexScriptRecord>(REGEX_SCRIPTS_FILE, characterId),
+    ]);
+    if (!character) {
+      return null;
+    }
+
+    const restored: CharacterRecord = {
+      ...character,
+      data: revision.data,
+      updated_at: new Date().toISOString(),
+      version: (character.version || 0) + 1,
+    };
+    const worldBookVersion = (worldBook?.version || 0) + 1;
+    const regexVersion = (regexScripts?.version || 0) + 1;
+
+    const operations: StorageOperation[] = [
+      { type: "put", storeName: CHARACTERS_RECORD_FILE, value: restored },
+      revision.worldBook
+        ? {
+          type: "put",
+          storeName: WORLD_BOOK_FILE,
+          value: {
+            id: characterId,
+            ...revision.worldBook,
+            version: worldBookVersion,
+          },
+        }
+        : { type: "delete", storeName: WORLD_BOOK_FILE, key: characterId },
+      revision.regexScripts
+        ? {
+          type: "put",
+          storeName: REGEX_SCRIPTS_FILE,
+          value: {
+            id: characterId,
+            ...revision.regexScripts,
+            version: regexVersion,
+          },
+        }
+        : { type: "delete", storeName: REGEX_SCRIPTS_FILE, key: characterId },
+    ];
+    await applyBatch(operations);
+
+    commitVersion("characters", characterId, restored.version!);
+    if (revision.worldBook) {
+      commitVersion("worldBooks", characterId, worldBookVersion);
+    } else {
+      forgetVersion("worldBooks", characterId);
+      publishChange("worldBooks", "delete", characterId);
+    }
+    if (revision.regexScripts) {
+      commitVersion("regexScripts", characterId, regexVersion);
+    } else {
+      forgetVersion("regexScripts", characterId);
+      publishChange("regexScripts", "delete", characterId);
+    }
+
+    return restored;
+  }
+
+  /**
+   * Drops all but the newest `limit` revisions of a character
+   */
+  static async pruneRevisions(
+    characterId: string,
+    limit: number,
+  ): Promise<number> {
+    const stale = (await this.getRevisions(characterId)).slice(limit);
+    if (stale.length > 0) {
+      await applyBatch(
+        stale.map((revision) => ({
+          type: "delete",
+          storeName: CHARACTER_REVISIONS_FILE,
+          key: revision.id,
+        })),
+      );
+    }
+    return stale.length;
+  }
+}
@@ -0,0 +1,148 @@
+import {
+  getRecord,
+  getAllRecords,
+  putRecord,
+  COLLECTIONS_FILE,
+} from "@/lib/data/local-storage";
+import {
+  StaleDataError,
+  commitVersion,
+  forgetVersion,
+  nextVersion,
+  noteVersion,
+  publishChange,
+} from "@/lib/data/change-bus";
+import { CharacterCollection } from "@/lib/models/collection-model";
+import {
+  TrashItem,
+  TrashOperations,
+} from "@/lib/data/roleplay/trash-operation";
+import { v4 as uuidv4 } from "uuid";
+
+export class CollectionOperations {
+  static async getCollections(): Promise<CharacterCollection[]> {
+    try {
+      const collections =
+        await getAllRecords<CharacterCollection>(COLLECTIONS_FILE);
+      collections.forEach((collection) =>
+        noteVersion("collections", collection.id, collection),
+      );
+      return collections.sort((a, b) => a.name.localeCompare(b.name));
+    } catch (error) {
+      console.error("Error getting collections:", error);
+      return [];
+    }
+  }
+
+  static async createCollection(
+    name: string,
+    characterIds: string[] = [],
+  ): Promise<CharacterCollection> {
+    const now = new Date().toISOString();
+    const collection: CharacterCollection = {
+      id: uuidv4(),
+      name,
+      characterIds,
+      created_at: now,
+      updated_at: now,
+      version: 1,
+    };
+
+    await putRecord(COLLECTIONS_FILE, collection);
+    commitVersion("collections", collection.id, 1);
+
+    return collection;
+  }
+
+  static async updateCollection(
+    collectionId: string,
+    updates: Partial<Pick<CharacterCollection, "name" | "characterIds">>,
+  ): Promise<CharacterCollection | null> {
+    try {
+      const collection = await getRecord<CharacterCollection>(
+        COLLECTIONS_FILE,
+        collectionId,
+      );
+      if (!collection) {
+        return null;
+      }
+
+      const version = nextVersion("collections", collectionId, collection);
+      const updated: CharacterCollection = {
+        ...collection,
+        ...updates,
+        id: collectionId,
+        updated_at: new Date().toISOString(),
+        version,
+      };
+      await putRecord(COLLECTIONS_FILE, updated);
+      commitVersion("collections", collectionId, version);
+
+      return updated;
+    } catch (error) {
+      if (error instanceof StaleDataError) {
+        throw error;
+      }
+      console.error("Error updating collection:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Adds a character to a collection or takes it out
+   */
+  static async setMembership(
+    collectionId: string,
+    characterId: string,
+    included: boolean,
+  ): Promise<CharacterCollection | null> {
+    const collection = await getRecord<CharacterCollection>(
+      COLLECTIONS_FILE,
+      collectionId,
+    );
+    if (!collection) {
+      return null;
+    }
+
+    const characterIds = collection.characterIds.filter(
+      (id) => id !== characterId,
+    );
+    if (included) {
+      characterIds.push(characterId);
+    }
+    return this.updateCollection(collectionId, { characterIds });
+  }
+
+  /**
+   * Moves a collection to the trash. Its characters are left alone.
+   */
+  static async deleteCollection(
+    collectionId: string,
+  ): Promise<TrashItem | null> {
+    try {
+      const collection = await getRecord<CharacterCollection>(
+        COLLECTIONS_FILE,
+        collectionId,
+      );
+      if (!collection) {
+        return null;
+      }
+
+      const trashItem = await TrashOperations.moveToTrash(
+        {
+          kind: "collection",
+          label: collection.name || collectionId,
+          ownerId: collectionId,
+        },
+        [{ type: "delete", storeName: COLLECTIONS_FILE, key: collectionId }],
+      );
+      forgetVersion("collections", collectionId);
+      publishChange("collections", "delete", collectionId);
+
+      return trashItem;
+    } catch (error) {
+      console.error("Error deleting collection:", error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,147 @@
+import {
+  getRecord,
+  getAllRecords,
+  putRecord,
+  CHARACTER_DIALOGUES_FILE,
+  DIALOGUE_NODES_FILE,
+  GROUPS_FILE,
+} from "@/lib/data/local-storage";
+import {
+  StaleDataError,
+  commitVersion,
+  forgetVersion,
+  nextVersion,
+  noteVersion,
+  publishChange,
+} from "@/lib/data/change-bus";
+import { Group, GROUP_ID_PREFIX } from "@/lib/models/group-model";
+import { LocalCharacterDialogueOperations } from "@/lib/data/roleplay/character-dialogue-operation";
+import {
+  TrashItem,
+  TrashOperations,
+} from "@/lib/data/roleplay/trash-operation";
+import { v4 as uuidv4 } from "uuid";
+
+export type NewGroup = Omit<
+  Group,
+  "id" | "created_at" | "updated_at" | "version"
+>;
+
+/**
+ * A group owns exactly one chat, stored as a dialogue tree whose id and owner
+ * are the group's id
+ */
+export class GroupOperations {
+  static async getGroups(): Promise<Group[]> {
+    try {
+      const groups = await getAllRecords<Group>(GROUPS_FILE);
+      groups.forEach((group) => noteVersion("groups", group.id, group));
+      return groups.sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+    } catch (error) {
+      console.error("Error getting groups:", error);
+      return [];
+    }
+  }
+
+  static async getGroup(groupId: string): Promise<Group | null> {
+    try {
+      const group = await getRecord<Group>(GROUPS_FILE, groupId);
+      noteVersion("groups", groupId, group);
+      return group;
+    } catch (error) {
+      console.error("Error getting group:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Creates a group together with its empty chat
+   */
+  static async createGroup(group: NewGroup): Promise<Group> {
+    const now = new Date().toISOString();
+    const newGroup: Group = {
+      ...group,
+      id: `${GROUP_ID_PREFIX}${uuidv4()}`,
+      created_at: now,
+      updated_at: now,
+      version: 1,
+    };
+
+    await putRecord(GROUPS_FILE, newGroup);
+    commitVersion("groups", newGroup.id, 1);
+    await LocalCharacterDialogueOperations.createDialogueTree(
+      newGroup.id,
+      newGroup.id,
+      newGroup.name,
+    );
+
+    return newGroup;
+  }
+
+  static async updateGroup(
+    groupId: string,
+    updates: Partial<NewGroup>,
+  ): Promise<Group | null> {
+    try {
+      const group = await getRecord<Group>(GROUPS_FILE, groupId);
+      if (!group) {
+        return null;
+      }
+
+      const version = nextVersion("groups", groupId, group);
+      const updated: Group = {
+        ...group,
+        ...updates,
+        id: groupId,
+        updated_at: new Date().toISOString(),
+        version,
+      };
+      await putRecord(GROUPS_FILE, updated);
+      commitVersion("groups", groupId, version);
+
+      return updated;
+    } catch (error) {
+      if (error instanceof StaleDataError) {
+        throw error;
+      }
+      console.error("Error updating group:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Moves a group and its chat to the trash. The member characters are left
+   * alone.
+   */
+  static async deleteGroup(groupId: string): Promise<TrashItem | null> {
+    try {
+      const group = await getRecord<Group>(GROUPS_FILE, groupId);
+      if (!group) {
+        return null;
+      }
+
+      const trashItem = await TrashOperations.moveToTrash(
+        { kind: "group", label: group.name || groupId, ownerId: groupId },
+        [
+          { type: "delete", storeName: GROUPS_FILE, key: groupId },
+          { type: "delete", storeName: CHARACTER_DIALOGUES_FILE, key: groupId },
+          {
+            type: "deleteByIndex",
+            storeName: DIALOGUE_NODES_FILE,
+            indexName: "dialogueId",
+            value: groupId,
+          },
+        ],
+      );
+      forgetVersion("groups", groupId);
+      forgetVersion("dialogues", groupId);
+      publishChange("groups", "delete", groupId);
+      publishChange("dialogues", "delete", groupId);
+
+      return trashItem;
+    } catch (error) {
+      console.error("Error deleting group:", error);
+      return null;
+    }
+  }
+}
@@ -1,9 +1,14 @@
 import {
-  readData,
-  writeData,
+  getRecord,
+  getRecordsByIndex,
+  putRecord,
+  deleteRecord,
+  applyBatch,
   MEMORY_ENTRIES_FILE,
   MEMORY_EMBEDDINGS_FILE,
+  MEMORY_CONFIGS_FILE,
 } from "@/lib/data/local-storage";
+import { publishChange } from "@/lib/data/change-bus";
 import {
   MemoryEntry,
   MemoryType,
@@ -13,10 +18,8 @@ import {
 } from "@/lib/models/memory-model";
 import { v4 as uuidv4 } from "uuid";
 
-export interface MemoryRecord {
-  id: string;
+export interface MemoryConfigRecord {
   characterId: string;
-  entries: MemoryEntry[];
   config: MemoryRAGConfig;
   created_at: string;
   updated_at: string;
@@ -30,6 +33,17 @@ export interface EmbeddingRecord {
   created_at: string;
 }
 
+/**
+ * Whether a memory belongs to a chat. Memories made before a character could
+ * have several chats carry no chat id and belong to the first one.
+ */
+export function isDialogueMemory(
+  entry: MemoryEntry,
+  dialogueId: string,
+): boolean {
+  return (entry.dialogueId ?? entry.characterId) === dialogueId;
+}
+
 export class LocalMemoryOperations {
   /**
    * Create a new memory entry for a character
@@ -41,12 +55,12 @@ export class LocalMemoryOperations {
     metadata: any = {},
     tags: string[] = [],
     importance: number = 0.5,
+    dialogueId?: string,
   ): Promise<MemoryEntry> {
-    const memoryRecords = await readData(MEMORY_ENTRIES_FILE);
-
     const memoryEntry: MemoryEntry = {
       id: uuidv4(),
       characterId,
+      ...(dialogueId && dialogueId !== characterId && { dialogueId }),
       type,
       content,
       metadata: {
@@ -62,42 +76,26 @@ export class LocalMemoryOperations {
       updated_at: new Date().toISOString(),
     };
 
-    // Find existing character record or create new one
-    let characterRecord = memoryRecords.find(
-      (record: MemoryRecord) => record.characterId === characterId,
-    );
-
-    if (!characterRecord) {
-      characterRecord = {
-        id: uuidv4(),
-        characterId,
-        entries: [memoryEntry],
-        config: this.getDefaultRAGConfig(),
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      };
-      memoryRecords.push(characterRecord);
-    } else {
-      characterRecord.entries.push(memoryEntry);
-      characterRecord.updated_at = new Date().toISOString();
-    }
-
-    await writeData(MEMORY_ENTRIES_FILE, memoryRecords);
+    await putRecord(MEMORY_ENTRIES_FILE, memoryEntry);
+    publishChange("memories", "put", characterId);
     return memoryEntry;
   }
 
   /**
-   * Get all memory entries for a character
+   * Get all memory entries for a character, or only those of one of its chats
    */
   static async getMemoryEntriesByCharacter(
     characterId: string,
+    dialogueId?: string,
   ): Promise<MemoryEntry[]> {
-    const memoryRecords = await readData(MEMORY_ENTRIES_FILE);
-    const characterRecord = memoryRecords.find(
-      (record: MemoryRecord) => record.characterId === characterId,
+    const entries = await getRecordsByIndex<MemoryEntry>(
+      MEMORY_ENTRIES_FILE,
+      "characterId",
+      characterId,
     );
-
-    return characterRecord ? characterRecord.entries : [];
+    return dialogueId
+      ? entries.filter((entry) => isDialogueMemory(entry, dialogueId))
+      : entries;
   }
 
   /**
@@ -106,18 +104,7 @@ export class LocalMemoryOperations {
   static async getMemoryEntryById(
     entryId: string,
   ): Promise<MemoryEntry | null> {
-    const memoryRecords = await readData(MEMORY_ENTRIES_FILE);
-
-    for (const record of memoryRecords) {
-      const entry = record.entries.find(
-        (entry: MemoryEntry) => entry.id === entryId,
-      );
-      if (entry) {
-        return entry;
-      }
-    }
-
-    return null;
+    return getRecord<MemoryEntry>(MEMORY_ENTRIES_FILE, entryId);
   }
 
   /**
@@ -127,52 +114,40 @@ export class LocalMemoryOperations {
     entryId: string,
     updates: Partial<MemoryEntry>,
   ): Promise<MemoryEntry | null> {
-    const memoryRecords = await readData(MEMORY_ENTRIES_FILE);
-
-    for (const record of memoryRecords) {
-      const entryIndex = record.entries.findIndex(
-        (entry: MemoryEntry) => entry.id === entryId,
-      );
-      if (entryIndex !== -1) {
-        record.entries[entryIndex] = {
-          ...record.entries[entryIndex],
-          ...updates,
-          updated_at: new Date().toISOString(),
-        };
-        record.updated_at = new Date().toISOString();
-
-        await writeData(MEMORY_ENTRIES_FILE, memoryRecords);
-        return record.entries[entryIndex];
-      }
+    const entry = await this.getMemoryEntryById(entryId);
+    if (!entry) {
+      return null;
     }
 
-    return null;
+    const updatedEntry: MemoryEntry = {
+      ...entry,
+      ...updates,
+      id: entryId,
+      updated_at: new Date().toISOString(),
+    };
+
+    await putRecord(MEMORY_ENTRIES_FILE, updatedEntry);
+    publishChange("memories", "put", updatedEntry.characterId);
+    return updatedEntry;
   }
 
   /**
    * Delete a memory entry
    */
   static async deleteMemoryEntry(entryId: string): Promise<boolean> {
-    const memoryRecords = await readData(MEMORY_ENTRIES_FILE);
-
-    for (const record of memoryRecords) {
-      const entryIndex = record.entries.findIndex(
-        (entry: MemoryEntry) => entry.id === entryId,
-      );
-      if (entryIndex !== -1) {
-        record.entries.splice(entryIndex, 1);
-        record.updated_at = new Date().toISOString();
-
-        await writeData(MEMORY_ENTRIES_FILE, memoryRecords);
-
-        // Also delete embedding if exists
-        await this.deleteEmbedding(entryId);
-
-        return true;
-      }
+    const entry = await this.getMemoryEntryById(entryId);
+    if (!entry) {
+      return false;
     }
 
-    return false;
+    // Also delete embedding if exists
+    await applyBatch([
+      { type: "delete", storeName: MEMORY_ENTRIES_FILE, key: entryId },
+      { type: "delete", storeName: MEMORY_EMBEDDINGS_FILE, key: entryId },
+    ]);
+    publishChange("memories", "delete", entry.characterId);
+
+    return true;
   }
 
   /**
@@ -194,7 +169,10 @@ export class LocalMemoryOperations {
   static async searchMemoriesByText(
     query: MemorySearchQuery,
   ): Promise<MemoryEntry[]> {
-    const entries = await this.getMemoryEntriesByCharacter(query.characterId);
+    const entries = await this.getMemoryEntriesByCharacter(
+      query.characterId,
+      query.dialogueId,
+    );
     const lowerQuery = query.query.toLowerCase();
 
     let filteredEntries = entries.filter((entry: MemoryEntry) => {
@@ -239,8 +217,6 @@ export class LocalMemoryOperations {
     embedding: number[],
     model: string,
   ): Promise<void> {
-    const embeddingRecords = await readData(MEMORY_EMBEDDINGS_FILE);
-
     const embeddingRecord: EmbeddingRecord = {
       id: entryId,
       characterId,
@@ -249,30 +225,16 @@ export class LocalMemoryOperations {
       created_at: new Date().toISOString(),
     };
 
-    // Remove existing embedding if exists
-    const existingIndex = embeddingRecords.findIndex(
-      (record: EmbeddingRecord) => record.id === entryId,
-    );
-
-    if (existingIndex !== -1) {
-      embeddingRecords[existingIndex] = embeddingRecord;
-    } else {
-      embeddingRecords.push(embeddingRecord);
-    }
-
-    await writeData(MEMORY_EMBEDDINGS_FILE, embeddingRecords);
+    // Replaces the existing embedding if there is one
+    await putRecord(MEMORY_EMBEDDINGS_FILE, embeddingRecord);
+    publishChange("memories", "put", characterId);
   }
 
   /**
    * Get embedding for a memory entry
    */
   static async getEmbedding(entryId: string): Promise<EmbeddingRecord | null> {
-    const embeddingRecords = await readData(MEMORY_EMBEDDINGS_FILE);
-    const embedding = embeddingRecords.find(
-      (record: EmbeddingRecord) => record.id === entryId,
-    );
-
-    return embedding || null;
+    return getRecord<EmbeddingRecord>(MEMORY_EMBEDDINGS_FILE, entryId);
   }
 
   /**
@@ -281,9 +243,10 @@ export class LocalMemoryOperations {
   static async getEmbeddingsByCharacter(
     characterId: string,
   ): Promise<EmbeddingRecord[]> {
-    const embeddingRecords = await readData(MEMORY_EMBEDDINGS_FILE);
-    return embeddingRecords.filter(
-      (record: EmbeddingRecord) => record.characterId === characterId,
+    return getRecordsByIndex<EmbeddingRecord>(
+      MEMORY_EMBEDDINGS_FILE,
+      "characterId",
+      characterId,
     );
   }
 
@@ -291,14 +254,11 @@ export class LocalMemoryOperations {
    * Delete embedding
    */
   static async deleteEmbedding(entryId: string): Promise<boolean> {
-    const embeddingRecords = await readData(MEMORY_EMBEDDINGS_FILE);
-    const index = embeddingRecords.findIndex(
-      (record: EmbeddingRecord) => record.id === entryId,
-    );
+    const embedding = await this.getEmbedding(entryId);
 
-    if (index !== -1) {
-      embeddingRecords.splice(index, 1);
-      await writeData(MEMORY_EMBEDDINGS_FILE, embeddingRecords);
+    if (embedding) {
+      await deleteRecord(MEMORY_EMBEDDINGS_FILE, entryId);
+      publishChange("memories", "put", embedding.characterId);
       return true;
     }
 
@@ -367,12 +327,12 @@ export class LocalMemoryOperations {
    * Get RAG configuration for a character
    */
   static async getRAGConfig(characterId: string): Promise<MemoryRAGConfig> {
-    const memoryRecords = await readData(MEMORY_ENTRIES_FILE);
-    const characterRecord = memoryRecords.find(
-      (record: MemoryRecord) => record.characterId === characterId,
+    const configRecord = await getRecord<MemoryConfigRecord>(
+      MEMORY_CONFIGS_FILE,
+      characterId,
     );
 
-    return characterRecord?.config || this.getDefaultRAGConfig();
+    return configRecord?.config || this.getDefaultRAGConfig();
   }
 
   /**
@@ -382,50 +342,49 @@ export class LocalMemoryOperations {
     characterId: string,
     config: Partial<MemoryRAGConfig>,
   ): Promise<MemoryRAGConfig> {
-    const memoryRecords = await readData(MEMORY_ENTRIES_FILE);
-    let characterRecord = memoryRecords.find(
-      (record: MemoryRecord) => record.characterId === characterId,
+    let configRecord = await getRecord<MemoryConfigRecord>(
+      MEMORY_CONFIGS_FILE,
+      characterId,
     );
 
-    if (!characterRecord) {
-      characterRecord = {
-        id: uuidv4(),
+    if (!configRecord) {
+      configRecord = {
         characterId,
-        entries: [],
         config: { ...this.getDefaultRAGConfig(), ...config },
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
       };
-      memoryRecords.push(characterRecord);
     } else {
-      characterRecord.config = { ...characterRecord.config, ...config };
-      characterRecord.updated_at = new Date().toISOString();
+      configRecord.config = { ...configRecord.config, ...config };
+      configRecord.updated_at = new Date().toISOString();
     }
 
-    await writeData(MEMORY_ENTRIES_FILE, memoryRecords);
-    return characterRecord.config;
+    await putRecord(MEMORY_CONFIGS_FILE, configRecord);
+    publishChange("memories", "put", characterId);
+    return configRecord.config;
   }
 
   /**
    * Clear all memories for a character
    */
   static async clearCharacterMemories(characterId: string): Promise<void> {
-    const memoryRecords = await readData(MEMORY_ENTRIES_FILE);
-    const characterRecordIndex = memoryRecords.findIndex(
-      (record: MemoryRecord) => record.characterId === characterId,
-    );
-
-    if (characterRecordIndex !== -1) {
-      memoryRecords.splice(characterRecordIndex, 1);
-      await writeData(MEMORY_ENTRIES_FILE, memoryRecords);
-    }
-
-    // Also clear embeddings
-    const embeddingRecords = await readData(MEMORY_EMBEDDINGS_FILE);
-    const filteredEmbeddings = embeddingRecords.filter(
-      (record: EmbeddingRecord) => record.characterId !== characterId,
-    );
-    await writeData(MEMORY_EMBEDDINGS_FILE, filteredEmbeddings);
+    // Also clear embeddings and the RAG config
+    await applyBatch([
+      {
+        type: "deleteByIndex",
+        storeName: MEMORY_ENTRIES_FILE,
+        indexName: "characterId",
+        value: characterId,
+      },
+      {
+        type: "deleteByIndex",
+        storeName: MEMORY_EMBEDDINGS_FILE,
+        indexName: "characterId",
+        value: characterId,
+      },
+      { type: "delete", storeName: MEMORY_CONFIGS_FILE, key: characterId },
+    ]);
+    publishChange("memories", "delete", characterId);
   }
 
   /**
@@ -0,0 +1,254 @@
+import {
+  getRecord,
+  getAllRecords,
+  applyBatch,
+  StorageOperation,
+  CHARACTER_IMAGES_FILE,
+  PERSONAS_FILE,
+} from "@/lib/data/local-storage";
+import {
+  StaleDataError,
+  commitVersion,
+  forgetVersion,
+  nextVersion,
+  noteVersion,
+  publishChange,
+} from "@/lib/data/change-bus";
+import { Persona, PersonaLockScope } from "@/lib/models/persona-model";
+import {
+  TrashItem,
+  TrashOperations,
+} from "@/lib/data/roleplay/trash-operation";
+import { v4 as uuidv4 } from "uuid";
+
+export type NewPersona = Omit<
+  Persona,
+  "id" | "created_at" | "updated_at" | "version"
+>;
+
+const LOCK_FIELDS: Record<
+  PersonaLockScope,
+  "locked_characters" | "locked_dialogues"
+> = {
+  character: "locked_characters",
+  dialogue: "locked_dialogues",
+};
+
+export class PersonaOperations {
+  static async getPersonas(): Promise<Persona[]> {
+    try {
+      const personas = await getAllRecords<Persona>(PERSONAS_FILE);
+      personas.forEach((persona) => noteVersion("personas", persona.id, persona));
+      return personas.sort((a, b) => a.created_at.localeCompare(b.created_at));
+    } catch (error) {
+      console.error("Error getting personas:", error);
+      return [];
+    }
+  }
+
+  static async getPersona(personaId: string): Promise<Persona | null> {
+    try {
+      const persona = await getRecord<Persona>(PERSONAS_FILE, personaId);
+      noteVersion("personas", personaId, persona);
+      return persona;
+    } catch (error) {
+      console.error("Error getting persona:", error);
+      return null;
+    }
+  }
+
+  static async createPersona(persona: NewPersona): Promise<Persona> {
+    const now = new Date().toISOString();
+    const newPersona: Persona = {
+      ...persona,
+      id: uuidv4(),
+      created_at: now,
+      updated_at: now,
+      version: 1,
+    };
+
+    const operations = newPersona.is_default
+      ? await this.clearOtherDefaults(newPersona.id)
+      : [];
+    operations.push({ type: "put", storeName: PERSONAS_FILE, value: newPersona });
+    await this.applyAndCommit(operations);
+
+    return newPersona;
+  }
+
+  static async updatePersona(
+    personaId: string,
+    updates: Partial<NewPersona>,
+  ): Promise<Persona | null> {
+    try {
+      const persona = await getRecord<Persona>(PERSONAS_FILE, personaId);
+      if (!persona) {
+        return null;
+      }
+
+      const updated: Persona = {
+        ...persona,
+        ...updates,
+        id: personaId,
+        updated_at: new Date().toISOString(),
+        version: nextVersion("personas", personaId, persona),
+      };
+
+      const operations = updates.is_default
+        ? await this.clearOtherDefaults(personaId)
+        : [];
+      operations.push({ type: "put", storeName: PERSONAS_FILE, value: updated });
+      await this.applyAndCommit(operations);
+
+      return updated;
+    } catch (error) {
+      if (error instanceof StaleDataError) {
+        throw error;
+      }
+      console.error("Error updating persona:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Moves a persona and its avatar to the trash
+   */
+  static async deletePersona(personaId: string): Promise<TrashItem | null> {
+    try {
+      const persona = await getRecord<Persona>(PERSONAS_FILE, personaId);
+      if (!persona) {
+        return null;
+      }
+
+      const operations: StorageOperation[] = [
+        { type: "delete", storeName: PERSONAS_FILE, key: personaId },
+      ];
+      if (persona.avatarPath) {
+        operations.push({
+          type: "delete",
+          storeName: CHARACTER_IMAGES_FILE,
+          key: persona.avatarPath,
+        });
+      }
+
+      const trashItem = await TrashOperations.moveToTrash(
+        { kind: "persona", label: persona.name || personaId, ownerId: personaId },
+        operations,
+      );
+      forgetVersion("personas", personaId);
+      publishChange("personas", "delete", personaId);
+
+      return trashItem;
+    } catch (error) {
+      console.error("Error deleting persona:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Makes a persona the default, or clears the default when `personaId` is null
+   */
+  static async setDefaultPersona(personaId: string | null): Promise<void> {
+    const operations = await this.clearOtherDefaults(personaId);
+    if (personaId) {
+      const persona = await getRecord<Persona>(PERSONAS_FILE, personaId);
+      if (!persona) {
+        throw new Error("Persona not found");
+      }
+      operations.push({
+        type: "put",
+        storeName: PERSONAS_FILE,
+        value: this.touch({ ...persona, is_default: true }),
+      });
+    }
+    await this.applyAndCommit(operations);
+  }
+
+  /**
+   * Locks a persona to a character or chat, or unlocks it when `personaId` is
+   * null. A character or chat is locked to at most one persona.
+   */
+  static async setPersonaLock(
+    scope: PersonaLockScope,
+    targetId: string,
+    personaId: string | null,
+  ): Promise<void> {
+    const field = LOCK_FIELDS[scope];
+    const personas = await getAllRecords<Persona>(PERSONAS_FILE);
+    const operations: StorageOperation[] = [];
+
+    for (const persona of personas) {
+      const locks = persona[field] || [];
+      const shouldLock = persona.id === personaId;
+      if (locks.includes(targetId) === shouldLock) {
+        continue;
+      }
+      operations.push({
+        type: "put",
+        storeName: PERSONAS_FILE,
+        value: this.touch({
+          ...persona,
+          [field]: shouldLock
+            ? [...locks, targetId]
+            : locks.filter((id) => id !== targetId),
+        }),
+      });
+    }
+
+    await this.applyAndCommit(operations);
+  }
+
+  /**
+   * The persona to use in a chat: the one locked to the chat, then the one
+   * locked to the character, then the default
+   */
+  static async resolvePersona(
+    characterId: string,
+    dialogueId: string = characterId,
+  ): Promise<Persona | null> {
+    const personas = await this.getPersonas();
+    return (
+      personas.find((persona) => persona.locked_dialogues?.includes(dialogueId)) ||
+      personas.find((persona) =>
+        persona.locked_characters?.includes(characterId),
+      ) ||
+      personas.find((persona) => persona.is_default) ||
+      null
+    );
+  }
+
+  private static async clearOtherDefaults(
+    personaId: string | null,
+  ): Promise<StorageOperation[]> {
+    const personas = await getAllRecords<Persona>(PERSONAS_FILE);
+    return personas
+      .filter((persona) => persona.is_default && persona.id !== personaId)
+      .map((persona): StorageOperation => ({
+        type: "put",
+        storeName: PERSONAS_FILE,
+        value: this.touch({ ...persona, is_default: false }),
+      }));
+  }
+
+  private static touch(persona: Persona): Persona {
+    return {
+      ...persona,
+      updated_at: new Date().toISOString(),
+      version: (persona.version || 0) + 1,
+    };
+  }
+
+  private static async applyAndCommit(
+    operations: StorageOperation[],
+  ): Promise<void> {
+    if (operations.length === 0) {
+      return;
+    }
+    await applyBatch(operations);
+    for (const operation of operations) {
+      if (operation.type === "put") {
+        commitVersion("personas", operation.value.id, operation.value.version);
+      }
+    }
+  }
+}
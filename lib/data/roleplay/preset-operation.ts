@@ -1,26 +1,31 @@
-import { readData, writeData, PRESET_FILE } from "@/lib/data/local-storage";
+import {
+  getRecord,
+  getAllRecords,
+  putRecord,
+  applyBatch,
+  StorageOperation,
+  PRESET_FILE,
+} from "@/lib/data/local-storage";
+import {
+  StaleDataError,
+  commitVersion,
+  forgetVersion,
+  nextVersion,
+  noteVersion,
+  publishChange,
+} from "@/lib/data/change-bus";
 import { Preset, PresetPrompt } from "@/lib/models/preset-model";
+import {
+  TrashItem,
+  TrashOperations,
+} from "@/lib/data/roleplay/trash-operation";
 
 export class PresetOperations {
-  static async getPresets(): Promise<Record<string, any>> {
-    const presetsArray = await readData(PRESET_FILE);
-    return presetsArray[0] || {};
-  }
-
-  private static async savePresets(
-    presets: Record<string, any>,
-  ): Promise<void> {
-    await writeData(PRESET_FILE, [presets]);
-  }
-
   static async getAllPresets(): Promise<Preset[]> {
     try {
-      const presets = await this.getPresets();
-      const presetList = Object.entries(presets)
-        .filter(([key]) => !key.endsWith("_settings"))
-        .map(([_, value]) => value as Preset);
-
-      return presetList;
+      const presets = await getAllRecords<Preset>(PRESET_FILE);
+      presets.forEach((preset) => noteVersion("presets", preset.id!, preset));
+      return presets;
     } catch (error) {
       console.error("Error getting presets:", error);
       return [];
@@ -29,8 +34,9 @@ export class PresetOperations {
 
   static async getPreset(presetId: string): Promise<Preset | null> {
     try {
-      const presets = await this.getPresets();
-      return (presets[presetId] as Preset) || null;
+      const preset = await getRecord<Preset>(PRESET_FILE, presetId);
+      noteVersion("presets", presetId, preset);
+      return preset;
     } catch (error) {
       console.error("Error getting preset:", error);
       return null;
@@ -39,7 +45,6 @@ export class PresetOperations {
 
   static async createPreset(preset: Preset): Promise<string | null> {
     try {
-      const presets = await this.getPresets();
       const presetId = `preset_${Date.now()}`;
 
       const newPresetIsActive = preset.enabled !== false;
@@ -50,24 +55,41 @@ export class PresetOperations {
         enabled: newPresetIsActive,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
+        version: 1,
       };
 
+      const operations: StorageOperation[] = [];
+      const disabledPresets: Preset[] = [];
       if (newPresetIsActive) {
-        for (const existingPresetId in presets) {
+        const existingPresets = await getAllRecords<Preset>(PRESET_FILE);
+        for (const existingPreset of existingPresets) {
           if (
-            presets.hasOwnProperty(existingPresetId) &&
-            existingPresetId !== presetId
+            existingPreset.id !== presetId &&
+            existingPreset.enabled !== false
           ) {
-            if (presets[existingPresetId].enabled !== false) {
-              presets[existingPresetId].enabled = false;
-              presets[existingPresetId].updated_at = new Date().toISOString();
-            }
+            const disabledPreset = {
+              ...existingPreset,
+              enabled: false,
+              updated_at: new Date().toISOString(),
+              version: (existingPreset.version || 0) + 1,
+            };
+            disabledPresets.push(disabledPreset);
+            operations.push({
+              type: "put",
+              storeName: PRESET_FILE,
+              value: disabledPreset,
+            });
           }
         }
       }
 
-      presets[presetId] = newPreset;
-      await this.savePresets(presets);
+      operations.push({ type: "put", storeName: PRESET_FILE, value: newPreset });
+      await applyBatch(operations);
+
+      disabledPresets.forEach((disabledPreset) =>
+        commitVersion("presets", disabledPreset.id!, disabledPreset.version!),
+      );
+      commitVersion("presets", presetId, 1);
 
       return presetId;
     } catch (error) {
@@ -81,41 +103,50 @@ export class PresetOperations {
     updates: Partial<Preset>,
   ): Promise<boolean> {
     try {
-      const presets = await this.getPresets();
+      const preset = await getRecord<Preset>(PRESET_FILE, presetId);
 
-      if (!presets[presetId]) {
+      if (!preset) {
         return false;
       }
 
-      presets[presetId] = {
-        ...presets[presetId],
+      const version = nextVersion("presets", presetId, preset);
+      await putRecord(PRESET_FILE, {
+        ...preset,
         ...updates,
+        id: presetId,
         updated_at: new Date().toISOString(),
-      };
-
-      await this.savePresets(presets);
+        version,
+      });
+      commitVersion("presets", presetId, version);
       return true;
     } catch (error) {
+      if (error instanceof StaleDataError) {
+        throw error;
+      }
       console.error("Error updating preset:", error);
       return false;
     }
   }
 
-  static async deletePreset(presetId: string): Promise<boolean> {
+  static async deletePreset(presetId: string): Promise<TrashItem | null> {
     try {
-      const presets = await this.getPresets();
+      const preset = await getRecord<Preset>(PRESET_FILE, presetId);
 
-      if (!presets[presetId]) {
-        return false;
+      if (!preset) {
+        return null;
       }
 
-      delete presets[presetId];
-      await this.savePresets(presets);
+      const trashItem = await TrashOperations.moveToTrash(
+        { kind: "preset", label: preset.name || presetId, ownerId: presetId },
+        [{ type: "delete", storeName: PRESET_FILE, key: presetId }],
+      );
+      forgetVersion("presets", presetId);
+      publishChange("presets", "delete", presetId);
 
-      return true;
+      return trashItem;
     } catch (error) {
       console.error("Error deleting preset:", error);
-      return false;
+      return null;
     }
   }
 
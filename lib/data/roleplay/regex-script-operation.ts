@@ -1,9 +1,22 @@
 import {
-  readData,
-  writeData,
+  getRecord,
+  getAllRecords,
+  putRecord,
   REGEX_SCRIPTS_FILE,
 } from "@/lib/data/local-storage";
+import {
+  VersionedRecord,
+  commitVersion,
+  forgetVersion,
+  nextVersion,
+  noteVersion,
+  publishChange,
+} from "@/lib/data/change-bus";
 import { RegexScript } from "@/lib/models/regex-script-model";
+import {
+  TrashItem,
+  TrashOperations,
+} from "@/lib/data/roleplay/trash-operation";
 
 export interface RegexScriptSettings {
   enabled: boolean;
@@ -12,6 +25,16 @@ export interface RegexScriptSettings {
   metadata?: any;
 }
 
+/**
+ * One record per owner (a character id, "global" or a "global_regex_*" id)
+ * holding both the scripts and the owner's settings.
+ */
+export interface RegexScriptRecord extends VersionedRecord {
+  id: string;
+  scripts?: Record<string, RegexScript>;
+  settings?: RegexScriptSettings;
+}
+
 const DEFAULT_SETTINGS: RegexScriptSettings = {
   enabled: true,
   applyToPrompt: false,
@@ -19,21 +42,40 @@ const DEFAULT_SETTINGS: RegexScriptSettings = {
 };
 
 export class RegexScriptOperations {
-  private static async getRegexScriptStore(): Promise<Record<string, any>> {
+  static async getRegexScriptRecords(): Promise<RegexScriptRecord[]> {
+    try {
+      return await getAllRecords<RegexScriptRecord>(REGEX_SCRIPTS_FILE);
+    } catch (error) {
+      console.error("Error reading regex scripts:", error);
+      return [];
+    }
+  }
+
+  private static async getRegexScriptRecord(
+    ownerId: string,
+  ): Promise<RegexScriptRecord> {
     try {
-      const scriptsArray = await readData(REGEX_SCRIPTS_FILE);
-      return scriptsArray[0] || {};
+      const record = await getRecord<RegexScriptRecord>(
+        REGEX_SCRIPTS_FILE,
+        ownerId,
+      );
+      return record || { id: ownerId };
     } catch (error) {
       console.error("Error reading regex scripts:", error);
-      return {};
+      return { id: ownerId };
     }
   }
 
-  private static async saveRegexScriptStore(
-    store: Record<string, any>,
+  /**
+   * Saves a record read by getRegexScriptRecord within the same operation.
+   */
+  private static async saveRegexScriptRecord(
+    record: RegexScriptRecord,
   ): Promise<boolean> {
+    const version = nextVersion("regexScripts", record.id, record);
     try {
-      await writeData(REGEX_SCRIPTS_FILE, [store]);
+      await putRecord(REGEX_SCRIPTS_FILE, { ...record, version });
+      commitVersion("regexScripts", record.id, version);
       return true;
     } catch (error) {
       console.error("Error saving regex scripts:", error);
@@ -45,8 +87,9 @@ export class RegexScriptOperations {
     ownerId: string,
   ): Promise<Record<string, RegexScript> | null> {
     try {
-      const store = await this.getRegexScriptStore();
-      return (store[ownerId] as Record<string, RegexScript>) || null;
+      const record = await this.getRegexScriptRecord(ownerId);
+      noteVersion("regexScripts", ownerId, record);
+      return record.scripts || null;
     } catch (error) {
       console.error("Error getting regex scripts:", error);
       return null;
@@ -91,31 +134,72 @@ export class RegexScriptOperations {
   static async deleteRegexScript(
     ownerId: string,
     scriptId: string,
-  ): Promise<boolean> {
-    const scripts = await this.getRegexScripts(ownerId);
+  ): Promise<TrashItem | null> {
+    const record = await this.getRegexScriptRecord(ownerId);
+    const script = record.scripts?.[scriptId];
 
-    if (!scripts || !scripts[scriptId]) {
-      return false;
+    if (!script) {
+      return null;
     }
 
+    const scripts = { ...record.scripts };
     delete scripts[scriptId];
-    return this.updateOwnerScripts(ownerId, scripts);
+    const version = nextVersion("regexScripts", ownerId, record);
+    const trashItem = await TrashOperations.moveToTrash(
+      {
+        kind: "regexScript",
+        label: script.scriptName || scriptId,
+        ownerId,
+        entry: {
+          storeName: REGEX_SCRIPTS_FILE,
+          ownerId,
+          field: "scripts",
+          key: scriptId,
+          value: script,
+        },
+      },
+      [
+        {
+          type: "put",
+          storeName: REGEX_SCRIPTS_FILE,
+          value: { ...record, scripts, version },
+        },
+      ],
+    );
+    commitVersion("regexScripts", ownerId, version);
+
+    return trashItem;
   }
 
   private static async updateOwnerScripts(
     ownerId: string,
     scripts: Record<string, RegexScript>,
   ): Promise<boolean> {
-    const store = await this.getRegexScriptStore();
-    store[ownerId] = scripts;
-    return this.saveRegexScriptStore(store);
+    const record = await this.getRegexScriptRecord(ownerId);
+    return this.saveRegexScriptRecord({ ...record, scripts });
+  }
+
+  /**
+   * Moves a whole owner record (scripts and settings) to the trash.
+   */
+  static async deleteOwnerScripts(
+    ownerId: string,
+    label: string = ownerId,
+  ): Promise<TrashItem> {
+    const trashItem = await TrashOperations.moveToTrash(
+      { kind: "globalRegexScript", label, ownerId },
+      [{ type: "delete", storeName: REGEX_SCRIPTS_FILE, key: ownerId }],
+    );
+    forgetVersion("regexScripts", ownerId);
+    publishChange("regexScripts", "delete", ownerId);
+    return trashItem;
   }
 
   static async updateRegexScripts(
     ownerId: string,
     regexScripts: Record<string, RegexScript> | RegexScript[],
   ): Promise<boolean> {
-    const scriptStore = await this.getRegexScriptStore();
+    const record = await this.getRegexScriptRecord(ownerId);
 
     const processScript = (script: RegexScript): RegexScript => {
       return {
@@ -155,16 +239,16 @@ export class RegexScriptOperations {
             .filter(([_, script]) => script !== null),
         );
 
-    scriptStore[ownerId] = scripts;
-    await this.saveRegexScriptStore(scriptStore);
+    await this.saveRegexScriptRecord({ ...record, scripts });
     return true;
   }
 
   static async getRegexScriptSettings(
     ownerId: string,
   ): Promise<RegexScriptSettings> {
-    const store = await this.getRegexScriptStore();
-    const settings = store[`${ownerId}_settings`] as RegexScriptSettings;
+    const record = await this.getRegexScriptRecord(ownerId);
+    const { settings } = record;
+    noteVersion("regexScripts", ownerId, record);
 
     if (!settings) {
       return { ...DEFAULT_SETTINGS };
@@ -180,24 +264,32 @@ export class RegexScriptOperations {
     ownerId: string,
     updates: Partial<RegexScriptSettings>,
   ): Promise<RegexScriptSettings> {
-    const store = await this.getRegexScriptStore();
-    const currentSettings = await this.getRegexScriptSettings(ownerId);
-    const newSettings = { ...currentSettings, ...updates };
+    const record = await this.getRegexScriptRecord(ownerId);
+    const newSettings = { ...DEFAULT_SETTINGS, ...record.settings, ...updates };
 
-    store[`${ownerId}_settings`] = newSettings;
-    await this.saveRegexScriptStore(store);
+    await this.saveRegexScriptRecord({ ...record, settings: newSettings });
 
     return newSettings;
   }
 
   static async getAllScriptsForProcessing(
     ownerId: string,
+    extraOwnerIds: string[] = [],
   ): Promise<RegexScript[]> {
     const ownerScripts = (await this.getRegexScripts(ownerId)) || {};
+    const extraScripts: RegexScript[] = [];
+    for (const extraOwnerId of extraOwnerIds) {
+      if (extraOwnerId === ownerId || extraOwnerId === "global") {
+        continue;
+      }
+      const scripts = (await this.getRegexScripts(extraOwnerId)) || {};
+      extraScripts.push(...Object.values(scripts));
+    }
     const globalScripts = (await this.getRegexScripts("global")) || {};
 
     const allScripts: RegexScript[] = [
       ...Object.values(ownerScripts),
+      ...extraScripts,
       ...Object.values(globalScripts),
     ];
 
@@ -0,0 +1,398 @@
+import {
+  getRecord,
+  getAllRecords,
+  getRecordsByIndex,
+  getRecordKey,
+  deleteRecord,
+  applyBatch,
+  clearStore,
+  blobToBase64,
+  base64ToBlob,
+  getBlob,
+  setBlob,
+  BackupImage,
+  StorageOperation,
+  CHARACTERS_RECORD_FILE,
+  CHARACTER_DIALOGUES_FILE,
+  CHARACTER_IMAGES_FILE,
+  COLLECTIONS_FILE,
+  DIALOGUE_NODES_FILE,
+  GROUPS_FILE,
+  MEMORY_CONFIGS_FILE,
+  MEMORY_EMBEDDINGS_FILE,
+  MEMORY_ENTRIES_FILE,
+  PERSONAS_FILE,
+  PRESET_FILE,
+  REGEX_SCRIPTS_FILE,
+  TRASH_FILE,
+  WORLD_BOOK_FILE,
+} from "@/lib/data/local-storage";
+import {
+  DataEntity,
+  commitVersion,
+  publishChange,
+} from "@/lib/data/change-bus";
+import { Preset, PresetPrompt } from "@/lib/models/preset-model";
+import { v4 as uuidv4 } from "uuid";
+
+export type TrashItemKind =
+  | "character"
+  | "dialogue"
+  | "dialogueNodes"
+  | "worldBookEntry"
+  | "regexScript"
+  | "preset"
+  | "persona"
+  | "group"
+  | "collection"
+  | "globalWorldBook"
+  | "globalRegexScript";
+
+export interface TrashedRecord {
+  storeName: string;
+  value: any;
+}
+
+/**
+ * An entry removed from an owner record that still exists (a world book entry
+ * or a regex script). It is merged back into the owner on restore.
+ */
+export interface TrashedEntry {
+  storeName: typeof WORLD_BOOK_FILE | typeof REGEX_SCRIPTS_FILE;
+  ownerId: string;
+  field: "entries" | "scripts";
+  key: string;
+  value: any;
+}
+
+export interface TrashedPresetPrompts {
+  presetId: string;
+  prompts: PresetPrompt[];
+}
+
+export interface TrashItem {
+  id: string;
+  kind: TrashItemKind;
+  label: string;
+  /** Character, dialogue or owner the item belonged to */
+  ownerId?: string;
+  deleted_at: string;
+  records: TrashedRecord[];
+  images: BackupImage[];
+  entry?: TrashedEntry;
+  presetPrompts?: TrashedPresetPrompts[];
+}
+
+export type NewTrashItem = Pick<TrashItem, "kind" | "label" | "ownerId"> &
+  Partial<Pick<TrashItem, "entry">>;
+
+export class TrashRestoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TrashRestoreError";
+  }
+}
+
+export const TRASH_RETENTION_KEY = "trashRetentionDays";
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const STORE_ENTITIES: Record<string, DataEntity> = {
+  [CHARACTERS_RECORD_FILE]: "characters",
+  [CHARACTER_DIALOGUES_FILE]: "dialogues",
+  [DIALOGUE_NODES_FILE]: "dialogues",
+  [WORLD_BOOK_FILE]: "worldBooks",
+  [REGEX_SCRIPTS_FILE]: "regexScripts",
+  [PRESET_FILE]: "presets",
+  [PERSONAS_FILE]: "personas",
+  [GROUPS_FILE]: "groups",
+  [COLLECTIONS_FILE]: "collections",
+  [MEMORY_ENTRIES_FILE]: "memories",
+  [MEMORY_EMBEDDINGS_FILE]: "memories",
+  [MEMORY_CONFIGS_FILE]: "memories",
+};
+
+const VERSIONED_STORES = new Set([
+  CHARACTERS_RECORD_FILE,
+  CHARACTER_DIALOGUES_FILE,
+  WORLD_BOOK_FILE,
+  REGEX_SCRIPTS_FILE,
+  PRESET_FILE,
+  PERSONAS_FILE,
+  GROUPS_FILE,
+  COLLECTIONS_FILE,
+]);
+
+export function getTrashRetentionDays(): number {
+  const saved = Number(localStorage.getItem(TRASH_RETENTION_KEY));
+  return Number.isFinite(saved) && saved > 0
+    ? saved
+    : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+export function setTrashRetentionDays(days: number): void {
+  localStorage.setItem(TRASH_RETENTION_KEY, String(Math.max(1, Math.round(days))));
+}
+
+export class TrashOperations {
+  /**
+   * Deletes data by applying `operations` and keeps what they remove in one
+   * trash item. Both happen in the same transaction.
+   */
+  static async moveToTrash(
+    item: NewTrashItem,
+    operations: StorageOperation[],
+  ): Promise<TrashItem> {
+    const trashItem: TrashItem = {
+      ...item,
+      id: uuidv4(),
+      deleted_at: new Date().toISOString(),
+      records: [],
+      images: [],
+    };
+    await this.collectRemovedData(trashItem, operations);
+
+    await applyBatch([
+      ...operations,
+      { type: "put", storeName: TRASH_FILE, value: trashItem },
+    ]);
+    publishChange("trash", "put", trashItem.id);
+
+    return trashItem;
+  }
+
+  static async getTrashItems(): Promise<TrashItem[]> {
+    const items = await getAllRecords<TrashItem>(TRASH_FILE);
+    return items.sort((a, b) => b.deleted_at.localeCompare(a.deleted_at));
+  }
+
+  static async getTrashItem(itemId: string): Promise<TrashItem | null> {
+    return getRecord<TrashItem>(TRASH_FILE, itemId);
+  }
+
+  /**
+   * Puts a trashed item back. Whole records are only restored when nothing
+   * has taken their key since; entries are merged into their owner.
+   */
+  static async restore(itemId: string): Promise<TrashItem> {
+    const item = await this.getTrashItem(itemId);
+    if (!item) {
+      throw new TrashRestoreError("Item is no longer in the trash");
+    }
+
+    if (
+      item.kind === "dialogue" &&
+      item.ownerId &&
+      !(await getRecord(CHARACTERS_RECORD_FILE, item.ownerId))
+    ) {
+      throw new TrashRestoreError("The character no longer exists");
+    }
+
+    const operations: StorageOperation[] = [];
+
+    for (const record of item.records) {
+      if (item.kind === "dialogueNodes") {
+        const tree = await getRecord(
+          CHARACTER_DIALOGUES_FILE,
+          record.value.dialogueId,
+        );
+        if (!tree) {
+          throw new TrashRestoreError("The dialogue no longer exists");
+        }
+      } else {
+        const key = getRecordKey(record.storeName, record.value);
+        if (await getRecord(record.storeName, key)) {
+          throw new TrashRestoreError(`"${item.label}" already exists`);
+        }
+      }
+      operations.push({
+        type: "put",
+        storeName: record.storeName,
+        value: record.value,
+      });
+    }
+
+    if (item.entry) {
+      operations.push(await this.getEntryRestoreOperation(item.entry));
+    }
+
+    for (const group of item.presetPrompts || []) {
+      const preset = await getRecord<Preset>(PRESET_FILE, group.presetId);
+      if (preset) {
+        operations.push({
+          type: "put",
+          storeName: PRESET_FILE,
+          value: {
+            ...preset,
+            prompts: [...(preset.prompts || []), ...group.prompts],
+            version: (preset.version || 0) + 1,
+          },
+        });
+      }
+    }
+
+    operations.push({ type: "delete", storeName: TRASH_FILE, key: itemId });
+    await applyBatch(operations);
+
+    for (const image of item.images) {
+      await setBlob(image.key, await base64ToBlob(image.data));
+    }
+
+    this.publishRestored(item, operations);
+    return item;
+  }
+
+  static async deleteForever(itemId: string): Promise<void> {
+    await deleteRecord(TRASH_FILE, itemId);
+    publishChange("trash", "delete", itemId);
+  }
+
+  static async emptyTrash(): Promise<void> {
+    await clearStore(TRASH_FILE);
+    publishChange("trash", "reset");
+  }
+
+  /**
+   * Drops items older than the retention period. Returns how many went.
+   */
+  static async purgeExpired(
+    retentionDays: number = getTrashRetentionDays(),
+  ): Promise<number> {
+    const cutoff = new Date(Date.now() - retentionDays * DAY_MS).toISOString();
+    const expired = (await getAllRecords<TrashItem>(TRASH_FILE)).filter(
+      (item) => item.deleted_at < cutoff,
+    );
+
+    await applyBatch(
+      expired.map(
+        (item): StorageOperation => ({
+          type: "delete",
+          storeName: TRASH_FILE,
+          key: item.id,
+        }),
+      ),
+    );
+    if (expired.length > 0) {
+      publishChange("trash", "reset");
+    }
+    return expired.length;
+  }
+
+  /**
+   * Reads everything the delete operations are about to remove.
+   */
+  private static async collectRemovedData(
+    item: TrashItem,
+    operations: StorageOperation[],
+  ): Promise<void> {
+    for (const operation of operations) {
+      if (operation.type === "delete") {
+        if (operation.storeName === CHARACTER_IMAGES_FILE) {
+          const blob = await getBlob(String(operation.key));
+          if (blob) {
+            item.images.push({
+              key: String(operation.key),
+              data: await blobToBase64(blob),
+            });
+          }
+          continue;
+        }
+
+        const value = await getRecord(operation.storeName, operation.key);
+        if (value) {
+          item.records.push({ storeName: operation.storeName, value });
+        }
+      } else if (operation.type === "deleteByIndex") {
+        const values = await getRecordsByIndex(
+          operation.storeName,
+          operation.indexName,
+          operation.value,
+        );
+        values.forEach((value) =>
+          item.records.push({ storeName: operation.storeName, value }),
+        );
+      } else if (
+        operation.type === "put" &&
+        operation.storeName === PRESET_FILE
+      ) {
+        // Prompts dropped from a preset that stays, e.g. a character's prompt group
+        const preset = await getRecord<Preset>(PRESET_FILE, operation.value.id);
+        const kept: PresetPrompt[] = operation.value.prompts || [];
+        const removed = (preset?.prompts || []).filter(
+          (prompt) =>
+            !kept.some(
+              (keptPrompt) =>
+                keptPrompt.identifier === prompt.identifier &&
+                String(keptPrompt.group_id) === String(prompt.group_id),
+            ),
+        );
+        if (removed.length > 0) {
+          item.presetPrompts = [
+            ...(item.presetPrompts || []),
+            { presetId: operation.value.id, prompts: removed },
+          ];
+        }
+      }
+    }
+  }
+
+  private static async getEntryRestoreOperation(
+    entry: TrashedEntry,
+  ): Promise<StorageOperation> {
+    const owner = (await getRecord<any>(entry.storeName, entry.ownerId)) || {
+      id: entry.ownerId,
+    };
+    const entries = { ...(owner[entry.field] || {}) };
+
+    let key = entry.key;
+    while (entries[key]) {
+      key = `${entry.key}_${uuidv4().slice(0, 4)}`;
+    }
+    entries[key] =
+      entry.field === "scripts" ? { ...entry.value, id: key } : entry.value;
+
+    return {
+      type: "put",
+      storeName: entry.storeName,
+      value: {
+        ...owner,
+        [entry.field]: entries,
+        version: (owner.version || 0) + 1,
+      },
+    };
+  }
+
+  private static publishRestored(
+    item: TrashItem,
+    operations: StorageOperation[],
+  ): void {
+    const changed = new Map<DataEntity, Set<string | undefined>>();
+    for (const operation of operations) {
+      const entity = STORE_ENTITIES[operation.storeName];
+      if (!entity || operation.type !== "put") {
+        continue;
+      }
+
+      if (
+        VERSIONED_STORES.has(operation.storeName) &&
+        typeof operation.value.version === "number"
+      ) {
+        // Restored records become the version this tab has seen
+        commitVersion(entity, operation.value.id, operation.value.version);
+      } else {
+        const id =
+          operation.value.character_id ??
+          operation.value.characterId ??
+          operation.value.dialogueId ??
+          operation.value.id;
+        changed.set(entity, (changed.get(entity) || new Set()).add(id));
+      }
+    }
+
+    changed.forEach((ids, entity) =>
+      ids.forEach((id) => publishChange(entity, "put", id)),
+    );
+    publishChange("trash", "delete", item.id);
+  }
+}
@@ -1,13 +1,46 @@
-import { readData, writeData, WORLD_BOOK_FILE } from "@/lib/data/local-storage";
+import {
+  getRecord,
+  getAllRecords,
+  putRecord,
+  WORLD_BOOK_FILE,
+} from "@/lib/data/local-storage";
+import {
+  VersionedRecord,
+  commitVersion,
+  forgetVersion,
+  nextVersion,
+  noteVersion,
+  publishChange,
+} from "@/lib/data/change-bus";
 import { WorldBookEntry } from "@/lib/models/world-book-model";
+import {
+  TrashItem,
+  TrashOperations,
+} from "@/lib/data/roleplay/trash-operation";
 
 export interface WorldBookSettings {
   enabled: boolean;
   maxEntries: number;
   contextWindow: number;
+  /** Messages scanned for keys; unset follows the card's lorebook */
+  scanDepth?: number;
+  /** Estimated tokens activated entries may take, 0 for no limit; unset follows the card's lorebook */
+  tokenBudget?: number;
+  /** Unset follows the card's lorebook */
+  recursiveScanning?: boolean;
   metadata?: any;
 }
 
+/**
+ * One record per owner (a character id or a "global_*" id) holding both the
+ * entries and the owner's settings.
+ */
+export interface WorldBookRecord extends VersionedRecord {
+  id: string;
+  entries?: Record<string, WorldBookEntry>;
+  settings?: WorldBookSettings;
+}
+
 const DEFAULT_SETTINGS: WorldBookSettings = {
   enabled: true,
   maxEntries: 5,
@@ -15,25 +48,38 @@ const DEFAULT_SETTINGS: WorldBookSettings = {
 };
 
 export class WorldBookOperations {
-  static async getWorldBooks(): Promise<Record<string, any>> {
-    const worldBooksArray = await readData(WORLD_BOOK_FILE);
-    return worldBooksArray[0] || {};
+  static async getWorldBookRecords(): Promise<WorldBookRecord[]> {
+    return getAllRecords<WorldBookRecord>(WORLD_BOOK_FILE);
+  }
+
+  private static async getWorldBookRecord(
+    ownerId: string,
+  ): Promise<WorldBookRecord> {
+    const record = await getRecord<WorldBookRecord>(WORLD_BOOK_FILE, ownerId);
+    return record || { id: ownerId };
   }
 
-  private static async saveWorldBooks(
-    worldBooks: Record<string, any>,
+  /**
+   * Saves a record read by getWorldBookRecord within the same operation.
+   */
+  private static async saveWorldBookRecord(
+    record: WorldBookRecord,
   ): Promise<void> {
-    await writeData(WORLD_BOOK_FILE, [worldBooks]);
+    const version = nextVersion("worldBooks", record.id, record);
+    await putRecord(WORLD_BOOK_FILE, { ...record, version });
+    commitVersion("worldBooks", record.id, version);
   }
 
   static async getWorldBook(
     characterId: string,
   ): Promise<Record<string, WorldBookEntry> | null> {
     try {
-      const worldBooks = await this.getWorldBooks();
-      return (
-        (worldBooks[characterId] as Record<string, WorldBookEntry>) || null
+      const record = await getRecord<WorldBookRecord>(
+        WORLD_BOOK_FILE,
+        characterId,
       );
+      noteVersion("worldBooks", characterId, record);
+      return record?.entries || null;
     } catch (error) {
       console.error("Error getting world book:", error);
       return null;
@@ -44,7 +90,7 @@ export class WorldBookOperations {
     characterId: string,
     worldBook: Record<string, WorldBookEntry> | WorldBookEntry[],
   ): Promise<boolean> {
-    const worldBooks = await this.getWorldBooks();
+    const record = await this.getWorldBookRecord(characterId);
 
     const processEntry = (entry: WorldBookEntry): WorldBookEntry => {
       return {
@@ -72,8 +118,7 @@ export class WorldBookOperations {
           }),
         );
 
-    worldBooks[characterId] = entries;
-    await this.saveWorldBooks(worldBooks);
+    await this.saveWorldBookRecord({ ...record, entries });
     return true;
   }
 
@@ -111,25 +156,49 @@ export class WorldBookOperations {
   static async deleteWorldBookEntry(
     characterId: string,
     entryId: string,
-  ): Promise<boolean> {
-    const worldBook = await this.getWorldBook(characterId);
+  ): Promise<TrashItem | null> {
+    const record = await this.getWorldBookRecord(characterId);
+    const entry = record.entries?.[entryId];
 
-    if (!worldBook || !worldBook[entryId]) {
-      return false;
+    if (!entry) {
+      return null;
     }
 
-    delete worldBook[entryId];
-
-    return this.updateWorldBook(characterId, worldBook);
+    const entries = { ...record.entries };
+    delete entries[entryId];
+    const version = nextVersion("worldBooks", characterId, record);
+    const trashItem = await TrashOperations.moveToTrash(
+      {
+        kind: "worldBookEntry",
+        label: entry.comment || entry.keys?.join(", ") || entryId,
+        ownerId: characterId,
+        entry: {
+          storeName: WORLD_BOOK_FILE,
+          ownerId: characterId,
+          field: "entries",
+          key: entryId,
+          value: entry,
+        },
+      },
+      [
+        {
+          type: "put",
+          storeName: WORLD_BOOK_FILE,
+          value: { ...record, entries, version },
+        },
+      ],
+    );
+    commitVersion("worldBooks", characterId, version);
+
+    return trashItem;
   }
 
   static async getWorldBookSettings(
     characterId: string,
   ): Promise<WorldBookSettings> {
-    const worldBooks = await this.getWorldBooks();
-    const settings = worldBooks[
-      `${characterId}_settings`
-    ] as unknown as WorldBookSettings;
+    const record = await this.getWorldBookRecord(characterId);
+    const { settings } = record;
+    noteVersion("worldBooks", characterId, record);
 
     if (!settings) {
       return { ...DEFAULT_SETTINGS };
@@ -145,13 +214,28 @@ export class WorldBookOperations {
     characterId: string,
     updates: Partial<WorldBookSettings>,
   ): Promise<WorldBookSettings> {
-    const worldBooks = await this.getWorldBooks();
-    const currentSettings = await this.getWorldBookSettings(characterId);
-    const newSettings = { ...currentSettings, ...updates };
+    const record = await this.getWorldBookRecord(characterId);
+    const newSettings = { ...DEFAULT_SETTINGS, ...record.settings, ...updates };
 
-    worldBooks[`${characterId}_settings`] = newSettings;
-    await this.saveWorldBooks(worldBooks);
+    await this.saveWorldBookRecord({ ...record, settings: newSettings });
 
     return newSettings;
   }
+
+  /**
+   * Moves a whole owner record (entries and settings) to the trash.
+   */
+  static async deleteWorldBook(
+    ownerId: string,
+    label: string = ownerId,
+  ): Promise<TrashItem> {
+    const trashItem = await TrashOperations.moveToTrash(
+      { kind: "globalWorldBook", label, ownerId },
+      [{ type: "delete", storeName: WORLD_BOOK_FILE, key: ownerId }],
+    );
+    forgetVersion("worldBooks", ownerId);
+    publishChange("worldBooks", "delete", ownerId);
+    return trashItem;
+  }
+
 }
@@ -0,0 +1,238 @@
+import {
+  CHARACTERS_RECORD_FILE,
+  CHARACTER_DIALOGUES_FILE,
+  CHARACTER_IMAGES_FILE,
+  DIALOGUE_NODES_FILE,
+  MEMORY_EMBEDDINGS_FILE,
+  MEMORY_ENTRIES_FILE,
+  PERSONAS_FILE,
+  STORE_SCHEMAS,
+  StorageOperation,
+  applyBatch,
+  getAllKeys,
+  getAllRecords,
+  getBlob,
+  getRecordKey,
+} from "@/lib/data/local-storage";
+import {
+  getCharacterImageKeys,
+  getRecordOwner,
+} from "@/lib/data/character-ownership";
+import { Persona } from "@/lib/models/persona-model";
+
+export type OrphanReason =
+  | "missingCharacter"
+  | "missingDialogue"
+  | "missingMemory"
+  | "unreferencedImage";
+
+export interface OrphanRecord {
+  storeName: string;
+  key: IDBValidKey;
+  /** Character or dialogue the record points at */
+  ownerId?: string;
+  reason: OrphanReason;
+  size: number;
+}
+
+export interface StoreUsage {
+  storeName: string;
+  count: number;
+  size: number;
+}
+
+export interface CharacterUsage {
+  characterId: string;
+  name: string;
+  size: number;
+  stores: Record<string, number>;
+}
+
+export interface StorageReport {
+  stores: StoreUsage[];
+  characters: CharacterUsage[];
+  orphans: OrphanRecord[];
+  orphanSize: number;
+  /** What the browser reports for the whole origin, when available */
+  estimate: { usage: number; quota: number } | null;
+  scanned_at: string;
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Approximate size of a stored record. IndexedDB keeps structured clones,
+ * so the serialized JSON is close enough for comparing records and owners.
+ */
+function recordSize(record: unknown): number {
+  try {
+    return encoder.encode(JSON.stringify(record) ?? "").length;
+  } catch {
+    return 0;
+  }
+}
+
+async function getStorageEstimate(): Promise<StorageReport["estimate"]> {
+  if (typeof navigator === "undefined" || !navigator.storage?.estimate) {
+    return null;
+  }
+
+  try {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { usage, quota };
+  } catch (error) {
+    console.warn("Storage estimate unavailable:", error);
+    return null;
+  }
+}
+
+/**
+ * Walks every store, attributing records to characters and collecting the
+ * ones whose owner no longer exists.
+ */
+export async function scanStorage(): Promise<StorageReport> {
+  const characters = await getAllRecords<any>(CHARACTERS_RECORD_FILE);
+  const trees = await getAllRecords<any>(CHARACTER_DIALOGUES_FILE);
+  const personas = await getAllRecords<Persona>(PERSONAS_FILE);
+  const memoryIds = new Set(
+    (await getAllKeys(MEMORY_ENTRIES_FILE)).map((key) => String(key)),
+  );
+
+  const characterIds = new Set(characters.map((record) => record.id));
+  const dialogueOwners = new Map<string, string>(
+    trees.map((tree) => [tree.id, tree.character_id]),
+  );
+
+  const usage = new Map<string, CharacterUsage>(
+    characters.map((record) => [
+      record.id,
+      {
+        characterId: record.id,
+        name: record.data?.data?.name || record.data?.name || record.id,
+        size: 0,
+        stores: {},
+      },
+    ]),
+  );
+  const addUsage = (ownerId: string, storeName: string, size: number) => {
+    const entry = usage.get(ownerId);
+    if (entry) {
+      entry.size += size;
+      entry.stores[storeName] = (entry.stores[storeName] || 0) + size;
+    }
+  };
+
+  const stores: StoreUsage[] = [];
+  const orphans: OrphanRecord[] = [];
+
+  for (const storeName of Object.keys(STORE_SCHEMAS)) {
+    if (storeName === CHARACTER_IMAGES_FILE) {
+      continue;
+    }
+
+    const records = await getAllRecords<any>(storeName);
+    const storeUsage: StoreUsage = {
+      storeName,
+      count: records.length,
+      size: 0,
+    };
+
+    for (const record of records) {
+      const size = recordSize(record);
+      storeUsage.size += size;
+
+      const key = getRecordKey(storeName, record);
+      const ownerId = getRecordOwner(storeName, record, dialogueOwners);
+
+      let reason: OrphanReason | null = null;
+      if (
+        storeName === DIALOGUE_NODES_FILE &&
+        !dialogueOwners.has(record.dialogueId)
+      ) {
+        reason = "missingDialogue";
+      } else if (ownerId !== undefined && !characterIds.has(ownerId)) {
+        reason = "missingCharacter";
+      } else if (
+        storeName === MEMORY_EMBEDDINGS_FILE &&
+        !memoryIds.has(String(record.id))
+      ) {
+        reason = "missingMemory";
+      }
+
+      if (reason) {
+        orphans.push({
+          storeName,
+          key,
+          ownerId: ownerId ?? record.dialogueId,
+          reason,
+          size,
+        });
+      } else if (ownerId !== undefined) {
+        addUsage(ownerId, storeName, size);
+      }
+    }
+
+    stores.push(storeUsage);
+  }
+
+  const imageOwners = new Map<string, string>(
+    characters.flatMap((record) =>
+      getCharacterImageKeys(record).map((key): [string, string] => [
+        key,
+        record.id,
+      ]),
+    ),
+  );
+  // Persona avatars share the image store but belong to no character
+  const personaImageKeys = new Set(
+    personas.flatMap((persona) => persona.avatarPath || []),
+  );
+  const imageUsage: StoreUsage = {
+    storeName: CHARACTER_IMAGES_FILE,
+    count: 0,
+    size: 0,
+  };
+
+  for (const key of await getAllKeys(CHARACTER_IMAGES_FILE)) {
+    const blob = await getBlob(String(key));
+    const size = blob?.size || 0;
+    imageUsage.count++;
+    imageUsage.size += size;
+
+    const ownerId = imageOwners.get(String(key));
+    if (ownerId) {
+      addUsage(ownerId, CHARACTER_IMAGES_FILE, size);
+    } else if (!personaImageKeys.has(String(key))) {
+      orphans.push({
+        storeName: CHARACTER_IMAGES_FILE,
+        key,
+        reason: "unreferencedImage",
+        size,
+      });
+    }
+  }
+  stores.push(imageUsage);
+
+  return {
+    stores,
+    characters: Array.from(usage.values()).sort((a, b) => b.size - a.size),
+    orphans,
+    orphanSize: orphans.reduce((total, orphan) => total + orphan.size, 0),
+    estimate: await getStorageEstimate(),
+    scanned_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Deletes the given orphans in one transaction and returns how many went.
+ */
+export async function purgeOrphans(orphans: OrphanRecord[]): Promise<number> {
+  const operations: StorageOperation[] = orphans.map((orphan) => ({
+    type: "delete",
+    storeName: orphan.storeName,
+    key: orphan.key,
+  }));
+
+  await applyBatch(operations);
+  return operations.length;
+}
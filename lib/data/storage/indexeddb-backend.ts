@@ -0,0 +1,214 @@
+import {
+  DB_VERSION,
+  STORE_SCHEMAS,
+  StorageOperation,
+} from "@/lib/data/local-storage";
+import { MigrationError, runMigrations } from "@/lib/data/migrations";
+import {
+  StorageBackend,
+  StorageBackendType,
+} from "@/lib/data/storage/storage-backend";
+
+const DB_NAME = "CharacterAppDB";
+
+function createStore(db: IDBDatabase, storeName: string): IDBObjectStore {
+  const schema = STORE_SCHEMAS[storeName];
+  const store = schema.keyPath
+    ? db.createObjectStore(storeName, { keyPath: schema.keyPath })
+    : db.createObjectStore(storeName);
+
+  for (const index of schema.indexes || []) {
+    store.createIndex(index.name, index.keyPath);
+  }
+
+  return store;
+}
+
+function createMissingStores(db: IDBDatabase): void {
+  for (const storeName of Object.keys(STORE_SCHEMAS)) {
+    if (!db.objectStoreNames.contains(storeName)) {
+      createStore(db, storeName);
+    }
+  }
+}
+
+/**
+ * Browser storage, the default. Everything stays on this device.
+ */
+export class IndexedDBStorageBackend implements StorageBackend {
+  readonly type: StorageBackendType = "indexeddb";
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private openDB(): Promise<IDBDatabase> {
+    if (this.dbPromise) {
+      return this.dbPromise;
+    }
+
+    this.dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      let migrationError: MigrationError | null = null;
+
+      request.onerror = () => {
+        this.dbPromise = null;
+        reject(migrationError || request.error);
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Let another tab upgrade the schema instead of blocking it
+        db.onversionchange = () => {
+          db.close();
+          this.dbPromise = null;
+        };
+        resolve(db);
+      };
+
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        const tx = request.transaction as IDBTransaction;
+
+        createMissingStores(db);
+
+        // A fresh database has nothing to transform
+        if (event.oldVersion > 0) {
+          runMigrations({
+            db,
+            tx,
+            oldVersion: event.oldVersion,
+            newVersion: DB_VERSION,
+            recreateStore: (storeName) => {
+              db.deleteObjectStore(storeName);
+              return createStore(db, storeName);
+            },
+            onFailure: (error) => {
+              migrationError = error;
+            },
+          });
+        }
+      };
+    });
+
+    return this.dbPromise;
+  }
+
+  private async runRequest<T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    createRequest: (store: IDBObjectStore) => IDBRequest<T>,
+  ): Promise<T> {
+    const db = await this.openDB();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(storeName, mode);
+      const request = createRequest(tx.objectStore(storeName));
+
+      tx.oncomplete = () => resolve(request.result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  }
+
+  async initialize(): Promise<void> {
+    await this.openDB();
+  }
+
+  async getRecord<T = any>(
+    storeName: string,
+    key: IDBValidKey,
+  ): Promise<T | null> {
+    const result = await this.runRequest(storeName, "readonly", (store) =>
+      store.get(key),
+    );
+    return (result as T) ?? null;
+  }
+
+  async getAllRecords<T = any>(storeName: string): Promise<T[]> {
+    const result = await this.runRequest(storeName, "readonly", (store) =>
+      store.getAll(),
+    );
+    return (result as T[]) || [];
+  }
+
+  async getAllKeys(storeName: string): Promise<IDBValidKey[]> {
+    return this.runRequest(storeName, "readonly", (store) =>
+      store.getAllKeys(),
+    );
+  }
+
+  async getRecordsByIndex<T = any>(
+    storeName: string,
+    indexName: string,
+    value: IDBValidKey,
+  ): Promise<T[]> {
+    const result = await this.runRequest(storeName, "readonly", (store) =>
+      store.index(indexName).getAll(IDBKeyRange.only(value)),
+    );
+    return (result as T[]) || [];
+  }
+
+  async putRecord(
+    storeName: string,
+    value: any,
+    key?: IDBValidKey,
+  ): Promise<void> {
+    await this.runRequest(storeName, "readwrite", (store) =>
+      key === undefined ? store.put(value) : store.put(value, key),
+    );
+  }
+
+  async deleteRecord(storeName: string, key: IDBValidKey): Promise<void> {
+    await this.runRequest(storeName, "readwrite", (store) => store.delete(key));
+  }
+
+  async clearStore(storeName: string): Promise<void> {
+    await this.runRequest(storeName, "readwrite", (store) => store.clear());
+  }
+
+  async applyBatch(operations: StorageOperation[]): Promise<void> {
+    if (operations.length === 0) {
+      return;
+    }
+
+    const db = await this.openDB();
+    const storeNames = Array.from(
+      new Set(operations.map((operation) => operation.storeName)),
+    );
+
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(storeNames, "readwrite");
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+
+      for (const operation of operations) {
+        const store = tx.objectStore(operation.storeName);
+        switch (operation.type) {
+        case "put":
+          if (operation.key === undefined) {
+            store.put(operation.value);
+          } else {
+            store.put(operation.value, operation.key);
+          }
+          break;
+        case "delete":
+          store.delete(operation.key);
+          break;
+        case "clear":
+          store.clear();
+          break;
+        case "deleteByIndex": {
+          const cursorRequest = store
+            .index(operation.indexName)
+            .openKeyCursor(IDBKeyRange.only(operation.value));
+          cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (cursor) {
+              store.delete(cursor.primaryKey);
+              cursor.continue();
+            }
+          };
+          break;
+        }
+        }
+      }
+    });
+  }
+}
@@ -0,0 +1,201 @@
+import {
+  CHARACTER_IMAGES_FILE,
+  StorageOperation,
+} from "@/lib/data/local-storage";
+import {
+  StorageBackend,
+  StorageBackendError,
+  StorageBackendType,
+} from "@/lib/data/storage/storage-backend";
+
+export const SERVER_STORAGE_TOKEN_KEY = "serverStorageToken";
+
+const STORAGE_API = "/api/storage";
+const BLOB_API = "/api/storage/blobs";
+
+export interface ServerStorageStatus {
+  enabled: boolean;
+  authRequired: boolean;
+}
+
+export function getServerStorageToken(): string {
+  return localStorage.getItem(SERVER_STORAGE_TOKEN_KEY) || "";
+}
+
+export function setServerStorageToken(token: string): void {
+  if (token) {
+    localStorage.setItem(SERVER_STORAGE_TOKEN_KEY, token);
+  } else {
+    localStorage.removeItem(SERVER_STORAGE_TOKEN_KEY);
+  }
+}
+
+function authHeaders(): Record<string, string> {
+  const token = getServerStorageToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+async function readError(response: Response): Promise<StorageBackendError> {
+  let message = `${response.status} ${response.statusText}`;
+  try {
+    const body = await response.json();
+    message = body.error || message;
+  } catch {
+    // Keep the status line
+  }
+  return new StorageBackendError(`Server storage: ${message}`, response.status);
+}
+
+export async function getServerStorageStatus(): Promise<ServerStorageStatus> {
+  try {
+    const response = await fetch(STORAGE_API, { cache: "no-store" });
+    if (!response.ok) {
+      return { enabled: false, authRequired: false };
+    }
+    return await response.json();
+  } catch {
+    return { enabled: false, authRequired: false };
+  }
+}
+
+/**
+ * Records kept in the SQLite database of a self-hosted Narratium server and
+ * reached through /api/storage, so every device and user of that server
+ * sees the same data. Image blobs travel as raw bytes through
+ * /api/storage/blobs.
+ */
+export class ServerStorageBackend implements StorageBackend {
+  readonly type: StorageBackendType = "server";
+
+  private async call<T>(action: string, payload: object = {}): Promise<T> {
+    const response = await fetch(STORAGE_API, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...authHeaders() },
+      body: JSON.stringify({ action, ...payload }),
+    });
+    if (!response.ok) {
+      throw await readError(response);
+    }
+    const body = await response.json();
+    return body.result as T;
+  }
+
+  private blobUrl(key: IDBValidKey): string {
+    return `${BLOB_API}?key=${encodeURIComponent(String(key))}`;
+  }
+
+  private async getBlob(key: IDBValidKey): Promise<Blob | null> {
+    const response = await fetch(this.blobUrl(key), {
+      headers: authHeaders(),
+      cache: "no-store",
+    });
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw await readError(response);
+    }
+    return response.blob();
+  }
+
+  private async putBlob(key: IDBValidKey, blob: Blob): Promise<void> {
+    const response = await fetch(this.blobUrl(key), {
+      method: "PUT",
+      headers: {
+        "Content-Type": blob.type || "application/octet-stream",
+        ...authHeaders(),
+      },
+      body: blob,
+    });
+    if (!response.ok) {
+      throw await readError(response);
+    }
+  }
+
+  async initialize(): Promise<void> {
+    const status = await getServerStorageStatus();
+    if (!status.enabled) {
+      throw new StorageBackendError(
+        "Server storage is not enabled on this server",
+      );
+    }
+  }
+
+  async getRecord<T = any>(
+    storeName: string,
+    key: IDBValidKey,
+  ): Promise<T | null> {
+    if (storeName === CHARACTER_IMAGES_FILE) {
+      return (await this.getBlob(key)) as T | null;
+    }
+    return this.call<T | null>("get", { storeName, key });
+  }
+
+  async getAllRecords<T = any>(storeName: string): Promise<T[]> {
+    if (storeName === CHARACTER_IMAGES_FILE) {
+      const keys = await this.getAllKeys(storeName);
+      const blobs = await Promise.all(keys.map((key) => this.getBlob(key)));
+      return blobs.filter(Boolean) as T[];
+    }
+    return this.call<T[]>("getAll", { storeName });
+  }
+
+  async getAllKeys(storeName: string): Promise<IDBValidKey[]> {
+    return this.call<IDBValidKey[]>("getAllKeys", { storeName });
+  }
+
+  async getRecordsByIndex<T = any>(
+    storeName: string,
+    indexName: string,
+    value: IDBValidKey,
+  ): Promise<T[]> {
+    return this.call<T[]>("getByIndex", { storeName, indexName, value });
+  }
+
+  async putRecord(
+    storeName: string,
+    value: any,
+    key?: IDBValidKey,
+  ): Promise<void> {
+    if (storeName === CHARACTER_IMAGES_FILE && key !== undefined) {
+      await this.putBlob(key, value);
+      return;
+    }
+    await this.applyBatch([{ type: "put", storeName, value, key }]);
+  }
+
+  async deleteRecord(storeName: string, key: IDBValidKey): Promise<void> {
+    await this.applyBatch([{ type: "delete", storeName, key }]);
+  }
+
+  async clearStore(storeName: string): Promise<void> {
+    await this.applyBatch([{ type: "clear", storeName }]);
+  }
+
+  /**
+   * Image blobs can't ride in the JSON batch; they are uploaded first and
+   * the rest of the batch is applied in one server-side transaction.
+   */
+  async applyBatch(operations: StorageOperation[]): Promise<void> {
+    if (operations.length === 0) {
+      return;
+    }
+
+    const recordOperations: StorageOperation[] = [];
+    for (const operation of operations) {
+      if (
+        operation.type === "put" &&
+        operation.storeName === CHARACTER_IMAGES_FILE &&
+        operation.key !== undefined
+      ) {
+        await this.putBlob(operation.key, operation.value);
+      } else {
+        recordOperations.push(operation);
+      }
+    }
+
+    if (recordOperations.length > 0) {
+      await this.call("batch", { operations: recordOperations });
+    }
+  }
+}
@@ -0,0 +1,239 @@
+import Database from "better-sqlite3";
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import {
+  CHARACTER_IMAGES_FILE,
+  STORE_SCHEMAS,
+  StorageOperation,
+  getRecordKey,
+} from "@/lib/data/local-storage";
+import { StorageBackendError } from "@/lib/data/storage/storage-backend";
+
+/*
+ * Server side of the "server" storage backend. Only imported by the
+ * /api/storage routes.
+ *
+ * Environment:
+ * - NARRATIUM_DB_PATH: SQLite file; server storage is off when unset
+ * - NARRATIUM_STORAGE_TOKEN: Bearer token every request must send; the
+ *   routes refuse to serve data until it is set
+ */
+
+export interface StoredBlob {
+  type: string;
+  data: Buffer;
+}
+
+export function isServerStorageEnabled(): boolean {
+  return !!process.env.NARRATIUM_DB_PATH;
+}
+
+export function isStorageTokenConfigured(): boolean {
+  return !!process.env.NARRATIUM_STORAGE_TOKEN;
+}
+
+function digest(value: string): Buffer {
+  return crypto.createHash("sha256").update(value).digest();
+}
+
+export function isStorageRequestAuthorized(request: Request): boolean {
+  const token = process.env.NARRATIUM_STORAGE_TOKEN;
+  if (!token) {
+    return false;
+  }
+  // Hashing first gives timingSafeEqual equal-length inputs
+  return crypto.timingSafeEqual(
+    digest(request.headers.get("authorization") || ""),
+    digest(`Bearer ${token}`),
+  );
+}
+
+function encodeKey(key: IDBValidKey): string {
+  return JSON.stringify(key);
+}
+
+function assertStore(storeName: string): void {
+  if (!STORE_SCHEMAS[storeName]) {
+    throw new StorageBackendError(`Unknown store "${storeName}"`, 400);
+  }
+}
+
+function getIndexPath(storeName: string, indexName: string): string {
+  const index = STORE_SCHEMAS[storeName].indexes?.find(
+    (candidate) => candidate.name === indexName,
+  );
+  if (!index || Array.isArray(index.keyPath)) {
+    throw new StorageBackendError(
+      `Unknown index "${indexName}" on "${storeName}"`,
+      400,
+    );
+  }
+  return `$.${index.keyPath}`;
+}
+
+/**
+ * Mirrors the IndexedDB layout in two tables: one row per record, keyed by
+ * store and the JSON-encoded primary key, plus raw image blobs.
+ */
+export class SqliteStorage {
+  private db: Database.Database;
+
+  constructor(filename: string) {
+    fs.mkdirSync(path.dirname(filename), { recursive: true });
+    this.db = new Database(filename);
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS records (
+        store TEXT NOT NULL,
+        key TEXT NOT NULL,
+        value TEXT NOT NULL,
+        PRIMARY KEY (store, key)
+      );
+      CREATE TABLE IF NOT EXISTS blobs (
+        key TEXT PRIMARY KEY,
+        type TEXT NOT NULL,
+        data BLOB NOT NULL
+      );
+    `);
+  }
+
+  getRecord(storeName: string, key: IDBValidKey): any {
+    assertStore(storeName);
+    const row = this.db
+      .prepare("SELECT value FROM records WHERE store = ? AND key = ?")
+      .get(storeName, encodeKey(key)) as { value: string } | undefined;
+    return row ? JSON.parse(row.value) : null;
+  }
+
+  getAllRecords(storeName: string): any[] {
+    assertStore(storeName);
+    const rows = this.db
+      .prepare("SELECT value FROM records WHERE store = ? ORDER BY key")
+      .all(storeName) as { value: string }[];
+    return rows.map((row) => JSON.parse(row.value));
+  }
+
+  getAllKeys(storeName: string): IDBValidKey[] {
+    assertStore(storeName);
+    if (storeName === CHARACTER_IMAGES_FILE) {
+      const rows = this.db
+        .prepare("SELECT key FROM blobs ORDER BY key")
+        .all() as { key: string }[];
+      return rows.map((row) => row.key);
+    }
+
+    const rows = this.db
+      .prepare("SELECT key FROM records WHERE store = ? ORDER BY key")
+      .all(storeName) as { key: string }[];
+    return rows.map((row) => JSON.parse(row.key));
+  }
+
+  getRecordsByIndex(
+    storeName: string,
+    indexName: string,
+    value: IDBValidKey,
+  ): any[] {
+    assertStore(storeName);
+    const rows = this.db
+      .prepare(
+        "SELECT value FROM records WHERE store = ? AND json_extract(value, ?) = ? ORDER BY key",
+      )
+      .all(storeName, getIndexPath(storeName, indexName), value) as {
+      value: string;
+    }[];
+    return rows.map((row) => JSON.parse(row.value));
+  }
+
+  getBlob(key: string): StoredBlob | null {
+    const row = this.db
+      .prepare("SELECT type, data FROM blobs WHERE key = ?")
+      .get(key) as StoredBlob | undefined;
+    return row || null;
+  }
+
+  putBlob(key: string, type: string, data: Buffer): void {
+    this.db
+      .prepare(
+        "INSERT INTO blobs (key, type, data) VALUES (?, ?, ?) ON CONFLICT(key) DO UPDATE SET type = excluded.type, data = excluded.data",
+      )
+      .run(key, type, data);
+  }
+
+  /**
+   * Applies the operations in one SQLite transaction.
+   */
+  applyBatch(operations: StorageOperation[]): void {
+    operations.forEach((operation) => assertStore(operation.storeName));
+
+    const putRecord = this.db.prepare(
+      "INSERT INTO records (store, key, value) VALUES (?, ?, ?) ON CONFLICT(store, key) DO UPDATE SET value = excluded.value",
+    );
+    const deleteRecord = this.db.prepare(
+      "DELETE FROM records WHERE store = ? AND key = ?",
+    );
+    const deleteByIndex = this.db.prepare(
+      "DELETE FROM records WHERE store = ? AND json_extract(value, ?) = ?",
+    );
+    const clearStore = this.db.prepare("DELETE FROM records WHERE store = ?");
+    const deleteBlob = this.db.prepare("DELETE FROM blobs WHERE key = ?");
+    const clearBlobs = this.db.prepare("DELETE FROM blobs");
+
+    this.db.transaction(() => {
+      for (const operation of operations) {
+        const isImages = operation.storeName === CHARACTER_IMAGES_FILE;
+        switch (operation.type) {
+        case "put":
+          if (isImages) {
+            throw new StorageBackendError(
+              "Image blobs are uploaded through /api/storage/blobs",
+              400,
+            );
+          }
+          putRecord.run(
+            operation.storeName,
+            encodeKey(
+              operation.key ?? getRecordKey(operation.storeName, operation.value),
+            ),
+            JSON.stringify(operation.value),
+          );
+          break;
+        case "delete":
+          if (isImages) {
+            deleteBlob.run(String(operation.key));
+          } else {
+            deleteRecord.run(operation.storeName, encodeKey(operation.key));
+          }
+          break;
+        case "clear":
+          if (isImages) {
+            clearBlobs.run();
+          } else {
+            clearStore.run(operation.storeName);
+          }
+          break;
+        case "deleteByIndex":
+          deleteByIndex.run(
+            operation.storeName,
+            getIndexPath(operation.storeName, operation.indexName),
+            operation.value,
+          );
+          break;
+        }
+      }
+    })();
+  }
+}
+
+let storage: SqliteStorage | null = null;
+
+export function getSqliteStorage(): SqliteStorage {
+  if (!storage) {
+    const filename = process.env.NARRATIUM_DB_PATH;
+    if (!filename) {
+      throw new StorageBackendError("Server storage is not enabled", 404);
+    }
+    storage = new SqliteStorage(path.resolve(filename));
+  }
+  return storage;
+}
@@ -0,0 +1,37 @@
+import { StorageOperation } from "@/lib/data/local-storage";
+
+export type StorageBackendType = "indexeddb" | "server";
+
+/**
+ * Where records and image blobs live. Every store keeps the layout described
+ * by STORE_SCHEMAS; image blobs are read and written through the
+ * character_images store with out-of-line keys.
+ */
+export interface StorageBackend {
+  readonly type: StorageBackendType;
+  /** Prepares the backend (schema upgrades, connectivity) before first use */
+  initialize(): Promise<void>;
+  getRecord<T = any>(storeName: string, key: IDBValidKey): Promise<T | null>;
+  getAllRecords<T = any>(storeName: string): Promise<T[]>;
+  getAllKeys(storeName: string): Promise<IDBValidKey[]>;
+  getRecordsByIndex<T = any>(
+    storeName: string,
+    indexName: string,
+    value: IDBValidKey,
+  ): Promise<T[]>;
+  putRecord(storeName: string, value: any, key?: IDBValidKey): Promise<void>;
+  deleteRecord(storeName: string, key: IDBValidKey): Promise<void>;
+  clearStore(storeName: string): Promise<void>;
+  /** Applies every operation or none of them */
+  applyBatch(operations: StorageOperation[]): Promise<void>;
+}
+
+export class StorageBackendError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = "StorageBackendError";
+    this.status = status;
+  }
+}
@@ -0,0 +1,71 @@
+import {
+  CHARACTER_IMAGES_FILE,
+  RECORD_STORES,
+  StorageOperation,
+} from "@/lib/data/local-storage";
+import { StorageBackend } from "@/lib/data/storage/storage-backend";
+
+// Keeps each request to the server backend a reasonable size
+const BATCH_SIZE = 200;
+
+export interface StorageTransferResult {
+  records: number;
+  images: number;
+}
+
+export type StorageTransferProgress = (step: {
+  storeName: string;
+  done: number;
+  total: number;
+}) => void;
+
+/**
+ * Replaces the target's user data with a copy of the source's: every record
+ * store and every image blob. Sync bookkeeping stays behind, it describes
+ * the source backend.
+ */
+export async function transferStorage(
+  source: StorageBackend,
+  target: StorageBackend,
+  onProgress?: StorageTransferProgress,
+): Promise<StorageTransferResult> {
+  await source.initialize();
+  await target.initialize();
+
+  const result: StorageTransferResult = { records: 0, images: 0 };
+
+  for (const storeName of RECORD_STORES) {
+    const records = await source.getAllRecords(storeName);
+    await target.clearStore(storeName);
+
+    for (let start = 0; start < records.length; start += BATCH_SIZE) {
+      const operations: StorageOperation[] = records
+        .slice(start, start + BATCH_SIZE)
+        .map((value) => ({ type: "put", storeName, value }));
+      await target.applyBatch(operations);
+      onProgress?.({
+        storeName,
+        done: start + operations.length,
+        total: records.length,
+      });
+    }
+    result.records += records.length;
+  }
+
+  const imageKeys = await source.getAllKeys(CHARACTER_IMAGES_FILE);
+  await target.clearStore(CHARACTER_IMAGES_FILE);
+  for (const key of imageKeys) {
+    const blob = await source.getRecord<Blob>(CHARACTER_IMAGES_FILE, key);
+    if (blob) {
+      await target.putRecord(CHARACTER_IMAGES_FILE, blob, key);
+      result.images++;
+    }
+    onProgress?.({
+      storeName: CHARACTER_IMAGES_FILE,
+      done: result.images,
+      total: imageKeys.length,
+    });
+  }
+
+  return result;
+}
@@ -0,0 +1,201 @@
+import {
+  getFolderList,
+  getGoogleAjaxUrl,
+  refreshGoogleToken,
+} from "@/function/data/google-control";
+import {
+  PushOptions,
+  RemoteFile,
+  SyncConflictError,
+  SyncProvider,
+  SyncProviderError,
+} from "@/lib/data/sync/sync-provider";
+
+const DRIVE_FILES_URL = "https://www.googleapis.com/drive/v3/files";
+const DRIVE_UPLOAD_URL = "https://www.googleapis.com/upload/drive/v3/files";
+const FILE_FIELDS = "id, name, version, modifiedTime, size";
+
+interface DriveFile {
+  id: string;
+  name: string;
+  version?: string;
+  modifiedTime?: string;
+  size?: string;
+}
+
+function toRemoteFile(file: DriveFile): RemoteFile {
+  return {
+    name: file.name,
+    version: String(file.version ?? ""),
+    modifiedAt: file.modifiedTime,
+    size: file.size ? Number(file.size) : undefined,
+  };
+}
+
+export class GoogleDriveSyncProvider implements SyncProvider {
+  readonly id = "google-drive" as const;
+  readonly label = "Google Drive";
+  private folderId: string | null = null;
+
+  isConfigured(): boolean {
+    return !!localStorage.getItem("google_drive_token");
+  }
+
+  async list(): Promise<RemoteFile[]> {
+    const files = await this.listDriveFiles();
+    return files.map(toRemoteFile);
+  }
+
+  async pull(
+    name: string,
+  ): Promise<{ content: string; file: RemoteFile } | null> {
+    const file = await this.findFile(name);
+    if (!file) {
+      return null;
+    }
+
+    const response = await this.driveFetch(
+      `${DRIVE_FILES_URL}/${file.id}?alt=media`,
+      {},
+    );
+    return { content: await response.text(), file: toRemoteFile(file) };
+  }
+
+  async push(
+    name: string,
+    content: string,
+    options: PushOptions = {},
+  ): Promise<RemoteFile> {
+    const existing = await this.findFile(name);
+    this.checkExpectedVersion(name, existing, options.expectedVersion);
+
+    if (existing) {
+      const response = await this.driveFetch(
+        getGoogleAjaxUrl(`${DRIVE_UPLOAD_URL}/${existing.id}`, {
+          uploadType: "media",
+          fields: FILE_FIELDS,
+        }),
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: content,
+        },
+      );
+      return toRemoteFile(await response.json());
+    }
+
+    const formData = new FormData();
+    formData.append(
+      "metadata",
+      new Blob(
+        [JSON.stringify({ name, parents: [await this.getFolderId()] })],
+        { type: "application/json" },
+      ),
+    );
+    formData.append("file", new Blob([content], { type: "application/json" }));
+
+    const response = await this.driveFetch(
+      getGoogleAjaxUrl(DRIVE_UPLOAD_URL, {
+        uploadType: "multipart",
+        fields: FILE_FIELDS,
+      }),
+      { method: "POST", body: formData },
+    );
+    return toRemoteFile(await response.json());
+  }
+
+  async remove(name: string): Promise<void> {
+    const file = await this.findFile(name);
+    if (file) {
+      await this.driveFetch(`${DRIVE_FILES_URL}/${file.id}`, {
+        method: "DELETE",
+      });
+    }
+  }
+
+  private checkExpectedVersion(
+    name: string,
+    existing: DriveFile | null,
+    expectedVersion: string | null | undefined,
+  ): void {
+    if (expectedVersion === undefined) {
+      return;
+    }
+
+    const currentVersion = existing ? String(existing.version ?? "") : null;
+    if (currentVersion !== expectedVersion) {
+      throw new SyncConflictError(`${name} was changed by another device`);
+    }
+  }
+
+  private async getFolderId(): Promise<string> {
+    if (!this.folderId) {
+      const folder = await getFolderList();
+      if (!folder?.id) {
+        throw new SyncProviderError("Google Drive backup folder is unavailable");
+      }
+      this.folderId = folder.id as string;
+    }
+    return this.folderId;
+  }
+
+  private async listDriveFiles(name?: string): Promise<DriveFile[]> {
+    const folderId = await this.getFolderId();
+    const query = [`'${folderId}' in parents`, "trashed = false"];
+    if (name) {
+      query.push(`name = '${name.replace(/'/g, "\\'")}'`);
+    }
+
+    const response = await this.driveFetch(
+      getGoogleAjaxUrl(DRIVE_FILES_URL, {
+        q: query.join(" and "),
+        fields: `files(${FILE_FIELDS})`,
+        pageSize: "1000",
+        orderBy: "modifiedTime desc",
+      }),
+      {},
+    );
+    const data = await response.json();
+    return data.files || [];
+  }
+
+  private async findFile(name: string): Promise<DriveFile | null> {
+    const files = await this.listDriveFiles(name);
+    return files[0] || null;
+  }
+
+  /**
+   * Authorized Drive request. An expired access token is refreshed once and
+   * the request retried.
+   */
+  private async driveFetch(
+    url: string,
+    init: RequestInit,
+    retried = false,
+  ): Promise<Response> {
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        ...(init.headers as Record<string, string>),
+        Authorization: "Bearer " + localStorage.getItem("google_drive_token"),
+      },
+    });
+
+    if (response.status === 401 && !retried) {
+      const data = await refreshGoogleToken();
+      if (data?.access_token) {
+        localStorage.setItem("google_drive_token", data.access_token);
+        return this.driveFetch(url, init, true);
+      }
+    }
+
+    if (!response.ok) {
+      throw new SyncProviderError(
+        `Google Drive request failed: ${response.status}`,
+        response.status,
+      );
+    }
+
+    return response;
+  }
+}
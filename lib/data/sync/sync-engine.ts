@@ -0,0 +1,532 @@
+import {
+  CHARACTER_IMAGES_FILE,
+  RECORD_STORES,
+  SYNC_LOG_FILE,
+  SYNC_STATE_FILE,
+  StorageOperation,
+  applyBatch,
+  base64ToBlob,
+  blobToBase64,
+  deleteBlob,
+  deleteRecord,
+  getAllKeys,
+  getAllRecords,
+  getBlob,
+  getRecord,
+  getRecordKey,
+  getRecordsByIndex,
+  putRecord,
+  setBlob,
+} from "@/lib/data/local-storage";
+import { publishReset } from "@/lib/data/change-bus";
+import {
+  SyncConflictError,
+  SyncProvider,
+  SyncProviderId,
+} from "@/lib/data/sync/sync-provider";
+import { v4 as uuidv4 } from "uuid";
+
+export const SYNC_INDEX_FILE = "narratium-sync.json";
+const SYNC_FORMAT = "narratium-sync";
+const SYNC_FORMAT_VERSION = 1;
+const DEVICE_ID_KEY = "syncDeviceId";
+
+// Past this many changesets the next push writes a full snapshot instead
+const COMPACT_AFTER = 50;
+const SYNC_LOG_LIMIT = 200;
+
+export type ConflictStrategy = "keepLocal" | "keepRemote";
+
+interface RecordRef {
+  store: string;
+  key: IDBValidKey;
+}
+
+interface RecordChange extends RecordRef {
+  hash: string;
+  /** Record value, or a base64 data URL for images */
+  value: any;
+}
+
+interface Changeset {
+  format: typeof SYNC_FORMAT;
+  version: number;
+  revision: number;
+  device_id: string;
+  created_at: string;
+  snapshot: boolean;
+  puts: RecordChange[];
+  deletes: RecordRef[];
+}
+
+interface ChangesetRef {
+  revision: number;
+  file: string;
+  device_id: string;
+  created_at: string;
+  snapshot: boolean;
+  puts: number;
+  deletes: number;
+}
+
+interface SyncIndex {
+  format: typeof SYNC_FORMAT;
+  version: number;
+  revision: number;
+  changesets: ChangesetRef[];
+}
+
+/**
+ * What this device last agreed on with a provider: the remote revision and
+ * the hash of every record at that point. Anything hashing differently now
+ * changed locally since the last sync.
+ */
+export interface SyncState {
+  providerId: SyncProviderId;
+  revision: number;
+  hashes: Record<string, string>;
+  last_synced_at?: string;
+}
+
+export interface SyncLogEntry {
+  id: string;
+  providerId: SyncProviderId;
+  direction: "push" | "pull";
+  status: "success" | "noop" | "conflict" | "error";
+  revision: number;
+  puts: number;
+  deletes: number;
+  conflicts: string[];
+  message?: string;
+  created_at: string;
+}
+
+interface LocalEntry extends RecordRef {
+  hash: string;
+  value?: any;
+  blob?: Blob;
+}
+
+function recordId(store: string, key: IDBValidKey): string {
+  return `${store}:${JSON.stringify(key)}`;
+}
+
+function parseRecordId(id: string): RecordRef {
+  const separator = id.indexOf(":");
+  return {
+    store: id.slice(0, separator),
+    key: JSON.parse(id.slice(separator + 1)),
+  };
+}
+
+async function sha256(data: string | ArrayBuffer): Promise<string> {
+  const bytes =
+    typeof data === "string" ? new TextEncoder().encode(data) : data;
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+function getDeviceId(): string {
+  let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+  if (!deviceId) {
+    deviceId = uuidv4();
+    localStorage.setItem(DEVICE_ID_KEY, deviceId);
+  }
+  return deviceId;
+}
+
+async function readLocalEntries(): Promise<Map<string, LocalEntry>> {
+  const entries = new Map<string, LocalEntry>();
+
+  for (const store of RECORD_STORES) {
+    for (const value of await getAllRecords(store)) {
+      const key = getRecordKey(store, value);
+      entries.set(recordId(store, key), {
+        store,
+        key,
+        value,
+        hash: await sha256(JSON.stringify(value)),
+      });
+    }
+  }
+
+  for (const key of await getAllKeys(CHARACTER_IMAGES_FILE)) {
+    const blob = await getBlob(String(key));
+    if (blob instanceof Blob) {
+      entries.set(recordId(CHARACTER_IMAGES_FILE, key), {
+        store: CHARACTER_IMAGES_FILE,
+        key,
+        blob,
+        hash: await sha256(await blob.arrayBuffer()),
+      });
+    }
+  }
+
+  return entries;
+}
+
+export async function getSyncState(
+  providerId: SyncProviderId,
+): Promise<SyncState> {
+  const state = await getRecord<SyncState>(SYNC_STATE_FILE, providerId);
+  return state || { providerId, revision: 0, hashes: {} };
+}
+
+export async function resetSyncState(providerId: SyncProviderId): Promise<void> {
+  await deleteRecord(SYNC_STATE_FILE, providerId);
+}
+
+export async function getSyncLog(
+  providerId: SyncProviderId,
+): Promise<SyncLogEntry[]> {
+  const entries = await getRecordsByIndex<SyncLogEntry>(
+    SYNC_LOG_FILE,
+    "providerId",
+    providerId,
+  );
+  return entries.sort((a, b) => b.created_at.localeCompare(a.created_at));
+}
+
+async function writeSyncLog(
+  entry: Omit<SyncLogEntry, "id" | "created_at">,
+): Promise<SyncLogEntry> {
+  const logEntry: SyncLogEntry = {
+    ...entry,
+    id: uuidv4(),
+    created_at: new Date().toISOString(),
+  };
+  await putRecord(SYNC_LOG_FILE, logEntry);
+
+  const entries = await getSyncLog(entry.providerId);
+  const stale = entries.slice(SYNC_LOG_LIMIT);
+  if (stale.length > 0) {
+    await applyBatch(
+      stale.map((item) => ({
+        type: "delete",
+        storeName: SYNC_LOG_FILE,
+        key: item.id,
+      })),
+    );
+  }
+
+  return logEntry;
+}
+
+async function readIndex(
+  provider: SyncProvider,
+): Promise<{ index: SyncIndex; version: string } | null> {
+  const remote = await provider.pull(SYNC_INDEX_FILE);
+  if (!remote) {
+    return null;
+  }
+
+  const index = JSON.parse(remote.content) as SyncIndex;
+  if (index.format !== SYNC_FORMAT || index.version > SYNC_FORMAT_VERSION) {
+    throw new Error(`Unsupported sync index in ${provider.label}`);
+  }
+  return { index, version: remote.file.version };
+}
+
+/**
+ * Each changeset gets a file of its own, so that two devices pushing the
+ * same revision never overwrite or delete each other's changeset
+ */
+function changesetFileName(revision: number): string {
+  return `narratium-sync-${revision}-${uuidv4()}.json`;
+}
+
+/**
+ * Changesets to replay from a given revision. When compaction has dropped
+ * the ones in between, replay starts from the newest snapshot instead.
+ */
+function pendingChangesets(index: SyncIndex, fromRevision: number): ChangesetRef[] {
+  const pending = index.changesets
+    .filter((ref) => ref.revision > fromRevision)
+    .sort((a, b) => a.revision - b.revision);
+
+  if (pending.length > 0 && pending[0].revision > fromRevision + 1) {
+    const snapshotIndex = pending.map((ref) => ref.snapshot).lastIndexOf(true);
+    return snapshotIndex >= 0 ? pending.slice(snapshotIndex) : pending;
+  }
+  return pending;
+}
+
+/**
+ * Downloads changesets newer than the last sync and applies them. A record
+ * changed on both sides is a conflict: keepLocal leaves the local copy so
+ * the next push overwrites the remote one, keepRemote takes the remote copy.
+ */
+export async function pullChanges(
+  provider: SyncProvider,
+  strategy: ConflictStrategy = "keepLocal",
+): Promise<SyncLogEntry> {
+  const state = await getSyncState(provider.id);
+  const remote = await readIndex(provider);
+
+  if (!remote || remote.index.revision <= state.revision) {
+    return writeSyncLog({
+      providerId: provider.id,
+      direction: "pull",
+      status: "noop",
+      revision: state.revision,
+      puts: 0,
+      deletes: 0,
+      conflicts: [],
+    });
+  }
+
+  // Net effect of every pending changeset, later ones winning
+  const incoming = new Map<string, RecordChange | RecordRef>();
+  const knownIds = new Set(Object.keys(state.hashes));
+  for (const ref of pendingChangesets(remote.index, state.revision)) {
+    const file = await provider.pull(ref.file);
+    if (!file) {
+      throw new Error(`Missing changeset ${ref.file} in ${provider.label}`);
+    }
+    const changeset = JSON.parse(file.content) as Changeset;
+
+    if (changeset.snapshot) {
+      const snapshotIds = new Set(
+        changeset.puts.map((change) => recordId(change.store, change.key)),
+      );
+      for (const id of new Set([...knownIds, ...incoming.keys()])) {
+        if (!snapshotIds.has(id)) {
+          incoming.set(id, parseRecordId(id));
+        }
+      }
+    }
+    for (const change of changeset.puts) {
+      incoming.set(recordId(change.store, change.key), change);
+    }
+    for (const ref of changeset.deletes) {
+      incoming.set(recordId(ref.store, ref.key), ref);
+    }
+  }
+
+  const local = await readLocalEntries();
+  const hashes = { ...state.hashes };
+  const operations: StorageOperation[] = [];
+  const imageWrites: RecordChange[] = [];
+  const imageDeletes: IDBValidKey[] = [];
+  const conflicts: string[] = [];
+  let puts = 0;
+  let deletes = 0;
+
+  for (const [id, change] of incoming) {
+    const localHash = local.get(id)?.hash;
+    const incomingHash = "hash" in change ? change.hash : undefined;
+    if (localHash === incomingHash) {
+      if (incomingHash) hashes[id] = incomingHash;
+      else delete hashes[id];
+      continue;
+    }
+
+    const changedLocally = localHash !== state.hashes[id];
+    if (changedLocally) {
+      conflicts.push(id);
+      if (strategy === "keepLocal") {
+        // Treat the remote copy as the synced baseline so the local one is pushed
+        if (incomingHash) hashes[id] = incomingHash;
+        else delete hashes[id];
+        continue;
+      }
+    }
+
+    if ("hash" in change) {
+      if (change.store === CHARACTER_IMAGES_FILE) {
+        imageWrites.push(change);
+      } else {
+        operations.push({ type: "put", storeName: change.store, value: change.value });
+      }
+      hashes[id] = change.hash;
+      puts++;
+    } else {
+      if (change.store === CHARACTER_IMAGES_FILE) {
+        imageDeletes.push(change.key);
+      } else {
+        operations.push({ type: "delete", storeName: change.store, key: change.key });
+      }
+      delete hashes[id];
+      deletes++;
+    }
+  }
+
+  await applyBatch(operations);
+  for (const change of imageWrites) {
+    await setBlob(String(change.key), await base64ToBlob(change.value));
+  }
+  for (const key of imageDeletes) {
+    await deleteBlob(String(key));
+  }
+  if (puts + deletes > 0) {
+    publishReset();
+  }
+
+  await putRecord(SYNC_STATE_FILE, {
+    providerId: provider.id,
+    revision: remote.index.revision,
+    hashes,
+    last_synced_at: new Date().toISOString(),
+  } satisfies SyncState);
+
+  return writeSyncLog({
+    providerId: provider.id,
+    direction: "pull",
+    status: conflicts.length > 0 ? "conflict" : "success",
+    revision: remote.index.revision,
+    puts,
+    deletes,
+    conflicts,
+    message:
+      conflicts.length > 0
+        ? `${conflicts.length} conflict(s) resolved with ${strategy}`
+        : undefined,
+  });
+}
+
+/**
+ * Uploads the records changed since the last sync as a new changeset. The
+ * index is written with the version read beforehand, so two devices pushing
+ * at once cannot both succeed.
+ */
+export async function pushChanges(provider: SyncProvider): Promise<SyncLogEntry> {
+  const state = await getSyncState(provider.id);
+  const remote = await readIndex(provider);
+
+  if (remote && remote.index.revision > state.revision) {
+    throw new SyncConflictError(
+      "The remote has changes that have not been pulled yet",
+    );
+  }
+
+  const local = await readLocalEntries();
+  const changedIds = Array.from(local.keys()).filter(
+    (id) => local.get(id)?.hash !== state.hashes[id],
+  );
+  const deletedIds = Object.keys(state.hashes).filter((id) => !local.has(id));
+
+  if (changedIds.length === 0 && deletedIds.length === 0) {
+    return writeSyncLog({
+      providerId: provider.id,
+      direction: "push",
+      status: "noop",
+      revision: state.revision,
+      puts: 0,
+      deletes: 0,
+      conflicts: [],
+    });
+  }
+
+  const revision = (remote?.index.revision || 0) + 1;
+  const snapshot =
+    !remote || remote.index.changesets.length >= COMPACT_AFTER;
+  const putIds = snapshot ? Array.from(local.keys()) : changedIds;
+
+  const putChanges: RecordChange[] = [];
+  for (const id of putIds) {
+    const entry = local.get(id) as LocalEntry;
+    putChanges.push({
+      store: entry.store,
+      key: entry.key,
+      hash: entry.hash,
+      value: entry.blob ? await blobToBase64(entry.blob) : entry.value,
+    });
+  }
+
+  const changeset: Changeset = {
+    format: SYNC_FORMAT,
+    version: SYNC_FORMAT_VERSION,
+    revision,
+    device_id: getDeviceId(),
+    created_at: new Date().toISOString(),
+    snapshot,
+    puts: putChanges,
+    deletes: snapshot ? [] : deletedIds.map(parseRecordId),
+  };
+  const ref: ChangesetRef = {
+    revision,
+    file: changesetFileName(revision),
+    device_id: changeset.device_id,
+    created_at: changeset.created_at,
+    snapshot,
+    puts: changeset.puts.length,
+    deletes: changeset.deletes.length,
+  };
+  const index: SyncIndex = {
+    format: SYNC_FORMAT,
+    version: SYNC_FORMAT_VERSION,
+    revision,
+    changesets: snapshot ? [ref] : [...(remote?.index.changesets || []), ref],
+  };
+
+  await provider.push(ref.file, JSON.stringify(changeset), {
+    expectedVersion: null,
+  });
+  try {
+    await provider.push(SYNC_INDEX_FILE, JSON.stringify(index), {
+      expectedVersion: remote ? remote.version : null,
+    });
+  } catch (error) {
+    await provider.remove(ref.file).catch(() => undefined);
+    throw error;
+  }
+
+  if (snapshot && remote) {
+    for (const old of remote.index.changesets) {
+      await provider.remove(old.file).catch((error) => {
+        console.warn(`Failed to remove compacted changeset ${old.file}:`, error);
+      });
+    }
+  }
+
+  await putRecord(SYNC_STATE_FILE, {
+    providerId: provider.id,
+    revision,
+    hashes: Object.fromEntries(
+      Array.from(local.entries()).map(([id, entry]) => [id, entry.hash]),
+    ),
+    last_synced_at: new Date().toISOString(),
+  } satisfies SyncState);
+
+  return writeSyncLog({
+    providerId: provider.id,
+    direction: "push",
+    status: "success",
+    revision,
+    puts: changedIds.length,
+    deletes: deletedIds.length,
+    conflicts: [],
+    message: snapshot ? "Wrote a full snapshot" : undefined,
+  });
+}
+
+/**
+ * Pull then push. Failures are written to the sync log before rethrowing.
+ */
+export async function syncNow(
+  provider: SyncProvider,
+  strategy: ConflictStrategy = "keepLocal",
+): Promise<SyncLogEntry[]> {
+  let direction: SyncLogEntry["direction"] = "pull";
+  try {
+    const pulled = await pullChanges(provider, strategy);
+    direction = "push";
+    const pushed = await pushChanges(provider);
+    return [pulled, pushed];
+  } catch (error) {
+    const state = await getSyncState(provider.id);
+    await writeSyncLog({
+      providerId: provider.id,
+      direction,
+      status: error instanceof SyncConflictError ? "conflict" : "error",
+      revision: state.revision,
+      puts: 0,
+      deletes: 0,
+      conflicts: [],
+      message: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+}
@@ -0,0 +1,51 @@
+export type SyncProviderId = "google-drive" | "webdav";
+
+export interface RemoteFile {
+  name: string;
+  /**
+   * Opaque version tag of the remote copy (Drive version, WebDAV ETag).
+   * Passed back to push() to detect concurrent writers.
+   */
+  version: string;
+  modifiedAt?: string;
+  size?: number;
+}
+
+export interface PushOptions {
+  /**
+   * Version the caller last saw. The push is refused with a SyncConflictError
+   * when the remote file has moved on; null means the file must not exist yet.
+   */
+  expectedVersion?: string | null;
+}
+
+/**
+ * Transport for cloud sync. A provider only moves files in and out of its
+ * sync folder; the sync engine decides what goes into them.
+ */
+export interface SyncProvider {
+  readonly id: SyncProviderId;
+  readonly label: string;
+  isConfigured(): boolean;
+  list(): Promise<RemoteFile[]>;
+  pull(name: string): Promise<{ content: string; file: RemoteFile } | null>;
+  push(name: string, content: string, options?: PushOptions): Promise<RemoteFile>;
+  remove(name: string): Promise<void>;
+}
+
+export class SyncConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SyncConflictError";
+  }
+}
+
+export class SyncProviderError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = "SyncProviderError";
+    this.status = status;
+  }
+}
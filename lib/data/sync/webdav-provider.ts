@@ -0,0 +1,220 @@
+import {
+  PushOptions,
+  RemoteFile,
+  SyncConflictError,
+  SyncProvider,
+  SyncProviderError,
+} from "@/lib/data/sync/sync-provider";
+
+export const WEBDAV_CONFIG_KEY = "webdavSyncConfig";
+
+export interface WebDAVConfig {
+  /** Server endpoint, e.g. https://cloud.example.com/remote.php/dav/files/alice */
+  url: string;
+  username: string;
+  password: string;
+  folder: string;
+}
+
+const DEFAULT_FOLDER = "NarratiumSync";
+
+const PROPFIND_BODY = `<?xml version="1.0" encoding="utf-8"?>
+<d:propfind xmlns:d="DAV:">
+  <d:prop>
+    <d:getetag/>
+    <d:getlastmodified/>
+    <d:getcontentlength/>
+    <d:resourcetype/>
+  </d:prop>
+</d:propfind>`;
+
+export function getWebDAVConfig(): WebDAVConfig | null {
+  try {
+    const saved = localStorage.getItem(WEBDAV_CONFIG_KEY);
+    return saved ? JSON.parse(saved) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveWebDAVConfig(config: WebDAVConfig): void {
+  localStorage.setItem(WEBDAV_CONFIG_KEY, JSON.stringify(config));
+}
+
+function toBase64(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+/**
+ * Syncs through any WebDAV server (Nextcloud, ownCloud, rclone serve webdav,
+ * ...). Requests go straight from the browser, so the server has to allow
+ * CORS for this app's origin.
+ */
+export class WebDAVSyncProvider implements SyncProvider {
+  readonly id = "webdav" as const;
+  readonly label = "WebDAV";
+  private folderReady = false;
+
+  constructor(private readonly getConfig: () => WebDAVConfig | null = getWebDAVConfig) {}
+
+  isConfigured(): boolean {
+    const config = this.getConfig();
+    return !!config?.url;
+  }
+
+  async list(): Promise<RemoteFile[]> {
+    await this.ensureFolder();
+    const response = await this.request(this.folderUrl(), {
+      method: "PROPFIND",
+      headers: { Depth: "1", "Content-Type": "application/xml" },
+      body: PROPFIND_BODY,
+    });
+    return this.parseMultiStatus(await response.text());
+  }
+
+  async pull(
+    name: string,
+  ): Promise<{ content: string; file: RemoteFile } | null> {
+    const response = await this.request(this.fileUrl(name), { method: "GET" }, [404]);
+    if (response.status === 404) {
+      return null;
+    }
+
+    return {
+      content: await response.text(),
+      file: {
+        name,
+        // Only an ETag can be sent back in If-Match; without one, writes are
+        // unconditional
+        version: response.headers.get("ETag") || "",
+        modifiedAt: response.headers.get("Last-Modified") || undefined,
+      },
+    };
+  }
+
+  async push(
+    name: string,
+    content: string,
+    options: PushOptions = {},
+  ): Promise<RemoteFile> {
+    await this.ensureFolder();
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (options.expectedVersion === null) {
+      headers["If-None-Match"] = "*";
+    } else if (options.expectedVersion) {
+      headers["If-Match"] = options.expectedVersion;
+    }
+
+    const response = await this.request(
+      this.fileUrl(name),
+      { method: "PUT", headers, body: content },
+      [412],
+    );
+    if (response.status === 412) {
+      throw new SyncConflictError(`${name} was changed by another device`);
+    }
+
+    const etag = response.headers.get("ETag");
+    if (etag) {
+      return { name, version: etag, size: content.length };
+    }
+
+    // Some servers do not return the new ETag from PUT
+    const files = await this.list();
+    return files.find((file) => file.name === name) || { name, version: "" };
+  }
+
+  async remove(name: string): Promise<void> {
+    await this.request(this.fileUrl(name), { method: "DELETE" }, [404]);
+  }
+
+  private folderUrl(): string {
+    const config = this.requireConfig();
+    const folder = (config.folder || DEFAULT_FOLDER)
+      .split("/")
+      .filter(Boolean)
+      .map(encodeURIComponent)
+      .join("/");
+    return `${config.url.replace(/\/+$/, "")}/${folder}/`;
+  }
+
+  private fileUrl(name: string): string {
+    return this.folderUrl() + encodeURIComponent(name);
+  }
+
+  private requireConfig(): WebDAVConfig {
+    const config = this.getConfig();
+    if (!config?.url) {
+      throw new SyncProviderError("WebDAV server is not configured");
+    }
+    return config;
+  }
+
+  private async ensureFolder(): Promise<void> {
+    if (this.folderReady) {
+      return;
+    }
+    // 405 means the collection already exists
+    await this.request(this.folderUrl(), { method: "MKCOL" }, [405]);
+    this.folderReady = true;
+  }
+
+  private async request(
+    url: string,
+    init: RequestInit,
+    allowedStatuses: number[] = [],
+  ): Promise<Response> {
+    const config = this.requireConfig();
+    const headers: Record<string, string> = {
+      ...(init.headers as Record<string, string>),
+    };
+    if (config.username) {
+      headers.Authorization =
+        "Basic " + toBase64(`${config.username}:${config.password}`);
+    }
+
+    const response = await fetch(url, { ...init, headers });
+    if (!response.ok && !allowedStatuses.includes(response.status)) {
+      throw new SyncProviderError(
+        `WebDAV ${init.method} failed: ${response.status}`,
+        response.status,
+      );
+    }
+    return response;
+  }
+
+  private parseMultiStatus(xml: string): RemoteFile[] {
+    const doc = new DOMParser().parseFromString(xml, "application/xml");
+    const files: RemoteFile[] = [];
+
+    for (const response of Array.from(doc.getElementsByTagNameNS("DAV:", "response"))) {
+      const isCollection =
+        response.getElementsByTagNameNS("DAV:", "collection").length > 0;
+      const href = response.getElementsByTagNameNS("DAV:", "href")[0]?.textContent;
+      if (isCollection || !href) {
+        continue;
+      }
+
+      const text = (tag: string) =>
+        response.getElementsByTagNameNS("DAV:", tag)[0]?.textContent || undefined;
+      const size = text("getcontentlength");
+
+      files.push({
+        name: decodeURIComponent(href.replace(/\/+$/, "").split("/").pop() || ""),
+        version: text("getetag") || "",
+        modifiedAt: text("getlastmodified"),
+        size: size ? Number(size) : undefined,
+      });
+    }
+
+    return files;
+  }
+}
@@ -1,3 +1,11 @@
+/** An image or other file referenced by a V3 card */
+export interface CharacterAsset {
+  type: string;
+  uri: string;
+  name: string;
+  ext: string;
+}
+
 export interface CharacterData {
   name: string;
   description: string;
@@ -10,4 +18,11 @@ export interface CharacterData {
   creator_notes?: string;
   imagePath?: string;
   alternate_greetings: string[];
+  system_prompt: string;
+  post_history_instructions: string;
+  nickname?: string;
+  group_only_greetings: string[];
+  creator_notes_multilingual?: Record<string, string>;
+  assets?: CharacterAsset[];
+  source?: string[];
 }
@@ -0,0 +1,41 @@
+import { RawCharacterData } from "@/lib/models/rawdata-model";
+import { WorldBookEntry } from "@/lib/models/world-book-model";
+import { RegexScript } from "@/lib/models/regex-script-model";
+
+/**
+ * Why a revision was recorded. The first save of a character also keeps
+ * how it looked before, as its baseline.
+ */
+export type CharacterRevisionKind = "baseline" | "save" | "revert";
+
+/**
+ * Everything a revision can bring back: the card and the character's own
+ * world book and regex scripts. The avatar is not part of it.
+ */
+export interface CharacterSnapshot {
+  data: RawCharacterData;
+  worldBook?: {
+    entries: Record<string, WorldBookEntry>;
+    settings?: Record<string, any>;
+  };
+  regexScripts?: {
+    scripts: Record<string, RegexScript>;
+    settings?: Record<string, any>;
+  };
+}
+
+export interface CharacterRevision extends CharacterSnapshot {
+  id: string;
+  characterId: string;
+  kind: CharacterRevisionKind;
+  /** What the author wrote about the change, if anything */
+  note: string;
+  /** For a revert, when the revision it went back to was made */
+  revertedFrom?: string;
+  /**
+   * Counts up per character, ordering revisions made within the same
+   * millisecond, like a baseline and the save after it
+   */
+  sequence: number;
+  created_at: string;
+}
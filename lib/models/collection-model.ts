@@ -0,0 +1,12 @@
+/**
+ * A user-made folder of characters in the library. A character can sit in
+ * any number of collections.
+ */
+export interface CharacterCollection {
+  id: string;
+  name: string;
+  characterIds: string[];
+  created_at: string;
+  updated_at: string;
+  version?: number;
+}
@@ -0,0 +1,22 @@
+/**
+ * How the next speaker of a group chat is chosen:
+ * - manual: the user picks who answers
+ * - roundRobin: members take turns in list order
+ * - mention: a member named in the last message answers, otherwise the next in turn
+ */
+export type GroupTurnMode = "manual" | "roundRobin" | "mention";
+
+export interface Group {
+  id: string;
+  name: string;
+  /** Character ids, in turn order */
+  members: string[];
+  turnMode: GroupTurnMode;
+  created_at: string;
+  updated_at: string;
+  version?: number;
+}
+
+// Group ids double as the owner id of the group's chat, so they must never
+// collide with a character id
+export const GROUP_ID_PREFIX = "group_";
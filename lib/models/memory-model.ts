@@ -4,6 +4,7 @@
 export interface MemoryEntry {
   id: string;
   characterId: string;
+  dialogueId?: string; // Chat the memory was made in; unset means the character's first chat
   type: MemoryType;
   content: string;
   metadata: MemoryMetadata;
@@ -65,6 +66,7 @@ export interface MemoryRAGConfig {
 export interface MemorySearchQuery {
   query: string;
   characterId: string;
+  dialogueId?: string; // Only memories from this chat
   types?: MemoryType[]; // Filter by memory types
   tags?: string[]; // Filter by tags
   timeframe?: string; // Filter by time period
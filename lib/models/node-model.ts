@@ -1,4 +1,8 @@
 import { ParsedResponse } from "@/lib/models/parsed-response";
+import {
+  WorldBookActivationTrace,
+  WorldBookTimers,
+} from "@/lib/models/world-book-model";
 
 export class DialogueNode {
   nodeId: string;
@@ -8,6 +12,12 @@ export class DialogueNode {
   fullResponse: string;
   thinkingContent?: string;
   parsedContent?: ParsedResponse;
+  /** Character who wrote the response; set in group chats */
+  speakerId?: string;
+  /** World book sticky and cooldown timers as this reply left them */
+  worldBookTimers?: WorldBookTimers;
+  /** Which world book entries went into this reply and which were left out */
+  worldBookTrace?: WorldBookActivationTrace;
   constructor(
     nodeId: string,
     parentNodeId: string,
@@ -16,6 +26,9 @@ export class DialogueNode {
     fullResponse: string,
     thinkingContent?: string,
     parsedContent?: ParsedResponse,
+    speakerId?: string,
+    worldBookTimers?: WorldBookTimers,
+    worldBookTrace?: WorldBookActivationTrace,
   ) {
     this.nodeId = nodeId;
     this.parentNodeId = parentNodeId;
@@ -24,6 +37,9 @@ export class DialogueNode {
     this.fullResponse = fullResponse;
     this.thinkingContent = thinkingContent;
     this.parsedContent = parsedContent;
+    this.speakerId = speakerId;
+    this.worldBookTimers = worldBookTimers;
+    this.worldBookTrace = worldBookTrace;
   }
 }
 
@@ -31,6 +47,8 @@ export class DialogueTree {
   id: string;
   character_id: string;
   current_nodeId: string;
+  /** Which of the character's greetings this chat opened with */
+  greeting_index?: number;
 
   nodes: DialogueNode[];
 
@@ -39,10 +57,12 @@ export class DialogueTree {
     character_id: string,
     nodes: DialogueNode[] = [],
     current_nodeId: string = "root",
+    greeting_index?: number,
   ) {
     this.id = id;
     this.character_id = character_id;
     this.nodes = nodes;
     this.current_nodeId = current_nodeId;
+    this.greeting_index = greeting_index;
   }
 }
@@ -0,0 +1,26 @@
+import { WorldBookEntry } from "@/lib/models/world-book-model";
+
+/**
+ * Who the user plays as. The name stands in for `{{user}}`, the description
+ * fills the `{{persona}}` slot of the prompt.
+ */
+export interface Persona {
+  id: string;
+  name: string;
+  description: string;
+  /** Key of the avatar blob in the image store */
+  avatarPath?: string;
+  /** Entries scanned together with the character's world book */
+  worldBook?: Record<string, WorldBookEntry>;
+  /** Used wherever no lock applies */
+  is_default?: boolean;
+  /** Characters this persona is always used with */
+  locked_characters?: string[];
+  /** Chats this persona is always used in; wins over character locks */
+  locked_dialogues?: string[];
+  created_at: string;
+  updated_at: string;
+  version?: number;
+}
+
+export type PersonaLockScope = "character" | "dialogue";
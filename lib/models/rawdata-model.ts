@@ -1,4 +1,8 @@
-import { WorldBookEntry } from "@/lib/models/world-book-model";
+import {
+  WorldBookEntry,
+  WorldBookSettings,
+} from "@/lib/models/world-book-model";
+import { CharacterAsset } from "@/lib/models/character-model";
 
 export interface RawCharacterData {
   id: any;
@@ -25,7 +29,17 @@ export interface RawCharacterData {
     creator: string;
     character_version: string;
     alternate_greetings: string[];
-    character_book: {
+    // Character Card V3 additions
+    nickname?: string;
+    group_only_greetings?: string[];
+    creator_notes_multilingual?: Record<string, string>;
+    assets?: CharacterAsset[];
+    source?: string[];
+    creation_date?: number;
+    modification_date?: number;
+    extensions?: Record<string, any>;
+    character_book: WorldBookSettings & {
+      name?: string;
       entries:
         | {
             comment: string;
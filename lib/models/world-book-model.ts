@@ -1,3 +1,29 @@
+import { DialogueMessage } from "@/lib/models/character-dialogue-model";
+
+/**
+ * Where an entry is inserted. The numbers are SillyTavern's, so imported
+ * lorebooks keep their placement. Entries saved before schema 19 used 2 and
+ * 3 for other slots and are moved by its migration.
+ */
+export const WorldBookPosition = {
+  /** Before the character definitions, `{{worldInfoBefore}}` */
+  BEFORE_CHAR: 0,
+  /** After the character definitions, `{{worldInfoAfter}}` */
+  AFTER_CHAR: 1,
+  BEFORE_AUTHOR_NOTE: 2,
+  AFTER_AUTHOR_NOTE: 3,
+  /** Inside the chat history, `depth` messages from the end */
+  AT_DEPTH: 4,
+  BEFORE_EXAMPLES: 5,
+  AFTER_EXAMPLES: 6,
+} as const;
+
+/** Who an entry inserted into the chat history speaks as */
+export type WorldBookRole = "system" | "user" | "assistant";
+
+/** Roles in SillyTavern's numbering, as stored in its `role` fields */
+export const WORLD_BOOK_ROLES: WorldBookRole[] = ["system", "user", "assistant"];
+
 interface WorldBookEntryExtensions {
   position?: number;
   [key: string]: any;
@@ -15,8 +41,103 @@ export interface WorldBookEntry {
   insertion_order?: number;
   enabled?: boolean;
   use_regex?: boolean;
+  /** How `secondary_keys` gate a selective entry; see `SelectiveLogic` */
+  selective_logic?: number;
+  /** Per-entry override of the scan's case sensitivity; unset follows it */
+  case_sensitive?: boolean | null;
+  /** Per-entry override of the scan's whole-word matching; unset follows it */
+  match_whole_words?: boolean | null;
+  /** Keep this entry's content from activating other entries */
+  prevent_recursion?: boolean;
+  /** Only the chat, not other entries' content, can activate this entry */
+  exclude_recursion?: boolean;
+  /** Chance in percent that a matched entry activates; unset or null is 100 */
+  probability?: number | null;
+  /** Roll `probability`; off always activates a matched entry */
+  use_probability?: boolean;
+  /** Turns the entry stays active after activating, keys or not */
+  sticky?: number;
+  /** Turns the entry cannot activate once it is no longer active */
+  cooldown?: number;
+  /** First turn of the chat on which the entry can activate */
+  delay?: number;
   depth?: number;
+  /** Role of an entry inserted at depth; defaults to system */
+  role?: WorldBookRole;
   comment?: string;
   tokens?: number;
   extensions?: WorldBookEntryExtensions;
 }
+
+/** Lorebook-level settings carried by a card's `character_book` */
+export interface WorldBookSettings {
+  scan_depth?: number;
+  token_budget?: number;
+  recursive_scanning?: boolean;
+}
+
+/**
+ * Sticky and cooldown state of one entry, in turns of the chat branch it
+ * was recorded on
+ */
+export interface WorldBookTimer {
+  /** Last turn the entry stays active without its keys */
+  stickyUntil?: number;
+  /** Last turn the entry cannot activate */
+  cooldownUntil?: number;
+}
+
+/** Timers of a chat branch by entry id, as they stand after a reply */
+export type WorldBookTimers = Record<string, WorldBookTimer>;
+
+/**
+ * Why an entry that applied to the chat was left out: it is disabled, the
+ * token budget ran out, its probability roll failed, it is cooling down or
+ * its delay has not passed
+ */
+export type WorldBookSkipReason =
+  | "disabled"
+  | "budget"
+  | "probability"
+  | "cooldown"
+  | "delay";
+
+interface WorldBookTraceItem {
+  entryId?: string;
+  /** The entry's comment, or its first key when it has none */
+  label: string;
+  /** Estimated tokens of the entry's content */
+  tokens: number;
+}
+
+export interface WorldBookTraceActivation extends WorldBookTraceItem {
+  /**
+   * What activated the entry: being constant, a key in the chat, a key in
+   * another entry's content, or an earlier activation it sticks from
+   */
+  trigger: "constant" | "key" | "recursion" | "sticky";
+  key?: string;
+  secondaryKeys?: string[];
+  /**
+   * Message the key was found in, counted back from the user's new message,
+   * which is 0
+   */
+  messageOffset?: number;
+  messageRole?: DialogueMessage["role"];
+  /** Where the entry was inserted; see `WorldBookPosition` */
+  position: number;
+}
+
+export interface WorldBookTraceSkip extends WorldBookTraceItem {
+  reason: WorldBookSkipReason;
+}
+
+/** Which world book entries went into one reply, and which were left out */
+export interface WorldBookActivationTrace {
+  activated: WorldBookTraceActivation[];
+  skipped: WorldBookTraceSkip[];
+  /** Estimated tokens the entries could take; 0 is unlimited */
+  tokenBudget: number;
+  /** Turn of the chat branch the reply was for */
+  turn?: number;
+}
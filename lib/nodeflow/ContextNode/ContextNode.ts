@@ -6,6 +6,7 @@ import {
   NodeCategory,
 } from "@/lib/nodeflow/types";
 import { DialogueMessage } from "@/lib/models/character-dialogue-model";
+import { WorldBookDepthInsertion } from "@/lib/core/world-book";
 import { ContextNodeTools } from "./ContextNodeTools";
 import { NodeToolRegistry } from "../NodeTool";
 
@@ -27,8 +28,11 @@ export class ContextNode extends NodeBase {
   protected async _call(input: NodeInput): Promise<NodeOutput> {
     const userMessage = input.userMessage;
     const characterId = input.characterId;
+    const dialogueId = input.dialogueId || characterId;
     const userInput = input.userInput;
     const memoryLength = input.memoryLength || 10;
+    const depthInsertions: WorldBookDepthInsertion[] =
+      input.worldBookDepthInsertions || [];
 
     if (!userMessage) {
       throw new Error("User message is required for ContextNode");
@@ -42,14 +46,15 @@ export class ContextNode extends NodeBase {
     const result = (await this.executeTool(
       "assembleChatHistory",
       userMessage,
-      characterId,
+      dialogueId,
       memoryLength,
+      depthInsertions,
     )) as { userMessage: string; messages: DialogueMessage[] };
 
     // Generate conversation context for memory system
     const conversationContext = (await this.executeTool(
       "generateConversationContext",
-      characterId,
+      dialogueId,
       userInput || "",
       3, // Use shorter context for memory
     )) as string;
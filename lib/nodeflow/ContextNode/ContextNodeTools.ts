@@ -2,6 +2,20 @@ import { NodeTool } from "@/lib/nodeflow/NodeTool";
 import { LocalCharacterDialogueOperations } from "@/lib/data/roleplay/character-dialogue-operation";
 import { DialogueMessage } from "@/lib/models/character-dialogue-model";
 import { DialogueStory } from "@/lib/core/character-history";
+import { LocalCharacterRecordOperations } from "@/lib/data/roleplay/character-record-operation";
+import { Character } from "@/lib/core/character";
+import {
+  WorldBookDepthInsertion,
+  WorldBookManager,
+} from "@/lib/core/world-book";
+import { WorldBookRole } from "@/lib/models/world-book-model";
+
+/** Labels match the ones DialogueStory gives chat lines */
+const DEPTH_ROLE_LABELS: Record<WorldBookRole, string> = {
+  system: "System",
+  user: "User",
+  assistant: "Character",
+};
 
 export class ContextNodeTools extends NodeTool {
   protected static readonly toolType: string = "context";
@@ -43,18 +57,23 @@ export class ContextNodeTools extends NodeTool {
 
   static async assembleChatHistory(
     userMessage: string,
-    characterId: string,
+    dialogueId: string,
     memoryLength: number = 10,
+    depthInsertions: WorldBookDepthInsertion[] = [],
   ): Promise<{ userMessage: string; messages: DialogueMessage[] }> {
     try {
       if (!userMessage.includes("{{chatHistory}}")) {
-        return { userMessage, messages: [] };
+        return {
+          userMessage: this.appendAfterUserInput(userMessage, depthInsertions),
+          messages: [],
+        };
       }
 
-      const historyData = await this.loadCharacterHistory(characterId);
+      const historyData = await this.loadCharacterHistory(dialogueId);
       const chatHistoryContent = this.formatChatHistory(
         historyData,
         memoryLength,
+        depthInsertions,
       );
 
       const assembledUserMessage = userMessage.replace(
@@ -62,7 +81,7 @@ export class ContextNodeTools extends NodeTool {
         chatHistoryContent,
       );
 
-      console.log(`Assembled chat history for character ${characterId}`);
+      console.log(`Assembled chat history for dialogue ${dialogueId}`);
 
       return {
         userMessage: assembledUserMessage,
@@ -73,7 +92,27 @@ export class ContextNodeTools extends NodeTool {
     }
   }
 
-  static async loadCharacterHistory(characterId: string): Promise<{
+  /**
+   * Without a chat history there is no depth to insert at, so the entries
+   * follow the user input instead
+   */
+  static appendAfterUserInput(
+    userMessage: string,
+    depthInsertions: WorldBookDepthInsertion[],
+  ): string {
+    if (depthInsertions.length === 0) {
+      return userMessage;
+    }
+
+    const content = depthInsertions
+      .map((insertion) => insertion.content)
+      .join("\n\n");
+    return userMessage.includes("</userInput>")
+      ? userMessage.replace("</userInput>", `</userInput>\n\n${content}`)
+      : `${userMessage}\n\n${content}`;
+  }
+
+  static async loadCharacterHistory(dialogueId: string): Promise<{
     systemMessage: string;
     recentDialogue: DialogueStory;
     historyDialogue: DialogueStory;
@@ -84,34 +123,56 @@ export class ContextNodeTools extends NodeTool {
       let systemMessage = "";
 
       const dialogueTree =
-        await LocalCharacterDialogueOperations.getDialogueTreeById(characterId);
+        await LocalCharacterDialogueOperations.getDialogueTreeById(dialogueId);
       if (!dialogueTree) {
-        console.warn(`Dialogue tree not found for character ${characterId}`);
+        console.warn(`Dialogue tree not found: ${dialogueId}`);
         return { systemMessage, recentDialogue, historyDialogue };
       }
 
       const nodePath =
         dialogueTree.current_nodeId !== "root"
           ? await LocalCharacterDialogueOperations.getDialoguePathToNode(
-              characterId,
+              dialogueId,
               dialogueTree.current_nodeId,
             )
           : [];
 
+      // Group chats tag each reply with the member who gave it
+      const speakerNames = new Map<string, string>();
+      const getSpeakerName = async (speakerId?: string) => {
+        if (!speakerId) {
+          return "";
+        }
+        if (!speakerNames.has(speakerId)) {
+          const record =
+            await LocalCharacterRecordOperations.getCharacterById(speakerId);
+          speakerNames.set(
+            speakerId,
+            record ? new Character(record).characterData.name : "",
+          );
+        }
+        return speakerNames.get(speakerId) || "";
+      };
+
       for (const node of nodePath) {
         if (node.parentNodeId === "root" && node.assistantResponse) {
-          systemMessage = node.assistantResponse;
+          const speakerName = await getSpeakerName(node.speakerId);
+          systemMessage = speakerName
+            ? `${speakerName}: ${node.assistantResponse}`
+            : node.assistantResponse;
           continue;
         }
-        if (node.userInput) {
-          recentDialogue.userInput.push(node.userInput);
-          historyDialogue.userInput.push(node.userInput);
-        }
-        if (node.assistantResponse) {
-          recentDialogue.responses.push(node.assistantResponse);
-          const compressedContent = node.parsedContent?.compressedContent || "";
-          historyDialogue.responses.push(compressedContent);
-        }
+        // A group member can speak without new user input, so inputs and
+        // responses are pushed in pairs to keep them aligned
+        const speakerName = await getSpeakerName(node.speakerId);
+        recentDialogue.userInput.push(node.userInput || "");
+        recentDialogue.responses.push(node.assistantResponse || "");
+        recentDialogue.speakers.push(speakerName);
+        historyDialogue.userInput.push(node.userInput || "");
+        historyDialogue.responses.push(
+          node.parsedContent?.compressedContent || "",
+        );
+        historyDialogue.speakers.push(speakerName);
       }
 
       return { systemMessage, recentDialogue, historyDialogue };
@@ -127,6 +188,7 @@ export class ContextNodeTools extends NodeTool {
       historyDialogue: DialogueStory;
     },
     memoryLength: number,
+    depthInsertions: WorldBookDepthInsertion[] = [],
   ): string {
     try {
       const parts: string[] = [];
@@ -147,10 +209,20 @@ export class ContextNodeTools extends NodeTool {
         parts.push(`历史信息：${compressedHistory}`);
       }
 
-      // Use DialogueStory.getStory directly for recent history
-      const recentHistory = historyData.recentDialogue.getStory(
-        Math.max(0, historyData.recentDialogue.userInput.length - memoryLength),
-      );
+      // World book entries set to a depth sit among the recent messages
+      const recentHistory = WorldBookManager.insertAtDepth(
+        historyData.recentDialogue.getMessageLines(
+          Math.max(
+            0,
+            historyData.recentDialogue.userInput.length - memoryLength,
+          ),
+        ),
+        depthInsertions,
+        (insertion) =>
+          `${DEPTH_ROLE_LABELS[insertion.role]}: ${insertion.content}`,
+      )
+        .join("\n")
+        .trim();
       if (recentHistory) {
         parts.push(`最近故事：${recentHistory}`);
       }
@@ -165,12 +237,12 @@ export class ContextNodeTools extends NodeTool {
    * Generate conversation context for memory system
    */
   static async generateConversationContext(
-    characterId: string,
+    dialogueId: string,
     currentUserInput: string,
     memoryLength: number = 3,
   ): Promise<string> {
     try {
-      const historyData = await this.loadCharacterHistory(characterId);
+      const historyData = await this.loadCharacterHistory(dialogueId);
 
       // Get recent dialogue for context using DialogueStory.getStory directly
       const recentHistory = historyData.recentDialogue.getStory(
@@ -56,6 +56,7 @@ export class MemoryNodeTools extends NodeTool {
     topK: number = 5,
     includeTypes?: MemoryType[],
     useSemanticSearch: boolean = true,
+    dialogueId?: string,
   ): Promise<any> {
     try {
       const memoryManager = new MemoryManager(apiKey, baseUrl);
@@ -65,6 +66,7 @@ export class MemoryNodeTools extends NodeTool {
           topK,
           includeTypes,
           similarityThreshold: 0.6,
+          dialogueId,
         });
 
         return {
@@ -85,6 +87,7 @@ export class MemoryNodeTools extends NodeTool {
         const entries = await LocalMemoryOperations.searchMemoriesByText({
           query,
           characterId,
+          dialogueId,
           types: includeTypes,
           maxResults: topK,
         });
@@ -127,6 +130,7 @@ export class MemoryNodeTools extends NodeTool {
     tags: string[] = [],
     importance: number = 0.5,
     metadata: any = {},
+    dialogueId?: string,
   ): Promise<any> {
     try {
       const memoryManager = new MemoryManager(apiKey, baseUrl);
@@ -138,6 +142,7 @@ export class MemoryNodeTools extends NodeTool {
         metadata,
         tags,
         importance,
+        dialogueId,
       );
 
       return {
@@ -193,6 +198,7 @@ export class MemoryNodeTools extends NodeTool {
     baseUrl?: string,
     language: "zh" | "en" = "zh",
     maxMemories: number = 5,
+    dialogueId?: string,
   ): Promise<{
     enhancedSystemMessage: string;
     memoryPrompt: string;
@@ -209,6 +215,7 @@ export class MemoryNodeTools extends NodeTool {
         maxMemories,
         undefined, // includeTypes
         true, // useSemanticSearch
+        dialogueId,
       );
 
       if (!searchResult.success) {
@@ -254,6 +261,7 @@ export class MemoryNodeTools extends NodeTool {
     apiKey: string,
     baseUrl?: string,
     language: "zh" | "en" = "zh",
+    dialogueId?: string,
   ): Promise<{
     success: boolean;
     extractedCount: number;
@@ -282,6 +290,7 @@ export class MemoryNodeTools extends NodeTool {
             source: "conversation_extraction",
             context: conversationContext,
           },
+          dialogueId,
         );
 
         if (result.success) {
@@ -320,6 +329,7 @@ export class MemoryNodeTools extends NodeTool {
             source: "conversation_extraction",
             context: conversationContext,
           },
+          dialogueId,
         );
 
         if (result.success) {
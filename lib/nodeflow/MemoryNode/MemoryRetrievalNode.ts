@@ -32,6 +32,7 @@ export class MemoryRetrievalNode extends NodeBase {
     const baseUrl = input.baseUrl;
     const language = input.language || "zh";
     const maxMemories = input.maxMemories || 5;
+    const dialogueId = input.dialogueId || characterId;
 
     if (!characterId) {
       throw new Error("Character ID is required for MemoryRetrievalNode");
@@ -55,6 +56,7 @@ export class MemoryRetrievalNode extends NodeBase {
       baseUrl,
       language,
       maxMemories,
+      dialogueId,
     )) as {
       enhancedSystemMessage: string;
       memoryPrompt: string;
@@ -68,6 +70,7 @@ export class MemoryRetrievalNode extends NodeBase {
       retrievedMemories: result.retrievedMemories,
       memoryCount: result.memoryCount,
       characterId,
+      dialogueId,
       userInput,
       language,
       username: input.username,
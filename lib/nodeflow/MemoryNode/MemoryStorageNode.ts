@@ -26,6 +26,7 @@ export class MemoryStorageNode extends NodeBase {
 
   protected async _call(input: NodeInput): Promise<NodeOutput> {
     const characterId = input.characterId;
+    const dialogueId = input.dialogueId || characterId;
     const userInput = input.userInput || "";
     const fullResponse = input.fullResponse || input.replacedText || "";
     const conversationContext = input.conversationContext || "";
@@ -89,6 +90,7 @@ export class MemoryStorageNode extends NodeBase {
         apiKey,
         baseUrl,
         language,
+        dialogueId,
       )) as {
         success: boolean;
         extractedCount: number;
@@ -27,6 +27,7 @@ export class PresetNode extends NodeBase {
     const characterId = input.characterId;
     const language = input.language || "zh";
     const username = input.username;
+    const personaId = input.personaId;
     const charName = input.charName;
     const number = input.number;
     const fastModel = input.fastModel;
@@ -45,6 +46,7 @@ export class PresetNode extends NodeBase {
       number,
       fastModel,
       systemPresetType,
+      personaId,
     )) as { systemMessage: string; userMessage: string; presetId?: string };
 
     return {
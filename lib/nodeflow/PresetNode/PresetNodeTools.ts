@@ -3,6 +3,7 @@ import { PresetOperations } from "@/lib/data/roleplay/preset-operation";
 import { PresetAssembler } from "@/lib/core/preset-assembler";
 import { LocalCharacterRecordOperations } from "@/lib/data/roleplay/character-record-operation";
 import { Character } from "@/lib/core/character";
+import { PersonaOperations } from "@/lib/data/roleplay/persona-operation";
 
 export class PresetNodeTools extends NodeTool {
   protected static readonly toolType: string = "preset";
@@ -50,6 +51,7 @@ export class PresetNodeTools extends NodeTool {
     number?: number,
     fastModel: boolean = true,
     systemPresetType: "mirror_realm" | "novel_king" = "mirror_realm",
+    personaId?: string,
   ): Promise<{
     systemMessage: string;
     userMessage: string;
@@ -63,6 +65,10 @@ export class PresetNodeTools extends NodeTool {
       }
       const character = new Character(characterRecord);
 
+      const persona = personaId
+        ? await PersonaOperations.getPersona(personaId)
+        : null;
+
       const allPresets = await PresetOperations.getAllPresets();
       const enabledPreset = allPresets.find(
         (preset) => preset.enabled === true,
@@ -95,6 +101,10 @@ export class PresetNodeTools extends NodeTool {
           username,
           charName: charName || character.characterData.name,
           number,
+          systemPrompt: character.characterData.system_prompt,
+          postHistoryInstructions:
+            character.characterData.post_history_instructions,
+          persona: persona?.description,
         },
         systemPresetType,
       );
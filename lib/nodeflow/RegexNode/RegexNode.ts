@@ -26,6 +26,7 @@ export class RegexNode extends NodeBase {
   protected async _call(input: NodeInput): Promise<NodeOutput> {
     let llmResponse = input.llmResponse;
     const characterId = input.characterId;
+    const groupMemberIds: string[] = input.groupMemberIds || [];
 
     if (!llmResponse) {
       throw new Error("LLM response is required for RegexNode");
@@ -90,6 +91,7 @@ export class RegexNode extends NodeBase {
       "processRegex",
       mainContent,
       characterId,
+      groupMemberIds,
     )) as { replacedText: string };
 
     return {
@@ -39,13 +39,19 @@ export class RegexNodeTools extends NodeTool {
     }
   }
 
+  /**
+   * Runs the character's and the global regex scripts over a response. In a
+   * group chat the other members' scripts run too.
+   */
   static async processRegex(
     response: string,
     characterId: string,
+    groupMemberIds: string[] = [],
   ): Promise<{ replacedText: string }> {
     try {
       const result = await RegexProcessor.processFullContext(response, {
         ownerId: characterId,
+        extraOwnerIds: groupMemberIds,
       });
 
       return {
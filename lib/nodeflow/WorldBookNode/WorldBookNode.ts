@@ -6,6 +6,11 @@ import {
   NodeCategory,
 } from "@/lib/nodeflow/types";
 import { WorldBookNodeTools } from "./WorldBookNodeTools";
+import { WorldBookDepthInsertion } from "@/lib/core/world-book";
+import {
+  WorldBookActivationTrace,
+  WorldBookTimers,
+} from "@/lib/models/world-book-model";
 import { NodeToolRegistry } from "../NodeTool";
 
 export class WorldBookNode extends NodeBase {
@@ -28,8 +33,11 @@ export class WorldBookNode extends NodeBase {
     const systemMessage = input.systemMessage;
     const userMessage = input.userMessage;
     const characterId = input.characterId;
+    const dialogueId = input.dialogueId || characterId;
     const language = input.language || "zh";
     const username = input.username;
+    const personaId = input.personaId;
+    const groupMemberIds: string[] = input.groupMemberIds || [];
     const charName = input.charName;
     const currentUserInput = input.currentUserInput || "";
     const contextWindow = input.contextWindow || 5;
@@ -51,12 +59,25 @@ export class WorldBookNode extends NodeBase {
       contextWindow,
       username,
       charName,
-    )) as { systemMessage: string; userMessage: string };
+      dialogueId,
+      personaId,
+      groupMemberIds,
+    )) as {
+      systemMessage: string;
+      userMessage: string;
+      depthInsertions: WorldBookDepthInsertion[];
+      timers: WorldBookTimers;
+      trace: WorldBookActivationTrace;
+    };
 
     return {
       systemMessage: result.systemMessage,
       userMessage: result.userMessage,
+      worldBookDepthInsertions: result.depthInsertions,
+      worldBookTimers: result.timers,
+      worldBookTrace: result.trace,
       characterId,
+      dialogueId,
       language,
       username,
       charName,
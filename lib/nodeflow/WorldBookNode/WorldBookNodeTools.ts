@@ -1,9 +1,18 @@
 import { NodeTool } from "@/lib/nodeflow/NodeTool";
 import { Character } from "@/lib/core/character";
 import { PromptAssembler } from "@/lib/core/prompt-assembler";
+import { WorldBookDepthInsertion } from "@/lib/core/world-book";
 import { DialogueMessage } from "@/lib/models/character-dialogue-model";
+import { DialogueNode } from "@/lib/models/node-model";
+import {
+  WorldBookActivationTrace,
+  WorldBookEntry,
+  WorldBookTimers,
+} from "@/lib/models/world-book-model";
 import { LocalCharacterRecordOperations } from "@/lib/data/roleplay/character-record-operation";
 import { LocalCharacterDialogueOperations } from "@/lib/data/roleplay/character-dialogue-operation";
+import { PersonaOperations } from "@/lib/data/roleplay/persona-operation";
+import { WorldBookOperations } from "@/lib/data/roleplay/world-book-operation";
 
 export class WorldBookNodeTools extends NodeTool {
   protected static readonly toolType: string = "worldBook";
@@ -52,7 +61,16 @@ export class WorldBookNodeTools extends NodeTool {
     contextWindow: number = 5,
     username?: string,
     charName?: string,
-  ): Promise<{ systemMessage: string; userMessage: string }> {
+    dialogueId: string = characterId,
+    personaId?: string,
+    groupMemberIds: string[] = [],
+  ): Promise<{
+    systemMessage: string;
+    userMessage: string;
+    depthInsertions: WorldBookDepthInsertion[];
+    timers: WorldBookTimers;
+    trace: WorldBookActivationTrace;
+  }> {
     try {
       const characterRecord =
         await LocalCharacterRecordOperations.getCharacterById(characterId);
@@ -63,15 +81,30 @@ export class WorldBookNodeTools extends NodeTool {
       
       const character = new Character(characterRecord);
 
-      const chatHistory = await this.getChatHistory(characterId, contextWindow);
+      const scanSettings = await this.getScanSettings(character);
+      const branch = await this.getBranch(dialogueId);
+      const chatHistory = this.getChatHistory(
+        branch,
+        Math.max(contextWindow * 2, scanSettings.scanDepth || 0),
+      );
+      const worldBook = await this.withPersonaEntries(
+        await this.withGroupEntries(
+          character.worldBook,
+          characterId,
+          groupMemberIds,
+        ),
+        personaId,
+      );
 
       const promptAssembler = new PromptAssembler({
         language,
         contextWindow,
+        ...scanSettings,
+        ...this.getTimedEffectState(branch),
       });
 
       const result = promptAssembler.assemblePrompt(
-        character.worldBook,
+        worldBook,
         baseSystemMessage,
         userMessage,
         chatHistory,
@@ -85,55 +118,148 @@ export class WorldBookNodeTools extends NodeTool {
     }
   }
 
-  private static async getChatHistory(
+  /**
+   * Scan depth, token budget and recursion as set in the world book editor,
+   * falling back to the card's own lorebook settings
+   */
+  private static async getScanSettings(character: Character): Promise<{
+    scanDepth?: number;
+    tokenBudget?: number;
+    recursiveScanning?: boolean;
+  }> {
+    const settings = await WorldBookOperations.getWorldBookSettings(
+      character.id,
+    );
+    const cardSettings = character.worldBookSettings;
+    return {
+      scanDepth: settings.scanDepth ?? cardSettings.scan_depth,
+      tokenBudget: settings.tokenBudget ?? cardSettings.token_budget,
+      recursiveScanning:
+        settings.recursiveScanning ?? cardSettings.recursive_scanning,
+    };
+  }
+
+  /**
+   * The persona's own entries are scanned alongside the character's, under
+   * ids that cannot clash with the character's timers
+   */
+  private static async withPersonaEntries(
+    worldBook: WorldBookEntry[] | Record<string, WorldBookEntry>,
+    personaId?: string,
+  ): Promise<WorldBookEntry[] | Record<string, WorldBookEntry>> {
+    const persona = personaId
+      ? await PersonaOperations.getPersona(personaId)
+      : null;
+    const personaEntries = Object.entries(persona?.worldBook || {}).map(
+      ([key, entry]) => ({ ...entry, entry_id: `persona:${personaId}:${key}` }),
+    );
+    if (personaEntries.length === 0) {
+      return worldBook;
+    }
+    return [...Object.values(worldBook || {}), ...personaEntries];
+  }
+
+  /**
+   * In a group chat every member's world book is scanned, not only the
+   * speaker's. Entry ids are prefixed with the member's id so that each
+   * member's timers stay apart whoever is speaking.
+   */
+  private static async withGroupEntries(
+    worldBook: WorldBookEntry[] | Record<string, WorldBookEntry>,
     characterId: string,
-    contextWindow: number = 5,
-  ): Promise<DialogueMessage[]> {
+    groupMemberIds: string[],
+  ): Promise<WorldBookEntry[] | Record<string, WorldBookEntry>> {
+    if (groupMemberIds.length === 0) {
+      return worldBook;
+    }
+    const withMemberIds = (
+      memberId: string,
+      memberBook: WorldBookEntry[] | Record<string, WorldBookEntry>,
+    ) =>
+      Object.values(memberBook || {}).map((entry) => ({
+        ...entry,
+        entry_id: `${memberId}:${entry.entry_id}`,
+      }));
+
+    const entries = withMemberIds(characterId, worldBook);
+    for (const memberId of groupMemberIds) {
+      if (memberId === characterId) {
+        continue;
+      }
+      const record =
+        await LocalCharacterRecordOperations.getCharacterById(memberId);
+      if (record) {
+        entries.push(
+          ...withMemberIds(memberId, new Character(record).worldBook),
+        );
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * The nodes from the chat's first message to its current one
+   */
+  private static async getBranch(dialogueId: string): Promise<DialogueNode[]> {
     try {
       const dialogueTree =
-        await LocalCharacterDialogueOperations.getDialogueTreeById(characterId);
-      if (!dialogueTree) {
+        await LocalCharacterDialogueOperations.getDialogueTreeById(dialogueId);
+      if (!dialogueTree || dialogueTree.current_nodeId === "root") {
         return [];
       }
+      return await LocalCharacterDialogueOperations.getDialoguePathToNode(
+        dialogueId,
+        dialogueTree.current_nodeId,
+      );
+    } catch (error) {
+      this.handleError(error as Error, "getBranch");
+      return [];
+    }
+  }
+
+  /**
+   * The turn the reply is for and the timers the branch's last reply left,
+   * so that switching branches brings back that branch's timers
+   */
+  private static getTimedEffectState(branch: DialogueNode[]): {
+    turn: number;
+    timers: WorldBookTimers;
+  } {
+    return {
+      turn: branch.filter((node) => node.userInput).length + 1,
+      timers: branch[branch.length - 1]?.worldBookTimers || {},
+    };
+  }
 
-      const nodePath =
-        dialogueTree.current_nodeId !== "root"
-          ? await LocalCharacterDialogueOperations.getDialoguePathToNode(
-              characterId,
-              dialogueTree.current_nodeId,
-            )
-          : [];
-
-      const messages: DialogueMessage[] = [];
-      let messageId = 0;
-
-      for (const node of nodePath) {
-        if (node.parentNodeId === "root" && node.assistantResponse) {
-          continue;
-        }
-
-        if (node.userInput) {
-          messages.push({
-            role: "user",
-            content: node.userInput,
-            id: messageId++,
-          });
-        }
-
-        if (node.assistantResponse) {
-          messages.push({
-            role: "assistant",
-            content: node.assistantResponse,
-            id: messageId++,
-          });
-        }
+  private static getChatHistory(
+    nodePath: DialogueNode[],
+    messageLimit: number = 10,
+  ): DialogueMessage[] {
+    const messages: DialogueMessage[] = [];
+    let messageId = 0;
+
+    for (const node of nodePath) {
+      if (node.parentNodeId === "root" && node.assistantResponse) {
+        continue;
       }
 
-      const recentMessages = messages.slice(-contextWindow * 2);
-      return recentMessages;
-    } catch (error) {
-      this.handleError(error as Error, "getChatHistory");
-      return [];
+      if (node.userInput) {
+        messages.push({
+          role: "user",
+          content: node.userInput,
+          id: messageId++,
+        });
+      }
+
+      if (node.assistantResponse) {
+        messages.push({
+          role: "assistant",
+          content: node.assistantResponse,
+          id: messageId++,
+        });
+      }
     }
+
+    return messages.slice(-messageLimit);
   }
 }
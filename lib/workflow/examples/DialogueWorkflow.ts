@@ -10,10 +10,16 @@ import { OutputNode } from "@/lib/nodeflow/OutputNode/OutputNode";
 
 export interface DialogueWorkflowParams {
   characterId: string;
+  /** Chat being continued; defaults to the character's first chat */
+  dialogueId?: string;
   userInput: string;
   number?: number;
   language?: "zh" | "en";
   username?: string;
+  /** Persona the user plays as; its description fills `{{persona}}` */
+  personaId?: string;
+  /** Members of the group chat being continued; `characterId` is the speaker */
+  groupMemberIds?: string[];
   modelName: string;
   apiKey: string;
   baseUrl?: string;
@@ -71,10 +77,13 @@ export class DialogueWorkflow extends BaseWorkflow {
           next: ["preset-1"],
           initParams: [
             "characterId",
+            "dialogueId",
             "userInput",
             "number",
             "language",
             "username",
+            "personaId",
+            "groupMemberIds",
             "modelName",
             "apiKey",
             "baseUrl",
@@ -87,10 +96,13 @@ export class DialogueWorkflow extends BaseWorkflow {
           inputFields: [],
           outputFields: [
             "characterId",
+            "dialogueId",
             "userInput",
             "number",
             "language",
             "username",
+            "personaId",
+            "groupMemberIds",
             "modelName",
             "apiKey",
             "baseUrl",
@@ -105,12 +117,13 @@ export class DialogueWorkflow extends BaseWorkflow {
           id: "preset-1",
           name: "preset",
           category: NodeCategory.MIDDLE,
-          next: ["context-1"],
+          next: ["world-book-1"],
           initParams: [],
           inputFields: [
             "characterId",
             "language",
             "username",
+            "personaId",
             "number",
             "fastModel",
             "systemPresetType",
@@ -121,26 +134,41 @@ export class DialogueWorkflow extends BaseWorkflow {
           id: "context-1",
           name: "context",
           category: NodeCategory.MIDDLE,
-          next: ["world-book-1"],
+          next: ["llm-1"],
           initParams: [],
-          inputFields: ["userMessage", "characterId", "userInput"],
+          inputFields: [
+            "userMessage",
+            "characterId",
+            "dialogueId",
+            "userInput",
+            "worldBookDepthInsertions",
+          ],
           outputFields: ["userMessage"],
         },
         {
           id: "world-book-1",
           name: "worldBook",
           category: NodeCategory.MIDDLE,
-          next: ["llm-1"],
+          next: ["context-1"],
           initParams: [],
           inputFields: [
             "systemMessage",
             "userMessage",
             "characterId",
+            "dialogueId",
             "language",
             "username",
+            "personaId",
+            "groupMemberIds",
             "userInput",
           ],
-          outputFields: ["systemMessage", "userMessage"],
+          outputFields: [
+            "systemMessage",
+            "userMessage",
+            "worldBookDepthInsertions",
+            "worldBookTimers",
+            "worldBookTrace",
+          ],
           inputMapping: {
             userInput: "currentUserInput",
           },
@@ -170,7 +198,7 @@ export class DialogueWorkflow extends BaseWorkflow {
           category: NodeCategory.MIDDLE,
           next: ["output-1"],
           initParams: [],
-          inputFields: ["llmResponse", "characterId"],
+          inputFields: ["llmResponse", "characterId", "groupMemberIds"],
           outputFields: [
             "thinkingContent",
             "screenContent",
@@ -191,6 +219,8 @@ export class DialogueWorkflow extends BaseWorkflow {
             "fullResponse",
             "nextPrompts",
             "event",
+            "worldBookTimers",
+            "worldBookTrace",
           ],
           outputFields: [
             "thinkingContent",
@@ -198,6 +228,8 @@ export class DialogueWorkflow extends BaseWorkflow {
             "fullResponse",
             "nextPrompts",
             "event",
+            "worldBookTimers",
+            "worldBookTrace",
           ],
         },
       ],
@@ -35,10 +35,16 @@ import { MemoryStorageNode } from "@/lib/nodeflow/MemoryNode/MemoryStorageNode";
 
 export interface CorrectRAGWorkflowParams {
   characterId: string;
+  /** Chat being continued; defaults to the character's first chat */
+  dialogueId?: string;
   userInput: string;
   number?: number;
   language?: "zh" | "en";
   username?: string;
+  /** Persona the user plays as; its description fills `{{persona}}` */
+  personaId?: string;
+  /** Members of the group chat being continued; `characterId` is the speaker */
+  groupMemberIds?: string[];
   modelName: string;
   apiKey: string;
   baseUrl?: string;
@@ -104,10 +110,13 @@ export class CorrectRAGWorkflow extends BaseWorkflow {
           next: ["preset-1"],
           initParams: [
             "characterId",
+            "dialogueId",
             "userInput",
             "number",
             "language",
             "username",
+            "personaId",
+            "groupMemberIds",
             "modelName",
             "apiKey",
             "baseUrl",
@@ -121,10 +130,13 @@ export class CorrectRAGWorkflow extends BaseWorkflow {
           inputFields: [],
           outputFields: [
             "characterId",
+            "dialogueId",
             "userInput",
             "number",
             "language",
             "username",
+            "personaId",
+            "groupMemberIds",
             "modelName",
             "apiKey",
             "baseUrl",
@@ -140,12 +152,13 @@ export class CorrectRAGWorkflow extends BaseWorkflow {
           id: "preset-1",
           name: "preset",
           category: NodeCategory.MIDDLE,
-          next: ["context-1"],
+          next: ["world-book-1"],
           initParams: [],
           inputFields: [
             "characterId",
             "language",
             "username",
+            "personaId",
             "number",
             "fastModel",
           ],
@@ -157,17 +170,24 @@ export class CorrectRAGWorkflow extends BaseWorkflow {
           category: NodeCategory.MIDDLE,
           next: ["memory-retrieval-1"],
           initParams: [],
-          inputFields: ["userMessage", "characterId", "userInput"],
+          inputFields: [
+            "userMessage",
+            "characterId",
+            "dialogueId",
+            "userInput",
+            "worldBookDepthInsertions",
+          ],
           outputFields: ["userMessage", "conversationContext"],
         },
         {
           id: "memory-retrieval-1",
           name: "memoryRetrieval",
           category: NodeCategory.MIDDLE,
-          next: ["world-book-1"],
+          next: ["llm-1"],
           initParams: [],
           inputFields: [
             "characterId",
+            "dialogueId",
             "userInput",
             "systemMessage",
             "apiKey",
@@ -182,17 +202,26 @@ export class CorrectRAGWorkflow extends BaseWorkflow {
           id: "world-book-1",
           name: "worldBook",
           category: NodeCategory.MIDDLE,
-          next: ["llm-1"],
+          next: ["context-1"],
           initParams: [],
           inputFields: [
             "systemMessage",
             "userMessage",
             "characterId",
+            "dialogueId",
             "language",
             "username",
+            "personaId",
+            "groupMemberIds",
             "userInput",
           ],
-          outputFields: ["systemMessage", "userMessage"],
+          outputFields: [
+            "systemMessage",
+            "userMessage",
+            "worldBookDepthInsertions",
+            "worldBookTimers",
+            "worldBookTrace",
+          ],
           inputMapping: {
             userInput: "currentUserInput",
           },
@@ -222,7 +251,7 @@ export class CorrectRAGWorkflow extends BaseWorkflow {
           category: NodeCategory.MIDDLE,
           next: ["output-1"],
           initParams: [],
-          inputFields: ["llmResponse", "characterId"],
+          inputFields: ["llmResponse", "characterId", "groupMemberIds"],
           outputFields: [
             "replacedText",
             "screenContent",
@@ -244,6 +273,8 @@ export class CorrectRAGWorkflow extends BaseWorkflow {
             "nextPrompts",
             "event",
             "presetId",
+            "worldBookTimers",
+            "worldBookTrace",
           ],
           outputFields: [
             "replacedText",
@@ -252,6 +283,8 @@ export class CorrectRAGWorkflow extends BaseWorkflow {
             "nextPrompts",
             "event",
             "presetId",
+            "worldBookTimers",
+            "worldBookTrace",
           ], // User receives immediate response with these fields
         },
         {
@@ -263,6 +296,7 @@ export class CorrectRAGWorkflow extends BaseWorkflow {
           inputFields: [
             // AFTER nodes have access to all data from the main workflow context
             "characterId",
+            "dialogueId",
             "userInput",
             "fullResponse",
             "conversationContext",
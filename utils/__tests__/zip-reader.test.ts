@@ -0,0 +1,201 @@
+import { describe, it, expect } from "vitest";
+import { deflateRawSync } from "zlib";
+import { isZip, readZipEntries } from "@/utils/zip-reader";
+import { detectCardFormat, parseCharacterCard } from "@/utils/character-parser";
+
+interface TestEntry {
+  name: string;
+  content: string | Uint8Array;
+  deflate?: boolean;
+  /** Sizes follow the data in a descriptor instead of the local header */
+  descriptor?: boolean;
+}
+
+const encoder = new TextEncoder();
+
+/** Writes a ZIP the way card editors do; CRCs are left at 0 as the reader ignores them */
+function buildZip(entries: TestEntry[]): Uint8Array {
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const raw =
+      typeof entry.content === "string"
+        ? encoder.encode(entry.content)
+        : entry.content;
+    const data = entry.deflate ? new Uint8Array(deflateRawSync(raw)) : raw;
+    const method = entry.deflate ? 8 : 0;
+    const flags = entry.descriptor ? 0x8 : 0;
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, flags, true);
+    local.setUint16(8, method, true);
+    local.setUint32(18, entry.descriptor ? 0 : data.length, true);
+    local.setUint32(22, entry.descriptor ? 0 : raw.length, true);
+    local.setUint16(26, name.length, true);
+    parts.push(new Uint8Array(local.buffer), name, data);
+    let size = 30 + name.length + data.length;
+
+    if (entry.descriptor) {
+      const descriptor = new DataView(new ArrayBuffer(16));
+      descriptor.setUint32(0, 0x08074b50, true);
+      descriptor.setUint32(8, data.length, true);
+      descriptor.setUint32(12, raw.length, true);
+      parts.push(new Uint8Array(descriptor.buffer));
+      size += 16;
+    }
+
+    const header = new DataView(new ArrayBuffer(46));
+    header.setUint32(0, 0x02014b50, true);
+    header.setUint16(4, 20, true);
+    header.setUint16(6, 20, true);
+    header.setUint16(8, flags, true);
+    header.setUint16(10, method, true);
+    header.setUint32(20, data.length, true);
+    header.setUint32(24, raw.length, true);
+    header.setUint16(28, name.length, true);
+    header.setUint32(42, offset, true);
+    central.push(new Uint8Array(header.buffer), name);
+    offset += size;
+  }
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const all = [...parts, ...central, new Uint8Array(end.buffer)];
+  const zip = new Uint8Array(all.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  for (const part of all) {
+    zip.set(part, position);
+    position += part.length;
+  }
+  return zip;
+}
+
+async function readText(buffer: Uint8Array, name: string): Promise<string> {
+  const entry = readZipEntries(buffer.slice().buffer).find(
+    (item) => item.name === name,
+  );
+  if (!entry) throw new Error(`Missing entry ${name}`);
+  return new TextDecoder().decode(await entry.read());
+}
+
+const card = {
+  spec: "chara_card_v3",
+  spec_version: "3.0",
+  data: {
+    name: "Aria",
+    assets: [
+      { type: "icon", uri: "embeded://assets/icon/main.png", name: "main", ext: "png" },
+      { type: "emotion", uri: "embeded://assets/emotion/smile.png", name: "smile", ext: "png" },
+    ],
+  },
+};
+
+describe("readZipEntries", () => {
+  it("reads stored and deflated entries", async () => {
+    const zip = buildZip([
+      { name: "stored.txt", content: "plain text" },
+      { name: "deflated.txt", content: "squeezed ".repeat(50), deflate: true },
+    ]);
+
+    expect(isZip(zip)).toBe(true);
+    expect(await readText(zip, "stored.txt")).toBe("plain text");
+    expect(await readText(zip, "deflated.txt")).toBe("squeezed ".repeat(50));
+  });
+
+  it("takes sizes from the central directory when a data descriptor is used", async () => {
+    const zip = buildZip([
+      { name: "card.json", content: "{\"a\":1}", deflate: true, descriptor: true },
+      { name: "after.txt", content: "next entry" },
+    ]);
+
+    expect(await readText(zip, "card.json")).toBe("{\"a\":1}");
+    expect(await readText(zip, "after.txt")).toBe("next entry");
+  });
+
+  it("skips directory entries", () => {
+    const zip = buildZip([
+      { name: "assets/", content: "" },
+      { name: "assets/a.txt", content: "a" },
+    ]);
+
+    expect(readZipEntries(zip.slice().buffer).map((entry) => entry.name)).toEqual([
+      "assets/a.txt",
+    ]);
+  });
+
+  it("rejects a truncated archive", () => {
+    const zip = buildZip([{ name: "card.json", content: "{}" }]);
+
+    expect(() => readZipEntries(zip.slice(0, zip.length - 10).buffer)).toThrow(
+      "Not a ZIP archive",
+    );
+  });
+
+  it("rejects an archive whose central directory offset is wrong", () => {
+    const zip = buildZip([{ name: "card.json", content: "{}" }]).slice().buffer;
+    new DataView(zip).setUint32(zip.byteLength - 6, 3, true);
+
+    expect(() => readZipEntries(zip)).toThrow(
+      "Corrupt ZIP central directory",
+    );
+  });
+});
+
+describe("character card detection", () => {
+  it("reads a JSON card", async () => {
+    const file = new File([JSON.stringify(card)], "aria.json");
+
+    expect(await detectCardFormat(file)).toBe("json");
+    const parsed = await parseCharacterCard(file);
+    expect(parsed.card.data.name).toBe("Aria");
+    expect(parsed.avatar).toBeNull();
+  });
+
+  it("detects JSON by content when the name does not say", async () => {
+    const file = new File([`  ${JSON.stringify(card)}`], "aria.txt");
+
+    expect(await detectCardFormat(file)).toBe("json");
+  });
+
+  it("reads a CharX card with its icon and assets", async () => {
+    const zip = buildZip([
+      { name: "card.json", content: JSON.stringify(card), deflate: true },
+      { name: "assets/icon/main.png", content: new Uint8Array([1, 2, 3]) },
+      { name: "assets/emotion/smile.png", content: new Uint8Array([4, 5]) },
+    ]);
+    const file = new File([zip], "aria.charx");
+
+    expect(await detectCardFormat(file)).toBe("charx");
+    const parsed = await parseCharacterCard(file);
+    expect(parsed.format).toBe("charx");
+    expect(parsed.card.data.name).toBe("Aria");
+    expect(parsed.avatar?.type).toBe("image/png");
+    expect(parsed.avatar?.size).toBe(3);
+    expect(parsed.assets.map((asset) => asset.name)).toEqual(["smile"]);
+  });
+
+  it("rejects a CharX archive without card.json", async () => {
+    const file = new File([buildZip([{ name: "readme.txt", content: "hi" }])], "x.charx");
+
+    await expect(parseCharacterCard(file)).rejects.toThrow(
+      "CharX archive has no card.json",
+    );
+  });
+
+  it("rejects files that are no card format", async () => {
+    const file = new File(["hello"], "notes.txt");
+
+    await expect(detectCardFormat(file)).rejects.toThrow("Unsupported format");
+  });
+});
@@ -1,45 +1,62 @@
 import extract from "png-chunks-extract";
-// import encode from "png-chunks-encode";
+import encode from "png-chunks-encode";
 import PNGtext from "png-chunk-text";
+import { isZip, readZipEntries } from "@/utils/zip-reader";
 
-const encodeBase64 = (str: string): string => {
-  const utf8Bytes = new TextEncoder().encode(str);
-  const binary = String.fromCharCode(...utf8Bytes);
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  // Spreading a whole card into fromCharCode overflows the call stack
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
   return btoa(binary);
 };
 
+const encodeBase64 = (str: string): string =>
+  bytesToBase64(new TextEncoder().encode(str));
+
 const decodeBase64 = (b64: string): string => {
   const binary = atob(b64);
   const bytes = new Uint8Array([...binary].map((char) => char.charCodeAt(0)));
   return new TextDecoder().decode(bytes);
 };
 
-// export const writeCharacterToPng = async (file: File, data: string): Promise<Blob> => {
-//   const buffer = new Uint8Array(await file.arrayBuffer());
-//   const chunks = extract(buffer);
-
-//   const filteredChunks = chunks.filter(chunk => {
-//     if (chunk.name !== "tEXt") return true;
-//     const { keyword } = PNGtext.decode(chunk.data);
-//     return !["chara", "ccv3"].includes(keyword.toLowerCase());
-//   });
-
-//   const base64Data = encodeBase64(data);
-//   filteredChunks.splice(-1, 0, PNGtext.encode("chara", base64Data));
-
-//   try {
-//     const v3Data = JSON.parse(data);
-//     v3Data.spec = "chara_card_v3";
-//     v3Data.spec_version = "3.0";
-//     const base64V3 = encodeBase64(JSON.stringify(v3Data));
-//     filteredChunks.splice(-1, 0, PNGtext.encode("ccv3", base64V3));
-//   } catch (err) {
-//     console.warn("Failed to add ccv3 chunk:", err);
-//   }
-
-//   const newBuffer = encode(filteredChunks);
-//   return new Blob([newBuffer], { type: "image/png" });
-// };
+/**
+ * Returns a copy of the PNG with its card metadata replaced: `chara` holds
+ * the V2 card and `ccv3` the V3 card, both base64-encoded JSON. Asset N is
+ * written as `chara-ext-asset_:N`, for the card to reference as `__asset:N`.
+ */
+export const writeCharacterToPng = async (
+  image: Blob,
+  cardV2: object,
+  cardV3: object,
+  assets: Uint8Array[] = [],
+): Promise<Blob> => {
+  const buffer = new Uint8Array(await image.arrayBuffer());
+  const chunks = extract(buffer);
+
+  const filteredChunks = chunks.filter((chunk) => {
+    if (chunk.name !== "tEXt") return true;
+    const keyword = PNGtext.decode(chunk.data).keyword.toLowerCase();
+    return (
+      !["chara", "ccv3"].includes(keyword) &&
+      !keyword.startsWith("chara-ext-asset_:")
+    );
+  });
+
+  // Text chunks go right before IEND
+  filteredChunks.splice(
+    -1,
+    0,
+    PNGtext.encode("chara", encodeBase64(JSON.stringify(cardV2))),
+    PNGtext.encode("ccv3", encodeBase64(JSON.stringify(cardV3))),
+    ...assets.map((data, index) =>
+      PNGtext.encode(`chara-ext-asset_:${index}`, bytesToBase64(data)),
+    ),
+  );
+
+  return new Blob([encode(filteredChunks)], { type: "image/png" });
+};
 
 export const readCharacterFromPng = async (file: File): Promise<string> => {
   const buffer = new Uint8Array(await file.arrayBuffer());
@@ -58,9 +75,177 @@ export const readCharacterFromPng = async (file: File): Promise<string> => {
   return decodeBase64(raw);
 };
 
-export const parseCharacterCard = async (file: File): Promise<string> => {
-  if (!file.name.toLowerCase().endsWith(".png")) {
-    throw new Error("Unsupported format");
+export type CharacterCardFormat = "png" | "json" | "charx";
+
+export interface ParsedCardAsset {
+  /** URI as written in the card's `assets` list */
+  uri: string;
+  type: string;
+  name: string;
+  ext: string;
+  blob: Blob;
+}
+
+export interface ParsedCharacterCard {
+  format: CharacterCardFormat;
+  card: any;
+  avatar: Blob | null;
+  assets: ParsedCardAsset[];
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const MIME_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  webp: "image/webp",
+  gif: "image/gif",
+  avif: "image/avif",
+  mp3: "audio/mpeg",
+  ogg: "audio/ogg",
+  wav: "audio/wav",
+  mp4: "video/mp4",
+  webm: "video/webm",
+};
+
+const assetBlob = (data: BlobPart, ext: string): Blob =>
+  new Blob([data], {
+    type: MIME_TYPES[ext.toLowerCase()] || "application/octet-stream",
+  });
+
+const getCardAssets = (card: any): any[] =>
+  Array.isArray(card?.data?.assets) ? card.data.assets : [];
+
+const isMainIcon = (asset: any): boolean =>
+  asset?.type === "icon" && asset?.name === "main";
+
+export const detectCardFormat = async (
+  file: File,
+): Promise<CharacterCardFormat> => {
+  const header = new Uint8Array(await file.slice(0, 8).arrayBuffer());
+  if (PNG_SIGNATURE.every((byte, i) => header[i] === byte)) {
+    return "png";
+  }
+  if (isZip(header)) {
+    return "charx";
+  }
+
+  const name = file.name.toLowerCase();
+  const firstChar = (await file.slice(0, 64).text()).trimStart()[0];
+  if (name.endsWith(".json") || firstChar === "{") {
+    return "json";
+  }
+  throw new Error("Unsupported format");
+};
+
+/**
+ * V3 PNG cards may embed assets as `chara-ext-asset_:N` chunks, referenced
+ * from the card as `__asset:N`.
+ */
+const readPngAssets = async (
+  file: File,
+  card: any,
+): Promise<ParsedCardAsset[]> => {
+  const embedded = getCardAssets(card).filter(
+    (asset) => typeof asset?.uri === "string" && asset.uri.startsWith("__asset:"),
+  );
+  if (embedded.length === 0) {
+    return [];
+  }
+
+  const chunks = extract(new Uint8Array(await file.arrayBuffer()));
+  const assetChunks = new Map(
+    chunks
+      .filter((chunk) => chunk.name === "tEXt")
+      .map((chunk) => PNGtext.decode(chunk.data))
+      .filter((chunk) => chunk.keyword.startsWith("chara-ext-asset_:"))
+      .map((chunk) => [chunk.keyword.slice("chara-ext-asset_:".length), chunk.text]),
+  );
+
+  return embedded.flatMap((asset) => {
+    const data = assetChunks.get(asset.uri.slice("__asset:".length));
+    if (!data) return [];
+    const binary = atob(data);
+    const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+    return [
+      {
+        uri: asset.uri,
+        type: asset.type,
+        name: asset.name,
+        ext: asset.ext,
+        blob: assetBlob(bytes, asset.ext || ""),
+      },
+    ];
+  });
+};
+
+/**
+ * CharX is a ZIP with the V3 card in `card.json` and its assets referenced
+ * as `embeded://path/in/archive`. The main icon becomes the avatar.
+ */
+const readCharX = async (file: File): Promise<ParsedCharacterCard> => {
+  const entries = readZipEntries(await file.arrayBuffer());
+  const byName = new Map(entries.map((entry) => [entry.name, entry]));
+
+  const cardEntry = byName.get("card.json");
+  if (!cardEntry) {
+    throw new Error("CharX archive has no card.json");
+  }
+  const card = JSON.parse(new TextDecoder().decode(await cardEntry.read()));
+
+  let avatar: Blob | null = null;
+  const assets: ParsedCardAsset[] = [];
+  const cardAssets = getCardAssets(card);
+  const mainIcon =
+    cardAssets.find(isMainIcon) ||
+    cardAssets.find((asset) => asset?.type === "icon");
+
+  for (const asset of cardAssets) {
+    const match = /^embedd?ed:\/\/(.+)$/.exec(asset?.uri || "");
+    const entry = match && byName.get(match[1]);
+    if (!entry) continue;
+
+    const blob = assetBlob(await entry.read(), asset.ext || "");
+    if (asset === mainIcon) {
+      avatar = blob;
+    } else {
+      assets.push({
+        uri: asset.uri,
+        type: asset.type,
+        name: asset.name,
+        ext: asset.ext,
+        blob,
+      });
+    }
+  }
+
+  return { format: "charx", card, avatar, assets };
+};
+
+export const parseCharacterCard = async (
+  file: File,
+): Promise<ParsedCharacterCard> => {
+  const format = await detectCardFormat(file);
+
+  switch (format) {
+  case "png": {
+    const card = JSON.parse(await readCharacterFromPng(file));
+    return {
+      format,
+      card,
+      avatar: file,
+      assets: await readPngAssets(file, card),
+    };
+  }
+  case "charx":
+    return readCharX(file);
+  case "json":
+    return {
+      format,
+      card: JSON.parse(await file.text()),
+      avatar: null,
+      assets: [],
+    };
   }
-  return readCharacterFromPng(file);
 };